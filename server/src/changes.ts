@@ -0,0 +1,147 @@
+import { getDb } from './db.js';
+
+export interface FileChange {
+  seq: number;
+  path: string;
+  /** For a deletion, the version that was deleted. */
+  version: number | null;
+  encryptedHash: string | null;
+  size: number | null;
+  updatedAt: number;
+  deleted: boolean;
+  /** Device that deleted the file, when it was deleted by a device session. */
+  deviceId: string | null;
+}
+
+interface ChangeRow {
+  seq: number;
+  path: string;
+  version: number | null;
+  encrypted_hash: string | null;
+  size: number | null;
+  changed_at: number;
+  deleted: number;
+  device_id: string | null;
+}
+
+const CHANGE_COLUMNS = 'seq, path, version, encrypted_hash, size, changed_at, deleted, device_id';
+
+function toFileChange(row: ChangeRow): FileChange {
+  return {
+    seq: row.seq,
+    path: row.path,
+    version: row.version,
+    encryptedHash: row.encrypted_hash,
+    size: row.size,
+    updatedAt: row.changed_at,
+    deleted: row.deleted === 1,
+    deviceId: row.device_id,
+  };
+}
+
+/**
+ * Append a change to a user's feed. Only the latest change per path is kept:
+ * a client behind the cursor needs the current state of each path, not every
+ * step in between, and this keeps the feed as small as the set of paths.
+ */
+function appendChange(
+  userId: string,
+  filePath: string,
+  change: { version: number; encryptedHash: string | null; size: number | null; deleted: boolean; deviceId?: string },
+): number {
+  const db = getDb();
+  return db.transaction(() => {
+    db.prepare('DELETE FROM file_changes WHERE user_id = ? AND path = ?').run(userId, filePath);
+    const result = db.prepare(
+      'INSERT INTO file_changes (user_id, path, version, encrypted_hash, size, deleted, device_id, changed_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    ).run(
+      userId,
+      filePath,
+      change.version,
+      change.encryptedHash,
+      change.size,
+      change.deleted ? 1 : 0,
+      change.deviceId ?? null,
+      Date.now(),
+    );
+    return Number(result.lastInsertRowid);
+  })();
+}
+
+export function recordChange(
+  userId: string,
+  filePath: string,
+  current: { version: number; encryptedHash: string; size: number },
+): number {
+  return appendChange(userId, filePath, { ...current, deleted: false });
+}
+
+/**
+ * Record a deletion. The entry doubles as the file's tombstone: it stays in
+ * the feed until every device has acknowledged it, so a device that was
+ * offline can tell a deleted file from one that was never uploaded.
+ */
+export function recordDeletion(userId: string, filePath: string, version: number, deviceId?: string): number {
+  return appendChange(userId, filePath, { version, encryptedHash: null, size: null, deleted: true, deviceId });
+}
+
+/**
+ * The newest sequence number handed out, across all users. AUTOINCREMENT
+ * never reuses a number, so this only grows, even after rows are compacted.
+ */
+export function latestChangeSeq(): number {
+  const row = getDb().prepare("SELECT seq FROM sqlite_sequence WHERE name = 'file_changes'").get() as
+    | { seq: number }
+    | undefined;
+  return row?.seq ?? 0;
+}
+
+/**
+ * Changes after a cursor, oldest first. Returns null when the cursor cannot
+ * have come from this server's feed (it is ahead of every number handed out,
+ * e.g. after the database was restored from a backup); the client must then
+ * start over from a full listing.
+ */
+export function changesSince(userId: string, cursor: number): FileChange[] | null {
+  if (!Number.isInteger(cursor) || cursor < 0 || cursor > latestChangeSeq()) return null;
+
+  const rows = getDb().prepare(
+    `SELECT ${CHANGE_COLUMNS} FROM file_changes WHERE user_id = ? AND seq > ? ORDER BY seq`,
+  ).all(userId, cursor) as ChangeRow[];
+
+  return rows.map(toFileChange);
+}
+
+/** Deletions not yet acknowledged by every device, oldest first. */
+export function listTombstones(userId: string): FileChange[] {
+  const rows = getDb().prepare(
+    `SELECT ${CHANGE_COLUMNS} FROM file_changes WHERE user_id = ? AND deleted = 1 ORDER BY seq`,
+  ).all(userId) as ChangeRow[];
+
+  return rows.map(toFileChange);
+}
+
+/**
+ * Note that a device has applied every change up to a cursor, then drop the
+ * tombstones all of the user's devices are past. Returns the sequence number
+ * tombstones have been collected through, so the device can forget its own
+ * record of those deletions too.
+ */
+export function acknowledgeChanges(userId: string, deviceId: string, cursor: number): number {
+  const db = getDb();
+  return db.transaction(() => {
+    db.prepare(
+      'UPDATE devices SET acked_change_seq = MAX(COALESCE(acked_change_seq, 0), ?) WHERE id = ? AND user_id = ?',
+    ).run(Math.min(cursor, latestChangeSeq()), deviceId, userId);
+
+    // A device that never acknowledged anything holds back every tombstone
+    const row = db.prepare(
+      'SELECT MIN(COALESCE(acked_change_seq, 0)) AS seq FROM devices WHERE user_id = ?',
+    ).get(userId) as { seq: number | null };
+    const collectedThrough = row.seq ?? 0;
+
+    db.prepare('DELETE FROM file_changes WHERE user_id = ? AND deleted = 1 AND seq <= ?')
+      .run(userId, collectedThrough);
+    return collectedThrough;
+  })();
+}
@@ -0,0 +1,88 @@
+import { getDb } from './db.js';
+import { deleteChunkBlob } from './storage.js';
+
+const DATA_DIR = process.env.DATA_DIR || './data';
+const CHUNK_RETENTION_HOURS = Number(process.env.CHUNK_RETENTION_HOURS) || 24;
+
+/** Chunk IDs are keyed BLAKE3 hashes the client computes; the server only checks their shape. */
+export function isValidChunkId(id: unknown): id is string {
+  return typeof id === 'string' && /^[0-9a-f]{64}$/.test(id);
+}
+
+/**
+ * Which of a file's chunks the server doesn't have. Chunks it does have are
+ * touched, so they are not collected between this check and the commit.
+ */
+export function findMissingChunks(userId: string, ids: string[]): string[] {
+  const db = getDb();
+  const touch = db.prepare('UPDATE chunks SET touched_at = ? WHERE user_id = ? AND id = ?');
+  const now = Date.now();
+  return db.transaction(() => ids.filter((id) => touch.run(now, userId, id).changes === 0))();
+}
+
+export function recordChunk(userId: string, id: string, size: number): void {
+  getDb().prepare(
+    'INSERT INTO chunks (user_id, id, size, touched_at) VALUES (?, ?, ?, ?) ON CONFLICT(user_id, id) DO UPDATE SET size = excluded.size, touched_at = excluded.touched_at',
+  ).run(userId, id, size, Date.now());
+}
+
+/** Total stored size of a set of chunks. */
+export function chunksSize(userId: string, ids: string[]): number {
+  const size = getDb().prepare('SELECT size FROM chunks WHERE user_id = ? AND id = ?');
+  let total = 0;
+  for (const id of new Set(ids)) {
+    total += (size.get(userId, id) as { size: number } | undefined)?.size ?? 0;
+  }
+  return total;
+}
+
+/** Note which chunks a version of a file is made of, so they are kept as long as the version is. */
+export function setFileChunks(userId: string, filePath: string, version: number, ids: string[]): void {
+  const db = getDb();
+  const insert = db.prepare('INSERT OR IGNORE INTO file_chunks (user_id, path, version, chunk_id) VALUES (?, ?, ?, ?)');
+  db.transaction(() => {
+    for (const id of ids) insert.run(userId, filePath, version, id);
+  })();
+}
+
+export function dropFileChunks(userId: string, filePath: string, version: number): void {
+  getDb().prepare('DELETE FROM file_chunks WHERE user_id = ? AND path = ? AND version = ?').run(userId, filePath, version);
+}
+
+/** Whether a version of a file was uploaded in chunks, so its blob is the chunk index. */
+export function isChunked(userId: string, filePath: string, version: number): boolean {
+  return getDb().prepare(
+    'SELECT 1 FROM file_chunks WHERE user_id = ? AND path = ? AND version = ? LIMIT 1',
+  ).get(userId, filePath, version) !== undefined;
+}
+
+/** Paths of the files a chunk belongs to, for checking an API key's scope. */
+export function chunkPaths(userId: string, id: string): string[] {
+  const rows = getDb().prepare(
+    'SELECT DISTINCT path FROM file_chunks WHERE user_id = ? AND chunk_id = ?',
+  ).all(userId, id) as Array<{ path: string }>;
+  return rows.map((r) => r.path);
+}
+
+/**
+ * Delete chunks no version of any file is made of. Chunks of an upload that
+ * was interrupted before its commit are kept for CHUNK_RETENTION_HOURS, so
+ * the client can resume it without sending them again.
+ */
+export async function collectChunks(userId: string): Promise<void> {
+  const db = getDb();
+  const cutoff = Date.now() - CHUNK_RETENTION_HOURS * 60 * 60 * 1000;
+  const unreferenced = db.prepare(
+    `SELECT id FROM chunks c WHERE user_id = ? AND touched_at < ?
+     AND NOT EXISTS (SELECT 1 FROM file_chunks f WHERE f.user_id = c.user_id AND f.chunk_id = c.id)`,
+  ).all(userId, cutoff) as Array<{ id: string }>;
+
+  for (const { id } of unreferenced) {
+    db.prepare('DELETE FROM chunks WHERE user_id = ? AND id = ?').run(userId, id);
+    try {
+      await deleteChunkBlob(DATA_DIR, userId, id);
+    } catch {
+      // Blob may already be missing
+    }
+  }
+}
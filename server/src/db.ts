@@ -1,6 +1,7 @@
 import Database from 'better-sqlite3';
 import path from 'node:path';
 import fs from 'node:fs';
+import { upgradeLegacyScope, SCOPE_SYNTAX_VERSION } from './shared/api-keys.js';
 
 let db: Database.Database;
 
@@ -18,6 +19,11 @@ export function initDb(dataDir: string): Database.Database {
       auth_key_hash TEXT NOT NULL,
       salt TEXT NOT NULL,
       encrypted_master_key TEXT NOT NULL,
+      wrapped_vault_key TEXT,
+      credentials_changed_at INTEGER,
+      recovery_auth_hash TEXT,
+      recovery_wrapped_key TEXT,
+      sharing_public_key TEXT,
       created_at INTEGER NOT NULL
     );
 
@@ -27,7 +33,8 @@ export function initDb(dataDir: string): Database.Database {
       name TEXT NOT NULL,
       public_key TEXT NOT NULL DEFAULT '',
       last_seen INTEGER NOT NULL,
-      encrypted_settings TEXT
+      encrypted_settings TEXT,
+      acked_change_seq INTEGER
     );
 
     CREATE TABLE IF NOT EXISTS files (
@@ -42,6 +49,18 @@ export function initDb(dataDir: string): Database.Database {
       UNIQUE(user_id, path)
     );
 
+    CREATE TABLE IF NOT EXISTS file_versions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id),
+      path TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      encrypted_hash TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      archived_at INTEGER NOT NULL,
+      UNIQUE(user_id, path, version)
+    );
+
     CREATE TABLE IF NOT EXISTS api_keys (
       id TEXT PRIMARY KEY,
       user_id TEXT NOT NULL REFERENCES users(id),
@@ -49,8 +68,12 @@ export function initDb(dataDir: string): Database.Database {
       key_hash TEXT NOT NULL,
       scope TEXT NOT NULL,
       permissions TEXT NOT NULL DEFAULT 'read',
+      scope_syntax INTEGER NOT NULL DEFAULT 1,
       created_at INTEGER NOT NULL,
-      revoked_at INTEGER
+      revoked_at INTEGER,
+      expires_at INTEGER,
+      last_used_at INTEGER,
+      request_count INTEGER NOT NULL DEFAULT 0
     );
 
     CREATE TABLE IF NOT EXISTS audit_log (
@@ -64,8 +87,128 @@ export function initDb(dataDir: string): Database.Database {
       details TEXT
     );
 
+    CREATE TABLE IF NOT EXISTS revoked_tokens (
+      token_id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id),
+      expires_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS revoked_devices (
+      device_id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id),
+      revoked_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS pairing_requests (
+      id TEXT PRIMARY KEY,
+      code TEXT NOT NULL,
+      name TEXT NOT NULL,
+      public_key TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      user_id TEXT REFERENCES users(id),
+      device_id TEXT,
+      sealed_payload TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS shares (
+      id TEXT PRIMARY KEY,
+      owner_id TEXT NOT NULL REFERENCES users(id),
+      folder TEXT NOT NULL,
+      wrapped_key TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      UNIQUE(owner_id, folder)
+    );
+
+    CREATE TABLE IF NOT EXISTS share_grants (
+      share_id TEXT NOT NULL REFERENCES shares(id),
+      recipient_id TEXT NOT NULL REFERENCES users(id),
+      permissions TEXT NOT NULL DEFAULT 'read',
+      wrapped_key TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (share_id, recipient_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS share_files (
+      share_id TEXT NOT NULL REFERENCES shares(id),
+      path TEXT NOT NULL,
+      version INTEGER NOT NULL DEFAULT 1,
+      encrypted_hash TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (share_id, path)
+    );
+
+    CREATE TABLE IF NOT EXISTS file_changes (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL REFERENCES users(id),
+      path TEXT NOT NULL,
+      version INTEGER,
+      encrypted_hash TEXT,
+      size INTEGER,
+      deleted INTEGER NOT NULL DEFAULT 0,
+      device_id TEXT,
+      changed_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS teams (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      created_by TEXT NOT NULL REFERENCES users(id),
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS team_members (
+      team_id TEXT NOT NULL REFERENCES teams(id),
+      user_id TEXT NOT NULL REFERENCES users(id),
+      role TEXT NOT NULL DEFAULT 'member',
+      wrapped_key TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (team_id, user_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS team_files (
+      team_id TEXT NOT NULL REFERENCES teams(id),
+      path TEXT NOT NULL,
+      version INTEGER NOT NULL DEFAULT 1,
+      encrypted_hash TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (team_id, path)
+    );
+
+    CREATE TABLE IF NOT EXISTS chunks (
+      user_id TEXT NOT NULL REFERENCES users(id),
+      id TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      touched_at INTEGER NOT NULL,
+      PRIMARY KEY (user_id, id)
+    );
+
+    CREATE TABLE IF NOT EXISTS file_chunks (
+      user_id TEXT NOT NULL REFERENCES users(id),
+      path TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      chunk_id TEXT NOT NULL,
+      PRIMARY KEY (user_id, path, version, chunk_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_file_chunks_chunk
+      ON file_chunks(user_id, chunk_id);
+
+    CREATE INDEX IF NOT EXISTS idx_file_changes_user_seq
+      ON file_changes(user_id, seq);
+
+    CREATE INDEX IF NOT EXISTS idx_file_changes_user_path
+      ON file_changes(user_id, path);
+
+    CREATE INDEX IF NOT EXISTS idx_team_members_user
+      ON team_members(user_id);
+
     CREATE INDEX IF NOT EXISTS idx_audit_log_user_ts
       ON audit_log(user_id, timestamp DESC);
+
+    CREATE INDEX IF NOT EXISTS idx_file_versions_user_path
+      ON file_versions(user_id, path, version DESC);
   `);
 
   // Migrations for existing databases
@@ -74,6 +217,64 @@ export function initDb(dataDir: string): Database.Database {
   } catch {
     // Column already exists
   }
+  try {
+    db.exec('ALTER TABLE users ADD COLUMN wrapped_vault_key TEXT');
+  } catch {
+    // Column already exists
+  }
+  try {
+    db.exec('ALTER TABLE users ADD COLUMN credentials_changed_at INTEGER');
+  } catch {
+    // Column already exists
+  }
+  try {
+    db.exec('ALTER TABLE users ADD COLUMN recovery_auth_hash TEXT');
+    db.exec('ALTER TABLE users ADD COLUMN recovery_wrapped_key TEXT');
+  } catch {
+    // Columns already exist
+  }
+  try {
+    db.exec('ALTER TABLE users ADD COLUMN sharing_public_key TEXT');
+  } catch {
+    // Column already exists
+  }
+
+  try {
+    db.exec('ALTER TABLE devices ADD COLUMN acked_change_seq INTEGER');
+  } catch {
+    // Column already exists
+  }
+  try {
+    db.exec('ALTER TABLE file_changes ADD COLUMN device_id TEXT');
+  } catch {
+    // Column already exists
+  }
+
+  try {
+    db.exec('ALTER TABLE api_keys ADD COLUMN scope_syntax INTEGER NOT NULL DEFAULT 1');
+  } catch {
+    // Column already exists
+  }
+  try {
+    db.exec('ALTER TABLE api_keys ADD COLUMN expires_at INTEGER');
+    db.exec('ALTER TABLE api_keys ADD COLUMN last_used_at INTEGER');
+    db.exec('ALTER TABLE api_keys ADD COLUMN request_count INTEGER NOT NULL DEFAULT 0');
+  } catch {
+    // Columns already exist
+  }
+
+  // API keys share the CLI's permission names; "write" and "readwrite" both allowed reading
+  db.prepare("UPDATE api_keys SET permissions = 'read-write' WHERE permissions IN ('write', 'readwrite')").run();
+
+  // Rewrite scopes written in the old prefix grammar as globs
+  const legacyScopes = db.prepare('SELECT id, scope FROM api_keys WHERE scope_syntax < ?')
+    .all(SCOPE_SYNTAX_VERSION) as { id: string; scope: string }[];
+  const upgradeScope = db.prepare('UPDATE api_keys SET scope = ?, scope_syntax = ? WHERE id = ?');
+  db.transaction(() => {
+    for (const row of legacyScopes) {
+      upgradeScope.run(upgradeLegacyScope(row.scope), SCOPE_SYNTAX_VERSION, row.id);
+    }
+  })();
 
   return db;
 }
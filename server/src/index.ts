@@ -6,8 +6,11 @@ import path from 'node:path';
 import { initDb } from './db.js';
 import { authRoutes } from './routes/auth.js';
 import { fileRoutes } from './routes/files.js';
+import { chunkRoutes } from './routes/chunks.js';
 import { apiKeyRoutes } from './routes/api-keys.js';
 import { auditRoutes } from './routes/audit.js';
+import { shareRoutes } from './routes/shares.js';
+import { teamRoutes } from './routes/teams.js';
 import { setupWebSocket } from './ws.js';
 
 const PORT = Number(process.env.PORT) || 3000;
@@ -27,7 +30,7 @@ app.use('*', cors({
   origin: allowedOrigins,
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Content-Hash', 'X-Version'],
-  exposeHeaders: ['X-Version', 'X-Content-Hash'],
+  exposeHeaders: ['X-Version', 'X-Content-Hash', 'X-Chunked'],
   maxAge: 86400,
 }));
 app.use('*', logger());
@@ -46,8 +49,11 @@ app.get('/api/health', (c) => {
 // Routes
 app.route('/api/auth', authRoutes);
 app.route('/api/files', fileRoutes);
+app.route('/api/chunks', chunkRoutes);
 app.route('/api/keys', apiKeyRoutes);
 app.route('/api/audit-log', auditRoutes);
+app.route('/api/shares', shareRoutes);
+app.route('/api/teams', teamRoutes);
 
 // Start server with WebSocket support
 const server = serve({ fetch: app.fetch, port: PORT }, (info) => {
@@ -4,6 +4,14 @@ import crypto from 'node:crypto';
 import fs from 'node:fs';
 import path from 'node:path';
 import { getDb } from '../db.js';
+import { isDeviceRevoked, isTokenRevoked } from '../revocation.js';
+import {
+  matchesScope,
+  normalizePermission,
+  hashApiKeySecret,
+  isApiKeyExpired,
+  type ApiPermission,
+} from '../shared/api-keys.js';
 
 function resolveJwtSecret(): string {
   if (process.env.JWT_SECRET) return process.env.JWT_SECRET;
@@ -24,19 +32,49 @@ function resolveJwtSecret(): string {
 
 const JWT_SECRET: string = resolveJwtSecret();
 
+/** Claims in a session token. Tokens issued to a sync device carry its ID. */
+export interface TokenPayload {
+  userId: string;
+  deviceId?: string;
+  jti?: string;
+  iat?: number;
+  exp?: number;
+}
+
 export interface AuthContext {
   userId: string;
+  deviceId?: string;
+  tokenId?: string;
+  tokenExpiresAt?: number;
   scope?: string;
-  permissions?: string;
+  permissions?: ApiPermission;
   authType: 'jwt' | 'api-key';
 }
 
-export function signToken(userId: string): string {
-  return jwt.sign({ userId }, JWT_SECRET, { expiresIn: '7d' });
+export function signToken(userId: string, deviceId?: string): string {
+  const claims = deviceId ? { userId, deviceId } : { userId };
+  return jwt.sign(claims, JWT_SECRET, { expiresIn: '7d', jwtid: crypto.randomUUID() });
 }
 
-export function verifyToken(token: string): { userId: string } {
-  return jwt.verify(token, JWT_SECRET) as { userId: string };
+export function verifyToken(token: string): TokenPayload {
+  const payload = jwt.verify(token, JWT_SECRET) as TokenPayload;
+
+  if (payload.jti && isTokenRevoked(payload.jti)) {
+    throw new Error('Token revoked');
+  }
+  if (payload.deviceId && isDeviceRevoked(payload.deviceId)) {
+    throw new Error('Device revoked');
+  }
+
+  // Tokens issued before the last passphrase change are no longer valid
+  const user = getDb().prepare('SELECT credentials_changed_at FROM users WHERE id = ?').get(payload.userId) as
+    | { credentials_changed_at: number | null }
+    | undefined;
+  if (user?.credentials_changed_at && (payload.iat ?? 0) * 1000 < user.credentials_changed_at) {
+    throw new Error('Token issued before credentials changed');
+  }
+
+  return payload;
 }
 
 export async function authMiddleware(c: Context, next: Next) {
@@ -49,6 +87,9 @@ export async function authMiddleware(c: Context, next: Next) {
       const payload = verifyToken(token);
       c.set('auth', {
         userId: payload.userId,
+        deviceId: payload.deviceId,
+        tokenId: payload.jti,
+        tokenExpiresAt: payload.exp ? payload.exp * 1000 : undefined,
         authType: 'jwt',
       } satisfies AuthContext);
       return next();
@@ -58,20 +99,30 @@ export async function authMiddleware(c: Context, next: Next) {
   }
 
   if (apiKeyHeader) {
-    const keyHash = crypto.createHash('sha256').update(apiKeyHeader).digest('hex');
+    const keyHash = hashApiKeySecret(apiKeyHeader);
     const db = getDb();
     const row = db.prepare(
-      'SELECT id, user_id, scope, permissions FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL'
-    ).get(keyHash) as { id: string; user_id: string; scope: string; permissions: string } | undefined;
+      'SELECT id, user_id, scope, permissions, expires_at FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL'
+    ).get(keyHash) as
+      | { id: string; user_id: string; scope: string; permissions: string; expires_at: number | null }
+      | undefined;
 
     if (!row) {
       return c.json({ error: 'Invalid or revoked API key' }, 401);
     }
 
+    const now = Date.now();
+    if (isApiKeyExpired(row.expires_at, now)) {
+      return c.json({ error: 'API key expired' }, 401);
+    }
+
+    db.prepare('UPDATE api_keys SET last_used_at = ?, request_count = request_count + 1 WHERE id = ?')
+      .run(now, row.id);
+
     c.set('auth', {
       userId: row.user_id,
       scope: row.scope,
-      permissions: row.permissions,
+      permissions: normalizePermission(row.permissions) ?? 'read',
       authType: 'api-key',
     } satisfies AuthContext);
     return next();
@@ -84,12 +135,8 @@ export function getAuth(c: Context): AuthContext {
   return c.get('auth') as AuthContext;
 }
 
+/** JWT sessions have no scope and see everything; API keys use the shared scope grammar. */
 export function checkScope(scope: string | undefined, filePath: string): boolean {
-  if (!scope || scope === '*') return true;
-  // scope like "skills/*" should match "skills/foo" and "skills/bar/baz"
-  if (scope.endsWith('/*')) {
-    const prefix = scope.slice(0, -1); // "skills/"
-    return filePath.startsWith(prefix);
-  }
-  return filePath === scope;
+  if (!scope) return true;
+  return matchesScope(filePath, scope);
 }
@@ -0,0 +1,26 @@
+import { getDb } from './db.js';
+
+/**
+ * Refuse one token (by its JWT ID) from now on. The entry is only needed
+ * until the token would have expired anyway, so expired entries are pruned.
+ */
+export function revokeToken(userId: string, tokenId: string, expiresAt: number): void {
+  const db = getDb();
+  db.prepare('DELETE FROM revoked_tokens WHERE expires_at < ?').run(Date.now());
+  db.prepare('INSERT OR IGNORE INTO revoked_tokens (token_id, user_id, expires_at) VALUES (?, ?, ?)')
+    .run(tokenId, userId, expiresAt);
+}
+
+export function isTokenRevoked(tokenId: string): boolean {
+  return !!getDb().prepare('SELECT 1 FROM revoked_tokens WHERE token_id = ?').get(tokenId);
+}
+
+/** Refuse every token bound to a device, and any later login that names it. */
+export function revokeDevice(userId: string, deviceId: string): void {
+  getDb().prepare('INSERT OR IGNORE INTO revoked_devices (device_id, user_id, revoked_at) VALUES (?, ?, ?)')
+    .run(deviceId, userId, Date.now());
+}
+
+export function isDeviceRevoked(deviceId: string): boolean {
+  return !!getDb().prepare('SELECT 1 FROM revoked_devices WHERE device_id = ?').get(deviceId);
+}
@@ -2,6 +2,13 @@ import { Hono } from 'hono';
 import crypto from 'node:crypto';
 import { getDb } from '../db.js';
 import { authMiddleware, getAuth } from '../middleware/auth.js';
+import {
+  normalizePermission,
+  generateApiKeySecret,
+  hashApiKeySecret,
+  isValidScope,
+  SCOPE_SYNTAX_VERSION,
+} from '../shared/api-keys.js';
 
 export const apiKeyRoutes = new Hono();
 
@@ -16,33 +23,41 @@ apiKeyRoutes.post('/', async (c) => {
   }
 
   const body = await c.req.json();
-  const { name, scope, permissions } = body;
+  const { name, scope, permissions, expiresAt } = body;
 
   if (!name || !scope) {
     return c.json({ error: 'name and scope are required' }, 400);
   }
+  if (!isValidScope(scope)) {
+    return c.json({ error: 'scope must contain at least one pattern' }, 400);
+  }
 
-  const validPermissions = ['read', 'write', 'readwrite'];
-  const perm = permissions || 'read';
-  if (!validPermissions.includes(perm)) {
+  // Older clients send "write" or "readwrite"; both mean read-write
+  const perm = normalizePermission(permissions || 'read');
+  if (!perm) {
     return c.json({ error: 'Invalid permissions value' }, 400);
   }
 
-  const rawKey = 'cs_' + crypto.randomBytes(32).toString('hex');
-  const keyHash = crypto.createHash('sha256').update(rawKey).digest('hex');
-  const keyId = crypto.randomUUID();
   const now = Date.now();
+  if (expiresAt != null && (typeof expiresAt !== 'number' || !Number.isFinite(expiresAt) || expiresAt <= now)) {
+    return c.json({ error: 'expiresAt must be a future timestamp in milliseconds' }, 400);
+  }
+
+  const rawKey = generateApiKeySecret();
+  const keyHash = hashApiKeySecret(rawKey);
+  const keyId = crypto.randomUUID();
 
   const db = getDb();
   db.prepare(
-    'INSERT INTO api_keys (id, user_id, name, key_hash, scope, permissions, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
-  ).run(keyId, auth.userId, name, keyHash, scope, perm, now);
+    'INSERT INTO api_keys (id, user_id, name, key_hash, scope, permissions, scope_syntax, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+  ).run(keyId, auth.userId, name, keyHash, scope, perm, SCOPE_SYNTAX_VERSION, now, expiresAt ?? null);
 
   return c.json({
     id: keyId,
     key: rawKey,
     scope,
     permissions: perm,
+    expiresAt: expiresAt ?? null,
   }, 201);
 });
 
@@ -52,7 +67,9 @@ apiKeyRoutes.get('/', async (c) => {
   const db = getDb();
 
   const keys = db.prepare(
-    'SELECT id, name, scope, permissions, created_at as createdAt, revoked_at as revokedAt FROM api_keys WHERE user_id = ?'
+    `SELECT id, name, scope, permissions, created_at as createdAt, revoked_at as revokedAt,
+       expires_at as expiresAt, last_used_at as lastUsedAt, request_count as requestCount
+     FROM api_keys WHERE user_id = ?`
   ).all(auth.userId);
 
   return c.json({ keys });
@@ -2,6 +2,9 @@ import { Hono } from 'hono';
 import crypto from 'node:crypto';
 import { getDb } from '../db.js';
 import { authMiddleware, getAuth, signToken } from '../middleware/auth.js';
+import { broadcastToUser, disconnect } from '../ws.js';
+import { recordAudit } from '../audit.js';
+import { isDeviceRevoked, revokeDevice, revokeToken } from '../revocation.js';
 
 // In-memory rate limiter
 const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
@@ -113,27 +116,243 @@ authRoutes.post('/login', async (c) => {
   } catch {
     return c.json({ error: 'Invalid JSON body' }, 400);
   }
-  const { authKeyHash } = body;
+  const { authKeyHash, deviceId } = body;
 
   if (!authKeyHash) {
     return c.json({ error: 'authKeyHash is required' }, 400);
   }
 
   const db = getDb();
-  const user = db.prepare('SELECT id FROM users WHERE auth_key_hash = ?').get(authKeyHash) as
-    | { id: string }
+  const user = db.prepare('SELECT id, wrapped_vault_key FROM users WHERE auth_key_hash = ?').get(authKeyHash) as
+    | { id: string; wrapped_vault_key: string | null }
     | undefined;
 
   if (!user) {
     return c.json({ error: 'Invalid credentials' }, 401);
   }
 
+  // A sync device logging in again gets a token bound to it, unless it was revoked
+  if (deviceId && !isActiveDevice(user.id, deviceId)) {
+    return c.json({ error: 'Device revoked', code: 'device-revoked' }, 403);
+  }
+
   // Update last_seen for all devices of this user
   db.prepare('UPDATE devices SET last_seen = ? WHERE user_id = ?')
     .run(Date.now(), user.id);
 
-  const token = signToken(user.id);
-  return c.json({ userId: user.id, token });
+  const token = signToken(user.id, deviceId || undefined);
+  return c.json({ userId: user.id, token, wrappedVaultKey: user.wrapped_vault_key });
+});
+
+// Log out: the presented token stops working immediately (auth required)
+authRoutes.post('/logout', authMiddleware, async (c) => {
+  const auth = getAuth(c);
+  if (auth.authType !== 'jwt' || !auth.tokenId || !auth.tokenExpiresAt) {
+    return c.json({ error: 'Only session tokens can be logged out' }, 400);
+  }
+
+  revokeToken(auth.userId, auth.tokenId, auth.tokenExpiresAt);
+  disconnect(auth.userId, { tokenId: auth.tokenId });
+
+  return c.json({ ok: true });
+});
+
+interface NewCredentials {
+  authKeyHash: string;
+  salt: string;
+  encryptedMasterKey: string;
+  wrappedVaultKey: string;
+}
+
+function parseNewCredentials(body: any): NewCredentials | null {
+  const { authKeyHash, salt, encryptedMasterKey, wrappedVaultKey } = body ?? {};
+  if (!authKeyHash || !salt || !encryptedMasterKey || !wrappedVaultKey) return null;
+  return { authKeyHash, salt, encryptedMasterKey, wrappedVaultKey };
+}
+
+function isActiveDevice(userId: string, deviceId: string): boolean {
+  const device = getDb().prepare('SELECT id FROM devices WHERE id = ? AND user_id = ?').get(deviceId, userId);
+  return !!device && !isDeviceRevoked(deviceId);
+}
+
+/**
+ * Replace a user's passphrase-derived credentials, provided `column` still
+ * holds `expected` (the proof the client sent). Tokens issued before the
+ * change stop working, and connected devices are told to re-authenticate.
+ * Returns a fresh token, bound to the device that made the change if known,
+ * or null if the proof didn't match.
+ */
+function replaceCredentials(
+  userId: string,
+  creds: NewCredentials,
+  column: 'auth_key_hash' | 'recovery_auth_hash',
+  expected: string,
+  auditAction: string,
+  deviceId: string | undefined,
+): string | null {
+  const db = getDb();
+
+  // Whole seconds, so tokens issued from now on (JWT iat) stay valid
+  const changedAt = Math.floor(Date.now() / 1000) * 1000;
+
+  const result = db.prepare(
+    `UPDATE users SET auth_key_hash = ?, salt = ?, encrypted_master_key = ?, wrapped_vault_key = ?, credentials_changed_at = ?
+     WHERE id = ? AND ${column} = ?`
+  ).run(creds.authKeyHash, creds.salt, creds.encryptedMasterKey, creds.wrappedVaultKey, changedAt, userId, expected);
+
+  if (result.changes === 0) return null;
+
+  recordAudit(userId, auditAction, '');
+  broadcastToUser(userId, { type: 'reauth-required' });
+  return signToken(userId, deviceId);
+}
+
+function isAuthHashTaken(authKeyHash: string, userId: string): boolean {
+  const db = getDb();
+  return !!db.prepare('SELECT id FROM users WHERE auth_key_hash = ? AND id != ?').get(authKeyHash, userId);
+}
+
+// Change passphrase (auth required). The client re-derives its keys and
+// sends the new auth hash, salt and wrapped vault key; file blobs are untouched.
+authRoutes.post('/passphrase', authMiddleware, async (c) => {
+  const auth = getAuth(c);
+  if (auth.authType !== 'jwt') {
+    return c.json({ error: 'API keys cannot change the passphrase' }, 403);
+  }
+
+  const { allowed, retryAfterMs } = checkRateLimit(`passphrase:${auth.userId}`);
+  if (!allowed) {
+    return c.json({ error: 'Too many requests', retryAfterMs }, 429);
+  }
+
+  let body: any;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const creds = parseNewCredentials(body);
+  if (!body.currentAuthKeyHash || !creds) {
+    return c.json({
+      error: 'currentAuthKeyHash, authKeyHash, salt, encryptedMasterKey, and wrappedVaultKey are required',
+    }, 400);
+  }
+
+  if (isAuthHashTaken(creds.authKeyHash, auth.userId)) {
+    return c.json({ error: 'Choose a different passphrase' }, 409);
+  }
+
+  // Only succeeds if the current passphrase is still the one on record
+  const token = replaceCredentials(
+    auth.userId, creds, 'auth_key_hash', body.currentAuthKeyHash, 'passphrase-change', auth.deviceId,
+  );
+  if (!token) {
+    return c.json({ error: 'Current passphrase is incorrect' }, 403);
+  }
+
+  return c.json({ token });
+});
+
+// Set or replace the recovery key (auth required). The vault key is wrapped
+// under a key derived from the recovery key, which never leaves the client.
+authRoutes.put('/recovery', authMiddleware, async (c) => {
+  const auth = getAuth(c);
+  if (auth.authType !== 'jwt') {
+    return c.json({ error: 'API keys cannot manage the recovery key' }, 403);
+  }
+
+  let body: any;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  const { recoveryAuthHash, recoveryWrappedKey } = body;
+
+  if (!recoveryAuthHash || !recoveryWrappedKey) {
+    return c.json({ error: 'recoveryAuthHash and recoveryWrappedKey are required' }, 400);
+  }
+
+  const db = getDb();
+  db.prepare('UPDATE users SET recovery_auth_hash = ?, recovery_wrapped_key = ? WHERE id = ?')
+    .run(recoveryAuthHash, recoveryWrappedKey, auth.userId);
+  recordAudit(auth.userId, 'recovery-key-set', '');
+
+  return c.json({ ok: true });
+});
+
+// Fetch the recovery-wrapped vault key (public, proven by the recovery key)
+authRoutes.post('/recovery/wrapped-key', async (c) => {
+  const ip = c.req.header('x-forwarded-for') || c.req.header('x-real-ip') || 'unknown';
+  const { allowed, retryAfterMs } = checkRateLimit(`recovery:${ip}`);
+  if (!allowed) {
+    return c.json({ error: 'Too many requests', retryAfterMs }, 429);
+  }
+
+  let body: any;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  const { userId, recoveryAuthHash } = body;
+
+  if (!userId || !recoveryAuthHash) {
+    return c.json({ error: 'userId and recoveryAuthHash are required' }, 400);
+  }
+
+  const db = getDb();
+  const user = db.prepare(
+    'SELECT recovery_wrapped_key FROM users WHERE id = ? AND recovery_auth_hash = ?'
+  ).get(userId, recoveryAuthHash) as { recovery_wrapped_key: string } | undefined;
+
+  if (!user) {
+    return c.json({ error: 'Invalid recovery key' }, 401);
+  }
+
+  return c.json({ recoveryWrappedKey: user.recovery_wrapped_key });
+});
+
+// Set a new passphrase using the recovery key (public, proven by the recovery key)
+authRoutes.post('/recovery/reset', async (c) => {
+  const ip = c.req.header('x-forwarded-for') || c.req.header('x-real-ip') || 'unknown';
+  const { allowed, retryAfterMs } = checkRateLimit(`recovery:${ip}`);
+  if (!allowed) {
+    return c.json({ error: 'Too many requests', retryAfterMs }, 429);
+  }
+
+  let body: any;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const creds = parseNewCredentials(body);
+  if (!body.userId || !body.recoveryAuthHash || !creds) {
+    return c.json({
+      error: 'userId, recoveryAuthHash, authKeyHash, salt, encryptedMasterKey, and wrappedVaultKey are required',
+    }, 400);
+  }
+
+  if (isAuthHashTaken(creds.authKeyHash, body.userId)) {
+    return c.json({ error: 'Choose a different passphrase' }, 409);
+  }
+
+  // A device recovering keeps a token bound to it, unless it was revoked
+  if (body.deviceId && !isActiveDevice(body.userId, body.deviceId)) {
+    return c.json({ error: 'Device revoked', code: 'device-revoked' }, 403);
+  }
+
+  const token = replaceCredentials(
+    body.userId, creds, 'recovery_auth_hash', body.recoveryAuthHash, 'recovery', body.deviceId || undefined,
+  );
+  if (!token) {
+    return c.json({ error: 'Invalid recovery key' }, 401);
+  }
+
+  return c.json({ userId: body.userId, token });
 });
 
 // Register device (auth required)
@@ -159,7 +378,8 @@ authRoutes.post('/devices', authMiddleware, async (c) => {
     'INSERT INTO devices (id, user_id, name, public_key, last_seen) VALUES (?, ?, ?, ?, ?)'
   ).run(deviceId, auth.userId, name, publicKey || '', now);
 
-  return c.json({ deviceId }, 201);
+  // The device syncs with a token bound to it, so it can be revoked on its own
+  return c.json({ deviceId, token: signToken(auth.userId, deviceId) }, 201);
 });
 
 // List devices (auth required)
@@ -174,9 +394,14 @@ authRoutes.get('/devices', authMiddleware, async (c) => {
   return c.json({ devices });
 });
 
-// Delete device (auth required)
+// Remove device (auth required). Its tokens stop working and any open
+// WebSocket is closed, so it has to log in again as a new device.
 authRoutes.delete('/devices/:id', authMiddleware, async (c) => {
   const auth = getAuth(c);
+  if (auth.authType !== 'jwt') {
+    return c.json({ error: 'API keys cannot remove devices' }, 403);
+  }
+
   const deviceId = c.req.param('id');
   const db = getDb();
 
@@ -184,13 +409,160 @@ authRoutes.delete('/devices/:id', authMiddleware, async (c) => {
     'DELETE FROM devices WHERE id = ? AND user_id = ?'
   ).run(deviceId, auth.userId);
 
-  if (result.changes === 0) {
+  if (!deviceId || result.changes === 0) {
     return c.json({ error: 'Device not found' }, 404);
   }
 
+  revokeDevice(auth.userId, deviceId);
+  disconnect(auth.userId, { deviceId });
+  recordAudit(auth.userId, 'device-revoke', '', { details: deviceId });
+
   return c.json({ ok: true });
 });
 
+// Pairing: a new device posts its public key and waits; a trusted device looks
+// the request up by the code shown on the new one, seals the vault key to that
+// public key and approves. The server only ever relays the sealed payload.
+const PAIRING_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+interface PairingRow {
+  id: string;
+  code: string;
+  name: string;
+  public_key: string;
+  created_at: number;
+  user_id: string | null;
+  device_id: string | null;
+  sealed_payload: string | null;
+}
+
+function prunePairingRequests() {
+  getDb().prepare('DELETE FROM pairing_requests WHERE created_at < ?').run(Date.now() - PAIRING_TTL_MS);
+}
+
+// Start pairing a new device (public)
+authRoutes.post('/pairing', async (c) => {
+  const ip = c.req.header('x-forwarded-for') || c.req.header('x-real-ip') || 'unknown';
+  const { allowed, retryAfterMs } = checkRateLimit(`pairing:${ip}`);
+  if (!allowed) {
+    return c.json({ error: 'Too many requests', retryAfterMs }, 429);
+  }
+
+  let body: any;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  const { name, publicKey, code } = body;
+
+  if (!name || typeof publicKey !== 'string' || typeof code !== 'string') {
+    return c.json({ error: 'name, publicKey, and code are required' }, 400);
+  }
+  if (!/^[0-9a-f]{64}$/.test(publicKey)) {
+    return c.json({ error: 'publicKey must be 32 hex-encoded bytes' }, 400);
+  }
+
+  prunePairingRequests();
+  const pairingId = crypto.randomUUID();
+  const now = Date.now();
+  getDb().prepare(
+    'INSERT INTO pairing_requests (id, code, name, public_key, created_at) VALUES (?, ?, ?, ?, ?)'
+  ).run(pairingId, code, name, publicKey, now);
+
+  return c.json({ pairingId, expiresAt: now + PAIRING_TTL_MS }, 201);
+});
+
+// Find a pending pairing request by the code shown on the new device (auth required)
+authRoutes.get('/pairing/code/:code', authMiddleware, async (c) => {
+  const auth = getAuth(c);
+  if (auth.authType !== 'jwt') {
+    return c.json({ error: 'API keys cannot pair devices' }, 403);
+  }
+
+  prunePairingRequests();
+  const row = getDb().prepare(
+    'SELECT id, name, public_key, created_at FROM pairing_requests WHERE code = ? AND user_id IS NULL'
+  ).get(c.req.param('code')) as Pick<PairingRow, 'id' | 'name' | 'public_key' | 'created_at'> | undefined;
+
+  if (!row) {
+    return c.json({ error: 'Pairing request not found or expired' }, 404);
+  }
+
+  return c.json({ pairingId: row.id, name: row.name, publicKey: row.public_key, createdAt: row.created_at });
+});
+
+// Approve a pairing request with the vault key sealed to the new device (auth required)
+authRoutes.post('/pairing/:id/approve', authMiddleware, async (c) => {
+  const auth = getAuth(c);
+  if (auth.authType !== 'jwt') {
+    return c.json({ error: 'API keys cannot pair devices' }, 403);
+  }
+
+  let body: any;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  const { sealedPayload } = body;
+
+  if (typeof sealedPayload !== 'string' || !sealedPayload) {
+    return c.json({ error: 'sealedPayload is required' }, 400);
+  }
+
+  prunePairingRequests();
+  const db = getDb();
+  const pairingId = c.req.param('id');
+  const row = db.prepare(
+    'SELECT name, public_key FROM pairing_requests WHERE id = ? AND user_id IS NULL'
+  ).get(pairingId) as Pick<PairingRow, 'name' | 'public_key'> | undefined;
+
+  if (!row) {
+    return c.json({ error: 'Pairing request not found or expired' }, 404);
+  }
+
+  const deviceId = crypto.randomUUID();
+  db.transaction(() => {
+    db.prepare(
+      'INSERT INTO devices (id, user_id, name, public_key, last_seen) VALUES (?, ?, ?, ?, ?)'
+    ).run(deviceId, auth.userId, row.name, row.public_key, Date.now());
+    db.prepare(
+      'UPDATE pairing_requests SET user_id = ?, device_id = ?, sealed_payload = ? WHERE id = ?'
+    ).run(auth.userId, deviceId, sealedPayload, pairingId);
+  })();
+  recordAudit(auth.userId, 'device-pair', '', { details: deviceId });
+
+  return c.json({ deviceId });
+});
+
+// Poll a pairing request from the new device (public, the ID is unguessable).
+// Once approved it is handed over a single time and removed.
+authRoutes.get('/pairing/:id', async (c) => {
+  prunePairingRequests();
+  const db = getDb();
+  const pairingId = c.req.param('id');
+  const row = db.prepare(
+    'SELECT user_id, device_id, sealed_payload FROM pairing_requests WHERE id = ?'
+  ).get(pairingId) as Pick<PairingRow, 'user_id' | 'device_id' | 'sealed_payload'> | undefined;
+
+  if (!row) {
+    return c.json({ error: 'Pairing request not found or expired' }, 404);
+  }
+  if (!row.user_id || !row.device_id) {
+    return c.json({ status: 'pending' });
+  }
+
+  db.prepare('DELETE FROM pairing_requests WHERE id = ?').run(pairingId);
+  return c.json({
+    status: 'approved',
+    userId: row.user_id,
+    deviceId: row.device_id,
+    token: signToken(row.user_id, row.device_id),
+    sealedPayload: row.sealed_payload,
+  });
+});
+
 // Get device settings (auth required)
 authRoutes.get('/devices/:id/settings', authMiddleware, async (c) => {
   const auth = getAuth(c);
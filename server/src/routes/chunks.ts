@@ -0,0 +1,154 @@
+import { Hono } from 'hono';
+import { authMiddleware, getAuth, checkScope } from '../middleware/auth.js';
+import { hasPermission } from '../shared/api-keys.js';
+import { storeChunkBlob, loadChunkBlob } from '../storage.js';
+import { isValidChunkId, findMissingChunks, recordChunk, chunkPaths } from '../chunks.js';
+import { commitFile, isValidFilePath } from './files.js';
+
+const DATA_DIR = process.env.DATA_DIR || './data';
+const MAX_UPLOAD_SIZE = Number(process.env.MAX_UPLOAD_SIZE) || 10 * 1024 * 1024; // 10MB default
+const MAX_CHUNKS_PER_FILE = 10_000;
+
+/**
+ * Large files are uploaded as encrypted chunks, then committed with a small
+ * chunk index as the file's blob. Chunks are content-addressed per user, so
+ * an upload that was interrupted, or a file whose start hasn't changed, only
+ * sends the chunks the server is missing.
+ */
+export const chunkRoutes = new Hono();
+
+chunkRoutes.use('*', authMiddleware);
+
+function parseChunkIds(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.length > MAX_CHUNKS_PER_FILE || !value.every(isValidChunkId)) {
+    return null;
+  }
+  return value;
+}
+
+// Which of these chunks the server doesn't have yet
+chunkRoutes.post('/missing', async (c) => {
+  const auth = getAuth(c);
+
+  let body: { ids?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  const ids = parseChunkIds(body.ids);
+  if (!ids) {
+    return c.json({ error: `ids must be an array of at most ${MAX_CHUNKS_PER_FILE} chunk IDs` }, 400);
+  }
+
+  return c.json({ missing: findMissingChunks(auth.userId, ids) });
+});
+
+// Make a set of uploaded chunks the new version of a file
+chunkRoutes.post('/commit', async (c) => {
+  const auth = getAuth(c);
+
+  if (auth.authType === 'api-key' && !hasPermission(auth.permissions ?? 'read', 'read-write')) {
+    return c.json({ error: 'Write permission required' }, 403);
+  }
+
+  let body: { path?: unknown; index?: unknown; encryptedHash?: unknown; version?: unknown; chunks?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const filePath = body.path;
+  if (typeof filePath !== 'string' || !filePath || !isValidFilePath(filePath)) {
+    return c.json({ error: 'Invalid file path' }, 400);
+  }
+  if (auth.scope && !checkScope(auth.scope, filePath)) {
+    return c.json({ error: 'Access denied: path outside API key scope' }, 403);
+  }
+  if (typeof body.index !== 'string' || typeof body.encryptedHash !== 'string') {
+    return c.json({ error: 'index and encryptedHash are required' }, 400);
+  }
+  if (body.version !== undefined && !Number.isInteger(body.version)) {
+    return c.json({ error: 'version must be an integer' }, 400);
+  }
+  const ids = parseChunkIds(body.chunks);
+  if (!ids || ids.length === 0) {
+    return c.json({ error: `chunks must be an array of 1 to ${MAX_CHUNKS_PER_FILE} chunk IDs` }, 400);
+  }
+
+  const index = Buffer.from(body.index, 'base64');
+  if (index.length > MAX_UPLOAD_SIZE) {
+    return c.json({ error: `Chunk index too large. Maximum size is ${MAX_UPLOAD_SIZE} bytes` }, 413);
+  }
+
+  const missing = findMissingChunks(auth.userId, ids);
+  if (missing.length > 0) {
+    return c.json({ error: 'Some chunks have not been uploaded', missing }, 400);
+  }
+
+  const expectedVersion = body.version as number | undefined;
+  const result = await commitFile(auth, filePath, index, body.encryptedHash, expectedVersion, ids);
+  if ('conflict' in result) {
+    return c.json({ error: 'Version conflict', currentVersion: result.currentVersion, expectedVersion }, 409);
+  }
+  return c.json({ path: filePath, version: result.version }, result.created ? 201 : 200);
+});
+
+// Upload one encrypted chunk
+chunkRoutes.put('/:id', async (c) => {
+  const auth = getAuth(c);
+  const id = c.req.param('id');
+
+  if (!isValidChunkId(id)) {
+    return c.json({ error: 'Invalid chunk ID' }, 400);
+  }
+
+  if (auth.authType === 'api-key' && !hasPermission(auth.permissions ?? 'read', 'read-write')) {
+    return c.json({ error: 'Write permission required' }, 403);
+  }
+
+  // A chunk's content never changes, so one already stored is kept as is
+  if (findMissingChunks(auth.userId, [id]).length === 0) {
+    return c.json({ id });
+  }
+
+  const contentLength = Number(c.req.header('Content-Length') || '0');
+  if (contentLength > MAX_UPLOAD_SIZE) {
+    return c.json({ error: `Chunk too large. Maximum size is ${MAX_UPLOAD_SIZE} bytes` }, 413);
+  }
+
+  const data = Buffer.from(await c.req.arrayBuffer());
+  if (data.length > MAX_UPLOAD_SIZE) {
+    return c.json({ error: `Chunk too large. Maximum size is ${MAX_UPLOAD_SIZE} bytes` }, 413);
+  }
+
+  await storeChunkBlob(DATA_DIR, auth.userId, id, data);
+  recordChunk(auth.userId, id, data.length);
+
+  return c.json({ id }, 201);
+});
+
+// Download one encrypted chunk
+chunkRoutes.get('/:id', async (c) => {
+  const auth = getAuth(c);
+  const id = c.req.param('id');
+
+  if (!isValidChunkId(id)) {
+    return c.json({ error: 'Invalid chunk ID' }, 400);
+  }
+
+  // A scoped API key may only read chunks of files in its scope
+  if (auth.scope && !chunkPaths(auth.userId, id).some((p) => checkScope(auth.scope, p))) {
+    return c.json({ error: 'Access denied: chunk outside API key scope' }, 403);
+  }
+
+  try {
+    const data = await loadChunkBlob(DATA_DIR, auth.userId, id);
+    return new Response(new Uint8Array(data), {
+      headers: { 'Content-Type': 'application/octet-stream' },
+    });
+  } catch {
+    return c.json({ error: 'Chunk not found' }, 404);
+  }
+});
@@ -2,15 +2,20 @@ import { Hono } from 'hono';
 import crypto from 'node:crypto';
 import path from 'node:path';
 import { getDb } from '../db.js';
-import { authMiddleware, getAuth, checkScope } from '../middleware/auth.js';
-import { storeBlob, loadBlob, deleteBlob } from '../storage.js';
+import { authMiddleware, getAuth, checkScope, type AuthContext } from '../middleware/auth.js';
+import { hasPermission } from '../shared/api-keys.js';
+import { storeBlob, loadBlob, deleteBlob, loadVersionBlob } from '../storage.js';
 import { broadcastToUser } from '../ws.js';
 import { recordAudit } from '../audit.js';
+import { archiveVersion, listVersions, getVersion, nextVersionAfterHistory } from '../versions.js';
+import { recordChange, recordDeletion, latestChangeSeq, changesSince, listTombstones, acknowledgeChanges } from '../changes.js';
+import { setFileChunks, isChunked, chunksSize } from '../chunks.js';
 
 const DATA_DIR = process.env.DATA_DIR || './data';
 const MAX_UPLOAD_SIZE = Number(process.env.MAX_UPLOAD_SIZE) || 10 * 1024 * 1024; // 10MB default
+const MAX_BATCH_FILES = 200;
 
-function isValidFilePath(filePath: string): boolean {
+export function isValidFilePath(filePath: string): boolean {
   // Reject path traversal attempts
   const normalized = path.normalize(filePath);
   if (normalized.startsWith('..') || normalized.includes('../') || path.isAbsolute(normalized)) {
@@ -27,26 +32,45 @@ export const fileRoutes = new Hono();
 
 fileRoutes.use('*', authMiddleware);
 
-// List all file metadata
+// List all file metadata and tombstones of recently deleted files, with the
+// change feed cursor this listing is current as of
 fileRoutes.get('/', async (c) => {
   const auth = getAuth(c);
   const db = getDb();
 
+  const cursor = latestChangeSeq();
   let files = db.prepare(
     'SELECT path, version, encrypted_hash as encryptedHash, size, updated_at as updatedAt FROM files WHERE user_id = ?'
   ).all(auth.userId) as Array<{ path: string; version: number; encryptedHash: string; size: number; updatedAt: number }>;
+  let tombstones = listTombstones(auth.userId);
 
   // Filter by scope if using API key
   if (auth.scope) {
     files = files.filter((f) => checkScope(auth.scope, f.path));
+    tombstones = tombstones.filter((t) => checkScope(auth.scope, t.path));
   }
 
-  return c.json({ files });
+  return c.json({ files, tombstones, cursor });
 });
 
-// Get changes since timestamp
+// Get changes, including deletions, after a change feed cursor; or, without
+// a cursor, files updated since a timestamp
 fileRoutes.get('/changes', async (c) => {
   const auth = getAuth(c);
+  const cursorParam = c.req.query('cursor');
+
+  if (cursorParam !== undefined) {
+    const cursor = latestChangeSeq();
+    let changes = changesSince(auth.userId, Number(cursorParam));
+    if (!changes) {
+      return c.json({ error: 'Cursor is no longer valid; list all files instead' }, 410);
+    }
+    if (auth.scope) {
+      changes = changes.filter((f) => checkScope(auth.scope, f.path));
+    }
+    return c.json({ changes, cursor });
+  }
+
   const since = Number(c.req.query('since') || '0');
   const db = getDb();
 
@@ -61,6 +85,222 @@ fileRoutes.get('/changes', async (c) => {
   return c.json({ files });
 });
 
+// A device has applied every change up to a cursor; tombstones that all of
+// the user's devices are past are collected
+fileRoutes.post('/changes/ack', async (c) => {
+  const auth = getAuth(c);
+  if (!auth.deviceId) {
+    return c.json({ error: 'Only device sessions acknowledge changes' }, 400);
+  }
+
+  let body: { cursor?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  if (!Number.isInteger(body.cursor) || (body.cursor as number) < 0) {
+    return c.json({ error: 'cursor must be a non-negative integer' }, 400);
+  }
+
+  const collectedThrough = acknowledgeChanges(auth.userId, auth.deviceId, body.cursor as number);
+  return c.json({ collectedThrough });
+});
+
+// Upload many files in one request. Each file is committed on its own, with
+// its own expected version, so one conflict doesn't hold back the rest
+fileRoutes.post('/batch/upload', async (c) => {
+  const auth = getAuth(c);
+
+  if (auth.authType === 'api-key' && !hasPermission(auth.permissions ?? 'read', 'read-write')) {
+    return c.json({ error: 'Write permission required' }, 403);
+  }
+
+  // Base64 makes the body about a third larger than the blobs in it
+  const contentLength = Number(c.req.header('Content-Length') || '0');
+  if (contentLength > MAX_UPLOAD_SIZE * 2) {
+    return c.json({ error: `Batch too large. Maximum size is ${MAX_UPLOAD_SIZE} bytes` }, 413);
+  }
+
+  let body: { files?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  if (!Array.isArray(body.files) || body.files.length > MAX_BATCH_FILES) {
+    return c.json({ error: `files must be an array of at most ${MAX_BATCH_FILES} files` }, 400);
+  }
+
+  const files = body.files as Array<{ path?: unknown; data?: unknown; encryptedHash?: unknown; version?: unknown }>;
+  const blobs = files.map((f) => (typeof f.data === 'string' ? Buffer.from(f.data, 'base64') : null));
+  if (blobs.reduce((total, blob) => total + (blob?.length ?? 0), 0) > MAX_UPLOAD_SIZE) {
+    return c.json({ error: `Batch too large. Maximum size is ${MAX_UPLOAD_SIZE} bytes` }, 413);
+  }
+
+  const results: object[] = [];
+  for (const [i, file] of files.entries()) {
+    const filePath = typeof file.path === 'string' ? file.path : '';
+    const data = blobs[i];
+    if (!filePath || !isValidFilePath(filePath)) {
+      results.push({ path: filePath, error: 'Invalid file path' });
+    } else if (auth.scope && !checkScope(auth.scope, filePath)) {
+      results.push({ path: filePath, error: 'Access denied: path outside API key scope' });
+    } else if (!data || (file.version !== undefined && !Number.isInteger(file.version))) {
+      results.push({ path: filePath, error: 'data and an integer version are required' });
+    } else {
+      const encryptedHash = typeof file.encryptedHash === 'string' ? file.encryptedHash : '';
+      const result = await commitFile(auth, filePath, data, encryptedHash, file.version as number | undefined, null);
+      results.push('conflict' in result
+        ? { path: filePath, conflict: true, currentVersion: result.currentVersion }
+        : { path: filePath, version: result.version });
+    }
+  }
+
+  return c.json({ results });
+});
+
+// Download many files in one request. Files that would take the response
+// past MAX_UPLOAD_SIZE come back with an error, to be fetched on their own
+fileRoutes.post('/batch/download', async (c) => {
+  const auth = getAuth(c);
+
+  let body: { paths?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  if (!Array.isArray(body.paths) || body.paths.length > MAX_BATCH_FILES || !body.paths.every((p) => typeof p === 'string')) {
+    return c.json({ error: `paths must be an array of at most ${MAX_BATCH_FILES} paths` }, 400);
+  }
+
+  const db = getDb();
+  const lookup = db.prepare('SELECT version, encrypted_hash FROM files WHERE user_id = ? AND path = ?');
+  const files: object[] = [];
+  let total = 0;
+  for (const filePath of body.paths as string[]) {
+    if (!isValidFilePath(filePath)) {
+      files.push({ path: filePath, error: 'Invalid file path' });
+      continue;
+    }
+    if (auth.scope && !checkScope(auth.scope, filePath)) {
+      files.push({ path: filePath, error: 'Access denied: path outside API key scope' });
+      continue;
+    }
+    const file = lookup.get(auth.userId, filePath) as { version: number; encrypted_hash: string } | undefined;
+    if (!file) {
+      files.push({ path: filePath, error: 'File not found' });
+      continue;
+    }
+
+    let data: Buffer;
+    try {
+      data = await loadBlob(DATA_DIR, auth.userId, filePath);
+    } catch {
+      files.push({ path: filePath, error: 'Blob not found' });
+      continue;
+    }
+    if (total + data.length > MAX_UPLOAD_SIZE) {
+      files.push({ path: filePath, error: 'Too large for this batch' });
+      continue;
+    }
+    total += data.length;
+
+    recordAudit(auth.userId, 'download', filePath);
+    files.push({
+      path: filePath,
+      version: file.version,
+      encryptedHash: file.encrypted_hash,
+      chunked: isChunked(auth.userId, filePath, file.version),
+      data: data.toString('base64'),
+    });
+  }
+
+  return c.json({ files });
+});
+
+// List version history for a file (current version first)
+fileRoutes.get('/:path/versions', async (c) => {
+  const auth = getAuth(c);
+  const filePath = c.req.param('path');
+
+  if (!isValidFilePath(filePath)) {
+    return c.json({ error: 'Invalid file path' }, 400);
+  }
+
+  if (auth.scope && !checkScope(auth.scope, filePath)) {
+    return c.json({ error: 'Access denied: path outside API key scope' }, 403);
+  }
+
+  const db = getDb();
+  const current = db.prepare(
+    'SELECT version, encrypted_hash as encryptedHash, size, updated_at as createdAt FROM files WHERE user_id = ? AND path = ?'
+  ).get(auth.userId, filePath) as { version: number; encryptedHash: string; size: number; createdAt: number } | undefined;
+
+  const archived = listVersions(auth.userId, filePath);
+
+  if (!current && archived.length === 0) {
+    return c.json({ error: 'File not found' }, 404);
+  }
+
+  const versions = [
+    ...(current ? [{ ...current, current: true }] : []),
+    ...archived.map((v) => ({ ...v, current: false })),
+  ];
+
+  return c.json({ path: filePath, versions });
+});
+
+// Download a specific version of a file
+fileRoutes.get('/:path/versions/:version', async (c) => {
+  const auth = getAuth(c);
+  const filePath = c.req.param('path');
+  const version = Number(c.req.param('version'));
+
+  if (!isValidFilePath(filePath) || !Number.isInteger(version) || version < 1) {
+    return c.json({ error: 'Invalid file path or version' }, 400);
+  }
+
+  if (auth.scope && !checkScope(auth.scope, filePath)) {
+    return c.json({ error: 'Access denied: path outside API key scope' }, 403);
+  }
+
+  const db = getDb();
+  const current = db.prepare(
+    'SELECT version, encrypted_hash FROM files WHERE user_id = ? AND path = ?'
+  ).get(auth.userId, filePath) as { version: number; encrypted_hash: string } | undefined;
+
+  let encryptedHash: string;
+  let data: Buffer;
+  try {
+    if (current && current.version === version) {
+      encryptedHash = current.encrypted_hash;
+      data = await loadBlob(DATA_DIR, auth.userId, filePath);
+    } else {
+      const entry = getVersion(auth.userId, filePath, version);
+      if (!entry) {
+        return c.json({ error: 'Version not found' }, 404);
+      }
+      encryptedHash = entry.encryptedHash;
+      data = await loadVersionBlob(DATA_DIR, auth.userId, filePath, version);
+    }
+  } catch {
+    return c.json({ error: 'Blob not found' }, 404);
+  }
+
+  recordAudit(auth.userId, 'download', filePath, { version });
+
+  return new Response(new Uint8Array(data), {
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'X-Version': String(version),
+      'X-Content-Hash': encryptedHash,
+      ...(isChunked(auth.userId, filePath, version) ? { 'X-Chunked': '1' } : {}),
+    },
+  });
+});
+
 // Upload file
 fileRoutes.put('/*', async (c) => {
   const auth = getAuth(c);
@@ -86,7 +326,7 @@ fileRoutes.put('/*', async (c) => {
   }
 
   // Check write permission for API keys
-  if (auth.authType === 'api-key' && auth.permissions !== 'write' && auth.permissions !== 'readwrite') {
+  if (auth.authType === 'api-key' && !hasPermission(auth.permissions ?? 'read', 'read-write')) {
     return c.json({ error: 'Write permission required' }, 403);
   }
 
@@ -101,10 +341,34 @@ fileRoutes.put('/*', async (c) => {
     return c.json({ error: `File too large. Maximum size is ${MAX_UPLOAD_SIZE} bytes` }, 413);
   }
 
+  const result = await commitFile(auth, filePath, data, encryptedHash, expectedVersion, null);
+  if ('conflict' in result) {
+    return c.json({ error: 'Version conflict', currentVersion: result.currentVersion, expectedVersion }, 409);
+  }
+  return c.json({ path: filePath, version: result.version }, result.created ? 201 : 200);
+});
+
+export type CommitResult = { version: number; created: boolean } | { conflict: true; currentVersion?: number };
+
+/**
+ * Store a blob as the new current version of a file, keeping the one it
+ * replaces in version history. For a file uploaded in chunks, the blob is its
+ * chunk index and chunkIds are the chunks it is made of.
+ */
+export async function commitFile(
+  auth: AuthContext,
+  filePath: string,
+  data: Buffer,
+  encryptedHash: string,
+  expectedVersion: number | undefined,
+  chunkIds: string[] | null,
+): Promise<CommitResult> {
+  const size = data.length + (chunkIds ? chunksSize(auth.userId, chunkIds) : 0);
+
   const db = getDb();
   const existing = db.prepare(
-    'SELECT id, version FROM files WHERE user_id = ? AND path = ?'
-  ).get(auth.userId, filePath) as { id: string; version: number } | undefined;
+    'SELECT id, version, encrypted_hash, size, updated_at FROM files WHERE user_id = ? AND path = ?'
+  ).get(auth.userId, filePath) as { id: string; version: number; encrypted_hash: string; size: number; updated_at: number } | undefined;
 
   const now = Date.now();
 
@@ -113,51 +377,57 @@ fileRoutes.put('/*', async (c) => {
     if (expectedVersion !== undefined) {
       const result = db.prepare(
         'UPDATE files SET version = version + 1, encrypted_hash = ?, size = ?, updated_at = ? WHERE user_id = ? AND path = ? AND version = ?'
-      ).run(encryptedHash, data.length, now, auth.userId, filePath, expectedVersion);
+      ).run(encryptedHash, size, now, auth.userId, filePath, expectedVersion);
 
       if (result.changes === 0) {
         // Re-fetch to get current version for the error response
         const current = db.prepare(
           'SELECT version FROM files WHERE user_id = ? AND path = ?'
         ).get(auth.userId, filePath) as { version: number } | undefined;
-        return c.json({
-          error: 'Version conflict',
-          currentVersion: current?.version,
-          expectedVersion,
-        }, 409);
+        return { conflict: true, currentVersion: current?.version };
       }
     } else {
       db.prepare(
         'UPDATE files SET version = version + 1, encrypted_hash = ?, size = ?, updated_at = ? WHERE user_id = ? AND path = ?'
-      ).run(encryptedHash, data.length, now, auth.userId, filePath);
+      ).run(encryptedHash, size, now, auth.userId, filePath);
     }
 
     const updated = db.prepare(
       'SELECT version FROM files WHERE user_id = ? AND path = ?'
     ).get(auth.userId, filePath) as { version: number };
 
+    // Reference the new chunks before archiving, which collects unreferenced ones
+    if (chunkIds) setFileChunks(auth.userId, filePath, updated.version, chunkIds);
+
+    // Keep the blob being replaced in version history
+    await archiveVersion(auth.userId, filePath, existing);
+
     await storeBlob(DATA_DIR, auth.userId, filePath, data);
 
+    recordChange(auth.userId, filePath, { version: updated.version, encryptedHash, size });
     broadcastToUser(auth.userId, { type: 'file-updated', path: filePath, version: updated.version });
 
-    recordAudit(auth.userId, 'upload', filePath, { version: updated.version, size: data.length });
+    recordAudit(auth.userId, 'upload', filePath, { version: updated.version, size });
 
-    return c.json({ path: filePath, version: updated.version });
+    return { version: updated.version, created: false };
   } else {
     const fileId = crypto.randomUUID();
+    const version = nextVersionAfterHistory(auth.userId, filePath);
     db.prepare(
-      'INSERT INTO files (id, user_id, path, version, encrypted_hash, size, created_at, updated_at) VALUES (?, ?, ?, 1, ?, ?, ?, ?)'
-    ).run(fileId, auth.userId, filePath, encryptedHash, data.length, now, now);
+      'INSERT INTO files (id, user_id, path, version, encrypted_hash, size, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    ).run(fileId, auth.userId, filePath, version, encryptedHash, size, now, now);
 
     await storeBlob(DATA_DIR, auth.userId, filePath, data);
+    if (chunkIds) setFileChunks(auth.userId, filePath, version, chunkIds);
 
-    broadcastToUser(auth.userId, { type: 'file-updated', path: filePath, version: 1 });
+    recordChange(auth.userId, filePath, { version, encryptedHash, size });
+    broadcastToUser(auth.userId, { type: 'file-updated', path: filePath, version });
 
-    recordAudit(auth.userId, 'upload', filePath, { version: 1, size: data.length });
+    recordAudit(auth.userId, 'upload', filePath, { version, size });
 
-    return c.json({ path: filePath, version: 1 }, 201);
+    return { version, created: true };
   }
-});
+}
 
 // Download file
 fileRoutes.get('/*', async (c) => {
@@ -195,6 +465,7 @@ fileRoutes.get('/*', async (c) => {
         'Content-Type': 'application/octet-stream',
         'X-Version': String(file.version),
         'X-Content-Hash': file.encrypted_hash,
+        ...(isChunked(auth.userId, filePath, file.version) ? { 'X-Chunked': '1' } : {}),
       },
     });
   } catch {
@@ -219,25 +490,40 @@ fileRoutes.delete('/*', async (c) => {
     return c.json({ error: 'Access denied: path outside API key scope' }, 403);
   }
 
-  if (auth.authType === 'api-key' && auth.permissions !== 'write' && auth.permissions !== 'readwrite') {
+  if (auth.authType === 'api-key' && !hasPermission(auth.permissions ?? 'read', 'read-write')) {
     return c.json({ error: 'Write permission required' }, 403);
   }
 
+  const expectedVersion = c.req.header('X-Version') ? Number(c.req.header('X-Version')) : undefined;
+
   const db = getDb();
+  const existing = db.prepare(
+    'SELECT version, encrypted_hash, size, updated_at FROM files WHERE user_id = ? AND path = ?'
+  ).get(auth.userId, filePath) as { version: number; encrypted_hash: string; size: number; updated_at: number } | undefined;
+
+  // A device deleting the version it last saw must not delete a newer one
+  if (existing && expectedVersion !== undefined && existing.version !== expectedVersion) {
+    return c.json({ error: 'Version conflict', currentVersion: existing.version, expectedVersion }, 409);
+  }
+
   const result = db.prepare(
     'DELETE FROM files WHERE user_id = ? AND path = ?'
   ).run(auth.userId, filePath);
 
-  if (result.changes === 0) {
+  if (result.changes === 0 || !existing) {
     return c.json({ error: 'File not found' }, 404);
   }
 
+  // Deleted files stay restorable from version history
+  await archiveVersion(auth.userId, filePath, existing);
+
   try {
     await deleteBlob(DATA_DIR, auth.userId, filePath);
   } catch {
     // Blob may already be missing
   }
 
+  recordDeletion(auth.userId, filePath, existing.version, auth.deviceId);
   broadcastToUser(auth.userId, { type: 'file-deleted', path: filePath });
 
   recordAudit(auth.userId, 'delete', filePath);
@@ -0,0 +1,397 @@
+import { Hono } from 'hono';
+import crypto from 'node:crypto';
+import path from 'node:path';
+import { getDb } from '../db.js';
+import { authMiddleware, getAuth } from '../middleware/auth.js';
+import { normalizePermission, hasPermission, type ApiPermission } from '../shared/api-keys.js';
+import { storeShareBlob, loadShareBlob, deleteShareBlob, deleteShareBlobs } from '../storage.js';
+import { broadcastToUser } from '../ws.js';
+import { recordAudit } from '../audit.js';
+import { isValidFilePath } from './files.js';
+
+const DATA_DIR = process.env.DATA_DIR || './data';
+const MAX_UPLOAD_SIZE = Number(process.env.MAX_UPLOAD_SIZE) || 10 * 1024 * 1024; // 10MB default
+
+interface ShareAccess {
+  ownerId: string;
+  folder: string;
+  /** The owner can always write. */
+  permissions: ApiPermission;
+}
+
+/** How a user may use a share, or null if it isn't theirs and wasn't shared with them. */
+function getShareAccess(shareId: string, userId: string): ShareAccess | null {
+  const db = getDb();
+  const share = db.prepare('SELECT owner_id, folder FROM shares WHERE id = ?').get(shareId) as
+    | { owner_id: string; folder: string }
+    | undefined;
+  if (!share) return null;
+  if (share.owner_id === userId) {
+    return { ownerId: share.owner_id, folder: share.folder, permissions: 'read-write' };
+  }
+
+  const grant = db.prepare('SELECT permissions FROM share_grants WHERE share_id = ? AND recipient_id = ?')
+    .get(shareId, userId) as { permissions: string } | undefined;
+  if (!grant) return null;
+  return { ownerId: share.owner_id, folder: share.folder, permissions: normalizePermission(grant.permissions) ?? 'read' };
+}
+
+/** The owner and every recipient of a share. */
+function getShareMembers(shareId: string): string[] {
+  const db = getDb();
+  const share = db.prepare('SELECT owner_id FROM shares WHERE id = ?').get(shareId) as { owner_id: string } | undefined;
+  if (!share) return [];
+  const recipients = db.prepare('SELECT recipient_id FROM share_grants WHERE share_id = ?')
+    .all(shareId) as { recipient_id: string }[];
+  return [share.owner_id, ...recipients.map((r) => r.recipient_id)];
+}
+
+function broadcastToUsers(userIds: string[], message: object): void {
+  for (const userId of userIds) {
+    broadcastToUser(userId, message);
+  }
+}
+
+/** A folder path inside the vault, without traversal and outside the "shared/" mount root. */
+function isValidShareFolder(folder: string): boolean {
+  if (!folder || folder !== path.posix.normalize(folder) || folder.endsWith('/')) return false;
+  if (folder === '.' || folder.startsWith('/') || folder.startsWith('..')) return false;
+  return folder !== 'shared' && !folder.startsWith('shared/') && isValidFilePath(folder);
+}
+
+function shareFilePath(requestPath: string): string {
+  return decodeURIComponent(requestPath.replace(/^\/api\/shares\/[^/]+\/files\//, ''));
+}
+
+export const shareRoutes = new Hono();
+
+shareRoutes.use('*', authMiddleware);
+
+// API keys are scoped to their own vault; shares need a session
+shareRoutes.use('*', async (c, next) => {
+  if (getAuth(c).authType !== 'jwt') {
+    return c.json({ error: 'API keys cannot access shares' }, 403);
+  }
+  return next();
+});
+
+// Publish this account's public sharing key
+shareRoutes.put('/key', async (c) => {
+  const auth = getAuth(c);
+  let body: any;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  if (typeof body.publicKey !== 'string' || !/^[0-9a-f]{64}$/.test(body.publicKey)) {
+    return c.json({ error: 'publicKey must be 32 hex-encoded bytes' }, 400);
+  }
+
+  getDb().prepare('UPDATE users SET sharing_public_key = ? WHERE id = ?').run(body.publicKey, auth.userId);
+  return c.json({ ok: true });
+});
+
+// Look up another account's public sharing key
+shareRoutes.get('/key/:userId', async (c) => {
+  const userId = c.req.param('userId');
+  const user = getDb().prepare('SELECT sharing_public_key FROM users WHERE id = ?').get(userId) as
+    | { sharing_public_key: string | null }
+    | undefined;
+
+  if (!user?.sharing_public_key) {
+    return c.json({ error: 'User not found or sharing not enabled' }, 404);
+  }
+
+  return c.json({ userId, publicKey: user.sharing_public_key });
+});
+
+// List shares this account owns and shares it has received
+shareRoutes.get('/', async (c) => {
+  const auth = getAuth(c);
+  const db = getDb();
+
+  const owned = db.prepare(
+    'SELECT id, folder, wrapped_key as wrappedKey, created_at as createdAt FROM shares WHERE owner_id = ?'
+  ).all(auth.userId) as Array<{ id: string; folder: string; wrappedKey: string; createdAt: number }>;
+  const listGrants = db.prepare(
+    'SELECT recipient_id as recipientId, permissions, created_at as createdAt FROM share_grants WHERE share_id = ?'
+  );
+
+  const received = db.prepare(`
+    SELECT s.id, s.owner_id as ownerId, s.folder, g.permissions, g.wrapped_key as wrappedKey, g.created_at as createdAt
+    FROM share_grants g JOIN shares s ON s.id = g.share_id
+    WHERE g.recipient_id = ?
+  `).all(auth.userId);
+
+  return c.json({
+    owned: owned.map((share) => ({ ...share, grants: listGrants.all(share.id) })),
+    received,
+  });
+});
+
+// Share a folder. The share key arrives wrapped for the owner's own sharing key.
+shareRoutes.post('/', async (c) => {
+  const auth = getAuth(c);
+  let body: any;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  const { folder, wrappedKey } = body;
+
+  if (typeof folder !== 'string' || typeof wrappedKey !== 'string' || !wrappedKey) {
+    return c.json({ error: 'folder and wrappedKey are required' }, 400);
+  }
+  if (!isValidShareFolder(folder)) {
+    return c.json({ error: 'Invalid folder' }, 400);
+  }
+
+  const db = getDb();
+  const existing = db.prepare('SELECT id FROM shares WHERE owner_id = ? AND folder = ?')
+    .get(auth.userId, folder) as { id: string } | undefined;
+  if (existing) {
+    return c.json({ error: 'Folder is already shared', shareId: existing.id }, 409);
+  }
+
+  const shareId = crypto.randomUUID();
+  db.prepare(
+    'INSERT INTO shares (id, owner_id, folder, wrapped_key, created_at) VALUES (?, ?, ?, ?, ?)'
+  ).run(shareId, auth.userId, folder, wrappedKey, Date.now());
+
+  recordAudit(auth.userId, 'share-create', folder, { details: shareId });
+  broadcastToUser(auth.userId, { type: 'shares-changed' });
+
+  return c.json({ id: shareId }, 201);
+});
+
+// Stop sharing a folder. Its files return to the owner's vault sync.
+shareRoutes.delete('/:id', async (c) => {
+  const auth = getAuth(c);
+  const shareId = c.req.param('id');
+  const access = getShareAccess(shareId, auth.userId);
+  if (!access || access.ownerId !== auth.userId) {
+    return c.json({ error: 'Share not found' }, 404);
+  }
+
+  const members = getShareMembers(shareId);
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare('DELETE FROM share_files WHERE share_id = ?').run(shareId);
+    db.prepare('DELETE FROM share_grants WHERE share_id = ?').run(shareId);
+    db.prepare('DELETE FROM shares WHERE id = ?').run(shareId);
+  })();
+  await deleteShareBlobs(DATA_DIR, shareId);
+
+  recordAudit(auth.userId, 'share-delete', access.folder, { details: shareId });
+  broadcastToUsers(members, { type: 'shares-changed' });
+
+  return c.json({ ok: true });
+});
+
+// Grant a user access, with the share key wrapped for their sharing key (owner only)
+shareRoutes.put('/:id/grants/:userId', async (c) => {
+  const auth = getAuth(c);
+  const shareId = c.req.param('id');
+  const recipientId = c.req.param('userId');
+  const access = getShareAccess(shareId, auth.userId);
+  if (!access || access.ownerId !== auth.userId) {
+    return c.json({ error: 'Share not found' }, 404);
+  }
+
+  let body: any;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  const permissions = normalizePermission(body.permissions ?? 'read');
+  if (!permissions || typeof body.wrappedKey !== 'string' || !body.wrappedKey) {
+    return c.json({ error: 'wrappedKey and permissions ("read" or "read-write") are required' }, 400);
+  }
+
+  const db = getDb();
+  if (recipientId === auth.userId || !db.prepare('SELECT 1 FROM users WHERE id = ?').get(recipientId)) {
+    return c.json({ error: 'Recipient not found' }, 404);
+  }
+
+  db.prepare(`
+    INSERT INTO share_grants (share_id, recipient_id, permissions, wrapped_key, created_at) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (share_id, recipient_id) DO UPDATE SET permissions = excluded.permissions, wrapped_key = excluded.wrapped_key
+  `).run(shareId, recipientId, permissions, body.wrappedKey, Date.now());
+
+  recordAudit(auth.userId, 'share-grant', access.folder, { details: `${recipientId} (${permissions})` });
+  broadcastToUsers(getShareMembers(shareId), { type: 'shares-changed' });
+
+  return c.json({ ok: true });
+});
+
+// Revoke a user's access (owner), or leave a share (recipient)
+shareRoutes.delete('/:id/grants/:userId', async (c) => {
+  const auth = getAuth(c);
+  const shareId = c.req.param('id');
+  const recipientId = c.req.param('userId');
+  const access = getShareAccess(shareId, auth.userId);
+  if (!access || (access.ownerId !== auth.userId && recipientId !== auth.userId)) {
+    return c.json({ error: 'Share not found' }, 404);
+  }
+
+  const result = getDb().prepare('DELETE FROM share_grants WHERE share_id = ? AND recipient_id = ?')
+    .run(shareId, recipientId);
+  if (result.changes === 0) {
+    return c.json({ error: 'Grant not found' }, 404);
+  }
+
+  recordAudit(auth.userId, 'share-revoke', access.folder, { details: recipientId });
+  broadcastToUsers([...getShareMembers(shareId), recipientId], { type: 'shares-changed' });
+
+  return c.json({ ok: true });
+});
+
+// List files in a share
+shareRoutes.get('/:id/files', async (c) => {
+  const auth = getAuth(c);
+  const shareId = c.req.param('id');
+  if (!getShareAccess(shareId, auth.userId)) {
+    return c.json({ error: 'Share not found' }, 404);
+  }
+
+  const files = getDb().prepare(
+    'SELECT path, version, encrypted_hash as encryptedHash, size, updated_at as updatedAt FROM share_files WHERE share_id = ?'
+  ).all(shareId);
+
+  return c.json({ files });
+});
+
+// Upload a file to a share (owner or read-write recipient)
+shareRoutes.put('/:id/files/*', async (c) => {
+  const auth = getAuth(c);
+  const shareId = c.req.param('id');
+  const filePath = shareFilePath(c.req.path);
+
+  const access = getShareAccess(shareId, auth.userId);
+  if (!access) {
+    return c.json({ error: 'Share not found' }, 404);
+  }
+  if (!hasPermission(access.permissions, 'read-write')) {
+    return c.json({ error: 'Write permission required' }, 403);
+  }
+  if (!filePath || !isValidFilePath(filePath)) {
+    return c.json({ error: 'Invalid file path' }, 400);
+  }
+
+  const contentLength = Number(c.req.header('Content-Length') || '0');
+  if (contentLength > MAX_UPLOAD_SIZE) {
+    return c.json({ error: `File too large. Maximum size is ${MAX_UPLOAD_SIZE} bytes` }, 413);
+  }
+
+  const encryptedHash = c.req.header('X-Content-Hash') || '';
+  const expectedVersion = c.req.header('X-Version') ? Number(c.req.header('X-Version')) : undefined;
+  const data = Buffer.from(await c.req.arrayBuffer());
+  if (data.length > MAX_UPLOAD_SIZE) {
+    return c.json({ error: `File too large. Maximum size is ${MAX_UPLOAD_SIZE} bytes` }, 413);
+  }
+
+  const db = getDb();
+  const existing = db.prepare('SELECT version FROM share_files WHERE share_id = ? AND path = ?')
+    .get(shareId, filePath) as { version: number } | undefined;
+  const now = Date.now();
+
+  let version: number;
+  if (existing) {
+    // Atomic version check + update, as for vault files
+    const result = expectedVersion !== undefined
+      ? db.prepare(
+        'UPDATE share_files SET version = version + 1, encrypted_hash = ?, size = ?, updated_at = ? WHERE share_id = ? AND path = ? AND version = ?'
+      ).run(encryptedHash, data.length, now, shareId, filePath, expectedVersion)
+      : db.prepare(
+        'UPDATE share_files SET version = version + 1, encrypted_hash = ?, size = ?, updated_at = ? WHERE share_id = ? AND path = ?'
+      ).run(encryptedHash, data.length, now, shareId, filePath);
+
+    if (result.changes === 0) {
+      return c.json({ error: 'Version conflict', currentVersion: existing.version, expectedVersion }, 409);
+    }
+    version = existing.version + 1;
+  } else {
+    version = 1;
+    db.prepare(
+      'INSERT INTO share_files (share_id, path, version, encrypted_hash, size, updated_at) VALUES (?, ?, ?, ?, ?, ?)'
+    ).run(shareId, filePath, version, encryptedHash, data.length, now);
+  }
+
+  await storeShareBlob(DATA_DIR, shareId, filePath, data);
+
+  broadcastToUsers(getShareMembers(shareId), { type: 'share-updated', shareId });
+  recordAudit(auth.userId, 'share-upload', `${access.folder}/${filePath}`, { version, size: data.length, details: shareId });
+
+  return c.json({ path: filePath, version }, existing ? 200 : 201);
+});
+
+// Download a file from a share
+shareRoutes.get('/:id/files/*', async (c) => {
+  const auth = getAuth(c);
+  const shareId = c.req.param('id');
+  const filePath = shareFilePath(c.req.path);
+
+  if (!getShareAccess(shareId, auth.userId)) {
+    return c.json({ error: 'Share not found' }, 404);
+  }
+  if (!filePath || !isValidFilePath(filePath)) {
+    return c.json({ error: 'Invalid file path' }, 400);
+  }
+
+  const file = getDb().prepare('SELECT version, encrypted_hash FROM share_files WHERE share_id = ? AND path = ?')
+    .get(shareId, filePath) as { version: number; encrypted_hash: string } | undefined;
+  if (!file) {
+    return c.json({ error: 'File not found' }, 404);
+  }
+
+  try {
+    const data = await loadShareBlob(DATA_DIR, shareId, filePath);
+    return new Response(new Uint8Array(data), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Version': String(file.version),
+        'X-Content-Hash': file.encrypted_hash,
+      },
+    });
+  } catch {
+    return c.json({ error: 'Blob not found' }, 404);
+  }
+});
+
+// Delete a file from a share (owner or read-write recipient)
+shareRoutes.delete('/:id/files/*', async (c) => {
+  const auth = getAuth(c);
+  const shareId = c.req.param('id');
+  const filePath = shareFilePath(c.req.path);
+
+  const access = getShareAccess(shareId, auth.userId);
+  if (!access) {
+    return c.json({ error: 'Share not found' }, 404);
+  }
+  if (!hasPermission(access.permissions, 'read-write')) {
+    return c.json({ error: 'Write permission required' }, 403);
+  }
+  if (!filePath || !isValidFilePath(filePath)) {
+    return c.json({ error: 'Invalid file path' }, 400);
+  }
+
+  const result = getDb().prepare('DELETE FROM share_files WHERE share_id = ? AND path = ?').run(shareId, filePath);
+  if (result.changes === 0) {
+    return c.json({ error: 'File not found' }, 404);
+  }
+
+  try {
+    await deleteShareBlob(DATA_DIR, shareId, filePath);
+  } catch {
+    // Blob may already be missing
+  }
+
+  broadcastToUsers(getShareMembers(shareId), { type: 'share-updated', shareId });
+  recordAudit(auth.userId, 'share-delete-file', `${access.folder}/${filePath}`, { details: shareId });
+
+  return c.json({ ok: true });
+});
@@ -0,0 +1,358 @@
+import { Hono } from 'hono';
+import crypto from 'node:crypto';
+import { getDb } from '../db.js';
+import { authMiddleware, getAuth } from '../middleware/auth.js';
+import { isTeamRole, canManageRole, type TeamRole } from '../shared/teams.js';
+import { storeTeamBlob, loadTeamBlob, deleteTeamBlob, deleteTeamBlobs } from '../storage.js';
+import { broadcastToUser } from '../ws.js';
+import { recordAudit } from '../audit.js';
+import { isValidFilePath } from './files.js';
+
+const DATA_DIR = process.env.DATA_DIR || './data';
+const MAX_UPLOAD_SIZE = Number(process.env.MAX_UPLOAD_SIZE) || 10 * 1024 * 1024; // 10MB default
+const MAX_TEAM_NAME_LENGTH = 64;
+
+/** A user's role in a team, or null if they are not a member. */
+function getTeamRole(teamId: string, userId: string): TeamRole | null {
+  const member = getDb().prepare('SELECT role FROM team_members WHERE team_id = ? AND user_id = ?')
+    .get(teamId, userId) as { role: string } | undefined;
+  return member && isTeamRole(member.role) ? member.role : null;
+}
+
+function getTeamMembers(teamId: string): string[] {
+  const members = getDb().prepare('SELECT user_id FROM team_members WHERE team_id = ?')
+    .all(teamId) as { user_id: string }[];
+  return members.map((m) => m.user_id);
+}
+
+function broadcastToUsers(userIds: string[], message: object): void {
+  for (const userId of userIds) {
+    broadcastToUser(userId, message);
+  }
+}
+
+function teamFilePath(requestPath: string): string {
+  return decodeURIComponent(requestPath.replace(/^\/api\/teams\/[^/]+\/files\//, ''));
+}
+
+export const teamRoutes = new Hono();
+
+teamRoutes.use('*', authMiddleware);
+
+// API keys are scoped to their own vault; teams need a session
+teamRoutes.use('*', async (c, next) => {
+  if (getAuth(c).authType !== 'jwt') {
+    return c.json({ error: 'API keys cannot access teams' }, 403);
+  }
+  return next();
+});
+
+// List teams this account belongs to, with the team key wrapped for it
+teamRoutes.get('/', async (c) => {
+  const auth = getAuth(c);
+  const teams = getDb().prepare(`
+    SELECT t.id, t.name, m.role, m.wrapped_key as wrappedKey, t.created_at as createdAt,
+      (SELECT COUNT(*) FROM team_members WHERE team_id = t.id) as memberCount
+    FROM team_members m JOIN teams t ON t.id = m.team_id
+    WHERE m.user_id = ?
+  `).all(auth.userId);
+
+  return c.json({ teams });
+});
+
+// Create a team. The team key arrives wrapped for the creator's sharing key.
+teamRoutes.post('/', async (c) => {
+  const auth = getAuth(c);
+  let body: any;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  const { wrappedKey } = body;
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+  if (!name || typeof wrappedKey !== 'string' || !wrappedKey) {
+    return c.json({ error: 'name and wrappedKey are required' }, 400);
+  }
+  if (name.length > MAX_TEAM_NAME_LENGTH) {
+    return c.json({ error: `Team name must be at most ${MAX_TEAM_NAME_LENGTH} characters` }, 400);
+  }
+
+  const db = getDb();
+  const teamId = crypto.randomUUID();
+  const now = Date.now();
+  db.transaction(() => {
+    db.prepare('INSERT INTO teams (id, name, created_by, created_at) VALUES (?, ?, ?, ?)')
+      .run(teamId, name, auth.userId, now);
+    db.prepare(
+      "INSERT INTO team_members (team_id, user_id, role, wrapped_key, created_at) VALUES (?, ?, 'owner', ?, ?)"
+    ).run(teamId, auth.userId, wrappedKey, now);
+  })();
+
+  recordAudit(auth.userId, 'team-create', name, { details: teamId });
+  broadcastToUser(auth.userId, { type: 'teams-changed' });
+
+  return c.json({ id: teamId }, 201);
+});
+
+// Delete a team and its vault (owner only)
+teamRoutes.delete('/:id', async (c) => {
+  const auth = getAuth(c);
+  const teamId = c.req.param('id');
+  if (getTeamRole(teamId, auth.userId) !== 'owner') {
+    return c.json({ error: 'Team not found' }, 404);
+  }
+
+  const members = getTeamMembers(teamId);
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare('DELETE FROM team_files WHERE team_id = ?').run(teamId);
+    db.prepare('DELETE FROM team_members WHERE team_id = ?').run(teamId);
+    db.prepare('DELETE FROM teams WHERE id = ?').run(teamId);
+  })();
+  await deleteTeamBlobs(DATA_DIR, teamId);
+
+  recordAudit(auth.userId, 'team-delete', teamId);
+  broadcastToUsers(members, { type: 'teams-changed' });
+
+  return c.json({ ok: true });
+});
+
+// List members of a team
+teamRoutes.get('/:id/members', async (c) => {
+  const auth = getAuth(c);
+  const teamId = c.req.param('id');
+  if (!getTeamRole(teamId, auth.userId)) {
+    return c.json({ error: 'Team not found' }, 404);
+  }
+
+  const members = getDb().prepare(
+    'SELECT user_id as userId, role, created_at as createdAt FROM team_members WHERE team_id = ? ORDER BY created_at'
+  ).all(teamId);
+
+  return c.json({ members });
+});
+
+// Add a member with the team key wrapped for their sharing key, or change a member's role
+teamRoutes.put('/:id/members/:userId', async (c) => {
+  const auth = getAuth(c);
+  const teamId = c.req.param('id');
+  const memberId = c.req.param('userId');
+  const actorRole = getTeamRole(teamId, auth.userId);
+  if (!actorRole) {
+    return c.json({ error: 'Team not found' }, 404);
+  }
+
+  let body: any;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  const role = body.role ?? 'member';
+  if (!isTeamRole(role)) {
+    return c.json({ error: 'role must be "admin" or "member"' }, 400);
+  }
+
+  const currentRole = getTeamRole(teamId, memberId);
+  if (!canManageRole(actorRole, role) || (currentRole && !canManageRole(actorRole, currentRole))) {
+    return c.json({ error: 'Your role cannot assign this role' }, 403);
+  }
+
+  const db = getDb();
+  if (currentRole) {
+    db.prepare('UPDATE team_members SET role = ? WHERE team_id = ? AND user_id = ?').run(role, teamId, memberId);
+  } else {
+    if (typeof body.wrappedKey !== 'string' || !body.wrappedKey) {
+      return c.json({ error: 'wrappedKey is required for new members' }, 400);
+    }
+    if (!db.prepare('SELECT 1 FROM users WHERE id = ?').get(memberId)) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    db.prepare(
+      'INSERT INTO team_members (team_id, user_id, role, wrapped_key, created_at) VALUES (?, ?, ?, ?, ?)'
+    ).run(teamId, memberId, role, body.wrappedKey, Date.now());
+  }
+
+  recordAudit(auth.userId, currentRole ? 'team-role' : 'team-invite', teamId, { details: `${memberId} (${role})` });
+  broadcastToUsers(getTeamMembers(teamId), { type: 'teams-changed' });
+
+  return c.json({ ok: true }, currentRole ? 200 : 201);
+});
+
+// Remove a member (owner or admin), or leave a team (any member but the owner)
+// The team key is not rotated, so this only stops the server handing them the team's files
+teamRoutes.delete('/:id/members/:userId', async (c) => {
+  const auth = getAuth(c);
+  const teamId = c.req.param('id');
+  const memberId = c.req.param('userId');
+  const actorRole = getTeamRole(teamId, auth.userId);
+  if (!actorRole) {
+    return c.json({ error: 'Team not found' }, 404);
+  }
+
+  const memberRole = getTeamRole(teamId, memberId);
+  if (!memberRole) {
+    return c.json({ error: 'Member not found' }, 404);
+  }
+  if (memberRole === 'owner') {
+    return c.json({ error: 'The owner cannot leave; delete the team instead' }, 403);
+  }
+  if (memberId !== auth.userId && !canManageRole(actorRole, memberRole)) {
+    return c.json({ error: 'Your role cannot remove this member' }, 403);
+  }
+
+  getDb().prepare('DELETE FROM team_members WHERE team_id = ? AND user_id = ?').run(teamId, memberId);
+
+  recordAudit(auth.userId, 'team-remove', teamId, { details: memberId });
+  broadcastToUsers([...getTeamMembers(teamId), memberId], { type: 'teams-changed' });
+
+  return c.json({ ok: true });
+});
+
+// List files in a team vault
+teamRoutes.get('/:id/files', async (c) => {
+  const auth = getAuth(c);
+  const teamId = c.req.param('id');
+  if (!getTeamRole(teamId, auth.userId)) {
+    return c.json({ error: 'Team not found' }, 404);
+  }
+
+  const files = getDb().prepare(
+    'SELECT path, version, encrypted_hash as encryptedHash, size, updated_at as updatedAt FROM team_files WHERE team_id = ?'
+  ).all(teamId);
+
+  return c.json({ files });
+});
+
+// Upload a file to a team vault
+teamRoutes.put('/:id/files/*', async (c) => {
+  const auth = getAuth(c);
+  const teamId = c.req.param('id');
+  const filePath = teamFilePath(c.req.path);
+
+  if (!getTeamRole(teamId, auth.userId)) {
+    return c.json({ error: 'Team not found' }, 404);
+  }
+  if (!filePath || !isValidFilePath(filePath)) {
+    return c.json({ error: 'Invalid file path' }, 400);
+  }
+
+  const contentLength = Number(c.req.header('Content-Length') || '0');
+  if (contentLength > MAX_UPLOAD_SIZE) {
+    return c.json({ error: `File too large. Maximum size is ${MAX_UPLOAD_SIZE} bytes` }, 413);
+  }
+
+  const encryptedHash = c.req.header('X-Content-Hash') || '';
+  const expectedVersion = c.req.header('X-Version') ? Number(c.req.header('X-Version')) : undefined;
+  const data = Buffer.from(await c.req.arrayBuffer());
+  if (data.length > MAX_UPLOAD_SIZE) {
+    return c.json({ error: `File too large. Maximum size is ${MAX_UPLOAD_SIZE} bytes` }, 413);
+  }
+
+  const db = getDb();
+  const existing = db.prepare('SELECT version FROM team_files WHERE team_id = ? AND path = ?')
+    .get(teamId, filePath) as { version: number } | undefined;
+  const now = Date.now();
+
+  let version: number;
+  if (existing) {
+    // Atomic version check + update, as for vault files
+    const result = expectedVersion !== undefined
+      ? db.prepare(
+        'UPDATE team_files SET version = version + 1, encrypted_hash = ?, size = ?, updated_at = ? WHERE team_id = ? AND path = ? AND version = ?'
+      ).run(encryptedHash, data.length, now, teamId, filePath, expectedVersion)
+      : db.prepare(
+        'UPDATE team_files SET version = version + 1, encrypted_hash = ?, size = ?, updated_at = ? WHERE team_id = ? AND path = ?'
+      ).run(encryptedHash, data.length, now, teamId, filePath);
+
+    if (result.changes === 0) {
+      return c.json({ error: 'Version conflict', currentVersion: existing.version, expectedVersion }, 409);
+    }
+    version = existing.version + 1;
+  } else {
+    version = 1;
+    db.prepare(
+      'INSERT INTO team_files (team_id, path, version, encrypted_hash, size, updated_at) VALUES (?, ?, ?, ?, ?, ?)'
+    ).run(teamId, filePath, version, encryptedHash, data.length, now);
+  }
+
+  await storeTeamBlob(DATA_DIR, teamId, filePath, data);
+
+  broadcastToUsers(getTeamMembers(teamId), { type: 'team-file-updated', teamId, path: filePath, version });
+  recordAudit(auth.userId, 'team-upload', filePath, { version, size: data.length, details: teamId });
+
+  return c.json({ path: filePath, version }, existing ? 200 : 201);
+});
+
+// Download a file from a team vault
+teamRoutes.get('/:id/files/*', async (c) => {
+  const auth = getAuth(c);
+  const teamId = c.req.param('id');
+  const filePath = teamFilePath(c.req.path);
+
+  if (!getTeamRole(teamId, auth.userId)) {
+    return c.json({ error: 'Team not found' }, 404);
+  }
+  if (!filePath || !isValidFilePath(filePath)) {
+    return c.json({ error: 'Invalid file path' }, 400);
+  }
+
+  const file = getDb().prepare('SELECT version, encrypted_hash FROM team_files WHERE team_id = ? AND path = ?')
+    .get(teamId, filePath) as { version: number; encrypted_hash: string } | undefined;
+  if (!file) {
+    return c.json({ error: 'File not found' }, 404);
+  }
+
+  try {
+    const data = await loadTeamBlob(DATA_DIR, teamId, filePath);
+    return new Response(new Uint8Array(data), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Version': String(file.version),
+        'X-Content-Hash': file.encrypted_hash,
+      },
+    });
+  } catch {
+    return c.json({ error: 'Blob not found' }, 404);
+  }
+});
+
+// Delete a file from a team vault
+teamRoutes.delete('/:id/files/*', async (c) => {
+  const auth = getAuth(c);
+  const teamId = c.req.param('id');
+  const filePath = teamFilePath(c.req.path);
+
+  if (!getTeamRole(teamId, auth.userId)) {
+    return c.json({ error: 'Team not found' }, 404);
+  }
+  if (!filePath || !isValidFilePath(filePath)) {
+    return c.json({ error: 'Invalid file path' }, 400);
+  }
+
+  const expectedVersion = c.req.header('X-Version') ? Number(c.req.header('X-Version')) : undefined;
+  const db = getDb();
+  const existing = db.prepare('SELECT version FROM team_files WHERE team_id = ? AND path = ?')
+    .get(teamId, filePath) as { version: number } | undefined;
+  if (existing && expectedVersion !== undefined && existing.version !== expectedVersion) {
+    return c.json({ error: 'Version conflict', currentVersion: existing.version, expectedVersion }, 409);
+  }
+
+  const result = db.prepare('DELETE FROM team_files WHERE team_id = ? AND path = ?').run(teamId, filePath);
+  if (result.changes === 0) {
+    return c.json({ error: 'File not found' }, 404);
+  }
+
+  try {
+    await deleteTeamBlob(DATA_DIR, teamId, filePath);
+  } catch {
+    // Blob may already be missing
+  }
+
+  broadcastToUsers(getTeamMembers(teamId), { type: 'team-file-deleted', teamId, path: filePath });
+  recordAudit(auth.userId, 'team-delete-file', filePath, { details: teamId });
+
+  return c.json({ ok: true });
+});
@@ -0,0 +1,139 @@
+/**
+ * The API key model shared by the sync server and the local MCP server: one
+ * permission enum, one scope grammar and one secret format. The CLI imports
+ * this file directly, so it may only depend on Node built-ins and packages
+ * that both package.json files declare.
+ */
+import crypto from 'node:crypto';
+import picomatch from 'picomatch';
+
+export const API_PERMISSIONS = ['read', 'read-write'] as const;
+
+export type ApiPermission = (typeof API_PERMISSIONS)[number];
+
+/**
+ * Parse a permission value, accepting the names older keys were stored with
+ * ("write" and "readwrite" both allowed reading and writing). Returns null
+ * for anything else.
+ */
+export function normalizePermission(value: unknown): ApiPermission | null {
+  switch (value) {
+    case 'read':
+      return 'read';
+    case 'read-write':
+    case 'readwrite':
+    case 'write':
+      return 'read-write';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check if a permission level satisfies a required permission.
+ * "read-write" satisfies both "read" and "read-write" requirements.
+ * "read" only satisfies "read" requirements.
+ */
+export function hasPermission(granted: ApiPermission, required: ApiPermission): boolean {
+  if (required === 'read') return true; // both 'read' and 'read-write' satisfy 'read'
+  return granted === 'read-write';
+}
+
+/**
+ * Scope strings are stored with a syntax version so keys written under the
+ * old prefix grammar can be upgraded once, without rewriting new keys whose
+ * patterns happen to look the same.
+ */
+export const SCOPE_SYNTAX_VERSION = 2;
+
+type PathMatcher = (filePath: string) => boolean;
+
+const compiledScopes = new Map<string, PathMatcher>();
+
+function compilePattern(pattern: string): PathMatcher {
+  if (pattern === '*' || pattern === '**') return () => true;
+  // A plain path names that file or everything under that folder
+  if (!picomatch.scan(pattern).isGlob) {
+    const prefix = pattern.replace(/\/+$/, '');
+    return (filePath) => filePath === prefix || filePath.startsWith(prefix + '/');
+  }
+  return picomatch(pattern, { dot: true });
+}
+
+function compileScope(scope: string): PathMatcher {
+  const includes: PathMatcher[] = [];
+  const excludes: PathMatcher[] = [];
+  for (const raw of scope.split(',')) {
+    const pattern = raw.trim();
+    if (pattern.startsWith('!')) {
+      const negated = pattern.slice(1).trim();
+      if (negated) excludes.push(compilePattern(negated));
+    } else if (pattern) {
+      includes.push(compilePattern(pattern));
+    }
+  }
+
+  if (includes.length === 0 && excludes.length === 0) return () => false;
+  return (filePath) => {
+    if (excludes.some((m) => m(filePath))) return false;
+    return includes.length === 0 || includes.some((m) => m(filePath));
+  };
+}
+
+/**
+ * Check if a vault-relative file path matches a scope.
+ * Scopes are comma-separated glob patterns (picomatch syntax, dotfiles included):
+ * - "*" matches everything
+ * - "notes/**" or "*.md" match by glob against the whole path
+ * - a pattern without glob characters, e.g. "skills", matches that path and everything under it
+ * - "!pattern" excludes matching paths
+ * A path is in scope when it matches no exclusion and at least one inclusion;
+ * exclusions always win regardless of order, and a scope made only of
+ * exclusions includes everything else. An empty scope matches nothing.
+ */
+export function matchesScope(filePath: string, scope: string): boolean {
+  let matcher = compiledScopes.get(scope);
+  if (!matcher) {
+    matcher = compileScope(scope);
+    compiledScopes.set(scope, matcher);
+  }
+  return matcher(filePath.replace(/\\/g, '/'));
+}
+
+/** True if the scope contains at least one pattern. */
+export function isValidScope(scope: unknown): scope is string {
+  return typeof scope === 'string' && scope.split(',').some((p) => p.trim().replace(/^!/, '').trim() !== '');
+}
+
+/**
+ * Rewrite a scope written in the version 1 grammar into equivalent globs.
+ * That grammar matched "dir/*" against "dir/" anywhere in the path and
+ * treated "memories/*" as any memory file.
+ */
+export function upgradeLegacyScope(scope: string): string {
+  return scope
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((pattern) => {
+      if (!pattern.endsWith('/*')) return pattern;
+      const prefix = pattern.slice(0, -2);
+      if (prefix === 'memories') return '**/memory/**,**/MEMORY.md,**/memories/**';
+      return `**/${prefix}/**`;
+    })
+    .join(',');
+}
+
+/** Keys without an expiry never expire. */
+export function isApiKeyExpired(expiresAt: number | null | undefined, now: number = Date.now()): boolean {
+  return expiresAt != null && expiresAt <= now;
+}
+
+/** A new API key secret. Only its hash is stored, by either server. */
+export function generateApiKeySecret(): string {
+  return 'cs_' + crypto.randomBytes(32).toString('hex');
+}
+
+export function hashApiKeySecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
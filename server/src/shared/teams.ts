@@ -0,0 +1,23 @@
+/**
+ * Team roles, shared by the sync server and the CLI. The CLI imports this
+ * file directly, so it may only depend on Node built-ins.
+ */
+
+export const TEAM_ROLES = ['owner', 'admin', 'member'] as const;
+
+export type TeamRole = (typeof TEAM_ROLES)[number];
+
+export function isTeamRole(value: unknown): value is TeamRole {
+  return TEAM_ROLES.includes(value as TeamRole);
+}
+
+/**
+ * Whether a member with one role may add, change or remove a member with
+ * another. A team has one owner, who manages everyone else; admins manage
+ * plain members. Nobody can hand out the owner role.
+ */
+export function canManageRole(actor: TeamRole, target: TeamRole): boolean {
+  if (target === 'owner') return false;
+  if (actor === 'owner') return true;
+  return actor === 'admin' && target === 'member';
+}
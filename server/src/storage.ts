@@ -10,6 +10,15 @@ function blobPath(dataDir: string, userId: string, filePath: string): string {
   return resolved;
 }
 
+function versionBlobPath(dataDir: string, userId: string, filePath: string, version: number): string {
+  const versionsDir = path.resolve(dataDir, 'versions', userId);
+  const resolved = path.resolve(versionsDir, filePath, `v${version}`);
+  if (!resolved.startsWith(versionsDir + path.sep)) {
+    throw new Error('Invalid file path: directory traversal detected');
+  }
+  return resolved;
+}
+
 export async function storeBlob(dataDir: string, userId: string, filePath: string, data: Buffer): Promise<void> {
   const dest = blobPath(dataDir, userId, filePath);
   await fs.promises.mkdir(path.dirname(dest), { recursive: true });
@@ -35,3 +44,112 @@ export async function blobExists(dataDir: string, userId: string, filePath: stri
     return false;
   }
 }
+
+function shareBlobPath(dataDir: string, shareId: string, filePath: string): string {
+  const shareDir = path.resolve(dataDir, 'shares', shareId);
+  const resolved = path.resolve(shareDir, filePath);
+  if (!resolved.startsWith(shareDir + path.sep)) {
+    throw new Error('Invalid file path: directory traversal detected');
+  }
+  return resolved;
+}
+
+export async function storeShareBlob(dataDir: string, shareId: string, filePath: string, data: Buffer): Promise<void> {
+  const dest = shareBlobPath(dataDir, shareId, filePath);
+  await fs.promises.mkdir(path.dirname(dest), { recursive: true });
+  await fs.promises.writeFile(dest, data);
+}
+
+export async function loadShareBlob(dataDir: string, shareId: string, filePath: string): Promise<Buffer> {
+  return fs.promises.readFile(shareBlobPath(dataDir, shareId, filePath));
+}
+
+export async function deleteShareBlob(dataDir: string, shareId: string, filePath: string): Promise<void> {
+  await fs.promises.unlink(shareBlobPath(dataDir, shareId, filePath));
+}
+
+/** Remove every blob of a share, when the share itself is deleted. */
+export async function deleteShareBlobs(dataDir: string, shareId: string): Promise<void> {
+  const shareDir = path.resolve(dataDir, 'shares', shareId);
+  if (path.dirname(shareDir) !== path.resolve(dataDir, 'shares')) {
+    throw new Error('Invalid share ID');
+  }
+  await fs.promises.rm(shareDir, { recursive: true, force: true });
+}
+
+function teamBlobPath(dataDir: string, teamId: string, filePath: string): string {
+  const teamDir = path.resolve(dataDir, 'teams', teamId);
+  const resolved = path.resolve(teamDir, filePath);
+  if (!resolved.startsWith(teamDir + path.sep)) {
+    throw new Error('Invalid file path: directory traversal detected');
+  }
+  return resolved;
+}
+
+export async function storeTeamBlob(dataDir: string, teamId: string, filePath: string, data: Buffer): Promise<void> {
+  const dest = teamBlobPath(dataDir, teamId, filePath);
+  await fs.promises.mkdir(path.dirname(dest), { recursive: true });
+  await fs.promises.writeFile(dest, data);
+}
+
+export async function loadTeamBlob(dataDir: string, teamId: string, filePath: string): Promise<Buffer> {
+  return fs.promises.readFile(teamBlobPath(dataDir, teamId, filePath));
+}
+
+export async function deleteTeamBlob(dataDir: string, teamId: string, filePath: string): Promise<void> {
+  await fs.promises.unlink(teamBlobPath(dataDir, teamId, filePath));
+}
+
+/** Remove every blob of a team vault, when the team is deleted. */
+export async function deleteTeamBlobs(dataDir: string, teamId: string): Promise<void> {
+  const teamDir = path.resolve(dataDir, 'teams', teamId);
+  if (path.dirname(teamDir) !== path.resolve(dataDir, 'teams')) {
+    throw new Error('Invalid team ID');
+  }
+  await fs.promises.rm(teamDir, { recursive: true, force: true });
+}
+
+function chunkBlobPath(dataDir: string, userId: string, chunkId: string): string {
+  const chunksDir = path.resolve(dataDir, 'chunks', userId);
+  const resolved = path.resolve(chunksDir, chunkId);
+  if (path.dirname(resolved) !== chunksDir) {
+    throw new Error('Invalid chunk ID');
+  }
+  return resolved;
+}
+
+export async function storeChunkBlob(dataDir: string, userId: string, chunkId: string, data: Buffer): Promise<void> {
+  const dest = chunkBlobPath(dataDir, userId, chunkId);
+  await fs.promises.mkdir(path.dirname(dest), { recursive: true });
+  await fs.promises.writeFile(dest, data);
+}
+
+export async function loadChunkBlob(dataDir: string, userId: string, chunkId: string): Promise<Buffer> {
+  return fs.promises.readFile(chunkBlobPath(dataDir, userId, chunkId));
+}
+
+export async function deleteChunkBlob(dataDir: string, userId: string, chunkId: string): Promise<void> {
+  await fs.promises.unlink(chunkBlobPath(dataDir, userId, chunkId));
+}
+
+export async function storeVersionBlob(
+  dataDir: string,
+  userId: string,
+  filePath: string,
+  version: number,
+  data: Buffer,
+): Promise<void> {
+  const dest = versionBlobPath(dataDir, userId, filePath, version);
+  await fs.promises.mkdir(path.dirname(dest), { recursive: true });
+  await fs.promises.writeFile(dest, data);
+}
+
+export async function loadVersionBlob(dataDir: string, userId: string, filePath: string, version: number): Promise<Buffer> {
+  const dest = versionBlobPath(dataDir, userId, filePath, version);
+  return fs.promises.readFile(dest);
+}
+
+export async function deleteVersionBlob(dataDir: string, userId: string, filePath: string, version: number): Promise<void> {
+  const dest = versionBlobPath(dataDir, userId, filePath, version);
+  await fs.promises.unlink(dest);
+}
@@ -0,0 +1,103 @@
+import crypto from 'node:crypto';
+import { getDb } from './db.js';
+import { loadBlob, storeVersionBlob, deleteVersionBlob } from './storage.js';
+import { dropFileChunks, collectChunks } from './chunks.js';
+
+const DATA_DIR = process.env.DATA_DIR || './data';
+const VERSION_HISTORY_LIMIT = Number(process.env.VERSION_HISTORY_LIMIT) || 20;
+const VERSION_HISTORY_DAYS = Number(process.env.VERSION_HISTORY_DAYS) || 30;
+
+export interface FileVersionEntry {
+  version: number;
+  encryptedHash: string;
+  size: number;
+  createdAt: number;
+}
+
+interface CurrentFile {
+  version: number;
+  encrypted_hash: string;
+  size: number;
+  updated_at: number;
+}
+
+/**
+ * Copy the current blob of a file into version history before it is
+ * overwritten or deleted, then apply the retention limits.
+ */
+export async function archiveVersion(userId: string, filePath: string, current: CurrentFile): Promise<void> {
+  let data: Buffer;
+  try {
+    data = await loadBlob(DATA_DIR, userId, filePath);
+  } catch {
+    // Nothing to archive if the blob is already missing
+    dropFileChunks(userId, filePath, current.version);
+    return;
+  }
+
+  await storeVersionBlob(DATA_DIR, userId, filePath, current.version, data);
+
+  const db = getDb();
+  db.prepare(
+    'INSERT OR REPLACE INTO file_versions (id, user_id, path, version, encrypted_hash, size, created_at, archived_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+  ).run(crypto.randomUUID(), userId, filePath, current.version, current.encrypted_hash, current.size, current.updated_at, Date.now());
+
+  await pruneVersions(userId, filePath);
+}
+
+/**
+ * Drop archived versions beyond VERSION_HISTORY_LIMIT per file, and any
+ * archived longer ago than VERSION_HISTORY_DAYS, along with chunks nothing
+ * is made of anymore.
+ */
+export async function pruneVersions(userId: string, filePath: string): Promise<void> {
+  const db = getDb();
+  const cutoff = Date.now() - VERSION_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+
+  const expired = db.prepare(
+    `SELECT version FROM file_versions WHERE user_id = ? AND path = ?
+     AND (archived_at < ? OR version NOT IN (
+       SELECT version FROM file_versions WHERE user_id = ? AND path = ? ORDER BY version DESC LIMIT ?
+     ))`,
+  ).all(userId, filePath, cutoff, userId, filePath, VERSION_HISTORY_LIMIT) as Array<{ version: number }>;
+
+  for (const { version } of expired) {
+    db.prepare(
+      'DELETE FROM file_versions WHERE user_id = ? AND path = ? AND version = ?',
+    ).run(userId, filePath, version);
+    dropFileChunks(userId, filePath, version);
+    try {
+      await deleteVersionBlob(DATA_DIR, userId, filePath, version);
+    } catch {
+      // Blob may already be missing
+    }
+  }
+
+  await collectChunks(userId);
+}
+
+export function listVersions(userId: string, filePath: string): FileVersionEntry[] {
+  const db = getDb();
+  return db.prepare(
+    'SELECT version, encrypted_hash as encryptedHash, size, created_at as createdAt FROM file_versions WHERE user_id = ? AND path = ? ORDER BY version DESC',
+  ).all(userId, filePath) as FileVersionEntry[];
+}
+
+export function getVersion(userId: string, filePath: string, version: number): FileVersionEntry | undefined {
+  const db = getDb();
+  return db.prepare(
+    'SELECT version, encrypted_hash as encryptedHash, size, created_at as createdAt FROM file_versions WHERE user_id = ? AND path = ? AND version = ?',
+  ).get(userId, filePath, version) as FileVersionEntry | undefined;
+}
+
+/**
+ * Version number for a file created at a path that has archived history,
+ * so a re-created file never reuses (and overwrites) an archived version.
+ */
+export function nextVersionAfterHistory(userId: string, filePath: string): number {
+  const db = getDb();
+  const row = db.prepare(
+    'SELECT MAX(version) as maxVersion FROM file_versions WHERE user_id = ? AND path = ?',
+  ).get(userId, filePath) as { maxVersion: number | null };
+  return (row.maxVersion ?? 0) + 1;
+}
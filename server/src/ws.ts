@@ -1,22 +1,66 @@
 import { WebSocketServer, WebSocket } from 'ws';
+import { randomUUID } from 'node:crypto';
 import type { Server } from 'node:http';
-import { verifyToken } from './middleware/auth.js';
+import { verifyToken, type TokenPayload } from './middleware/auth.js';
 import { getDb } from './db.js';
 
 interface TrackedConnection {
   ws: WebSocket;
   userId: string;
   deviceId?: string;
+  tokenId?: string;
   alive: boolean;
 }
 
+interface LoggedEvent {
+  seq: number;
+  data: string;
+  excludeDeviceId?: string;
+}
+
+interface EventLog {
+  nextSeq: number;
+  events: LoggedEvent[];
+}
+
+/** Where a reconnecting client left off, from the query string. */
+interface ResumePoint {
+  since: number;
+  epoch: string;
+}
+
+// Close code sent to connections whose device or token was revoked
+const WS_CLOSE_REVOKED = 4001;
+
+const EVENT_LOG_SIZE = Number(process.env.WS_EVENT_LOG_SIZE) || 500;
+
+// Sequence numbers only mean something to the process that handed them out
+const EPOCH = randomUUID();
+
 const connections = new Map<string, Set<TrackedConnection>>();
 
+// Recent broadcasts per user, kept even while nobody is connected, so a
+// client that reconnects can be sent what it missed
+const eventLogs = new Map<string, EventLog>();
+
+/**
+ * Send an event to every connection of a user. Each event is numbered and
+ * logged, so clients that were offline get it when they reconnect.
+ */
 export function broadcastToUser(userId: string, message: object, excludeDeviceId?: string): void {
+  let log = eventLogs.get(userId);
+  if (!log) {
+    log = { nextSeq: 1, events: [] };
+    eventLogs.set(userId, log);
+  }
+  const seq = log.nextSeq++;
+  const data = JSON.stringify({ ...message, seq });
+  log.events.push({ seq, data, excludeDeviceId });
+  if (log.events.length > EVENT_LOG_SIZE) log.events.shift();
+
   const userConns = connections.get(userId);
   if (!userConns) return;
 
-  const data = JSON.stringify(message);
   for (const conn of userConns) {
     if (excludeDeviceId && conn.deviceId === excludeDeviceId) continue;
     if (conn.ws.readyState === WebSocket.OPEN) {
@@ -25,6 +69,59 @@ export function broadcastToUser(userId: string, message: object, excludeDeviceId
   }
 }
 
+/**
+ * Greet a new connection with the current position in its user's event log,
+ * then send the events it missed since its resume point. When the gap can't
+ * be filled (the server restarted, or the events were already dropped from
+ * the log), the client is told to fall back to a full sync instead.
+ */
+function replayMissedEvents(conn: TrackedConnection, resume: ResumePoint | null): void {
+  const log = eventLogs.get(conn.userId);
+  const latest = log ? log.nextSeq - 1 : 0;
+  conn.ws.send(JSON.stringify({ type: 'hello', epoch: EPOCH, latest }));
+  if (!resume) return;
+
+  const oldest = log?.events[0]?.seq ?? latest + 1;
+  if (resume.epoch !== EPOCH || resume.since > latest || resume.since < oldest - 1) {
+    conn.ws.send(JSON.stringify({ type: 'resync-required' }));
+    return;
+  }
+
+  for (const event of log?.events ?? []) {
+    if (event.seq <= resume.since) continue;
+    if (event.excludeDeviceId && conn.deviceId === event.excludeDeviceId) continue;
+    conn.ws.send(event.data);
+  }
+}
+
+function parseResumePoint(url: URL): ResumePoint | null {
+  const since = Number(url.searchParams.get('since'));
+  const epoch = url.searchParams.get('epoch');
+  if (!epoch || !url.searchParams.has('since') || !Number.isInteger(since) || since < 0) return null;
+  return { since, epoch };
+}
+
+/**
+ * Disconnect a revoked device or token right away. The client is told why
+ * before the socket closes, so it stops reconnecting and asks for a new login.
+ */
+export function disconnect(userId: string, match: { deviceId?: string; tokenId?: string }): void {
+  const userConns = connections.get(userId);
+  if (!userConns) return;
+
+  for (const conn of userConns) {
+    const matched = (match.deviceId && conn.deviceId === match.deviceId)
+      || (match.tokenId && conn.tokenId === match.tokenId);
+    if (!matched) continue;
+    if (conn.ws.readyState === WebSocket.OPEN) {
+      conn.ws.send(JSON.stringify({ type: 'device-revoked' }));
+    }
+    conn.ws.close(WS_CLOSE_REVOKED, 'Revoked');
+    userConns.delete(conn);
+  }
+  if (userConns.size === 0) connections.delete(userId);
+}
+
 export function setupWebSocket(server: Server): void {
   const wss = new WebSocketServer({ noServer: true });
 
@@ -42,7 +139,7 @@ export function setupWebSocket(server: Server): void {
       return;
     }
 
-    let payload: { userId: string };
+    let payload: TokenPayload;
     try {
       payload = verifyToken(token);
     } catch {
@@ -50,15 +147,18 @@ export function setupWebSocket(server: Server): void {
       return;
     }
 
+    const resume = parseResumePoint(url);
     wss.handleUpgrade(request, socket, head, (ws) => {
-      wss.emit('connection', ws, payload);
+      wss.emit('connection', ws, payload, resume);
     });
   });
 
-  wss.on('connection', (ws: WebSocket, payload: { userId: string }) => {
+  wss.on('connection', (ws: WebSocket, payload: TokenPayload, resume: ResumePoint | null) => {
     const tracked: TrackedConnection = {
       ws,
       userId: payload.userId,
+      deviceId: payload.deviceId,
+      tokenId: payload.jti,
       alive: true,
     };
 
@@ -66,6 +166,7 @@ export function setupWebSocket(server: Server): void {
       connections.set(payload.userId, new Set());
     }
     connections.get(payload.userId)!.add(tracked);
+    replayMissedEvents(tracked, resume);
 
     ws.on('pong', () => {
       tracked.alive = true;
@@ -75,6 +176,8 @@ export function setupWebSocket(server: Server): void {
       try {
         const msg = JSON.parse(data.toString());
         if (msg.type === 'register-device' && msg.deviceId) {
+          // A device-bound token can only speak for its own device
+          if (payload.deviceId && msg.deviceId !== payload.deviceId) return;
           tracked.deviceId = msg.deviceId;
           // Update last_seen for this device
           try {
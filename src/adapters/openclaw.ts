@@ -13,7 +13,8 @@ const DEFAULT_EXCLUDE = [
   '*.sqlite',
 ];
 
-const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+// Large files sync in chunks, so the limit only keeps out the truly huge
+export const DEFAULT_MAX_FILE_SIZE = 256 * 1024 * 1024; // 256MB
 
 // Directories under ~/.openclaw/ that should never be synced
 const OPENCLAW_SKIP_DIRS = new Set([
@@ -6,12 +6,14 @@ import { stdin, stdout } from 'node:process';
 import { access, readFile, mkdir } from 'node:fs/promises';
 import { join } from 'node:path';
 import { homedir } from 'node:os';
-import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { bytesToHex } from '@noble/hashes/utils';
 import { loadConfig, saveConfig, getConfigPath, type ContextMateConfig } from '../config.js';
 import { getAdapter } from '../adapters/index.js';
-import { OpenClawAdapter, discoverWorkspaces } from '../adapters/openclaw.js';
+import { OpenClawAdapter, discoverWorkspaces, DEFAULT_MAX_FILE_SIZE } from '../adapters/openclaw.js';
 import { getBackupsPath } from '../utils/paths.js';
-import { deriveMasterKey, deriveVaultKey, encryptString } from '../crypto/index.js';
+import { encryptString } from '../crypto/index.js';
+import { loadCredentials, vaultKeyFromPassphrase } from './unlock.js';
+import type { Credentials } from './unlock.js';
 
 async function isInitialized(): Promise<boolean> {
   try {
@@ -83,18 +85,16 @@ async function pushDeviceSettings(config: ContextMateConfig): Promise<void> {
   }
 
   // Load salt and derive vault key
-  let credentials: { salt: string };
+  let credentials: Credentials;
   try {
-    credentials = JSON.parse(await readFile(join(config.data.path, 'credentials.json'), 'utf-8'));
+    credentials = await loadCredentials(config);
   } catch {
     console.log(chalk.yellow('  Could not load credentials. Skipping settings sync.'));
     return;
   }
 
   try {
-    const salt = hexToBytes(credentials.salt);
-    const masterKey = await deriveMasterKey(passphrase, salt);
-    const vaultKey = deriveVaultKey(masterKey);
+    const vaultKey = await vaultKeyFromPassphrase(passphrase, credentials);
 
     // Build settings payload
     const settings = {
@@ -238,7 +238,7 @@ function createAdapterSubcommands(agentName: string, displayName: string): Comma
                 'node_modules/**', '.git/**', '.vercel/**',
                 '__pycache__/**', '*.db', '*.sqlite', '.openclaw/**',
               ],
-              maxFileSizeBytes: 10 * 1024 * 1024,
+              maxFileSizeBytes: DEFAULT_MAX_FILE_SIZE,
             };
           }
           setAdapterEnabled('openclaw', config, true);
@@ -328,7 +328,7 @@ function createAdapterSubcommands(agentName: string, displayName: string): Comma
                 'node_modules/**', '.git/**', '.vercel/**',
                 '__pycache__/**', '*.db', '*.sqlite', '.openclaw/**',
               ],
-              maxFileSizeBytes: 10 * 1024 * 1024,
+              maxFileSizeBytes: DEFAULT_MAX_FILE_SIZE,
             };
           }
         } else if (agentName === 'claude') {
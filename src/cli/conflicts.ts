@@ -0,0 +1,420 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { access, mkdtemp, readFile, readdir, rm, stat, unlink, writeFile } from 'node:fs/promises';
+import { dirname, isAbsolute, join, relative } from 'node:path';
+import { tmpdir } from 'node:os';
+import { spawnSync } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { loadConfig, getConfigDir } from '../config.js';
+import type { ContextMateConfig } from '../config.js';
+import { getSyncDbPath } from '../utils/paths.js';
+import { deriveKeyForPath, hashContent, encryptPathId } from '../crypto/index.js';
+import type { SyncStateDB } from '../sync/index.js';
+import { conflictSidecarPath, isConflictSidecar, sidecarOwner } from '../sync/sidecars.js';
+import { SHARED_ROOT, findMount, isUnder, savedMounts, type ShareMount } from '../sync/shares.js';
+import { loadAuthData, unlockVaultKey, usesEncryptedPaths } from './unlock.js';
+
+const CONFLICT_MARKER = /^(<<<<<<<|=======|>>>>>>>)( |$)/m;
+
+interface ConflictEntry {
+  path: string;
+  hasSidecar: boolean;
+  tracked: boolean;
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function requireInitialized(): Promise<ContextMateConfig> {
+  if (!(await fileExists(getConfigDir()))) {
+    console.error(chalk.red('ContextMate is not initialized. Run "contextmate init" first.'));
+    process.exit(1);
+  }
+  return loadConfig();
+}
+
+/** Accept a vault-relative or absolute path to either the file or its sidecar. */
+function toVaultPath(config: ContextMateConfig, filePath: string): string {
+  let rel = filePath.replace(/^\.\//, '');
+  if (isAbsolute(filePath)) {
+    rel = relative(config.vault.path, filePath);
+    if (rel.startsWith('..') || isAbsolute(rel)) {
+      const teams = join(dirname(config.vault.path), 'teams');
+      if (!relative(teams, filePath).startsWith('..')) {
+        throw new Error(
+          `${filePath} is in a team vault. Copy what you want to keep from its sidecar into the file `
+          + 'and delete the sidecar; the daemon uploads the file to the team.',
+        );
+      }
+      throw new Error(`${filePath} is not inside the vault (${config.vault.path}).`);
+    }
+    rel = rel.split('\\').join('/');
+  }
+  return isConflictSidecar(rel) ? sidecarOwner(rel) : rel;
+}
+
+async function findSidecars(dir: string, base: string): Promise<string[]> {
+  const found: string[] = [];
+  let entries;
+  try {
+    entries = await readdir(dir);
+  } catch {
+    return found;
+  }
+  for (const name of entries) {
+    if (name.startsWith('.')) continue;
+    const full = join(dir, name);
+    try {
+      const s = await stat(full);
+      if (s.isDirectory()) {
+        found.push(...await findSidecars(full, base));
+      } else if (s.isFile() && isConflictSidecar(name)) {
+        found.push(relative(base, full).split('\\').join('/'));
+      }
+    } catch {
+      // Skip inaccessible entries
+    }
+  }
+  return found;
+}
+
+/** Files in conflict state plus any sidecars on disk, including ones the state DB no longer tracks. */
+async function listConflicts(config: ContextMateConfig, db: SyncStateDB | null): Promise<ConflictEntry[]> {
+  const entries = new Map<string, ConflictEntry>();
+
+  for (const file of db?.getConflicts() ?? []) {
+    entries.set(file.path, { path: file.path, hasSidecar: false, tracked: true });
+  }
+
+  for (const sidecar of await findSidecars(config.vault.path, config.vault.path)) {
+    const path = sidecarOwner(sidecar);
+    const entry = entries.get(path) ?? { path, hasSidecar: false, tracked: false };
+    entry.hasSidecar = true;
+    entries.set(path, entry);
+  }
+
+  return [...entries.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
+
+async function openStateDb(config: ContextMateConfig): Promise<SyncStateDB | null> {
+  const dbPath = getSyncDbPath(config);
+  if (!(await fileExists(dbPath))) return null;
+  const { SyncStateDB } = await import('../sync/index.js');
+  return new SyncStateDB(dbPath);
+}
+
+async function readSidecar(config: ContextMateConfig, vaultPath: string): Promise<Uint8Array> {
+  const sidecar = conflictSidecarPath(vaultPath);
+  if (!(await fileExists(join(config.vault.path, sidecar)))) {
+    throw new Error(`No local copy (${sidecar}) found for ${vaultPath}.`);
+  }
+  return new Uint8Array(await readFile(join(config.vault.path, sidecar)));
+}
+
+async function removeSidecar(config: ContextMateConfig, vaultPath: string): Promise<void> {
+  try {
+    await unlink(join(config.vault.path, conflictSidecarPath(vaultPath)));
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * The shared folder a path is in, or null for a vault path. Shared files are
+ * encrypted with the share's key, so resolving one only settles the copy on
+ * disk and leaves the upload to the daemon's share sync.
+ */
+async function shareMountOf(config: ContextMateConfig, vaultPath: string): Promise<ShareMount | null> {
+  const db = await openStateDb(config);
+  let mount: ShareMount | null;
+  try {
+    mount = db ? findMount(savedMounts(db), vaultPath) : null;
+  } finally {
+    db?.close();
+  }
+  if (!mount && isUnder(vaultPath, SHARED_ROOT)) {
+    throw new Error(`${vaultPath} is in a shared folder that is no longer mounted.`);
+  }
+  return mount;
+}
+
+/** Keep content in a shared folder: the daemon uploads it if the share is writable. */
+async function resolveInShare(
+  config: ContextMateConfig,
+  mount: ShareMount,
+  vaultPath: string,
+  content: Uint8Array,
+): Promise<void> {
+  if (!mount.writable) {
+    throw new Error(`${vaultPath} is in a read-only shared folder; local changes can't be uploaded.`);
+  }
+  await writeFile(join(config.vault.path, vaultPath), content);
+  await removeSidecar(config, vaultPath);
+}
+
+/**
+ * Upload the chosen content over the remote copy the conflict was recorded
+ * against, write it to the vault and mark the file synced.
+ */
+async function resolveWith(
+  config: ContextMateConfig,
+  vaultPath: string,
+  content: Uint8Array,
+  detail: string,
+): Promise<number> {
+  const auth = await loadAuthData(config);
+  const vaultKey = await unlockVaultKey(config);
+
+  const { SyncClient, ConflictError, uploadVaultFile } = await import('../sync/index.js');
+  const client = new SyncClient(config.server.url, auth.token);
+  client.enableTokenRefresh({ authJsonPath: join(config.data.path, 'auth.json') });
+
+  const remotePath = (await usesEncryptedPaths(config)) ? encryptPathId(vaultKey, vaultPath) : vaultPath;
+
+  const db = await openStateDb(config);
+  try {
+    const existing = db?.getFile(vaultPath);
+    let uploaded: { version: number; encryptedHash: string; counter: number };
+    try {
+      uploaded = await uploadVaultFile(
+        client,
+        remotePath,
+        content,
+        deriveKeyForPath(vaultKey, vaultPath),
+        vaultPath,
+        db?.getBlobCounter(vaultPath) ?? 0,
+        existing?.version ?? 0,
+      );
+    } catch (err) {
+      if (err instanceof ConflictError) {
+        throw new Error(`${vaultPath} changed on the server again. Let the daemon sync, then resolve it again.`);
+      }
+      throw err;
+    }
+    const { version, encryptedHash, counter } = uploaded;
+
+    // Record the new version before writing so the daemon doesn't re-upload it
+    db?.upsertFile({
+      id: existing?.id ?? randomUUID(),
+      path: vaultPath,
+      contentHash: hashContent(content),
+      encryptedHash,
+      version,
+      size: content.length,
+      syncState: 'synced',
+      lastModified: Date.now(),
+    });
+    db?.recordBlobCounter(vaultPath, counter);
+    await writeFile(join(config.vault.path, vaultPath), content);
+    await removeSidecar(config, vaultPath);
+    db?.addSyncLog('resolve', vaultPath, detail);
+    return version;
+  } finally {
+    db?.close();
+  }
+}
+
+function withErrors(action: (filePath: string) => Promise<void>): (filePath: string) => Promise<void> {
+  return async (filePath: string) => {
+    try {
+      await action(filePath);
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  };
+}
+
+const listCommand = new Command('list')
+  .description('List files with unresolved conflicts')
+  .option('--json', 'Output as JSON')
+  .action(async (opts: { json?: boolean }) => {
+    const config = await requireInitialized();
+    const db = await openStateDb(config);
+    let conflicts: ConflictEntry[];
+    try {
+      conflicts = await listConflicts(config, db);
+    } finally {
+      db?.close();
+    }
+
+    if (opts.json) {
+      console.log(JSON.stringify(conflicts, null, 2));
+      return;
+    }
+
+    if (conflicts.length === 0) {
+      console.log(chalk.green('No conflicts.'));
+      return;
+    }
+
+    console.log('');
+    console.log(chalk.bold(`${conflicts.length} conflict${conflicts.length === 1 ? '' : 's'}`));
+    console.log('');
+    for (const conflict of conflicts) {
+      const note = !conflict.hasSidecar
+        ? chalk.dim('  (no local copy saved)')
+        : !conflict.tracked
+          ? chalk.dim('  (untracked sidecar)')
+          : '';
+      console.log(`  ${chalk.red('conflict')}  ${conflict.path}${note}`);
+    }
+    console.log('');
+    console.log(chalk.dim('  Compare:       contextmate conflicts diff <path>'));
+    console.log(chalk.dim('  Resolve with:  contextmate conflicts keep-local | keep-remote | open-in-editor <path>'));
+    console.log('');
+  });
+
+const diffCommand = new Command('diff')
+  .description('Show the differences between the vault file (remote) and its conflict sidecar (local)')
+  .argument('<path>', 'Vault-relative file path')
+  .action(withErrors(async (filePath: string) => {
+    const config = await requireInitialized();
+    const vaultPath = toVaultPath(config, filePath);
+    const local = new TextDecoder().decode(await readSidecar(config, vaultPath));
+    const remote = await readFile(join(config.vault.path, vaultPath), 'utf-8');
+
+    const { diffText } = await import('../sync/merge.js');
+    const lines = diffText(remote, local);
+    if (!lines) {
+      throw new Error(`${vaultPath} is too large to diff.`);
+    }
+
+    console.log(chalk.bold(`--- ${vaultPath} (remote)`));
+    console.log(chalk.bold(`+++ ${conflictSidecarPath(vaultPath)} (local)`));
+    for (const { type, line } of lines) {
+      if (type === 'removed') console.log(chalk.red(`-${line}`));
+      else if (type === 'added') console.log(chalk.green(`+${line}`));
+      else console.log(chalk.dim(` ${line}`));
+    }
+  }));
+
+const keepLocalCommand = new Command('keep-local')
+  .description('Resolve by uploading the local copy from the conflict sidecar')
+  .argument('<path>', 'Vault-relative file path')
+  .action(withErrors(async (filePath: string) => {
+    const config = await requireInitialized();
+    const vaultPath = toVaultPath(config, filePath);
+    const local = await readSidecar(config, vaultPath);
+    const mount = await shareMountOf(config, vaultPath);
+    if (mount) {
+      await resolveInShare(config, mount, vaultPath, local);
+      console.log(chalk.green(`Kept local changes to ${vaultPath}; the daemon uploads them to the shared folder.`));
+      return;
+    }
+    const version = await resolveWith(config, vaultPath, local, 'Kept local changes');
+    console.log(chalk.green(`Kept local changes to ${vaultPath} (now version ${version}).`));
+  }));
+
+const keepRemoteCommand = new Command('keep-remote')
+  .description('Resolve by keeping the remote version and discarding the conflict sidecar')
+  .argument('<path>', 'Vault-relative file path')
+  .action(withErrors(async (filePath: string) => {
+    const config = await requireInitialized();
+    const vaultPath = toVaultPath(config, filePath);
+    // Share sync already wrote the shared version; only the sidecar is left
+    if (await shareMountOf(config, vaultPath)) {
+      await removeSidecar(config, vaultPath);
+      console.log(chalk.green(`Kept the shared version of ${vaultPath}.`));
+      return;
+    }
+    const auth = await loadAuthData(config);
+    const vaultKey = await unlockVaultKey(config);
+
+    const { SyncClient, openVaultFile } = await import('../sync/index.js');
+    const client = new SyncClient(config.server.url, auth.token);
+    client.enableTokenRefresh({ authJsonPath: join(config.data.path, 'auth.json') });
+
+    // Re-download in case the vault copy was edited after the conflict
+    const remotePath = (await usesEncryptedPaths(config)) ? encryptPathId(vaultKey, vaultPath) : vaultPath;
+    const download = await client.downloadFile(remotePath);
+    const { version, encryptedHash } = download;
+
+    const db = await openStateDb(config);
+    try {
+      const { plaintext: decrypted, counter } =
+        await openVaultFile(client, download, deriveKeyForPath(vaultKey, vaultPath), vaultPath, db?.getBlobCounter(vaultPath) ?? 0);
+      const existing = db?.getFile(vaultPath);
+      db?.upsertFile({
+        id: existing?.id ?? randomUUID(),
+        path: vaultPath,
+        contentHash: hashContent(decrypted),
+        encryptedHash,
+        version,
+        size: decrypted.length,
+        syncState: 'synced',
+        lastModified: Date.now(),
+      });
+      db?.recordBlobCounter(vaultPath, counter);
+      await writeFile(join(config.vault.path, vaultPath), decrypted);
+      await removeSidecar(config, vaultPath);
+      db?.addSyncLog('resolve', vaultPath, 'Kept remote version');
+    } finally {
+      db?.close();
+    }
+
+    console.log(chalk.green(`Kept remote version of ${vaultPath} (version ${version}).`));
+  }));
+
+const editCommand = new Command('open-in-editor')
+  .aliases(['edit', 'open'])
+  .description('Resolve by editing both versions in $EDITOR, then upload the result')
+  .argument('<path>', 'Vault-relative file path')
+  .action(withErrors(async (filePath: string) => {
+    const config = await requireInitialized();
+    const vaultPath = toVaultPath(config, filePath);
+    const mount = await shareMountOf(config, vaultPath);
+    if (mount && !mount.writable) {
+      throw new Error(`${vaultPath} is in a read-only shared folder; local changes can't be uploaded.`);
+    }
+    const local = new TextDecoder().decode(await readSidecar(config, vaultPath));
+    const remote = await readFile(join(config.vault.path, vaultPath), 'utf-8');
+
+    const withNewline = (text: string) => (text.endsWith('\n') ? text : text + '\n');
+    const marked =
+      '<<<<<<< local\n' + withNewline(local) +
+      '=======\n' + withNewline(remote) +
+      '>>>>>>> remote\n';
+
+    // Edit outside the vault so the daemon never sees the conflict markers
+    const tempDir = await mkdtemp(join(tmpdir(), 'contextmate-'));
+    const tempFile = join(tempDir, vaultPath.split('/').pop() ?? 'conflict.md');
+    try {
+      await writeFile(tempFile, marked);
+      // No shell: the file name comes from whoever created the file, possibly another account
+      const [editor = 'vi', ...editorArgs] = (process.env.VISUAL || process.env.EDITOR || 'vi').trim().split(/\s+/);
+      const result = spawnSync(editor, [...editorArgs, tempFile], { stdio: 'inherit' });
+      if (result.status !== 0) {
+        throw new Error(`Editor exited with status ${result.status ?? 'unknown'}; nothing was changed.`);
+      }
+
+      const edited = await readFile(tempFile, 'utf-8');
+      if (CONFLICT_MARKER.test(edited)) {
+        throw new Error('Conflict markers are still present; nothing was changed.');
+      }
+
+      if (mount) {
+        await resolveInShare(config, mount, vaultPath, new TextEncoder().encode(edited));
+        console.log(chalk.green(`Resolved ${vaultPath}; the daemon uploads it to the shared folder.`));
+        return;
+      }
+      const version = await resolveWith(config, vaultPath, new TextEncoder().encode(edited), 'Resolved in editor');
+      console.log(chalk.green(`Resolved ${vaultPath} (now version ${version}).`));
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }));
+
+export const conflictsCommand = new Command('conflicts')
+  .description('Review and resolve sync conflicts')
+  .addCommand(listCommand, { isDefault: true })
+  .addCommand(diffCommand)
+  .addCommand(keepLocalCommand)
+  .addCommand(keepRemoteCommand)
+  .addCommand(editCommand);
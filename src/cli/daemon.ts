@@ -8,12 +8,14 @@ import { join } from 'node:path';
 import { hexToBytes } from '@noble/hashes/utils';
 import { loadConfig, getConfigPath } from '../config.js';
 import { getPidFilePath, getBackupsPath } from '../utils/paths.js';
-import { deriveMasterKey, deriveVaultKey, decryptString } from '../crypto/index.js';
+import { decryptString } from '../crypto/index.js';
 import { OpenClawAdapter, OpenClawGlobalSync, discoverWorkspaces, getOpenClawRoot } from '../adapters/openclaw.js';
 import { ClaudeCodeAdapter } from '../adapters/claude.js';
 import { FileWatcher } from '../sync/watcher.js';
 import { retrievePassphrase, isKeychainAvailable, storePassphrase, deletePassphrase } from '../utils/keychain.js';
 import { installService, uninstallService, isServiceInstalled, writeVersionFile } from './service.js';
+import { loadCredentials, loadPairedVaultKey, vaultKeyFromPassphrase } from './unlock.js';
+import type { Credentials } from './unlock.js';
 
 type SyncDirection = 'send-receive' | 'receive-only' | 'off';
 
@@ -141,54 +143,47 @@ const startCommand = new Command('start')
       }
 
       // Load credentials
-      const credentialsPath = join(config.data.path, 'credentials.json');
-      let credentialsRaw: string;
+      let credentials: Credentials;
       try {
-        credentialsRaw = await readFile(credentialsPath, 'utf-8');
-      } catch {
-        console.error(chalk.red('No credentials found. Run "contextmate init" first.'));
+        credentials = await loadCredentials(config);
+      } catch (err) {
+        console.error(chalk.red(err instanceof Error ? err.message : String(err)));
         process.exit(1);
       }
 
-      const credentials = JSON.parse(credentialsRaw) as {
-        salt: string;
-        encryptedMasterKey: string;
-      };
-
-      // Get passphrase (from keychain in service mode, or prompt interactively)
       const opts = startCommand.opts();
-      let passphrase: string;
-      if (opts.service || !process.stdin.isTTY) {
-        const stored = await retrievePassphrase();
-        if (!stored) {
-          console.error(chalk.red('No passphrase found in OS keychain.'));
-          console.error(chalk.dim('Run "contextmate daemon install" to store passphrase and install service.'));
-          process.exit(1);
+
+      // A paired device unlocks with the vault key it was handed; others need the passphrase
+      let vaultKey = await loadPairedVaultKey(config);
+      if (!vaultKey) {
+        // Get passphrase (from keychain in service mode, or prompt interactively)
+        let passphrase: string;
+        if (opts.service || !process.stdin.isTTY) {
+          const stored = await retrievePassphrase();
+          if (!stored) {
+            console.error(chalk.red('No passphrase found in OS keychain.'));
+            console.error(chalk.dim('Run "contextmate daemon install" to store passphrase and install service.'));
+            process.exit(1);
+          }
+          passphrase = stored;
+        } else {
+          passphrase = await readPassphrase(chalk.bold('Enter passphrase: '));
+          if (!passphrase) {
+            console.error(chalk.red('Error: Passphrase cannot be empty.'));
+            process.exit(1);
+          }
         }
-        passphrase = stored;
-      } else {
-        passphrase = await readPassphrase(chalk.bold('Enter passphrase: '));
-        if (!passphrase) {
-          console.error(chalk.red('Error: Passphrase cannot be empty.'));
+
+        // Derive keys and verify the passphrase
+        console.log(chalk.dim('Deriving encryption keys...'));
+        try {
+          vaultKey = await vaultKeyFromPassphrase(passphrase, credentials);
+        } catch {
+          console.error(chalk.red('Error: Invalid passphrase.'));
           process.exit(1);
         }
       }
 
-      // Derive keys
-      console.log(chalk.dim('Deriving encryption keys...'));
-      const salt = hexToBytes(credentials.salt);
-      const masterKey = await deriveMasterKey(passphrase, salt);
-      const vaultKey = deriveVaultKey(masterKey);
-
-      // Verify passphrase by trying to decrypt the stored master key
-      try {
-        const encryptedMasterKeyBytes = hexToBytes(credentials.encryptedMasterKey);
-        decryptString(encryptedMasterKeyBytes, vaultKey);
-      } catch {
-        console.error(chalk.red('Error: Invalid passphrase.'));
-        process.exit(1);
-      }
-
       // Load auth token and device ID
       let authToken = '';
       let deviceId = '';
@@ -552,42 +547,38 @@ const installCommand = new Command('install')
         await uninstallService();
       }
 
-      // Check keychain availability
-      if (!(await isKeychainAvailable())) {
-        console.error(chalk.red('OS keychain is not available on this system.'));
-        console.error(chalk.dim('macOS requires /usr/bin/security. Linux requires secret-tool (libsecret).'));
-        process.exit(1);
-      }
-
       // Stop running daemon if any
       console.log(chalk.dim('Stopping any running daemon...'));
       await stopRunningDaemon(config);
 
-      // Prompt for passphrase and verify
-      const passphrase = await readPassphrase(chalk.bold('Enter passphrase: '));
-      if (!passphrase) {
-        console.error(chalk.red('Passphrase cannot be empty.'));
-        process.exit(1);
-      }
+      // A paired device unlocks with its own copy of the vault key, so the
+      // passphrase only goes into the keychain on devices that need it
+      if (!(await loadPairedVaultKey(config))) {
+        // Check keychain availability
+        if (!(await isKeychainAvailable())) {
+          console.error(chalk.red('OS keychain is not available on this system.'));
+          console.error(chalk.dim('macOS requires /usr/bin/security. Linux requires secret-tool (libsecret).'));
+          process.exit(1);
+        }
 
-      const credentialsPath = join(config.data.path, 'credentials.json');
-      const credentials = JSON.parse(await readFile(credentialsPath, 'utf-8')) as {
-        salt: string;
-        encryptedMasterKey: string;
-      };
-      const salt = hexToBytes(credentials.salt);
-      const masterKey = await deriveMasterKey(passphrase, salt);
-      const vaultKey = deriveVaultKey(masterKey);
-      try {
-        decryptString(hexToBytes(credentials.encryptedMasterKey), vaultKey);
-      } catch {
-        console.error(chalk.red('Invalid passphrase.'));
-        process.exit(1);
-      }
+        // Prompt for passphrase and verify
+        const passphrase = await readPassphrase(chalk.bold('Enter passphrase: '));
+        if (!passphrase) {
+          console.error(chalk.red('Passphrase cannot be empty.'));
+          process.exit(1);
+        }
 
-      // Store in keychain
-      console.log(chalk.dim('Storing passphrase in OS keychain...'));
-      await storePassphrase(passphrase);
+        try {
+          await vaultKeyFromPassphrase(passphrase, await loadCredentials(config));
+        } catch (err) {
+          console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+          process.exit(1);
+        }
+
+        // Store in keychain
+        console.log(chalk.dim('Storing passphrase in OS keychain...'));
+        await storePassphrase(passphrase);
+      }
 
       // Write version file
       await writeVersionFile(config);
@@ -0,0 +1,248 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as readline from 'node:readline/promises';
+import { stdin, stdout } from 'node:process';
+import { access } from 'node:fs/promises';
+import { join } from 'node:path';
+import { hostname } from 'node:os';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import {
+  getConfigDir,
+  getConfigPath,
+  getDefaultConfig,
+  loadConfig,
+  saveConfig,
+  ensureDirectories,
+  type ContextMateConfig,
+} from '../config.js';
+import {
+  decryptString,
+  devicePairingCode,
+  normalizePairingCode,
+  sealToDevice,
+  openSealed,
+} from '../crypto/index.js';
+import type { Credentials } from './unlock.js';
+import {
+  loadAuthData,
+  loadCredentials,
+  unlockVaultKey,
+  ensureDeviceKey,
+  deviceKeyPair,
+  savePairedVaultKey,
+  saveLocalCredentials,
+} from './unlock.js';
+
+const POLL_INTERVAL_MS = 2000;
+
+/** What a trusted device hands a new one, sealed to the new device's public key. */
+interface PairingPayload {
+  vaultKey: string;
+  authHash: string;
+  credentials: Credentials;
+}
+
+type PairingStatus =
+  | { status: 'pending' }
+  | { status: 'approved'; userId: string; deviceId: string; token: string; sealedPayload: string };
+
+async function ask(prompt: string): Promise<string> {
+  const rl = readline.createInterface({ input: stdin, output: stdout });
+  const answer = await rl.question(prompt);
+  rl.close();
+  return answer;
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function requireInitialized(): Promise<ContextMateConfig> {
+  if (!(await fileExists(getConfigDir()))) {
+    console.error(chalk.red('ContextMate is not initialized. Run "contextmate init" first.'));
+    process.exit(1);
+  }
+  return loadConfig();
+}
+
+/** Link shown next to the code, e.g. for rendering as a QR code. */
+function pairingLink(code: string, serverUrl: string): string {
+  return `contextmate://pair?code=${encodeURIComponent(code)}&server=${encodeURIComponent(serverUrl)}`;
+}
+
+/** Accept either the bare code or the pairing link. */
+function parsePairingInput(input: string): { code: string; server?: string } {
+  if (!input.startsWith('contextmate://')) {
+    return { code: normalizePairingCode(input) };
+  }
+  const url = new URL(input);
+  const code = url.searchParams.get('code');
+  if (!code) {
+    throw new Error('Pairing link has no code.');
+  }
+  return { code: normalizePairingCode(code), server: url.searchParams.get('server') ?? undefined };
+}
+
+const pairCommand = new Command('pair')
+  .description('Enroll this machine by approving it from a device that is already set up')
+  .option('--server <url>', 'Sync server URL (defaults to the configured or hosted server)')
+  .option('--name <name>', 'Name for this device', hostname())
+  .action(async (opts: { server?: string; name: string }) => {
+    try {
+      // Works on a fresh machine or a configured one that isn't logged in
+      let config: ContextMateConfig;
+      if (await fileExists(getConfigPath())) {
+        config = await loadConfig();
+        const loggedIn = await loadAuthData(config).then(() => true, () => false);
+        if (loggedIn) {
+          throw new Error('This device is already logged in. Run "contextmate reset" first to pair it again.');
+        }
+      } else {
+        config = getDefaultConfig();
+      }
+      if (opts.server) {
+        new URL(opts.server);
+        config.server.url = opts.server.replace(/\/+$/, '');
+      }
+      await ensureDirectories(config);
+      await saveConfig(config);
+
+      const deviceKey = await ensureDeviceKey(config);
+      const keyPair = deviceKeyPair(deviceKey);
+      const code = devicePairingCode(keyPair.publicKey);
+
+      console.log(chalk.dim('Connecting to server...'));
+      const res = await fetch(`${config.server.url}/api/auth/pairing`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: opts.name, publicKey: deviceKey.publicKey, code }),
+      });
+      if (!res.ok) {
+        throw new Error(`Server returned ${res.status}.`);
+      }
+      const { pairingId, expiresAt } = (await res.json()) as { pairingId: string; expiresAt: number };
+
+      console.log('');
+      console.log(`  ${chalk.bold('Pairing code:')} ${chalk.bold.cyan(code)}`);
+      console.log('');
+      console.log(chalk.dim('  On a device that is already set up, run:'));
+      console.log(`    ${chalk.cyan(`contextmate device approve ${code}`)}`);
+      console.log(chalk.dim('  or pass it this pairing link:'));
+      console.log(`    ${pairingLink(code, config.server.url)}`);
+      console.log('');
+      console.log(chalk.dim('Waiting for approval (expires in 10 minutes)...'));
+
+      let approval: Extract<PairingStatus, { status: 'approved' }> | undefined;
+      while (!approval && Date.now() < expiresAt) {
+        await sleep(POLL_INTERVAL_MS);
+        const poll = await fetch(`${config.server.url}/api/auth/pairing/${encodeURIComponent(pairingId)}`);
+        if (poll.status === 404) break;
+        if (!poll.ok) {
+          throw new Error(`Server returned ${poll.status}.`);
+        }
+        const status = (await poll.json()) as PairingStatus;
+        if (status.status === 'approved') approval = status;
+      }
+      if (!approval) {
+        throw new Error('The pairing request expired. Run "contextmate device pair" again.');
+      }
+
+      const payload = JSON.parse(
+        new TextDecoder().decode(openSealed(hexToBytes(approval.sealedPayload), keyPair)),
+      ) as PairingPayload;
+
+      // The handed-over vault key must open the handed-over credentials
+      try {
+        decryptString(hexToBytes(payload.credentials.encryptedMasterKey), hexToBytes(payload.vaultKey));
+      } catch {
+        throw new Error('The approving device sent keys that do not match. Pairing aborted.');
+      }
+
+      await savePairedVaultKey(config, deviceKey, hexToBytes(payload.vaultKey));
+      await saveLocalCredentials(config, payload.credentials, {
+        authHash: payload.authHash,
+        userId: approval.userId,
+        token: approval.token,
+        deviceId: approval.deviceId,
+      });
+
+      console.log('');
+      console.log(chalk.green.bold('This device is paired.'));
+      console.log(`  ${chalk.bold('User ID:')}     ${approval.userId}`);
+      console.log(`  ${chalk.bold('Server:')}      ${config.server.url}`);
+      console.log('');
+      console.log(chalk.bold('Next steps:'));
+      console.log(`  ${chalk.cyan('contextmate adapter claude init')}    Connect Claude Code`);
+      console.log(`  ${chalk.cyan('contextmate adapter openclaw init')}  Connect OpenClaw`);
+      console.log(`  ${chalk.cyan('contextmate daemon start')}           Begin syncing`);
+      console.log('');
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+const approveCommand = new Command('approve')
+  .description('Approve a new device with the pairing code or link it shows')
+  .argument('<code>', 'Pairing code or pairing link from the new device')
+  .action(async (input: string) => {
+    try {
+      const config = await requireInitialized();
+      const auth = await loadAuthData(config);
+
+      const { code, server } = parsePairingInput(input);
+      if (server && server.replace(/\/+$/, '') !== config.server.url) {
+        throw new Error(`This pairing link is for ${server}, but this device syncs with ${config.server.url}.`);
+      }
+
+      const { SyncClient } = await import('../sync/index.js');
+      const client = new SyncClient(config.server.url, auth.token);
+      client.enableTokenRefresh({ authJsonPath: join(config.data.path, 'auth.json') });
+
+      const request = await client.findPairingRequest(code);
+      if (!request) {
+        throw new Error('No pending pairing request has this code. It may have expired.');
+      }
+
+      // The code is a fingerprint of the new device's key, so a key swapped
+      // in by the server does not match it
+      const publicKey = hexToBytes(request.publicKey);
+      if (devicePairingCode(publicKey) !== code) {
+        throw new Error('The server returned a key that does not match this pairing code. Pairing aborted.');
+      }
+
+      if (process.stdin.isTTY) {
+        const answer = await ask(`Approve "${request.name}"? It will be able to read and change your vault. (y/N): `);
+        if (answer.trim().toLowerCase() !== 'y') {
+          console.log(chalk.dim('Pairing cancelled.'));
+          return;
+        }
+      }
+
+      const vaultKey = await unlockVaultKey(config);
+      const payload: PairingPayload = {
+        vaultKey: bytesToHex(vaultKey),
+        authHash: auth.authHash,
+        credentials: await loadCredentials(config),
+      };
+      const sealed = sealToDevice(new TextEncoder().encode(JSON.stringify(payload)), publicKey);
+      const deviceId = await client.approvePairing(request.pairingId, bytesToHex(sealed));
+
+      console.log(chalk.green(`Device "${request.name}" approved (${deviceId}).`));
+      console.log(chalk.dim('  It finishes setting itself up and can start syncing right away.'));
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+export const deviceCommand = new Command('device')
+  .description('Pair new devices without typing the passphrase on them')
+  .addCommand(pairCommand)
+  .addCommand(approveCommand);
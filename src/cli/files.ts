@@ -7,7 +7,9 @@ import { join } from 'node:path';
 import picomatch from 'picomatch';
 import { loadConfig, getConfigDir } from '../config.js';
 import { getSyncDbPath } from '../utils/paths.js';
+import { encryptPathId } from '../crypto/index.js';
 import type { SyncFile, SyncState } from '../types.js';
+import { unlockVaultKey, usesEncryptedPaths } from './unlock.js';
 
 async function fileExists(path: string): Promise<boolean> {
   try {
@@ -264,6 +266,9 @@ filesCommand
       const { SyncClient } = await import('../sync/index.js');
       const client = authToken ? new SyncClient(config.server.url, authToken) : null;
 
+      // With encrypted paths the server only knows files by their path IDs
+      const vaultKey = client && (await usesEncryptedPaths(config)) ? await unlockVaultKey(config) : null;
+
       let deleted = 0;
       let errors = 0;
 
@@ -272,7 +277,7 @@ filesCommand
           // Delete from server
           if (client) {
             try {
-              await client.deleteFile(file.path);
+              await client.deleteFile(vaultKey ? encryptPathId(vaultKey, file.path) : file.path);
             } catch (err) {
               console.log(chalk.yellow(`  Warning: Could not delete ${file.path} from server (${err instanceof Error ? err.message : String(err)})`));
             }
@@ -0,0 +1,203 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { access, mkdir, writeFile } from 'node:fs/promises';
+import { dirname, isAbsolute, join, relative } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { loadConfig, getConfigDir } from '../config.js';
+import type { ContextMateConfig } from '../config.js';
+import { getSyncDbPath } from '../utils/paths.js';
+import { deriveKeyForPath, hashContent, encryptPathId } from '../crypto/index.js';
+import { loadAuthData, unlockVaultKey, usesEncryptedPaths } from './unlock.js';
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatDate(timestamp: number): string {
+  const d = new Date(timestamp);
+  const year = d.getFullYear();
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  const hours = String(d.getHours()).padStart(2, '0');
+  const minutes = String(d.getMinutes()).padStart(2, '0');
+  return `${year}-${month}-${day} ${hours}:${minutes}`;
+}
+
+/** Accept either a vault-relative path or an absolute path inside the vault. */
+function toVaultPath(config: ContextMateConfig, filePath: string): string {
+  if (isAbsolute(filePath)) {
+    const rel = relative(config.vault.path, filePath);
+    if (rel.startsWith('..') || isAbsolute(rel)) {
+      throw new Error(`${filePath} is not inside the vault (${config.vault.path}).`);
+    }
+    return rel.split('\\').join('/');
+  }
+  return filePath.replace(/^\.\//, '');
+}
+
+function stdoutWrite(data: Uint8Array): void {
+  process.stdout.write(data);
+  if (data.length > 0 && data[data.length - 1] !== 0x0a) {
+    process.stdout.write('\n');
+  }
+}
+
+async function requireInitialized(): Promise<ContextMateConfig> {
+  if (!(await fileExists(getConfigDir()))) {
+    console.error(chalk.red('ContextMate is not initialized. Run "contextmate init" first.'));
+    process.exit(1);
+  }
+  return loadConfig();
+}
+
+export const historyCommand = new Command('history')
+  .description('Show the version history of a vault file')
+  .argument('<path>', 'Vault-relative file path')
+  .option('--show <version>', 'Decrypt and print a specific version')
+  .option('--json', 'Output as JSON')
+  .action(async (filePath: string, opts: { show?: string; json?: boolean }) => {
+    try {
+      const config = await requireInitialized();
+      const vaultPath = toVaultPath(config, filePath);
+      const auth = await loadAuthData(config);
+
+      const { SyncClient, openVaultFile } = await import('../sync/index.js');
+      const client = new SyncClient(config.server.url, auth.token);
+      client.enableTokenRefresh({ authJsonPath: join(config.data.path, 'auth.json') });
+
+      // The vault key is only needed to decrypt or to compute an encrypted path
+      const encryptedPaths = await usesEncryptedPaths(config);
+      const vaultKey = opts.show || encryptedPaths ? await unlockVaultKey(config) : null;
+      const remotePath = vaultKey && encryptedPaths ? encryptPathId(vaultKey, vaultPath) : vaultPath;
+
+      if (opts.show && vaultKey) {
+        const version = parseInt(opts.show, 10);
+        if (!Number.isInteger(version) || version < 1) {
+          throw new Error(`Invalid version: "${opts.show}"`);
+        }
+        const download = await client.downloadVersion(remotePath, version);
+        const { plaintext } = await openVaultFile(client, download, deriveKeyForPath(vaultKey, vaultPath), vaultPath, 0);
+        stdoutWrite(plaintext);
+        return;
+      }
+
+      const versions = await client.listVersions(remotePath);
+
+      if (opts.json) {
+        console.log(JSON.stringify(versions, null, 2));
+        return;
+      }
+
+      console.log('');
+      console.log(chalk.bold(`History of ${vaultPath}`));
+      console.log('');
+      console.log(
+        chalk.bold('  VERSION') + '  ' +
+        chalk.bold('SIZE') + '       ' +
+        chalk.bold('WRITTEN'),
+      );
+      console.log(chalk.dim('  ' + '─'.repeat(46)));
+
+      for (const v of versions) {
+        const version = `v${v.version}`.padEnd(9);
+        const size = formatSize(v.size).padEnd(11);
+        const marker = v.current ? chalk.green('  (current)') : '';
+        console.log(`  ${version}${size}${formatDate(v.createdAt)}${marker}`);
+      }
+
+      console.log('');
+      console.log(chalk.dim(`  View a version:    contextmate history ${vaultPath} --show <version>`));
+      console.log(chalk.dim(`  Restore a version: contextmate restore ${vaultPath} --version <version>`));
+      console.log('');
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+export const restoreCommand = new Command('restore')
+  .description('Restore a previous version of a vault file')
+  .argument('<path>', 'Vault-relative file path')
+  .requiredOption('--version <version>', 'Version number to restore (see "contextmate history")')
+  .action(async (filePath: string, opts: { version: string }) => {
+    try {
+      const config = await requireInitialized();
+      const vaultPath = toVaultPath(config, filePath);
+      const version = parseInt(opts.version, 10);
+      if (!Number.isInteger(version) || version < 1) {
+        throw new Error(`Invalid version: "${opts.version}"`);
+      }
+
+      const auth = await loadAuthData(config);
+      const vaultKey = await unlockVaultKey(config);
+
+      const { SyncClient, SyncStateDB, ConflictError, uploadVaultFile, openVaultFile } = await import('../sync/index.js');
+      const client = new SyncClient(config.server.url, auth.token);
+      client.enableTokenRefresh({ authJsonPath: join(config.data.path, 'auth.json') });
+
+      const remotePath = (await usesEncryptedPaths(config)) ? encryptPathId(vaultKey, vaultPath) : vaultPath;
+      const fileKey = deriveKeyForPath(vaultKey, vaultPath);
+
+      const download = await client.downloadVersion(remotePath, version);
+      const { plaintext: decrypted } = await openVaultFile(client, download, fileKey, vaultPath, 0);
+
+      // Upload the old content as a new version. Devices refuse a copy of the
+      // old blob itself, since it is older than the one they last synced.
+      const dbPath = getSyncDbPath(config);
+      const db = (await fileExists(dbPath)) ? new SyncStateDB(dbPath) : null;
+      try {
+        const current = (await client.listVersions(remotePath)).find((v) => v.current);
+        let uploaded: { version: number; encryptedHash: string; counter: number };
+        try {
+          uploaded = await uploadVaultFile(
+            client, remotePath, decrypted, fileKey, vaultPath, db?.getBlobCounter(vaultPath) ?? 0, current?.version ?? 0,
+          );
+        } catch (err) {
+          if (err instanceof ConflictError) {
+            throw new Error(`${vaultPath} changed on the server while restoring. Try again.`);
+          }
+          throw err;
+        }
+
+        const { version: newVersion, encryptedHash, counter } = uploaded;
+        const absolutePath = join(config.vault.path, vaultPath);
+        await mkdir(dirname(absolutePath), { recursive: true });
+        await writeFile(absolutePath, decrypted);
+
+        // Record the restored version so the daemon doesn't re-upload it
+        if (db) {
+          const existing = db.getFile(vaultPath);
+          db.removeDeletion(vaultPath);
+          db.upsertFile({
+            id: existing?.id ?? randomUUID(),
+            path: vaultPath,
+            contentHash: hashContent(decrypted),
+            encryptedHash,
+            version: newVersion,
+            size: decrypted.length,
+            syncState: 'synced',
+            lastModified: Date.now(),
+          });
+          db.recordBlobCounter(vaultPath, counter);
+          db.addSyncLog('restore', vaultPath, `Restored version ${version} as version ${newVersion}`);
+        }
+        console.log(chalk.green(`Restored ${vaultPath} to version ${version} (now version ${newVersion}).`));
+      } finally {
+        db?.close();
+      }
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
@@ -8,12 +8,21 @@ import { logCommand } from './log.js';
 import { filesCommand } from './files.js';
 import { resetCommand } from './reset.js';
 import { setupCommand } from './setup.js';
+import { historyCommand, restoreCommand } from './history.js';
+import { conflictsCommand } from './conflicts.js';
+import { passphraseCommand } from './passphrase.js';
+import { recoverCommand } from './recovery.js';
+import { deviceCommand } from './device.js';
+import { shareCommand } from './share.js';
+import { teamCommand } from './team.js';
 import { VERSION } from '../utils/version.js';
 
 export const program = new Command()
   .name('contextmate')
   .description('Zero-knowledge encrypted sync for AI agent context')
-  .version(VERSION);
+  .version(VERSION)
+  // Keep -V/--version on the program only, so subcommands like "restore --version" can use it
+  .enablePositionalOptions();
 
 program.addCommand(setupCommand);
 program.addCommand(initCommand);
@@ -23,4 +32,12 @@ program.addCommand(mcpCommand);
 program.addCommand(daemonCommand);
 program.addCommand(logCommand);
 program.addCommand(filesCommand);
+program.addCommand(historyCommand);
+program.addCommand(restoreCommand);
+program.addCommand(conflictsCommand);
+program.addCommand(passphraseCommand);
+program.addCommand(recoverCommand);
+program.addCommand(deviceCommand);
+program.addCommand(shareCommand);
+program.addCommand(teamCommand);
 program.addCommand(resetCommand);
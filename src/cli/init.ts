@@ -12,6 +12,7 @@ import {
   deriveMasterKey,
   deriveAuthKey,
   deriveVaultKey,
+  resolveVaultKey,
   encryptString,
   createAuthHash,
 } from '../crypto/index.js';
@@ -21,7 +22,10 @@ import {
   getDefaultConfig,
   saveConfig,
   ensureDirectories,
+  type ContextMateConfig,
 } from '../config.js';
+import { offerRecoveryKit } from './recovery.js';
+import { ensureDeviceKey } from './unlock.js';
 
 async function ask(prompt: string): Promise<string> {
   const rl = readline.createInterface({ input: stdin, output: stdout });
@@ -40,19 +44,28 @@ async function askSecret(prompt: string): Promise<string> {
   return answer;
 }
 
-async function registerDevice(serverUrl: string, token: string): Promise<string | null> {
+/**
+ * Register this machine as a sync device with its public key. Returns its ID
+ * and a token bound to it (servers that predate device-bound tokens hand back
+ * the session token).
+ */
+async function registerDevice(
+  config: ContextMateConfig,
+  token: string,
+): Promise<{ deviceId: string; token: string } | null> {
   try {
-    const res = await fetch(`${serverUrl}/api/auth/devices`, {
+    const { publicKey } = await ensureDeviceKey(config);
+    const res = await fetch(`${config.server.url}/api/auth/devices`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${token}`,
       },
-      body: JSON.stringify({ name: hostname() }),
+      body: JSON.stringify({ name: hostname(), publicKey }),
     });
     if (res.ok) {
-      const { deviceId } = (await res.json()) as { deviceId: string };
-      return deviceId;
+      const device = (await res.json()) as { deviceId: string; token?: string };
+      return { deviceId: device.deviceId, token: device.token ?? token };
     }
   } catch {
     // Device registration is non-critical
@@ -67,7 +80,7 @@ async function setupDirectories() {
   return config;
 }
 
-function printSuccess(userId: string, serverUrl: string) {
+function printSuccess(userId: string, serverUrl: string, hasRecoveryKit = false) {
   console.log('');
   console.log(chalk.green.bold('ContextMate is ready!'));
   console.log('');
@@ -76,6 +89,12 @@ function printSuccess(userId: string, serverUrl: string) {
   console.log('');
   console.log(chalk.yellow.bold('  ⚠  Save your User ID and passphrase somewhere safe.'));
   console.log(chalk.yellow('     You need both to log in on other devices.'));
+  if (hasRecoveryKit) {
+    console.log(chalk.yellow('     Keep your recovery kit with them: it resets a forgotten passphrase.'));
+  } else {
+    console.log(chalk.yellow('     Without a recovery key a forgotten passphrase cannot be reset.'));
+    console.log(chalk.yellow('     Create one with "contextmate passphrase recovery-key".'));
+  }
   console.log('');
   console.log(chalk.bold('Next steps:'));
   console.log(`  ${chalk.cyan('contextmate adapter claude init')}    Connect Claude Code`);
@@ -140,10 +159,13 @@ async function createNewAccount() {
     });
 
     if (res.ok) {
-      const { userId, token } = (await res.json()) as { userId: string; token: string };
-      const deviceId = await registerDevice(config.server.url, token);
+      const { userId, token: sessionToken } = (await res.json()) as { userId: string; token: string };
+      const device = await registerDevice(config, sessionToken);
+      const token = device?.token ?? sessionToken;
+      const deviceId = device?.deviceId ?? null;
       await writeFile(authPath, JSON.stringify({ authHash, userId, token, deviceId }, null, 2), { mode: 0o600 });
-      printSuccess(userId, config.server.url);
+      const hasRecoveryKit = await offerRecoveryKit(config, userId, token, vaultKey);
+      printSuccess(userId, config.server.url, hasRecoveryKit);
     } else if (res.status === 409) {
       console.error(chalk.red('Error: An account with this passphrase already exists.'));
       console.error(chalk.dim('If this is your account, choose "Log into existing account" instead.'));
@@ -204,7 +226,6 @@ async function loginExistingAccount() {
   console.log(chalk.dim('Deriving encryption keys...'));
   const masterKey = await deriveMasterKey(passphrase, salt);
   const authKey = deriveAuthKey(masterKey);
-  const vaultKey = deriveVaultKey(masterKey);
   const authHash = createAuthHash(authKey);
 
   // Log in
@@ -225,14 +246,22 @@ async function loginExistingAccount() {
       process.exit(1);
     }
 
-    const { token } = (await res.json()) as { userId: string; token: string };
-    const deviceId = await registerDevice(config.server.url, token);
+    const { token: sessionToken, wrappedVaultKey } = (await res.json()) as {
+      userId: string;
+      token: string;
+      wrappedVaultKey?: string | null;
+    };
+    const device = await registerDevice(config, sessionToken);
+    const token = device?.token ?? sessionToken;
+    const deviceId = device?.deviceId ?? null;
 
     // Save credentials locally
+    const vaultKey = resolveVaultKey(masterKey, wrappedVaultKey ? hexToBytes(wrappedVaultKey) : null);
     const encryptedMasterKey = encryptString(bytesToHex(masterKey), vaultKey);
     const credentials = {
       salt: bytesToHex(salt),
       encryptedMasterKey: bytesToHex(encryptedMasterKey),
+      wrappedVaultKey: wrappedVaultKey ?? undefined,
     };
     await writeFile(
       join(config.data.path, 'credentials.json'),
@@ -1,11 +1,22 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { randomBytes } from 'node:crypto';
-import { readFile, writeFile, access, mkdir } from 'node:fs/promises';
-import { join, dirname } from 'node:path';
+import { access } from 'node:fs/promises';
 import { loadConfig, getConfigPath } from '../config.js';
 import { mcpSetupCommand } from './mcp-setup.js';
 import { getSearchDbPath } from '../utils/paths.js';
+import {
+  loadApiKeys,
+  saveApiKeys,
+  generateApiKeySecret,
+  hashApiKeySecret,
+  findKeyBySecret,
+  parseExpiry,
+  isApiKeyExpired,
+  ApiKeyUsage,
+  SCOPE_SYNTAX_VERSION,
+} from '../mcp/api-keys.js';
+import { isValidScope } from '../mcp/scope.js';
 import type { ApiKeyInfo, ApiPermission } from '../types.js';
 
 async function isInitialized(): Promise<boolean> {
@@ -17,30 +28,25 @@ async function isInitialized(): Promise<boolean> {
   }
 }
 
-function getApiKeysPath(dataPath: string): string {
-  return join(dataPath, 'api-keys.json');
-}
+async function authenticateSecret(dataPath: string, usage: ApiKeyUsage, secret: string): Promise<ApiKeyInfo | null> {
+  // Re-read on every request so new, revoked and expired keys apply without a restart
+  const keys = await loadApiKeys(dataPath);
+  const key = findKeyBySecret(keys, secret);
+  if (!key || isApiKeyExpired(key.expiresAt)) return null;
 
-async function loadApiKeys(dataPath: string): Promise<ApiKeyInfo[]> {
-  const keysPath = getApiKeysPath(dataPath);
-  try {
-    const raw = await readFile(keysPath, 'utf-8');
-    return JSON.parse(raw) as ApiKeyInfo[];
-  } catch {
-    return [];
-  }
+  await usage.record(key.id);
+  return key;
 }
 
-async function saveApiKeys(dataPath: string, keys: ApiKeyInfo[]): Promise<void> {
-  const keysPath = getApiKeysPath(dataPath);
-  await mkdir(dirname(keysPath), { recursive: true });
-  await writeFile(keysPath, JSON.stringify(keys, null, 2), 'utf-8');
+function formatTimestamp(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 19).replace('T', ' ');
 }
 
 const serveCommand = new Command('serve')
   .description('Start local MCP server')
   .option('--api-key <key-id>', 'API key ID to enforce scope/permissions')
-  .action(async (opts: { apiKey?: string }) => {
+  .option('--http', 'Serve over Streamable HTTP on mcp.host:mcp.port instead of stdio')
+  .action(async (opts: { apiKey?: string; http?: boolean }) => {
     try {
       if (!(await isInitialized())) {
         console.error(chalk.red('ContextMate is not initialized. Run "contextmate init" first.'));
@@ -50,6 +56,42 @@ const serveCommand = new Command('serve')
       const config = await loadConfig();
       const searchDbPath = getSearchDbPath(config);
 
+      if (opts.http) {
+        if (opts.apiKey) {
+          console.error(chalk.red('Error: --api-key only applies to stdio. HTTP clients authenticate with their own key.'));
+          process.exit(1);
+        }
+        const keys = await loadApiKeys(config.data.path);
+        if (!keys.some((k) => k.keyHash)) {
+          console.error(chalk.red('No API keys can authenticate over HTTP yet.'));
+          console.error(`  Create one with: ${chalk.cyan('contextmate mcp api-key create --name <name>')}`);
+          process.exit(1);
+        }
+
+        const { startMcpHttpServer, MCP_HTTP_PATH } = await import('../mcp/index.js');
+        const usage = new ApiKeyUsage(config.data.path);
+        const httpServer = await startMcpHttpServer({
+          vaultPath: config.vault.path,
+          searchDbPath,
+          host: config.mcp.host,
+          port: config.mcp.port,
+          embeddings: config.mcp.embeddings,
+          authenticate: (secret) => authenticateSecret(config.data.path, usage, secret),
+        });
+
+        const shutdown = () => {
+          console.error(chalk.dim('\nShutting down MCP server...'));
+          httpServer.close()
+            .then(() => usage.flush())
+            .finally(() => process.exit(0));
+        };
+        process.on('SIGINT', shutdown);
+        process.on('SIGTERM', shutdown);
+
+        console.error(`MCP server listening on http://${config.mcp.host}:${config.mcp.port}${MCP_HTTP_PATH}`);
+        return;
+      }
+
       // Look up API key if provided
       let scopeOptions: { scope: string; permission: ApiPermission } | undefined;
       if (opts.apiKey) {
@@ -59,6 +101,12 @@ const serveCommand = new Command('serve')
           console.error(chalk.red(`API key with ID "${opts.apiKey}" not found.`));
           process.exit(1);
         }
+        if (isApiKeyExpired(keyInfo.expiresAt)) {
+          console.error(chalk.red(`API key "${keyInfo.name}" expired on ${formatTimestamp(keyInfo.expiresAt!)}.`));
+          process.exit(1);
+        }
+        keyInfo.lastUsed = Date.now();
+        await saveApiKeys(config.data.path, keys);
         scopeOptions = { scope: keyInfo.scope, permission: keyInfo.permissions };
         console.error(chalk.dim(`Enforcing scope: ${keyInfo.scope} (${keyInfo.permissions})`));
       }
@@ -74,7 +122,7 @@ const serveCommand = new Command('serve')
       process.on('SIGTERM', shutdown);
 
       const { startMcpServer } = await import('../mcp/index.js');
-      await startMcpServer(config.vault.path, searchDbPath, scopeOptions);
+      await startMcpServer(config.vault.path, searchDbPath, scopeOptions, config.mcp.embeddings);
       console.error('MCP server running on stdio');
     } catch (err) {
       console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
@@ -88,9 +136,10 @@ apiKeyCommand
   .command('create')
   .description('Create a scoped API key')
   .option('--name <name>', 'Name for the API key', 'default')
-  .option('--scope <scope>', 'Scope pattern', '*')
+  .option('--scope <scope>', 'Comma-separated glob patterns; prefix with ! to exclude', '*')
   .option('--permissions <permissions>', 'Permissions: read or read-write', 'read')
-  .action(async (opts: { name: string; scope: string; permissions: string }) => {
+  .option('--expires <when>', 'Expire after a duration (e.g. 12h, 30d, 8w) or on a date (e.g. 2027-01-31)')
+  .action(async (opts: { name: string; scope: string; permissions: string; expires?: string }) => {
     try {
       if (!(await isInitialized())) {
         console.error(chalk.red('ContextMate is not initialized. Run "contextmate init" first.'));
@@ -103,9 +152,19 @@ apiKeyCommand
         console.error(chalk.red('Error: permissions must be "read" or "read-write".'));
         process.exit(1);
       }
+      if (!isValidScope(opts.scope)) {
+        console.error(chalk.red('Error: scope must contain at least one pattern.'));
+        process.exit(1);
+      }
+      const expiresAt = opts.expires !== undefined ? parseExpiry(opts.expires) : null;
+      if (opts.expires !== undefined && expiresAt === null) {
+        console.error(chalk.red('Error: --expires must be a duration like 30d or a future date.'));
+        process.exit(1);
+      }
 
       const keys = await loadApiKeys(config.data.path);
 
+      const secret = generateApiKeySecret();
       const newKey: ApiKeyInfo = {
         id: randomBytes(8).toString('hex'),
         name: opts.name,
@@ -113,6 +172,10 @@ apiKeyCommand
         permissions,
         createdAt: Date.now(),
         lastUsed: null,
+        keyHash: hashApiKeySecret(secret),
+        scopeSyntax: SCOPE_SYNTAX_VERSION,
+        expiresAt,
+        requestCount: 0,
       };
 
       keys.push(newKey);
@@ -124,8 +187,13 @@ apiKeyCommand
       console.log(`  ID:          ${chalk.bold(newKey.id)}`);
       console.log(`  Scope:       ${newKey.scope}`);
       console.log(`  Permissions: ${newKey.permissions}`);
+      console.log(`  Expires:     ${expiresAt ? formatTimestamp(expiresAt) : 'never'}`);
+      console.log(`  Secret:      ${chalk.bold(secret)}`);
+      console.log('');
+      console.log(chalk.yellow('  The secret is shown only once. HTTP clients send it as "Authorization: Bearer <secret>".'));
       console.log('');
       console.log(`  Use with: ${chalk.cyan(`contextmate mcp serve --api-key ${newKey.id}`)}`);
+      console.log(`       or: ${chalk.cyan('contextmate mcp serve --http')}`);
       console.log('');
     } catch (err) {
       console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
@@ -156,14 +224,14 @@ apiKeyCommand
       console.log(chalk.dim('─'.repeat(60)));
 
       for (const key of keys) {
-        const created = new Date(key.createdAt).toISOString().slice(0, 19).replace('T', ' ');
-        const lastUsed = key.lastUsed
-          ? new Date(key.lastUsed).toISOString().slice(0, 19).replace('T', ' ')
-          : 'never';
+        const lastUsed = key.lastUsed ? formatTimestamp(key.lastUsed) : 'never';
+        let expires = key.expiresAt ? formatTimestamp(key.expiresAt) : 'never';
+        if (isApiKeyExpired(key.expiresAt)) expires = chalk.red(`expired ${expires}`);
 
         console.log(`  ${chalk.bold(key.name)} (${key.id})`);
         console.log(`    Scope: ${key.scope}  Permissions: ${key.permissions}`);
-        console.log(`    Created: ${created}  Last used: ${lastUsed}`);
+        console.log(`    Created: ${formatTimestamp(key.createdAt)}  Expires: ${expires}`);
+        console.log(`    Last used: ${lastUsed}  Requests: ${key.requestCount ?? 0}`);
         console.log('');
       }
     } catch (err) {
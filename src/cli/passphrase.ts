@@ -0,0 +1,181 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { access } from 'node:fs/promises';
+import { join } from 'node:path';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { loadConfig, getConfigDir } from '../config.js';
+import type { ContextMateConfig } from '../config.js';
+import {
+  deriveMasterKey,
+  deriveAuthKey,
+  resolveVaultKey,
+  encryptString,
+  createAuthHash,
+} from '../crypto/index.js';
+import {
+  loadAuthData,
+  loadCredentials,
+  readPassphrase,
+  askNewPassphrase,
+  vaultKeyFromPassphrase,
+  deriveCredentials,
+  saveLocalCredentials,
+  updateKeychain,
+  unlockVaultKey,
+} from './unlock.js';
+import { createRecoveryKit } from './recovery.js';
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function requireInitialized(): Promise<ContextMateConfig> {
+  if (!(await fileExists(getConfigDir()))) {
+    console.error(chalk.red('ContextMate is not initialized. Run "contextmate init" first.'));
+    process.exit(1);
+  }
+  return loadConfig();
+}
+
+const changeCommand = new Command('change')
+  .description('Change your passphrase and sign out other devices')
+  .action(async () => {
+    try {
+      const config = await requireInitialized();
+      const auth = await loadAuthData(config);
+      const credentials = await loadCredentials(config);
+
+      if (!process.stdin.isTTY) {
+        throw new Error('Changing the passphrase requires an interactive terminal.');
+      }
+
+      const current = await readPassphrase(chalk.bold('Current passphrase: '));
+      console.log(chalk.dim('Verifying passphrase...'));
+      const vaultKey = await vaultKeyFromPassphrase(current, credentials);
+
+      const passphrase = await askNewPassphrase();
+      if (passphrase === current) {
+        throw new Error('The new passphrase is the same as the current one.');
+      }
+
+      console.log(chalk.dim('Deriving new keys...'));
+      const { credentials: newCredentials, authHash } = await deriveCredentials(passphrase, vaultKey);
+
+      const { SyncClient } = await import('../sync/index.js');
+      const client = new SyncClient(config.server.url, auth.token);
+      client.enableTokenRefresh({ authJsonPath: join(config.data.path, 'auth.json') });
+
+      console.log(chalk.dim('Updating server...'));
+      const { token } = await client.changePassphrase({
+        currentAuthKeyHash: auth.authHash,
+        authKeyHash: authHash,
+        salt: newCredentials.salt,
+        encryptedMasterKey: newCredentials.encryptedMasterKey,
+        wrappedVaultKey: newCredentials.wrappedVaultKey,
+      });
+
+      await saveLocalCredentials(config, newCredentials, { ...auth, authHash, token });
+      await updateKeychain(passphrase);
+
+      console.log('');
+      console.log(chalk.green('Passphrase changed.'));
+      console.log(chalk.dim('  Other devices are signed out. On each of them, run:'));
+      console.log(`    ${chalk.cyan('contextmate passphrase update')}`);
+      console.log(chalk.dim('  The web dashboard will ask you to log in again with the new passphrase.'));
+      console.log('');
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+const updateCommand = new Command('update')
+  .description('Log this device in again after the passphrase was changed on another device')
+  .action(async () => {
+    try {
+      const config = await requireInitialized();
+      const auth = await loadAuthData(config);
+
+      if (!process.stdin.isTTY) {
+        throw new Error('Updating the passphrase requires an interactive terminal.');
+      }
+
+      const passphrase = await readPassphrase(chalk.bold('New passphrase: '));
+      if (!passphrase) {
+        throw new Error('Passphrase cannot be empty.');
+      }
+
+      console.log(chalk.dim('Connecting to server...'));
+      const saltRes = await fetch(`${config.server.url}/api/auth/salt/${encodeURIComponent(auth.userId)}`);
+      if (!saltRes.ok) {
+        throw new Error(`Server returned ${saltRes.status}.`);
+      }
+      const { salt } = (await saltRes.json()) as { salt: string };
+
+      console.log(chalk.dim('Deriving encryption keys...'));
+      const masterKey = await deriveMasterKey(passphrase, hexToBytes(salt));
+      const authHash = createAuthHash(deriveAuthKey(masterKey));
+
+      const loginRes = await fetch(`${config.server.url}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ authKeyHash: authHash, deviceId: auth.deviceId }),
+      });
+      if (loginRes.status === 401) {
+        throw new Error('Incorrect passphrase.');
+      }
+      if (loginRes.status === 403) {
+        throw new Error('This device was removed from the account. Run "contextmate setup" to log in again.');
+      }
+      if (!loginRes.ok) {
+        throw new Error(`Server returned ${loginRes.status}.`);
+      }
+      const { token, wrappedVaultKey } = (await loginRes.json()) as {
+        token: string;
+        wrappedVaultKey?: string | null;
+      };
+
+      const vaultKey = resolveVaultKey(masterKey, wrappedVaultKey ? hexToBytes(wrappedVaultKey) : null);
+      await saveLocalCredentials(
+        config,
+        {
+          salt,
+          encryptedMasterKey: bytesToHex(encryptString(bytesToHex(masterKey), vaultKey)),
+          wrappedVaultKey: wrappedVaultKey ?? undefined,
+        },
+        { ...auth, authHash, token },
+      );
+      await updateKeychain(passphrase);
+
+      console.log(chalk.green('This device now uses the new passphrase.'));
+      console.log(chalk.dim('  Restart the daemon: contextmate daemon stop && contextmate daemon start'));
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+const recoveryKeyCommand = new Command('recovery-key')
+  .description('Create a new recovery key, replacing any previous one')
+  .action(async () => {
+    try {
+      const config = await requireInitialized();
+      const auth = await loadAuthData(config);
+      const vaultKey = await unlockVaultKey(config);
+      await createRecoveryKit(config, auth.userId, auth.token, vaultKey);
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+export const passphraseCommand = new Command('passphrase')
+  .description('Change the vault passphrase or its recovery key')
+  .addCommand(changeCommand)
+  .addCommand(updateCommand)
+  .addCommand(recoveryKeyCommand);
@@ -0,0 +1,215 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as readline from 'node:readline/promises';
+import { stdin, stdout } from 'node:process';
+import { access, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import {
+  getConfigPath,
+  getDefaultConfig,
+  loadConfig,
+  saveConfig,
+  ensureDirectories,
+  type ContextMateConfig,
+} from '../config.js';
+import {
+  generateRecoveryKey,
+  parseRecoveryKey,
+  deriveRecoveryWrappingKey,
+  deriveRecoveryAuthKey,
+  createAuthHash,
+  wrapKey,
+  unwrapKey,
+} from '../crypto/index.js';
+import type { AuthData } from './unlock.js';
+import {
+  loadAuthData,
+  askNewPassphrase,
+  deriveCredentials,
+  saveLocalCredentials,
+  updateKeychain,
+} from './unlock.js';
+
+const KIT_FILENAME = 'contextmate-recovery-kit.txt';
+
+async function ask(prompt: string): Promise<string> {
+  const rl = readline.createInterface({ input: stdin, output: stdout });
+  const answer = await rl.question(prompt);
+  rl.close();
+  return answer;
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function kitText(userId: string, serverUrl: string, recoveryKey: string): string {
+  return [
+    'ContextMate Recovery Kit',
+    '========================',
+    '',
+    `User ID:       ${userId}`,
+    `Server:        ${serverUrl}`,
+    `Recovery key:  ${recoveryKey}`,
+    `Created:       ${new Date().toISOString().slice(0, 10)}`,
+    '',
+    'If you forget your passphrase, run:',
+    '',
+    '  contextmate recover',
+    '',
+    'and enter your User ID and this recovery key to set a new passphrase.',
+    '',
+    'Anyone with this key and your User ID can read your vault. Print it or',
+    'store it offline, then delete this file.',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Generate a recovery key, store the vault key wrapped under it on the
+ * server (replacing any previous one) and write a printable kit file.
+ */
+export async function createRecoveryKit(
+  config: ContextMateConfig,
+  userId: string,
+  token: string,
+  vaultKey: Uint8Array,
+): Promise<void> {
+  const recoveryKey = generateRecoveryKey();
+  const recoveryBytes = parseRecoveryKey(recoveryKey);
+
+  const { SyncClient } = await import('../sync/index.js');
+  const client = new SyncClient(config.server.url, token);
+  client.enableTokenRefresh({ authJsonPath: join(config.data.path, 'auth.json') });
+  await client.setRecoveryKey(
+    createAuthHash(deriveRecoveryAuthKey(recoveryBytes)),
+    bytesToHex(wrapKey(vaultKey, deriveRecoveryWrappingKey(recoveryBytes))),
+  );
+
+  const kitPath = join(homedir(), KIT_FILENAME);
+  await writeFile(kitPath, kitText(userId, config.server.url, recoveryKey), { mode: 0o600 });
+
+  console.log('');
+  console.log(chalk.bold('  Your recovery key:'));
+  console.log('');
+  console.log(`    ${chalk.cyan.bold(recoveryKey)}`);
+  console.log('');
+  console.log(chalk.yellow(`  Saved to ${kitPath}. Print it or store it offline, then delete the file.`));
+  console.log(chalk.yellow('  It is the only way back into your vault if you forget your passphrase.'));
+  console.log('');
+}
+
+/** Offer a recovery key when an account is created. Returns whether one was created. */
+export async function offerRecoveryKit(
+  config: ContextMateConfig,
+  userId: string,
+  token: string,
+  vaultKey: Uint8Array,
+): Promise<boolean> {
+  const answer = await ask(chalk.bold('Create a recovery key in case you forget your passphrase? (Y/n): '));
+  if (answer.trim().toLowerCase() === 'n') return false;
+
+  try {
+    await createRecoveryKit(config, userId, token, vaultKey);
+    return true;
+  } catch (err) {
+    console.log(chalk.yellow(`  Could not create a recovery key: ${err instanceof Error ? err.message : String(err)}`));
+    console.log(chalk.dim('  Create one later with "contextmate passphrase recovery-key".'));
+    return false;
+  }
+}
+
+export const recoverCommand = new Command('recover')
+  .description('Regain access with your recovery key and set a new passphrase')
+  .action(async () => {
+    try {
+      if (!process.stdin.isTTY) {
+        throw new Error('Recovery requires an interactive terminal.');
+      }
+
+      // Works on a configured device or a fresh one
+      let config: ContextMateConfig;
+      let auth: Partial<AuthData> = {};
+      if (await fileExists(getConfigPath())) {
+        config = await loadConfig();
+        try {
+          auth = await loadAuthData(config);
+        } catch {
+          // Not logged in on this device
+        }
+      } else {
+        const serverInput = (await ask(chalk.bold('Server URL (Enter for hosted service): '))).trim();
+        config = getDefaultConfig();
+        if (serverInput) {
+          new URL(serverInput);
+          config.server.url = serverInput.replace(/\/+$/, '');
+        }
+        await ensureDirectories(config);
+        await saveConfig(config);
+      }
+
+      const userId = auth.userId || (await ask(chalk.bold('User ID: '))).trim();
+      if (!userId) {
+        throw new Error('User ID cannot be empty.');
+      }
+
+      const recoveryBytes = parseRecoveryKey(await ask(chalk.bold('Recovery key: ')));
+      const recoveryAuthHash = createAuthHash(deriveRecoveryAuthKey(recoveryBytes));
+
+      console.log(chalk.dim('Connecting to server...'));
+      const keyRes = await fetch(`${config.server.url}/api/auth/recovery/wrapped-key`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, recoveryAuthHash }),
+      });
+      if (keyRes.status === 401) {
+        throw new Error('This recovery key does not match the account.');
+      }
+      if (!keyRes.ok) {
+        throw new Error(`Server returned ${keyRes.status}.`);
+      }
+      const { recoveryWrappedKey } = (await keyRes.json()) as { recoveryWrappedKey: string };
+      const vaultKey = unwrapKey(hexToBytes(recoveryWrappedKey), deriveRecoveryWrappingKey(recoveryBytes));
+
+      console.log('');
+      const passphrase = await askNewPassphrase();
+
+      console.log(chalk.dim('Deriving new keys...'));
+      const { credentials, authHash } = await deriveCredentials(passphrase, vaultKey);
+
+      const resetRes = await fetch(`${config.server.url}/api/auth/recovery/reset`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, recoveryAuthHash, authKeyHash: authHash, deviceId: auth.deviceId, ...credentials }),
+      });
+      if (resetRes.status === 401) {
+        throw new Error('This recovery key does not match the account.');
+      }
+      if (resetRes.status === 403) {
+        throw new Error('This device was removed from the account. Run "contextmate reset" and set it up again.');
+      }
+      if (!resetRes.ok) {
+        throw new Error(`Server returned ${resetRes.status}.`);
+      }
+      const { token } = (await resetRes.json()) as { token: string };
+
+      await saveLocalCredentials(config, credentials, { authHash, userId, token, deviceId: auth.deviceId });
+      await updateKeychain(passphrase);
+
+      console.log('');
+      console.log(chalk.green('Access recovered and new passphrase set.'));
+      console.log(chalk.dim('  Your recovery key keeps working. Other devices are signed out; on each of them, run:'));
+      console.log(`    ${chalk.cyan('contextmate passphrase update')}`);
+      console.log('');
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
@@ -7,6 +7,7 @@ import { join } from 'node:path';
 import { getConfigDir, getConfigPath, loadConfig } from '../config.js';
 import { getAdapter } from '../adapters/index.js';
 import { getBackupsPath } from '../utils/paths.js';
+import { deleteWrappingKey } from '../utils/keychain.js';
 
 async function ask(prompt: string): Promise<string> {
   const rl = readline.createInterface({ input: stdin, output: stdout });
@@ -97,6 +98,8 @@ export const resetCommand = new Command('reset')
       // 2. Delete the entire ~/.contextmate directory
       console.log(chalk.dim('Deleting ContextMate data...'));
       await rm(configDir, { recursive: true, force: true });
+      // The key that opened this device's paired copy of the vault key
+      await deleteWrappingKey();
       console.log(chalk.green('  Data deleted.'));
 
       console.log('');
@@ -13,11 +13,9 @@ import {
   deriveMasterKey,
   deriveAuthKey,
   deriveVaultKey,
+  resolveVaultKey,
   encryptString,
-  decryptString,
   createAuthHash,
-  encryptFile,
-  hashContent,
   deriveKeyForPath,
 } from '../crypto/index.js';
 import {
@@ -29,8 +27,10 @@ import {
   type ContextMateConfig,
 } from '../config.js';
 import { getAdapter } from '../adapters/index.js';
-import { discoverWorkspaces, OpenClawAdapter } from '../adapters/openclaw.js';
+import { discoverWorkspaces, OpenClawAdapter, DEFAULT_MAX_FILE_SIZE } from '../adapters/openclaw.js';
 import { getBackupsPath, getPidFilePath, getSyncDbPath } from '../utils/paths.js';
+import { ensureDeviceKey, loadCredentials, vaultKeyFromPassphrase } from './unlock.js';
+import { offerRecoveryKit } from './recovery.js';
 
 async function ask(prompt: string): Promise<string> {
   const rl = readline.createInterface({ input: stdin, output: stdout });
@@ -63,19 +63,28 @@ function isPidRunning(pid: number): boolean {
   }
 }
 
-async function registerDevice(serverUrl: string, token: string): Promise<string | null> {
+/**
+ * Register this machine as a sync device with its public key. Returns its ID
+ * and a token bound to it (servers that predate device-bound tokens hand back
+ * the session token).
+ */
+async function registerDevice(
+  config: ContextMateConfig,
+  token: string,
+): Promise<{ deviceId: string; token: string } | null> {
   try {
-    const res = await fetch(`${serverUrl}/api/auth/devices`, {
+    const { publicKey } = await ensureDeviceKey(config);
+    const res = await fetch(`${config.server.url}/api/auth/devices`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${token}`,
       },
-      body: JSON.stringify({ name: hostname() }),
+      body: JSON.stringify({ name: hostname(), publicKey }),
     });
     if (res.ok) {
-      const { deviceId } = (await res.json()) as { deviceId: string };
-      return deviceId;
+      const device = (await res.json()) as { deviceId: string; token?: string };
+      return { deviceId: device.deviceId, token: device.token ?? token };
     }
   } catch {
     // Non-critical
@@ -126,40 +135,66 @@ async function initialSync(
   // Discover all files in the vault
   const files = await discoverFiles(config.vault.path, config.vault.path);
 
+  // Use opaque path IDs if enabled here or already in use by another device
+  const { SyncClient, PathManifest, ConflictError, uploadVaultFile, uploadVaultFiles } = await import('../sync/index.js');
+  const { CHUNKED_FILE_SIZE } = await import('../sync/chunks.js');
+  const { makeBatches, runConcurrently, TRANSFER_CONCURRENCY } = await import('../sync/batches.js');
+  const client = new SyncClient(config.server.url, token);
+  const manifest = new PathManifest(client, vaultKey);
+  let encryptPaths = config.sync.encryptPaths;
+  try {
+    encryptPaths = (await manifest.sync(await client.listRemoteFiles())) || encryptPaths;
+    if (encryptPaths) await manifest.add(files);
+  } catch {
+    // Leave the upload to the daemon, which retries the manifest
+    return { uploaded, errors: files.length };
+  }
+
+  // Small files go up in batches, large ones on their own, a few requests at a time
+  const { stat } = await import('node:fs/promises');
+  const sized: Array<{ filePath: string; size: number }> = [];
   for (const filePath of files) {
     try {
-      const absolutePath = join(config.vault.path, filePath);
-      const content = await readFile(absolutePath);
-      const contentBytes = new Uint8Array(content);
-
-      const fileKey = deriveKeyForPath(vaultKey, filePath);
-      const encrypted = encryptFile(contentBytes, fileKey);
-      const encryptedHash = hashContent(encrypted);
-
-      const res = await fetch(
-        `${config.server.url}/api/files/${encodeURIComponent(filePath)}`,
-        {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/octet-stream',
-            'Authorization': `Bearer ${token}`,
-            'X-Content-Hash': encryptedHash,
-            'X-Version': '0',
-          },
-          body: encrypted as any,
-        },
-      );
-
-      if (res.ok || res.status === 409) {
-        uploaded++;
-      } else {
-        errors++;
-      }
+      sized.push({ filePath, size: (await stat(join(config.vault.path, filePath))).size });
     } catch {
       errors++;
     }
   }
 
+  const upload = async (group: Array<{ filePath: string; size: number }>): Promise<void> => {
+    try {
+      const uploads = await Promise.all(group.map(async ({ filePath }) => ({
+        remotePath: encryptPaths ? manifest.idFor(filePath) : filePath,
+        plaintext: new Uint8Array(await readFile(join(config.vault.path, filePath))),
+        key: deriveKeyForPath(vaultKey, filePath),
+        path: filePath,
+        known: 0,
+        version: 0,
+      })));
+      const [first] = uploads;
+      const outcomes = first && first.plaintext.length > CHUNKED_FILE_SIZE
+        ? [await uploadVaultFile(client, first.remotePath, first.plaintext, first.key, first.path, 0, 0)
+          .catch((err: unknown) => (err instanceof Error ? err : new Error(String(err))))]
+        : await uploadVaultFiles(client, uploads);
+      for (const outcome of outcomes) {
+        // A conflict means another device already uploaded the file
+        if (!(outcome instanceof Error) || outcome instanceof ConflictError) {
+          uploaded++;
+        } else {
+          errors++;
+        }
+      }
+    } catch {
+      errors += group.length;
+    }
+  };
+
+  const groups = [
+    ...makeBatches(sized.filter((f) => f.size <= CHUNKED_FILE_SIZE), (f) => f.size),
+    ...sized.filter((f) => f.size > CHUNKED_FILE_SIZE).map((f) => [f]),
+  ];
+  await runConcurrently(groups, TRANSFER_CONCURRENCY, upload);
+
   return { uploaded, errors };
 }
 
@@ -269,16 +304,9 @@ export const setupCommand = new Command('setup')
           process.exit(1);
         }
 
-        // Load salt and derive keys
-        const credPath = join(config.data.path, 'credentials.json');
-        const creds = JSON.parse(await readFile(credPath, 'utf-8'));
-        const salt = hexToBytes(creds.salt);
-        const masterKey = await deriveMasterKey(passphrase, salt);
-        vaultKey = deriveVaultKey(masterKey);
-
-        // Verify passphrase
+        // Derive keys and verify passphrase
         try {
-          decryptString(hexToBytes(creds.encryptedMasterKey), vaultKey);
+          vaultKey = await vaultKeyFromPassphrase(passphrase, await loadCredentials(config));
         } catch {
           console.error(chalk.red('Error: Incorrect passphrase.'));
           process.exit(1);
@@ -343,7 +371,6 @@ export const setupCommand = new Command('setup')
           console.log(chalk.dim('Deriving encryption keys...'));
           const masterKey = await deriveMasterKey(passphrase, salt);
           const authKey = deriveAuthKey(masterKey);
-          vaultKey = deriveVaultKey(masterKey);
           const authHash = createAuthHash(authKey);
 
           // Login
@@ -362,18 +389,25 @@ export const setupCommand = new Command('setup')
             process.exit(1);
           }
 
-          const loginData = (await loginRes.json()) as { userId: string; token: string };
+          const loginData = (await loginRes.json()) as {
+            userId: string;
+            token: string;
+            wrappedVaultKey?: string | null;
+          };
           token = loginData.token;
           userId = loginData.userId;
+          const wrappedVaultKey = loginData.wrappedVaultKey ?? undefined;
+          vaultKey = resolveVaultKey(masterKey, wrappedVaultKey ? hexToBytes(wrappedVaultKey) : null);
 
           // Save credentials
           const encryptedMasterKey = encryptString(bytesToHex(masterKey), vaultKey);
           await writeFile(
             join(config.data.path, 'credentials.json'),
-            JSON.stringify({ salt: saltHex, encryptedMasterKey: bytesToHex(encryptedMasterKey) }, null, 2),
+            JSON.stringify({ salt: saltHex, encryptedMasterKey: bytesToHex(encryptedMasterKey), wrappedVaultKey }, null, 2),
             { mode: 0o600 },
           );
-          deviceId = await registerDevice(config.server.url, token);
+          const device = await registerDevice(config, token);
+          if (device) ({ deviceId, token } = device);
           await writeFile(
             join(config.data.path, 'auth.json'),
             JSON.stringify({ authHash, userId, token, deviceId }, null, 2),
@@ -436,12 +470,14 @@ export const setupCommand = new Command('setup')
             const regData = (await regRes.json()) as { userId: string; token: string };
             token = regData.token;
             userId = regData.userId;
-            deviceId = await registerDevice(config.server.url, token);
+            const device = await registerDevice(config, token);
+            if (device) ({ deviceId, token } = device);
             await writeFile(
               join(config.data.path, 'auth.json'),
               JSON.stringify({ authHash, userId, token, deviceId }, null, 2),
               { mode: 0o600 },
             );
+            await offerRecoveryKit(config, userId, token, vaultKey);
           } else if (regRes.status === 409) {
             console.error(chalk.red('Error: An account with this passphrase already exists.'));
             process.exit(1);
@@ -463,13 +499,15 @@ export const setupCommand = new Command('setup')
 
       // Register device if we don't have one
       if (!deviceId) {
-        deviceId = await registerDevice(config!.server.url, token!);
-        if (deviceId) {
-          // Update auth.json with deviceId
+        const device = await registerDevice(config!, token!);
+        if (device) {
+          ({ deviceId, token } = device);
+          // Update auth.json with the device and its token
           try {
             const authPath = join(config!.data.path, 'auth.json');
             const auth = JSON.parse(await readFile(authPath, 'utf-8'));
             auth.deviceId = deviceId;
+            auth.token = token;
             await writeFile(authPath, JSON.stringify(auth, null, 2), { mode: 0o600 });
           } catch {
             // Non-critical
@@ -565,7 +603,7 @@ export const setupCommand = new Command('setup')
                 'node_modules/**', '.git/**', '.vercel/**',
                 '__pycache__/**', '*.db', '*.sqlite', '.openclaw/**',
               ],
-              maxFileSizeBytes: 10 * 1024 * 1024,
+              maxFileSizeBytes: DEFAULT_MAX_FILE_SIZE,
             };
           }
           config!.adapters.openclaw.enabled = true;
@@ -0,0 +1,199 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { access, stat } from 'node:fs/promises';
+import { join, posix } from 'node:path';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { loadConfig, getConfigDir } from '../config.js';
+import type { ContextMateConfig } from '../config.js';
+import {
+  deriveSharingKeyPair,
+  devicePairingCode,
+  generateShareKey,
+  wrapShareKey,
+  unwrapShareKey,
+  type DeviceKeyPair,
+} from '../crypto/index.js';
+import type { SyncClient } from '../sync/index.js';
+import { loadAuthData, unlockVaultKey } from './unlock.js';
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function requireInitialized(): Promise<ContextMateConfig> {
+  if (!(await fileExists(getConfigDir()))) {
+    console.error(chalk.red('ContextMate is not initialized. Run "contextmate init" first.'));
+    process.exit(1);
+  }
+  return loadConfig();
+}
+
+/** Connect and make sure the account's sharing key is published. */
+async function connect(config: ContextMateConfig): Promise<{ client: SyncClient; userId: string; sharingKeys: DeviceKeyPair }> {
+  const auth = await loadAuthData(config);
+  const { SyncClient } = await import('../sync/index.js');
+  const client = new SyncClient(config.server.url, auth.token);
+  client.enableTokenRefresh({ authJsonPath: join(config.data.path, 'auth.json') });
+
+  const sharingKeys = deriveSharingKeyPair(await unlockVaultKey(config));
+  await client.publishSharingKey(bytesToHex(sharingKeys.publicKey));
+  return { client, userId: auth.userId, sharingKeys };
+}
+
+/** Vault-relative folder path, e.g. "skills/my-skill". */
+function normalizeFolder(input: string): string {
+  const folder = posix.normalize(input.replace(/\\/g, '/')).replace(/\/+$/, '');
+  if (!folder || folder === '.' || folder.startsWith('/') || folder.startsWith('..')) {
+    throw new Error(`"${input}" is not a folder inside the vault.`);
+  }
+  if (folder === 'shared' || folder.startsWith('shared/')) {
+    throw new Error('Folders under shared/ hold shares from other users and cannot be shared again.');
+  }
+  return folder;
+}
+
+const createCommand = new Command('create')
+  .description('Share a vault folder, such as a skill, with another user')
+  .argument('<folder>', 'Folder inside the vault, e.g. skills/my-skill')
+  .requiredOption('--with <user-id>', 'User ID of the recipient')
+  .option('--permissions <permissions>', 'read or read-write', 'read')
+  .action(async (input: string, opts: { with: string; permissions: string }) => {
+    try {
+      const permissions = opts.permissions;
+      if (permissions !== 'read' && permissions !== 'read-write') {
+        throw new Error('--permissions must be "read" or "read-write".');
+      }
+
+      const config = await requireInitialized();
+      const folder = normalizeFolder(input);
+      const isDirectory = await stat(join(config.vault.path, folder)).then((s) => s.isDirectory(), () => false);
+      if (!isDirectory) {
+        throw new Error(`No folder "${folder}" in the vault.`);
+      }
+
+      const { client, userId, sharingKeys } = await connect(config);
+      if (opts.with === userId) {
+        throw new Error('You cannot share a folder with yourself.');
+      }
+
+      const recipientKey = await client.getSharingKey(opts.with);
+      if (!recipientKey) {
+        throw new Error(`User ${opts.with} was not found or has not synced since sharing became available.`);
+      }
+
+      // Reuse the folder's share if it is already shared with someone else
+      const { owned } = await client.listShares();
+      const existing = owned.find((s) => s.folder === folder);
+      let shareId: string;
+      let shareKey: Uint8Array;
+      if (existing) {
+        shareId = existing.id;
+        shareKey = unwrapShareKey(hexToBytes(existing.wrappedKey), sharingKeys);
+      } else {
+        shareKey = generateShareKey();
+        shareId = await client.createShare(folder, bytesToHex(wrapShareKey(shareKey, sharingKeys.publicKey)));
+      }
+
+      const recipientPublicKey = hexToBytes(recipientKey);
+      await client.grantShare(shareId, opts.with, permissions, bytesToHex(wrapShareKey(shareKey, recipientPublicKey)));
+
+      console.log(chalk.green(`Shared ${folder} with ${opts.with} (${permissions}).`));
+      console.log(`  ${chalk.bold('Share ID:')}        ${shareId}`);
+      console.log(`  ${chalk.bold('Their key:')}       ${devicePairingCode(recipientPublicKey)}`);
+      console.log(chalk.dim('  Compare the key with the one "contextmate share list" shows on their side.'));
+      console.log(chalk.dim(`  It appears in their vault under shared/${userId}/${folder}.`));
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+const listCommand = new Command('list')
+  .description('List folders you share and folders shared with you')
+  .action(async () => {
+    try {
+      const config = await requireInitialized();
+      const { client, userId, sharingKeys } = await connect(config);
+      const { owned, received } = await client.listShares();
+
+      console.log(`  ${chalk.bold('User ID:')}      ${userId}`);
+      console.log(`  ${chalk.bold('Sharing key:')}  ${devicePairingCode(sharingKeys.publicKey)}`);
+      console.log('');
+
+      console.log(chalk.bold('Shared by you'));
+      if (owned.length === 0) {
+        console.log(chalk.dim('  None'));
+      }
+      for (const share of owned) {
+        console.log(`  ${chalk.cyan(share.folder)}  ${chalk.dim(share.id)}`);
+        if (share.grants.length === 0) {
+          console.log(chalk.dim('    No recipients'));
+        }
+        for (const grant of share.grants) {
+          console.log(`    ${grant.recipientId}  ${chalk.dim(grant.permissions)}`);
+        }
+      }
+      console.log('');
+
+      console.log(chalk.bold('Shared with you'));
+      if (received.length === 0) {
+        console.log(chalk.dim('  None'));
+      }
+      for (const share of received) {
+        console.log(`  ${chalk.cyan(`shared/${share.ownerId}/${share.folder}`)}  ${chalk.dim(`${share.permissions}  ${share.id}`)}`);
+      }
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+const revokeCommand = new Command('revoke')
+  .description('Stop sharing a folder, with one recipient or with everyone')
+  .argument('<share-id>', 'Share ID from "contextmate share list"')
+  .option('--user <user-id>', 'Only revoke this recipient')
+  .action(async (shareId: string, opts: { user?: string }) => {
+    try {
+      const config = await requireInitialized();
+      const { client } = await connect(config);
+
+      if (opts.user) {
+        await client.revokeShareGrant(shareId, opts.user);
+        console.log(chalk.green(`Revoked ${opts.user}'s access.`));
+      } else {
+        await client.deleteShare(shareId);
+        console.log(chalk.green('Share deleted. The folder syncs with your vault again.'));
+      }
+      console.log(chalk.dim('  Copies already synced to their devices are not removed from disk by revoking.'));
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+const leaveCommand = new Command('leave')
+  .description('Remove a folder someone shared with you')
+  .argument('<share-id>', 'Share ID from "contextmate share list"')
+  .action(async (shareId: string) => {
+    try {
+      const config = await requireInitialized();
+      const { client, userId } = await connect(config);
+      await client.revokeShareGrant(shareId, userId);
+      console.log(chalk.green('Left the share.'));
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+export const shareCommand = new Command('share')
+  .description('Share folders end-to-end encrypted with other users')
+  .addCommand(createCommand)
+  .addCommand(listCommand)
+  .addCommand(revokeCommand)
+  .addCommand(leaveCommand);
@@ -83,6 +83,24 @@ export const statusCommand = new Command('status')
           }
         }
 
+        // Local changes the daemon hasn't been able to send yet
+        const outbox = db.getOutbox();
+        if (outbox.length > 0) {
+          console.log('');
+          console.log(chalk.yellow(`  Outbox: ${outbox.length} change${outbox.length === 1 ? '' : 's'} waiting for the server`));
+          for (const entry of outbox.slice(0, 10)) {
+            const retry = entry.parked
+              ? chalk.dim(` (failed ${entry.attempts}x, retried on the next full sync: ${entry.lastError})`)
+              : entry.attempts > 0
+                ? chalk.dim(` (failed ${entry.attempts}x, retry at ${new Date(entry.nextAttemptAt).toLocaleTimeString()}: ${entry.lastError})`)
+                : '';
+            console.log(`    - ${entry.operation} ${entry.path}${retry}`);
+          }
+          if (outbox.length > 10) {
+            console.log(chalk.dim(`    ...and ${outbox.length - 10} more`));
+          }
+        }
+
         db.close();
       } else {
         console.log('');
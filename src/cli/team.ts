@@ -0,0 +1,184 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { access } from 'node:fs/promises';
+import { join } from 'node:path';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { loadConfig, getConfigDir } from '../config.js';
+import type { ContextMateConfig } from '../config.js';
+import {
+  deriveSharingKeyPair,
+  devicePairingCode,
+  generateShareKey,
+  wrapShareKey,
+  unwrapShareKey,
+  type DeviceKeyPair,
+} from '../crypto/index.js';
+import type { SyncClient } from '../sync/index.js';
+import type { TeamInfo } from '../types.js';
+import { getTeamVaultPath } from '../utils/paths.js';
+import { loadAuthData, unlockVaultKey } from './unlock.js';
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function requireInitialized(): Promise<ContextMateConfig> {
+  if (!(await fileExists(getConfigDir()))) {
+    console.error(chalk.red('ContextMate is not initialized. Run "contextmate init" first.'));
+    process.exit(1);
+  }
+  return loadConfig();
+}
+
+/** Connect and make sure the account's sharing key is published, so team keys can be wrapped for it. */
+async function connect(config: ContextMateConfig): Promise<{ client: SyncClient; userId: string; sharingKeys: DeviceKeyPair }> {
+  const auth = await loadAuthData(config);
+  const { SyncClient } = await import('../sync/index.js');
+  const client = new SyncClient(config.server.url, auth.token);
+  client.enableTokenRefresh({ authJsonPath: join(config.data.path, 'auth.json') });
+
+  const sharingKeys = deriveSharingKeyPair(await unlockVaultKey(config));
+  await client.publishSharingKey(bytesToHex(sharingKeys.publicKey));
+  return { client, userId: auth.userId, sharingKeys };
+}
+
+/** Find a team by ID, or by name when that name is unique. */
+async function findTeam(client: SyncClient, ref: string): Promise<TeamInfo> {
+  const teams = await client.listTeams();
+  const byId = teams.find((t) => t.id === ref);
+  if (byId) return byId;
+
+  const byName = teams.filter((t) => t.name === ref);
+  if (byName.length > 1) {
+    throw new Error(`More than one team is named "${ref}". Use the team ID from "contextmate team list".`);
+  }
+  if (!byName[0]) {
+    throw new Error(`You are not a member of a team "${ref}".`);
+  }
+  return byName[0];
+}
+
+const createCommand = new Command('create')
+  .description('Create a team vault that members sync next to their own')
+  .argument('<name>', 'Team name')
+  .action(async (name: string) => {
+    try {
+      const config = await requireInitialized();
+      const { client, sharingKeys } = await connect(config);
+
+      const teamKey = generateShareKey();
+      const teamId = await client.createTeam(name, bytesToHex(wrapShareKey(teamKey, sharingKeys.publicKey)));
+
+      console.log(chalk.green(`Team "${name}" created.`));
+      console.log(`  ${chalk.bold('Team ID:')}  ${teamId}`);
+      console.log(`  ${chalk.bold('Folder:')}   ${getTeamVaultPath(config, teamId)}`);
+      console.log(chalk.dim('  The running daemon starts syncing it right away.'));
+      console.log(chalk.dim(`  Add members with: contextmate team invite ${teamId} <user-id>`));
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+const inviteCommand = new Command('invite')
+  .description("Add a user to a team, or change a member's role")
+  .argument('<team>', 'Team ID or name')
+  .argument('<user-id>', 'User ID of the new member')
+  .option('--role <role>', 'admin or member', 'member')
+  .action(async (ref: string, memberId: string, opts: { role: string }) => {
+    try {
+      const role = opts.role;
+      if (role !== 'admin' && role !== 'member') {
+        throw new Error('--role must be "admin" or "member".');
+      }
+
+      const config = await requireInitialized();
+      const { client, sharingKeys } = await connect(config);
+      const team = await findTeam(client, ref);
+
+      const memberKey = await client.getSharingKey(memberId);
+      if (!memberKey) {
+        throw new Error(`User ${memberId} was not found or has not synced since teams became available.`);
+      }
+
+      const teamKey = unwrapShareKey(hexToBytes(team.wrappedKey), sharingKeys);
+      const memberPublicKey = hexToBytes(memberKey);
+      await client.setTeamMember(team.id, memberId, role, bytesToHex(wrapShareKey(teamKey, memberPublicKey)));
+
+      console.log(chalk.green(`${memberId} is now ${role === 'admin' ? 'an admin' : 'a member'} of "${team.name}".`));
+      console.log(`  ${chalk.bold('Their key:')}  ${devicePairingCode(memberPublicKey)}`);
+      console.log(chalk.dim('  Compare the key with the one "contextmate share list" shows on their side.'));
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+const removeCommand = new Command('remove')
+  .description('Remove a member from a team, or leave it by passing your own user ID')
+  .argument('<team>', 'Team ID or name')
+  .argument('<user-id>', 'User ID of the member')
+  .action(async (ref: string, memberId: string) => {
+    try {
+      const config = await requireInitialized();
+      const { client, userId } = await connect(config);
+      const team = await findTeam(client, ref);
+
+      await client.removeTeamMember(team.id, memberId);
+
+      if (memberId === userId) {
+        console.log(chalk.green(`You left "${team.name}".`));
+      } else {
+        console.log(chalk.green(`Removed ${memberId} from "${team.name}".`));
+        // The team key is not rotated: only the server stands between them and the team's files now
+        console.log(chalk.yellow('  The server no longer lets them read or write the team vault, but they still hold the team key.'));
+        console.log(chalk.yellow('  Anyone who gets them the encrypted files, such as a compromised server, lets them read them,'));
+        console.log(chalk.yellow('  including files added after today. For files they must not read, create a new team without them.'));
+      }
+      console.log(chalk.dim('  Files already synced to their devices are not removed from disk.'));
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+const listCommand = new Command('list')
+  .description('List your teams and their members')
+  .action(async () => {
+    try {
+      const config = await requireInitialized();
+      const { client, userId } = await connect(config);
+      const teams = await client.listTeams();
+
+      if (teams.length === 0) {
+        console.log(chalk.dim('You are not a member of any team. Create one with "contextmate team create <name>".'));
+        return;
+      }
+
+      for (const team of teams) {
+        console.log(`${chalk.bold.cyan(team.name)}  ${chalk.dim(team.id)}`);
+        console.log(`  ${chalk.bold('Your role:')}  ${team.role}`);
+        console.log(`  ${chalk.bold('Folder:')}     ${getTeamVaultPath(config, team.id)}`);
+        for (const member of await client.listTeamMembers(team.id)) {
+          const you = member.userId === userId ? chalk.dim(' (you)') : '';
+          console.log(`    ${member.userId}  ${chalk.dim(member.role)}${you}`);
+        }
+        console.log('');
+      }
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+export const teamCommand = new Command('team')
+  .description('Team vaults that several users sync alongside their personal vault')
+  .addCommand(createCommand)
+  .addCommand(inviteCommand)
+  .addCommand(removeCommand)
+  .addCommand(listCommand);
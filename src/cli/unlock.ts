@@ -0,0 +1,285 @@
+import chalk from 'chalk';
+import * as readline from 'node:readline/promises';
+import { Writable } from 'node:stream';
+import { stdin, stdout } from 'node:process';
+import { access, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import type { ContextMateConfig } from '../config.js';
+import {
+  generateSalt,
+  deriveMasterKey,
+  deriveAuthKey,
+  deriveWrappingKey,
+  resolveVaultKey,
+  encryptString,
+  decryptString,
+  wrapKey,
+  unwrapKey,
+  createAuthHash,
+  generateDeviceKeyPair,
+  type DeviceKeyPair,
+} from '../crypto/index.js';
+import {
+  isKeychainAvailable,
+  retrievePassphrase,
+  storePassphrase,
+  retrieveWrappingKey,
+  storeWrappingKey,
+} from '../utils/keychain.js';
+import { getSyncDbPath } from '../utils/paths.js';
+
+export interface AuthData {
+  authHash: string;
+  userId: string;
+  token: string;
+  deviceId?: string;
+}
+
+export interface Credentials {
+  salt: string;
+  encryptedMasterKey: string;
+  /** Original vault key wrapped under the current master key, once the passphrase has changed. */
+  wrappedVaultKey?: string;
+}
+
+/** This device's X25519 key pair, and the vault key if it was enrolled by pairing. */
+export interface DeviceKeyFile {
+  publicKey: string;
+  privateKey: string;
+  /** The vault key handed over at pairing, wrapped with a key kept in the OS keychain. */
+  wrappedVaultKey?: string;
+  /** The bare vault key, as older versions stored it; moved to wrappedVaultKey on first use. */
+  vaultKey?: string;
+}
+
+export async function readPassphrase(prompt: string): Promise<string> {
+  stdout.write(prompt);
+  const muted = new Writable({ write(_chunk, _enc, cb) { cb(); } });
+  const rl = readline.createInterface({ input: stdin, output: muted, terminal: true });
+  const answer = await rl.question('');
+  rl.close();
+  stdout.write('\n');
+  return answer;
+}
+
+export async function askNewPassphrase(): Promise<string> {
+  const passphrase = await readPassphrase(chalk.bold('New passphrase: '));
+  if (!passphrase || !passphrase.trim()) {
+    throw new Error('Passphrase cannot be empty.');
+  }
+  const confirmation = await readPassphrase(chalk.bold('Confirm new passphrase: '));
+  if (passphrase !== confirmation) {
+    throw new Error('Passphrases do not match.');
+  }
+  return passphrase;
+}
+
+export async function loadAuthData(config: ContextMateConfig): Promise<AuthData> {
+  try {
+    const auth = JSON.parse(await readFile(join(config.data.path, 'auth.json'), 'utf-8')) as AuthData;
+    if (!auth.token) throw new Error('missing token');
+    return auth;
+  } catch {
+    throw new Error('No auth token found. Run "contextmate init" first.');
+  }
+}
+
+export async function loadCredentials(config: ContextMateConfig): Promise<Credentials> {
+  try {
+    return JSON.parse(await readFile(join(config.data.path, 'credentials.json'), 'utf-8')) as Credentials;
+  } catch {
+    throw new Error('No credentials found. Run "contextmate init" first.');
+  }
+}
+
+/**
+ * Derive the vault key from a passphrase and the local credentials. Throws
+ * "Invalid passphrase." if the passphrase doesn't match.
+ */
+export async function vaultKeyFromPassphrase(passphrase: string, credentials: Credentials): Promise<Uint8Array> {
+  const masterKey = await deriveMasterKey(passphrase, hexToBytes(credentials.salt));
+
+  // Unwrapping or decrypting the stored master key fails on a wrong passphrase
+  try {
+    const vaultKey = resolveVaultKey(
+      masterKey,
+      credentials.wrappedVaultKey ? hexToBytes(credentials.wrappedVaultKey) : null,
+    );
+    decryptString(hexToBytes(credentials.encryptedMasterKey), vaultKey);
+    return vaultKey;
+  } catch {
+    throw new Error('Invalid passphrase.');
+  }
+}
+
+/**
+ * Derive the vault key for one-off CLI commands. Uses the passphrase stored
+ * in the OS keychain when there is one, otherwise prompts for it.
+ */
+export async function unlockVaultKey(config: ContextMateConfig): Promise<Uint8Array> {
+  const credentials = await loadCredentials(config);
+
+  const pairedVaultKey = await loadPairedVaultKey(config);
+  if (pairedVaultKey) return pairedVaultKey;
+
+  let passphrase = await retrievePassphrase();
+  if (!passphrase) {
+    if (!process.stdin.isTTY) {
+      throw new Error('No passphrase found in OS keychain.');
+    }
+    passphrase = await readPassphrase(chalk.bold('Enter passphrase: '));
+    if (!passphrase) {
+      throw new Error('Passphrase cannot be empty.');
+    }
+  }
+
+  return vaultKeyFromPassphrase(passphrase, credentials);
+}
+
+export async function loadDeviceKey(config: ContextMateConfig): Promise<DeviceKeyFile | null> {
+  try {
+    return JSON.parse(await readFile(join(config.data.path, 'device-key.json'), 'utf-8')) as DeviceKeyFile;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveDeviceKey(config: ContextMateConfig, deviceKey: DeviceKeyFile): Promise<void> {
+  await writeFile(
+    join(config.data.path, 'device-key.json'),
+    JSON.stringify(deviceKey, null, 2),
+    { mode: 0o600 },
+  );
+}
+
+/** Load this device's key pair, generating and saving one on first use. */
+export async function ensureDeviceKey(config: ContextMateConfig): Promise<DeviceKeyFile> {
+  const existing = await loadDeviceKey(config);
+  if (existing) return existing;
+
+  const keyPair = generateDeviceKeyPair();
+  const deviceKey = { publicKey: bytesToHex(keyPair.publicKey), privateKey: bytesToHex(keyPair.privateKey) };
+  await saveDeviceKey(config, deviceKey);
+  return deviceKey;
+}
+
+export function deviceKeyPair(deviceKey: DeviceKeyFile): DeviceKeyPair {
+  return { publicKey: hexToBytes(deviceKey.publicKey), privateKey: hexToBytes(deviceKey.privateKey) };
+}
+
+/**
+ * Keep the vault key a trusted device handed over. It is wrapped with a
+ * random key that goes into the OS keychain, so device-key.json alone
+ * doesn't open the vault.
+ */
+export async function savePairedVaultKey(
+  config: ContextMateConfig,
+  deviceKey: DeviceKeyFile,
+  vaultKey: Uint8Array,
+): Promise<void> {
+  if (!(await isKeychainAvailable())) {
+    throw new Error(
+      'Pairing keeps the vault key in the OS keychain, which is not available on this system. '
+      + 'macOS requires /usr/bin/security. Linux requires secret-tool (libsecret).',
+    );
+  }
+  const wrappingKey = new Uint8Array(randomBytes(32));
+  await storeWrappingKey(bytesToHex(wrappingKey));
+  const { vaultKey: _bare, ...keyPair } = deviceKey;
+  await saveDeviceKey(config, { ...keyPair, wrappedVaultKey: bytesToHex(wrapKey(vaultKey, wrappingKey)) });
+}
+
+/**
+ * The vault key a trusted device handed over when this one was paired. Paired
+ * devices never learn the passphrase, so this is how they unlock.
+ */
+export async function loadPairedVaultKey(config: ContextMateConfig): Promise<Uint8Array | null> {
+  const deviceKey = await loadDeviceKey(config);
+  if (deviceKey?.vaultKey) {
+    const vaultKey = hexToBytes(deviceKey.vaultKey);
+    try {
+      await savePairedVaultKey(config, deviceKey, vaultKey);
+    } catch {
+      // No keychain here: keep using the copy in the file
+    }
+    return vaultKey;
+  }
+  if (!deviceKey?.wrappedVaultKey) return null;
+
+  const wrappingKey = await retrieveWrappingKey();
+  try {
+    if (!wrappingKey) throw new Error('missing wrapping key');
+    return unwrapKey(hexToBytes(deviceKey.wrappedVaultKey), hexToBytes(wrappingKey));
+  } catch {
+    throw new Error('The OS keychain no longer holds the key for this paired device. Run "contextmate device pair" again.');
+  }
+}
+
+/**
+ * Credentials for a new passphrase that keep the existing vault key: it is
+ * wrapped under the new master key, so no file has to be re-encrypted.
+ */
+export async function deriveCredentials(
+  passphrase: string,
+  vaultKey: Uint8Array,
+): Promise<{ credentials: Required<Credentials>; authHash: string }> {
+  const salt = generateSalt();
+  const masterKey = await deriveMasterKey(passphrase, salt);
+  return {
+    credentials: {
+      salt: bytesToHex(salt),
+      encryptedMasterKey: bytesToHex(encryptString(bytesToHex(masterKey), vaultKey)),
+      wrappedVaultKey: bytesToHex(wrapKey(vaultKey, deriveWrappingKey(masterKey))),
+    },
+    authHash: createAuthHash(deriveAuthKey(masterKey)),
+  };
+}
+
+export async function saveLocalCredentials(
+  config: ContextMateConfig,
+  credentials: Credentials,
+  auth: AuthData,
+): Promise<void> {
+  await writeFile(
+    join(config.data.path, 'credentials.json'),
+    JSON.stringify(credentials, null, 2),
+    { mode: 0o600 },
+  );
+  await writeFile(
+    join(config.data.path, 'auth.json'),
+    JSON.stringify(auth, null, 2),
+    { mode: 0o600 },
+  );
+}
+
+/** Replace the keychain copy of the passphrase, if the daemon was set up to use one. */
+export async function updateKeychain(passphrase: string): Promise<void> {
+  if (!(await retrievePassphrase())) return;
+  try {
+    await storePassphrase(passphrase);
+  } catch {
+    console.log(chalk.yellow('Could not update the passphrase in the OS keychain. Run "contextmate daemon install" again.'));
+  }
+}
+
+/** Whether the server addresses this vault's files by opaque path IDs. */
+export async function usesEncryptedPaths(config: ContextMateConfig): Promise<boolean> {
+  if (config.sync.encryptPaths) return true;
+
+  const dbPath = getSyncDbPath(config);
+  try {
+    await access(dbPath);
+  } catch {
+    return false;
+  }
+
+  const { SyncStateDB } = await import('../sync/index.js');
+  const db = new SyncStateDB(dbPath);
+  try {
+    return db.getMeta('path_mode') === 'encrypted';
+  } finally {
+    db.close();
+  }
+}
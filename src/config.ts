@@ -19,6 +19,7 @@ export interface ContextMateConfig {
     debounceMs: number;
     maxRetries: number;
     extraPaths: string[];
+    encryptPaths: boolean;
   };
   adapters: {
     openclaw: {
@@ -43,6 +44,10 @@ export interface ContextMateConfig {
   mcp: {
     port: number;
     host: string;
+    embeddings: {
+      provider: 'tfidf' | 'local';
+      modelPath: string;
+    };
   };
 }
 
@@ -71,6 +76,7 @@ export function getDefaultConfig(): ContextMateConfig {
       debounceMs: 500,
       maxRetries: 3,
       extraPaths: [],
+      encryptPaths: false,
     },
     adapters: {
       openclaw: {
@@ -90,6 +96,10 @@ export function getDefaultConfig(): ContextMateConfig {
     mcp: {
       port: 3100,
       host: 'localhost',
+      embeddings: {
+        provider: 'tfidf',
+        modelPath: join(configDir, 'models', 'all-MiniLM-L6-v2'),
+      },
     },
   };
 }
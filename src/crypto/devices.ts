@@ -0,0 +1,122 @@
+import { createPrivateKey, createPublicKey, diffieHellman, generateKeyPairSync } from 'node:crypto';
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha256';
+import { encryptFile, decryptFile } from './encrypt.js';
+import { formatRecoveryKey } from './recovery.js';
+
+const KEY_LENGTH = 32;
+const PAIRING_CODE_BYTES = 10;
+
+export interface DeviceKeyPair {
+  publicKey: Uint8Array;
+  privateKey: Uint8Array;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64url');
+}
+
+function publicKeyObject(publicKey: Uint8Array) {
+  if (publicKey.length !== KEY_LENGTH) {
+    throw new Error(`Invalid device public key length: ${publicKey.length}`);
+  }
+  return createPublicKey({
+    key: { kty: 'OKP', crv: 'X25519', x: toBase64Url(publicKey) },
+    format: 'jwk',
+  });
+}
+
+function privateKeyObject(keyPair: DeviceKeyPair) {
+  return createPrivateKey({
+    key: { kty: 'OKP', crv: 'X25519', x: toBase64Url(keyPair.publicKey), d: toBase64Url(keyPair.privateKey) },
+    format: 'jwk',
+  });
+}
+
+/** An X25519 key pair identifying one device. */
+export function generateDeviceKeyPair(): DeviceKeyPair {
+  const { publicKey, privateKey } = generateKeyPairSync('x25519');
+  const jwk = privateKey.export({ format: 'jwk' });
+  return {
+    publicKey: new Uint8Array(Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url')),
+    privateKey: new Uint8Array(Buffer.from(jwk.d!, 'base64url')),
+  };
+}
+
+// PKCS#8 header for a raw X25519 private key (RFC 8410)
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+
+/** The key pair for an existing X25519 private key, e.g. one derived with HKDF. */
+export function keyPairFromPrivateKey(privateKey: Uint8Array): DeviceKeyPair {
+  if (privateKey.length !== KEY_LENGTH) {
+    throw new Error(`Invalid private key length: ${privateKey.length}`);
+  }
+  const keyObject = createPrivateKey({
+    key: Buffer.concat([X25519_PKCS8_PREFIX, privateKey]),
+    format: 'der',
+    type: 'pkcs8',
+  });
+  const jwk = createPublicKey(keyObject).export({ format: 'jwk' });
+  return {
+    publicKey: new Uint8Array(Buffer.from(jwk.x!, 'base64url')),
+    privateKey: new Uint8Array(privateKey),
+  };
+}
+
+function sealKey(sharedSecret: Uint8Array, ephemeralPublicKey: Uint8Array, recipientPublicKey: Uint8Array): Uint8Array {
+  const salt = new Uint8Array(KEY_LENGTH * 2);
+  salt.set(ephemeralPublicKey, 0);
+  salt.set(recipientPublicKey, KEY_LENGTH);
+  return hkdf(sha256, sharedSecret, salt, 'contextmate-device-seal', KEY_LENGTH);
+}
+
+/**
+ * Encrypt data so only the holder of the device's private key can read it
+ * (or any other X25519 key, such as an account's sharing key).
+ * Uses a fresh ephemeral key each time; the result is its public key
+ * followed by the ciphertext.
+ */
+export function sealToDevice(plaintext: Uint8Array, recipientPublicKey: Uint8Array): Uint8Array {
+  const ephemeral = generateDeviceKeyPair();
+  const sharedSecret = diffieHellman({
+    privateKey: privateKeyObject(ephemeral),
+    publicKey: publicKeyObject(recipientPublicKey),
+  });
+  const ciphertext = encryptFile(plaintext, sealKey(sharedSecret, ephemeral.publicKey, recipientPublicKey));
+
+  const sealed = new Uint8Array(KEY_LENGTH + ciphertext.length);
+  sealed.set(ephemeral.publicKey, 0);
+  sealed.set(ciphertext, KEY_LENGTH);
+  return sealed;
+}
+
+export function openSealed(sealed: Uint8Array, keyPair: DeviceKeyPair): Uint8Array {
+  const ephemeralPublicKey = sealed.slice(0, KEY_LENGTH);
+  const sharedSecret = diffieHellman({
+    privateKey: privateKeyObject(keyPair),
+    publicKey: publicKeyObject(ephemeralPublicKey),
+  });
+  return decryptFile(sealed.slice(KEY_LENGTH), sealKey(sharedSecret, ephemeralPublicKey, keyPair.publicKey));
+}
+
+/**
+ * Short fingerprint of a device public key, shown on the new device and typed
+ * on the trusted one. The trusted device recomputes it from the key the
+ * server hands over, so a substituted key is caught before anything is sealed.
+ */
+export function devicePairingCode(publicKey: Uint8Array): string {
+  return formatRecoveryKey(sha256(publicKey).slice(0, PAIRING_CODE_BYTES));
+}
+
+/** Normalize a typed pairing code, tolerating case, spacing and look-alike characters. */
+export function normalizePairingCode(text: string): string {
+  const normalized = text
+    .toUpperCase()
+    .replace(/[\s-]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+  if (!/^[0-9A-HJKMNP-TV-Z]{16}$/.test(normalized)) {
+    throw new Error('Pairing code must have 16 characters, like ABCD-EFGH-JKMN-PQRS.');
+  }
+  return normalized.match(/.{4}/g)!.join('-');
+}
@@ -2,38 +2,114 @@ import { gcm } from '@noble/ciphers/aes';
 import { randomBytes } from '@noble/ciphers/webcrypto';
 import { blake3 } from '@noble/hashes/blake3';
 import { bytesToHex } from '@noble/hashes/utils';
+import { deflateSync, inflateSync } from 'node:zlib';
 
-export const ENCRYPTION_VERSION = 1;
+/**
+ * v2: [version][codec][nonce][ciphertext], where the plaintext may be
+ * compressed before encryption. v1 has no codec byte and is never compressed.
+ * v3 is v2 with a counter after the codec, for vault files: the header and
+ * the file's path are authenticated as associated data.
+ */
+export const ENCRYPTION_VERSION = 2;
+export const LEGACY_ENCRYPTION_VERSION = 1;
+export const BOUND_ENCRYPTION_VERSION = 3;
 export const NONCE_LENGTH = 12;
 export const VERSION_LENGTH = 4;
+export const CODEC_LENGTH = 1;
+export const COUNTER_LENGTH = 8;
+
+// Deflate (zlib format), because browsers can undo it with DecompressionStream
+export const CODEC_NONE = 0;
+export const CODEC_DEFLATE = 1;
+
+/**
+ * What a vault file's blob is bound to. A blob decrypts only under the path
+ * it was written for, and the counter lets a reader refuse an older copy.
+ */
+export interface BlobBinding {
+  path: string;
+  counter: number;
+}
+
+/** Encrypt data; pass a binding for vault files, leave it out for keys and settings. */
+export function encryptFile(plaintext: Uint8Array, key: Uint8Array, binding?: BlobBinding): Uint8Array {
+  // Already-compact data, like keys, is stored as is
+  const compressed = new Uint8Array(deflateSync(plaintext));
+  const codec = compressed.length < plaintext.length ? CODEC_DEFLATE : CODEC_NONE;
+
+  const headerLength = VERSION_LENGTH + CODEC_LENGTH + (binding ? COUNTER_LENGTH : 0);
+  const header = new Uint8Array(headerLength);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, binding ? BOUND_ENCRYPTION_VERSION : ENCRYPTION_VERSION, true);
+  view.setUint8(VERSION_LENGTH, codec);
+  if (binding) view.setBigUint64(VERSION_LENGTH + CODEC_LENGTH, BigInt(binding.counter), true);
 
-export function encryptFile(plaintext: Uint8Array, key: Uint8Array): Uint8Array {
   const nonce = randomBytes(NONCE_LENGTH);
-  const cipher = gcm(key, nonce);
-  const ciphertext = cipher.encrypt(plaintext);
+  const cipher = gcm(key, nonce, binding ? associatedData(header, binding.path) : undefined);
+  const ciphertext = cipher.encrypt(codec === CODEC_DEFLATE ? compressed : plaintext);
 
-  const result = new Uint8Array(VERSION_LENGTH + NONCE_LENGTH + ciphertext.length);
-  const view = new DataView(result.buffer, result.byteOffset, result.byteLength);
-  view.setUint32(0, ENCRYPTION_VERSION, true);
-  result.set(nonce, VERSION_LENGTH);
-  result.set(ciphertext, VERSION_LENGTH + NONCE_LENGTH);
+  const result = new Uint8Array(headerLength + NONCE_LENGTH + ciphertext.length);
+  result.set(header);
+  result.set(nonce, headerLength);
+  result.set(ciphertext, headerLength + NONCE_LENGTH);
 
   return result;
 }
 
-export function decryptFile(encrypted: Uint8Array, key: Uint8Array): Uint8Array {
+/** Decrypt data. Vault files written with a binding need the path they were written for. */
+export function decryptFile(encrypted: Uint8Array, key: Uint8Array, path?: string): Uint8Array {
   const view = new DataView(encrypted.buffer, encrypted.byteOffset, encrypted.byteLength);
   const version = view.getUint32(0, true);
 
-  if (version !== ENCRYPTION_VERSION) {
+  let headerLength: number;
+  let codec: number;
+  if (version === LEGACY_ENCRYPTION_VERSION) {
+    headerLength = VERSION_LENGTH;
+    codec = CODEC_NONE;
+  } else if (version === ENCRYPTION_VERSION) {
+    headerLength = VERSION_LENGTH + CODEC_LENGTH;
+    codec = view.getUint8(VERSION_LENGTH);
+  } else if (version === BOUND_ENCRYPTION_VERSION) {
+    if (path === undefined) {
+      throw new Error('This blob is bound to a file path, which is needed to decrypt it');
+    }
+    headerLength = VERSION_LENGTH + CODEC_LENGTH + COUNTER_LENGTH;
+    codec = view.getUint8(VERSION_LENGTH);
+  } else {
     throw new Error(`Unsupported encryption version: ${version}`);
   }
 
-  const nonce = encrypted.slice(VERSION_LENGTH, VERSION_LENGTH + NONCE_LENGTH);
-  const ciphertext = encrypted.slice(VERSION_LENGTH + NONCE_LENGTH);
+  if (codec !== CODEC_NONE && codec !== CODEC_DEFLATE) {
+    throw new Error(`Unsupported compression codec: ${codec}`);
+  }
+
+  const nonce = encrypted.slice(headerLength, headerLength + NONCE_LENGTH);
+  const ciphertext = encrypted.slice(headerLength + NONCE_LENGTH);
 
-  const cipher = gcm(key, nonce);
-  return cipher.decrypt(ciphertext);
+  const aad = version === BOUND_ENCRYPTION_VERSION
+    ? associatedData(encrypted.slice(0, headerLength), path!)
+    : undefined;
+  const cipher = gcm(key, nonce, aad);
+  const plaintext = cipher.decrypt(ciphertext);
+  return codec === CODEC_DEFLATE ? new Uint8Array(inflateSync(plaintext)) : plaintext;
+}
+
+/**
+ * The counter a blob was bound to, or 0 for blobs written without one. Only
+ * trustworthy once decryptFile has authenticated the blob.
+ */
+export function blobCounter(encrypted: Uint8Array): number {
+  const view = new DataView(encrypted.buffer, encrypted.byteOffset, encrypted.byteLength);
+  if (view.getUint32(0, true) !== BOUND_ENCRYPTION_VERSION) return 0;
+  return Number(view.getBigUint64(VERSION_LENGTH + CODEC_LENGTH, true));
+}
+
+function associatedData(header: Uint8Array, path: string): Uint8Array {
+  const pathBytes = new TextEncoder().encode(path);
+  const aad = new Uint8Array(header.length + pathBytes.length);
+  aad.set(header);
+  aad.set(pathBytes, header.length);
+  return aad;
 }
 
 export function hashContent(content: Uint8Array): string {
@@ -47,3 +123,16 @@ export function encryptString(plaintext: string, key: Uint8Array): Uint8Array {
 export function decryptString(encrypted: Uint8Array, key: Uint8Array): string {
   return new TextDecoder().decode(decryptFile(encrypted, key));
 }
+
+/** Encrypt a key under a key-encryption key, so the wrapper can change without touching the data. */
+export function wrapKey(key: Uint8Array, wrappingKey: Uint8Array): Uint8Array {
+  return encryptFile(key, wrappingKey);
+}
+
+export function unwrapKey(wrapped: Uint8Array, wrappingKey: Uint8Array): Uint8Array {
+  const key = decryptFile(wrapped, wrappingKey);
+  if (key.length !== 32) {
+    throw new Error(`Invalid wrapped key length: ${key.length}`);
+  }
+  return key;
+}
@@ -5,23 +5,64 @@ export {
   deriveFolderKey,
   deriveFileKey,
   deriveAuthKey,
+  deriveWrappingKey,
+  resolveVaultKey,
   deriveSharingKey,
   deriveKeyForPath,
+  derivePathIdKey,
+  deriveChunkIdKey,
+  encryptPathId,
 } from './keys.js';
 
 export {
   ENCRYPTION_VERSION,
+  LEGACY_ENCRYPTION_VERSION,
+  BOUND_ENCRYPTION_VERSION,
   NONCE_LENGTH,
   VERSION_LENGTH,
+  CODEC_LENGTH,
+  COUNTER_LENGTH,
+  CODEC_NONE,
+  CODEC_DEFLATE,
   encryptFile,
   decryptFile,
+  blobCounter,
   hashContent,
   encryptString,
   decryptString,
+  wrapKey,
+  unwrapKey,
 } from './encrypt.js';
+export type { BlobBinding } from './encrypt.js';
 
 export {
   createAuthHash,
   verifyAuthKey,
   timingSafeEqual,
 } from './auth.js';
+
+export {
+  generateRecoveryKey,
+  formatRecoveryKey,
+  parseRecoveryKey,
+  deriveRecoveryWrappingKey,
+  deriveRecoveryAuthKey,
+} from './recovery.js';
+
+export {
+  generateDeviceKeyPair,
+  keyPairFromPrivateKey,
+  sealToDevice,
+  openSealed,
+  devicePairingCode,
+  normalizePairingCode,
+} from './devices.js';
+export type { DeviceKeyPair } from './devices.js';
+
+export {
+  deriveSharingKeyPair,
+  generateShareKey,
+  wrapShareKey,
+  unwrapShareKey,
+  deriveKeyForSharedPath,
+} from './sharing.js';
@@ -1,7 +1,10 @@
 import argon2 from 'argon2';
 import { hkdf } from '@noble/hashes/hkdf';
 import { sha256 } from '@noble/hashes/sha256';
+import { blake3 } from '@noble/hashes/blake3';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
 import { randomBytes } from 'node:crypto';
+import { unwrapKey } from './encrypt.js';
 
 const KEY_LENGTH = 32;
 
@@ -47,8 +50,28 @@ export function deriveAuthKey(masterKey: Uint8Array): Uint8Array {
   return hkdf(sha256, masterKey, undefined, 'contextmate-auth', KEY_LENGTH);
 }
 
-export function deriveSharingKey(masterKey: Uint8Array): Uint8Array {
-  return hkdf(sha256, masterKey, undefined, 'contextmate-sharing', KEY_LENGTH);
+export function deriveWrappingKey(masterKey: Uint8Array): Uint8Array {
+  return hkdf(sha256, masterKey, undefined, 'contextmate-vault-wrap', KEY_LENGTH);
+}
+
+/**
+ * Vault key for a master key. Accounts that changed their passphrase keep
+ * their original vault key, wrapped under the new master key.
+ */
+export function resolveVaultKey(
+  masterKey: Uint8Array,
+  wrappedVaultKey?: Uint8Array | null,
+): Uint8Array {
+  if (!wrappedVaultKey) return deriveVaultKey(masterKey);
+  return unwrapKey(wrappedVaultKey, deriveWrappingKey(masterKey));
+}
+
+/**
+ * Private key of the account's sharing key pair. Derive it from the vault
+ * key, which survives passphrase changes, so shares stay readable.
+ */
+export function deriveSharingKey(vaultKey: Uint8Array): Uint8Array {
+  return hkdf(sha256, vaultKey, undefined, 'contextmate-sharing', KEY_LENGTH);
 }
 
 export function deriveKeyForPath(
@@ -61,3 +84,23 @@ export function deriveKeyForPath(
   const folderKey = deriveFolderKey(vaultKey, folder);
   return deriveFileKey(folderKey, rest);
 }
+
+export function derivePathIdKey(vaultKey: Uint8Array): Uint8Array {
+  return hkdf(sha256, vaultKey, undefined, 'contextmate-path-ids', KEY_LENGTH);
+}
+
+/**
+ * Key for naming a file's chunks. Chunk IDs are keyed by the file, so equal
+ * chunks are only recognisable within one file, not across the vault.
+ */
+export function deriveChunkIdKey(fileKey: Uint8Array): Uint8Array {
+  return hkdf(sha256, fileKey, undefined, 'contextmate-chunk-ids', KEY_LENGTH);
+}
+
+/**
+ * Deterministic opaque identifier for a vault path, used in place of the
+ * plaintext path on the server when path encryption is enabled.
+ */
+export function encryptPathId(vaultKey: Uint8Array, filePath: string): string {
+  return bytesToHex(blake3(utf8ToBytes(filePath), { key: derivePathIdKey(vaultKey) }));
+}
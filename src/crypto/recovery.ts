@@ -0,0 +1,80 @@
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha256';
+import { randomBytes } from 'node:crypto';
+
+const KEY_LENGTH = 32;
+const RECOVERY_KEY_BYTES = 20;
+const GROUP_SIZE = 4;
+
+// Crockford base32: no I, L, O or U, so a printed key can't be misread
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * A random 160-bit recovery key, formatted for printing as eight groups of
+ * four base32 characters (e.g. "7K3M-…"). It is high-entropy, so it is
+ * stretched with HKDF rather than Argon2id.
+ */
+export function generateRecoveryKey(): string {
+  return formatRecoveryKey(new Uint8Array(randomBytes(RECOVERY_KEY_BYTES)));
+}
+
+export function formatRecoveryKey(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of bytes) {
+    value = ((value << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      out += ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += ALPHABET[(value << (5 - bits)) & 31];
+
+  const groups: string[] = [];
+  for (let i = 0; i < out.length; i += GROUP_SIZE) groups.push(out.slice(i, i + GROUP_SIZE));
+  return groups.join('-');
+}
+
+/** Parse a typed recovery key, tolerating case, spacing and look-alike characters. */
+export function parseRecoveryKey(text: string): Uint8Array {
+  const normalized = text
+    .toUpperCase()
+    .replace(/[\s-]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+
+  const expectedLength = Math.ceil((RECOVERY_KEY_BYTES * 8) / 5);
+  if (normalized.length !== expectedLength) {
+    throw new Error(`Recovery key must have ${expectedLength} characters, got ${normalized.length}.`);
+  }
+
+  const bytes = new Uint8Array(RECOVERY_KEY_BYTES);
+  let bits = 0;
+  let value = 0;
+  let index = 0;
+  for (const char of normalized) {
+    const digit = ALPHABET.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`Invalid character in recovery key: "${char}"`);
+    }
+    value = ((value << 5) | digit) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes[index++] = (value >>> (bits - 8)) & 0xff;
+      bits -= 8;
+    }
+  }
+  return bytes;
+}
+
+/** Key that wraps the vault key for recovery. */
+export function deriveRecoveryWrappingKey(recoveryKey: Uint8Array): Uint8Array {
+  return hkdf(sha256, recoveryKey, undefined, 'contextmate-recovery-wrap', KEY_LENGTH);
+}
+
+/** Key whose hash proves possession of the recovery key to the server. */
+export function deriveRecoveryAuthKey(recoveryKey: Uint8Array): Uint8Array {
+  return hkdf(sha256, recoveryKey, undefined, 'contextmate-recovery-auth', KEY_LENGTH);
+}
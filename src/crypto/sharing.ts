@@ -0,0 +1,37 @@
+import { randomBytes } from 'node:crypto';
+import { deriveFileKey, deriveSharingKey } from './keys.js';
+import { keyPairFromPrivateKey, sealToDevice, openSealed, type DeviceKeyPair } from './devices.js';
+
+const KEY_LENGTH = 32;
+
+/**
+ * The account's sharing key pair. Its public key is published so other users
+ * can wrap share keys for this account; every device with the vault key can
+ * derive the private key.
+ */
+export function deriveSharingKeyPair(vaultKey: Uint8Array): DeviceKeyPair {
+  return keyPairFromPrivateKey(deriveSharingKey(vaultKey));
+}
+
+/** A random key for one shared folder or team vault, independent of the owner's vault key. */
+export function generateShareKey(): Uint8Array {
+  return new Uint8Array(randomBytes(KEY_LENGTH));
+}
+
+/** Wrap a share or team key for an account's public sharing key. */
+export function wrapShareKey(shareKey: Uint8Array, recipientPublicKey: Uint8Array): Uint8Array {
+  return sealToDevice(shareKey, recipientPublicKey);
+}
+
+export function unwrapShareKey(wrapped: Uint8Array, sharingKeyPair: DeviceKeyPair): Uint8Array {
+  const key = openSealed(wrapped, sharingKeyPair);
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Invalid share key length: ${key.length}`);
+  }
+  return key;
+}
+
+/** File key for a path inside a shared folder, relative to the folder. */
+export function deriveKeyForSharedPath(shareKey: Uint8Array, relativePath: string): Uint8Array {
+  return deriveFileKey(shareKey, relativePath);
+}
@@ -0,0 +1,129 @@
+import { timingSafeEqual } from 'node:crypto';
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { join, dirname } from 'node:path';
+import {
+  hashApiKeySecret,
+  normalizePermission,
+  upgradeLegacyScope,
+  isApiKeyExpired,
+  SCOPE_SYNTAX_VERSION,
+} from '../../server/src/shared/api-keys.js';
+import type { ApiKeyInfo } from '../types.js';
+
+export {
+  generateApiKeySecret,
+  hashApiKeySecret,
+  isApiKeyExpired,
+  SCOPE_SYNTAX_VERSION,
+} from '../../server/src/shared/api-keys.js';
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+export function getApiKeysPath(dataPath: string): string {
+  return join(dataPath, 'api-keys.json');
+}
+
+export async function loadApiKeys(dataPath: string): Promise<ApiKeyInfo[]> {
+  let keys: ApiKeyInfo[];
+  try {
+    const raw = await readFile(getApiKeysPath(dataPath), 'utf-8');
+    keys = JSON.parse(raw) as ApiKeyInfo[];
+  } catch {
+    return [];
+  }
+
+  // Rewrite permissions stored under older names (unknown values fall back to
+  // read-only) and scopes written in the old prefix grammar
+  let migrated = false;
+  const normalized = keys.map((key) => {
+    const permissions = normalizePermission(key.permissions) ?? 'read';
+    const legacyScope = key.scopeSyntax !== SCOPE_SYNTAX_VERSION;
+    if (permissions === key.permissions && !legacyScope) return key;
+    migrated = true;
+    return {
+      ...key,
+      permissions,
+      scope: legacyScope ? upgradeLegacyScope(key.scope) : key.scope,
+      scopeSyntax: SCOPE_SYNTAX_VERSION,
+    };
+  });
+  if (migrated) await saveApiKeys(dataPath, normalized);
+  return normalized;
+}
+
+export async function saveApiKeys(dataPath: string, keys: ApiKeyInfo[]): Promise<void> {
+  const keysPath = getApiKeysPath(dataPath);
+  await mkdir(dirname(keysPath), { recursive: true });
+  await writeFile(keysPath, JSON.stringify(keys, null, 2), { encoding: 'utf-8', mode: 0o600 });
+}
+
+/**
+ * Parse a key expiry given either as a duration from now ("12h", "30d", "8w")
+ * or as a date ("2027-01-31"). Returns the expiry timestamp, or null if the
+ * value is not understood or not in the future.
+ */
+export function parseExpiry(value: string, now: number = Date.now()): number | null {
+  const duration = /^(\d+)\s*([hdw])$/i.exec(value.trim());
+  if (duration) {
+    const amount = Number(duration[1]);
+    const unit = DURATION_UNITS_MS[duration[2]!.toLowerCase()]!;
+    return amount > 0 ? now + amount * unit : null;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) || date <= now ? null : date;
+}
+
+/**
+ * Tracks API key usage for a long-running server. Counts accumulate in
+ * memory and are written to api-keys.json at most once per interval, so
+ * requests do not each rewrite the key file.
+ */
+export class ApiKeyUsage {
+  private readonly pending = new Map<string, { requests: number; lastUsed: number }>();
+  private lastFlush = 0;
+
+  constructor(
+    private readonly dataPath: string,
+    private readonly flushIntervalMs: number = 60_000,
+  ) {}
+
+  async record(keyId: string, now: number = Date.now()): Promise<void> {
+    const entry = this.pending.get(keyId) ?? { requests: 0, lastUsed: now };
+    entry.requests++;
+    entry.lastUsed = now;
+    this.pending.set(keyId, entry);
+    if (now - this.lastFlush >= this.flushIntervalMs) await this.flush(now);
+  }
+
+  async flush(now: number = Date.now()): Promise<void> {
+    this.lastFlush = now;
+    if (this.pending.size === 0) return;
+    // Take the counts first so requests recorded while writing are kept for the next flush
+    const recorded = new Map(this.pending);
+    this.pending.clear();
+
+    const keys = await loadApiKeys(this.dataPath);
+    for (const key of keys) {
+      const usage = recorded.get(key.id);
+      if (!usage) continue;
+      key.requestCount = (key.requestCount ?? 0) + usage.requests;
+      key.lastUsed = Math.max(key.lastUsed ?? 0, usage.lastUsed);
+    }
+    await saveApiKeys(this.dataPath, keys);
+  }
+}
+
+/** Find the key a presented secret belongs to. Keys created before secrets existed never match. */
+export function findKeyBySecret(keys: ApiKeyInfo[], secret: string): ApiKeyInfo | null {
+  const presented = Buffer.from(hashApiKeySecret(secret), 'hex');
+  for (const key of keys) {
+    if (!key.keyHash) continue;
+    const stored = Buffer.from(key.keyHash, 'hex');
+    if (stored.length === presented.length && timingSafeEqual(stored, presented)) return key;
+  }
+  return null;
+}
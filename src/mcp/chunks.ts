@@ -0,0 +1,106 @@
+export interface MarkdownChunk {
+  /** 1-based, inclusive */
+  startLine: number;
+  /** 1-based, inclusive */
+  endLine: number;
+  text: string;
+}
+
+// Every index chunks with the same limit so hybrid search can match chunks
+// across them. Small embedding models truncate at ~256 tokens (~1000 chars).
+export const MAX_CHUNK_CHARS = 1000;
+
+const HEADING = /^ {0,3}#{1,6}(\s|$)/;
+const FENCE = /^ {0,3}(```|~~~)/;
+
+/**
+ * Split markdown into chunks that start at headings. Sections longer than
+ * `maxChars` are split again at blank lines (or, failing that, at line
+ * boundaries). Headings inside fenced code blocks are ignored, and a heading
+ * with no body of its own stays with the section that follows it.
+ */
+export function chunkMarkdown(content: string, maxChars: number = MAX_CHUNK_CHARS): MarkdownChunk[] {
+  const lines = content.split('\n');
+  const chunks: MarkdownChunk[] = [];
+
+  let sectionStart = 0;
+  let sectionHasBody = false;
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    const fenceMatch = FENCE.exec(line);
+    if (fenceMatch) {
+      if (fence === null) fence = fenceMatch[1]!;
+      else if (fence === fenceMatch[1]) fence = null;
+    }
+
+    if (fence === null && !fenceMatch && HEADING.test(line)) {
+      if (sectionHasBody) {
+        splitSection(lines, sectionStart, i - 1, maxChars, chunks);
+        sectionStart = i;
+      }
+      sectionHasBody = false;
+    } else if (line.trim()) {
+      sectionHasBody = true;
+    }
+  }
+  splitSection(lines, sectionStart, lines.length - 1, maxChars, chunks);
+
+  return chunks;
+}
+
+function splitSection(
+  lines: string[],
+  start: number,
+  end: number,
+  maxChars: number,
+  out: MarkdownChunk[],
+): void {
+  let chunkStart = start;
+  let size = 0;
+  let lastBlank = -1;
+
+  for (let i = start; i <= end; i++) {
+    size += lines[i]!.length + 1;
+
+    if (size > maxChars && i > chunkStart) {
+      const cut = lastBlank > chunkStart ? lastBlank : i - 1;
+      pushChunk(lines, chunkStart, cut, out);
+      chunkStart = cut + 1;
+      lastBlank = -1;
+      size = 0;
+      for (let j = chunkStart; j <= i; j++) size += lines[j]!.length + 1;
+    }
+
+    if (!lines[i]!.trim()) lastBlank = i;
+  }
+  pushChunk(lines, chunkStart, end, out);
+}
+
+function pushChunk(lines: string[], start: number, end: number, out: MarkdownChunk[]): void {
+  // Trim blank lines so the range covers only content
+  while (start <= end && !lines[start]!.trim()) start++;
+  while (end >= start && !lines[end]!.trim()) end--;
+  if (start > end) return;
+
+  out.push({
+    startLine: start + 1,
+    endLine: end + 1,
+    text: lines.slice(start, end + 1).join('\n'),
+  });
+}
+
+/** Reference to a chunk, e.g. "openclaw/MEMORY.md#L120-L158". */
+export function chunkRef(path: string, startLine: number, endLine: number): string {
+  return `${path}#L${startLine}-L${endLine}`;
+}
+
+/** Split a "path#L120-L158" (or "path#L120") reference into path and range. */
+export function parseChunkRef(ref: string): { path: string; startLine?: number; endLine?: number } {
+  const match = /^(.*)#L(\d+)(?:-L?(\d+))?$/.exec(ref);
+  if (!match) return { path: ref };
+  const startLine = parseInt(match[2]!, 10);
+  const endLine = match[3] ? parseInt(match[3], 10) : startLine;
+  return { path: match[1]!, startLine, endLine };
+}
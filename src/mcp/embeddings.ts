@@ -1,12 +1,29 @@
 import Database from 'better-sqlite3';
-import { readdir, readFile } from 'node:fs/promises';
-import { join, relative } from 'node:path';
+import type { ContextMateConfig } from '../config.js';
+import { chunkMarkdown, chunkRef } from './chunks.js';
+import { hashContent, updateIndexFromVault } from './vault.js';
+import type { IndexedFileState, VaultIndex } from './vault.js';
+import { LocalModelProvider } from './providers.js';
+import type { EmbeddingProvider } from './providers.js';
 
 export interface VectorSearchResult {
   path: string;
+  startLine: number;
+  endLine: number;
   score: number; // cosine similarity, 0-1
 }
 
+/** The index behind semantic search, whichever way vectors are produced. */
+export interface SemanticIndex extends VaultIndex {
+  /** Index or re-index one file so it is searchable immediately. */
+  updateFile(path: string, content: string, mtimeMs?: number): Promise<void>;
+  search(query: string, limit?: number): VectorSearchResult[] | Promise<VectorSearchResult[]>;
+  /** Bring the index up to date with the vault, re-indexing only changed files. */
+  updateFromVault(vaultPath: string): Promise<void>;
+  rebuildIndex(vaultPath: string): Promise<void>;
+  close(): void;
+}
+
 const STOPWORDS = new Set([
   'the', 'a', 'an', 'is', 'are', 'was', 'were', 'be', 'been', 'have', 'has',
   'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may',
@@ -24,24 +41,42 @@ function tokenize(text: string): string[] {
     .filter((w) => w.length >= 2 && !STOPWORDS.has(w));
 }
 
-export class VectorIndex {
+export class VectorIndex implements SemanticIndex {
   private db: Database.Database;
 
   constructor(dbPath: string) {
     this.db = new Database(dbPath);
     this.db.pragma('journal_mode = WAL');
+
+    // Whole-file documents from before chunking; rebuild from scratch
+    const legacy = this.db
+      .prepare("SELECT name FROM sqlite_master WHERE name = 'documents'")
+      .get();
+    if (legacy) {
+      this.db.exec('DROP TABLE documents; DROP TABLE IF EXISTS vocabulary; DROP TABLE IF EXISTS stats;');
+    }
+
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS vocabulary (
         term TEXT PRIMARY KEY,
         idf REAL NOT NULL DEFAULT 0,
         doc_count INTEGER NOT NULL DEFAULT 0
       );
-      CREATE TABLE IF NOT EXISTS documents (
-        path TEXT PRIMARY KEY,
+      CREATE TABLE IF NOT EXISTS chunk_documents (
+        chunk_id TEXT PRIMARY KEY,
+        path TEXT NOT NULL,
+        start_line INTEGER NOT NULL,
+        end_line INTEGER NOT NULL,
         tf_vector TEXT NOT NULL,
         magnitude REAL NOT NULL DEFAULT 0,
         updated_at INTEGER NOT NULL
       );
+      CREATE INDEX IF NOT EXISTS idx_chunk_documents_path ON chunk_documents(path);
+      CREATE TABLE IF NOT EXISTS indexed_files (
+        path TEXT PRIMARY KEY,
+        mtime_ms REAL NOT NULL,
+        content_hash TEXT NOT NULL
+      );
       CREATE TABLE IF NOT EXISTS stats (
         key TEXT PRIMARY KEY,
         value TEXT NOT NULL
@@ -49,93 +84,89 @@ export class VectorIndex {
     `);
   }
 
-  indexFile(path: string, content: string): void {
-    const tokens = tokenize(content);
-    if (tokens.length === 0) {
-      this.removeFromIndex(path);
-      return;
-    }
-
-    const totalWords = tokens.length;
-    const termCounts = new Map<string, number>();
-    for (const token of tokens) {
-      termCounts.set(token, (termCounts.get(token) ?? 0) + 1);
-    }
-
-    // Build raw TF vector (count / total_words)
-    const tfVector: Record<string, number> = {};
-    for (const [term, count] of termCounts) {
-      tfVector[term] = count / totalWords;
-    }
-
+  /** Index each chunk of a file as its own document. Call recomputeIdf() afterwards. */
+  indexFile(path: string, content: string, mtimeMs: number = 0): void {
     const now = Date.now();
 
     const txn = this.db.transaction(() => {
-      // Check if document already exists — need to decrement old vocab counts
-      const existing = this.db.prepare('SELECT tf_vector FROM documents WHERE path = ?').get(path) as
-        | { tf_vector: string }
-        | undefined;
-
-      if (existing) {
-        const oldVector = JSON.parse(existing.tf_vector) as Record<string, number>;
-        for (const term of Object.keys(oldVector)) {
-          this.db.prepare(
-            'UPDATE vocabulary SET doc_count = MAX(doc_count - 1, 0) WHERE term = ?',
-          ).run(term);
-        }
-      }
+      // Drop the file's old chunks and their vocabulary counts
+      this.removeChunks(path);
 
-      // Update vocabulary with new term counts
       const upsertVocab = this.db.prepare(`
         INSERT INTO vocabulary (term, idf, doc_count) VALUES (?, 0, 1)
         ON CONFLICT(term) DO UPDATE SET doc_count = doc_count + 1
       `);
-      for (const term of termCounts.keys()) {
-        upsertVocab.run(term);
-      }
+      const insertDoc = this.db.prepare(`
+        INSERT OR REPLACE INTO chunk_documents
+          (chunk_id, path, start_line, end_line, tf_vector, magnitude, updated_at)
+        VALUES (?, ?, ?, ?, ?, 0, ?)
+      `);
 
-      // Store document (magnitude will be recomputed during recomputeIdf)
-      this.db.prepare(
-        'INSERT OR REPLACE INTO documents (path, tf_vector, magnitude, updated_at) VALUES (?, ?, 0, ?)',
-      ).run(path, JSON.stringify(tfVector), now);
+      for (const chunk of chunkMarkdown(content)) {
+        const tokens = tokenize(chunk.text);
+        if (tokens.length === 0) continue;
+
+        const totalWords = tokens.length;
+        const termCounts = new Map<string, number>();
+        for (const token of tokens) {
+          termCounts.set(token, (termCounts.get(token) ?? 0) + 1);
+        }
+
+        // Build raw TF vector (count / total_words)
+        const tfVector: Record<string, number> = {};
+        for (const [term, count] of termCounts) {
+          tfVector[term] = count / totalWords;
+        }
+
+        for (const term of termCounts.keys()) {
+          upsertVocab.run(term);
+        }
+
+        // Magnitude is computed during recomputeIdf
+        insertDoc.run(
+          chunkRef(path, chunk.startLine, chunk.endLine),
+          path,
+          chunk.startLine,
+          chunk.endLine,
+          JSON.stringify(tfVector),
+          now,
+        );
+      }
 
-      // Update total docs count
-      const docCount = this.db.prepare('SELECT COUNT(*) as cnt FROM documents').get() as {
-        cnt: number;
-      };
+      this.db.prepare('DELETE FROM vocabulary WHERE doc_count <= 0').run();
       this.db.prepare(
-        "INSERT OR REPLACE INTO stats (key, value) VALUES ('total_docs', ?)",
-      ).run(String(docCount.cnt));
+        'INSERT OR REPLACE INTO indexed_files (path, mtime_ms, content_hash) VALUES (?, ?, ?)',
+      ).run(path, mtimeMs, hashContent(content));
+      this.updateDocCount();
     });
     txn();
   }
 
+  async updateFile(path: string, content: string, mtimeMs?: number): Promise<void> {
+    this.indexFile(path, content, mtimeMs);
+    this.recomputeIdf();
+  }
+
+  touchFile(path: string, mtimeMs: number): void {
+    this.db.prepare('UPDATE indexed_files SET mtime_ms = ? WHERE path = ?').run(mtimeMs, path);
+  }
+
+  getFileStates(): Map<string, IndexedFileState> {
+    const rows = this.db.prepare('SELECT path, mtime_ms, content_hash FROM indexed_files').all() as Array<{
+      path: string;
+      mtime_ms: number;
+      content_hash: string;
+    }>;
+    return new Map(rows.map((r) => [r.path, { mtimeMs: r.mtime_ms, contentHash: r.content_hash }]));
+  }
+
   removeFromIndex(path: string): void {
     const txn = this.db.transaction(() => {
-      const existing = this.db.prepare('SELECT tf_vector FROM documents WHERE path = ?').get(path) as
-        | { tf_vector: string }
-        | undefined;
-
-      if (existing) {
-        const oldVector = JSON.parse(existing.tf_vector) as Record<string, number>;
-        for (const term of Object.keys(oldVector)) {
-          this.db.prepare(
-            'UPDATE vocabulary SET doc_count = MAX(doc_count - 1, 0) WHERE term = ?',
-          ).run(term);
-        }
-        this.db.prepare('DELETE FROM documents WHERE path = ?').run(path);
-
-        // Clean up zero-count vocabulary entries
-        this.db.prepare('DELETE FROM vocabulary WHERE doc_count <= 0').run();
-
-        // Update total docs count
-        const docCount = this.db.prepare('SELECT COUNT(*) as cnt FROM documents').get() as {
-          cnt: number;
-        };
-        this.db.prepare(
-          "INSERT OR REPLACE INTO stats (key, value) VALUES ('total_docs', ?)",
-        ).run(String(docCount.cnt));
-      }
+      this.removeChunks(path);
+      this.db.prepare('DELETE FROM indexed_files WHERE path = ?').run(path);
+      // Clean up zero-count vocabulary entries
+      this.db.prepare('DELETE FROM vocabulary WHERE doc_count <= 0').run();
+      this.updateDocCount();
     });
     txn();
   }
@@ -164,32 +195,27 @@ export class VectorIndex {
         idfMap.set(row.term, row.idf);
       }
 
-      // Recompute TF-IDF vectors and magnitudes for all documents
-      const docs = this.db.prepare('SELECT path, tf_vector FROM documents').all() as Array<{
-        path: string;
+      // Recompute TF-IDF magnitudes for all chunks. Stored vectors stay raw TF,
+      // so IDF is applied at search time and re-running this is idempotent.
+      const docs = this.db.prepare('SELECT chunk_id, tf_vector FROM chunk_documents').all() as Array<{
+        chunk_id: string;
         tf_vector: string;
       }>;
 
       const updateDoc = this.db.prepare(
-        'UPDATE documents SET tf_vector = ?, magnitude = ? WHERE path = ?',
+        'UPDATE chunk_documents SET magnitude = ? WHERE chunk_id = ?',
       );
 
       for (const doc of docs) {
         const rawTf = JSON.parse(doc.tf_vector) as Record<string, number>;
-        const tfidfVector: Record<string, number> = {};
         let magnitudeSq = 0;
 
         for (const [term, tf] of Object.entries(rawTf)) {
-          const idf = idfMap.get(term) ?? 0;
-          const tfidf = tf * idf;
-          if (tfidf > 0) {
-            tfidfVector[term] = tfidf;
-            magnitudeSq += tfidf * tfidf;
-          }
+          const tfidf = tf * (idfMap.get(term) ?? 0);
+          magnitudeSq += tfidf * tfidf;
         }
 
-        const magnitude = Math.sqrt(magnitudeSq);
-        updateDoc.run(JSON.stringify(tfidfVector), magnitude, doc.path);
+        updateDoc.run(Math.sqrt(magnitudeSq), doc.chunk_id);
       }
     });
     txn();
@@ -235,11 +261,13 @@ export class VectorIndex {
     const queryMag = Math.sqrt(queryMagSq);
     if (queryMag === 0) return [];
 
-    // Load all documents and compute cosine similarity
+    // Load all chunks and compute cosine similarity
     const docs = this.db
-      .prepare('SELECT path, tf_vector, magnitude FROM documents')
+      .prepare('SELECT path, start_line, end_line, tf_vector, magnitude FROM chunk_documents')
       .all() as Array<{
       path: string;
+      start_line: number;
+      end_line: number;
       tf_vector: string;
       magnitude: number;
     }>;
@@ -254,15 +282,15 @@ export class VectorIndex {
       // Compute dot product (only iterate over query terms since they're sparse)
       let dot = 0;
       for (const [term, qVal] of Object.entries(queryVector)) {
-        const dVal = docVector[term];
-        if (dVal !== undefined) {
-          dot += qVal * dVal;
+        const tf = docVector[term];
+        if (tf !== undefined) {
+          dot += qVal * tf * (idfMap.get(term) ?? 0);
         }
       }
 
       if (dot > 0) {
         const similarity = dot / (queryMag * doc.magnitude);
-        results.push({ path: doc.path, score: similarity });
+        results.push({ path: doc.path, startLine: doc.start_line, endLine: doc.end_line, score: similarity });
       }
     }
 
@@ -271,43 +299,216 @@ export class VectorIndex {
     return results.slice(0, limit);
   }
 
+  async updateFromVault(vaultPath: string): Promise<void> {
+    await updateIndexFromVault(vaultPath, this);
+    this.recomputeIdf();
+  }
+
   async rebuildIndex(vaultPath: string): Promise<void> {
-    this.db.exec('DELETE FROM documents');
+    this.db.exec('DELETE FROM chunk_documents');
+    this.db.exec('DELETE FROM indexed_files');
     this.db.exec('DELETE FROM vocabulary');
     this.db.exec('DELETE FROM stats');
+    await this.updateFromVault(vaultPath);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private removeChunks(path: string): void {
+    const existing = this.db.prepare('SELECT tf_vector FROM chunk_documents WHERE path = ?').all(path) as Array<{
+      tf_vector: string;
+    }>;
 
-    const mdFiles = await this.collectMdFiles(vaultPath, vaultPath);
-    for (const filePath of mdFiles) {
-      const content = await readFile(join(vaultPath, filePath), 'utf-8');
-      this.indexFile(filePath, content);
+    const decrement = this.db.prepare(
+      'UPDATE vocabulary SET doc_count = MAX(doc_count - 1, 0) WHERE term = ?',
+    );
+    for (const row of existing) {
+      const oldVector = JSON.parse(row.tf_vector) as Record<string, number>;
+      for (const term of Object.keys(oldVector)) {
+        decrement.run(term);
+      }
     }
+    this.db.prepare('DELETE FROM chunk_documents WHERE path = ?').run(path);
+  }
 
-    this.recomputeIdf();
+  private updateDocCount(): void {
+    const docCount = this.db.prepare('SELECT COUNT(*) as cnt FROM chunk_documents').get() as {
+      cnt: number;
+    };
+    this.db.prepare(
+      "INSERT OR REPLACE INTO stats (key, value) VALUES ('total_docs', ?)",
+    ).run(String(docCount.cnt));
   }
+}
 
-  close(): void {
-    this.db.close();
+const EMBED_BATCH_SIZE = 16;
+
+function toBlob(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+function fromBlob(blob: Buffer): Float32Array {
+  // Copy so the Float32Array view is 4-byte aligned
+  return new Float32Array(new Uint8Array(blob).buffer);
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  const n = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let i = 0; i < n; i++) sum += a[i]! * b[i]!;
+  return sum;
+}
+
+/**
+ * Semantic index storing one dense vector per chunk, produced by an
+ * {@link EmbeddingProvider}. Unchanged files are not re-embedded on rebuild.
+ */
+export class DenseVectorIndex implements SemanticIndex {
+  private db: Database.Database;
+  private provider: EmbeddingProvider;
+
+  constructor(dbPath: string, provider: EmbeddingProvider) {
+    this.provider = provider;
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS embedded_files (
+        path TEXT PRIMARY KEY,
+        content_hash TEXT NOT NULL,
+        model TEXT NOT NULL,
+        mtime_ms REAL NOT NULL DEFAULT 0,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS chunk_vectors (
+        chunk_id TEXT PRIMARY KEY,
+        path TEXT NOT NULL,
+        start_line INTEGER NOT NULL,
+        end_line INTEGER NOT NULL,
+        vector BLOB NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_chunk_vectors_path ON chunk_vectors(path);
+    `);
   }
 
-  private async collectMdFiles(dir: string, basePath: string): Promise<string[]> {
-    const results: string[] = [];
-    let entries;
-    try {
-      entries = await readdir(dir, { withFileTypes: true });
-    } catch {
-      return results;
+  async indexFile(path: string, content: string, mtimeMs: number = 0): Promise<void> {
+    const contentHash = hashContent(content);
+    const existing = this.db
+      .prepare('SELECT content_hash, model FROM embedded_files WHERE path = ?')
+      .get(path) as { content_hash: string; model: string } | undefined;
+    if (existing?.content_hash === contentHash && existing.model === this.provider.id) {
+      this.touchFile(path, mtimeMs);
+      return;
+    }
+
+    const chunks = chunkMarkdown(content);
+    if (chunks.length === 0) {
+      this.removeFromIndex(path);
+      return;
+    }
+
+    const vectors: Float32Array[] = [];
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBED_BATCH_SIZE).map((chunk) => chunk.text);
+      vectors.push(...(await this.provider.embed(batch)));
     }
 
-    for (const entry of entries) {
-      const fullPath = join(dir, entry.name);
-      if (entry.isDirectory()) {
-        if (entry.name.startsWith('.')) continue;
-        const sub = await this.collectMdFiles(fullPath, basePath);
-        results.push(...sub);
-      } else if (entry.isFile() && entry.name.endsWith('.md')) {
-        results.push(relative(basePath, fullPath));
+    const txn = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM chunk_vectors WHERE path = ?').run(path);
+      const insert = this.db.prepare(
+        'INSERT INTO chunk_vectors (chunk_id, path, start_line, end_line, vector) VALUES (?, ?, ?, ?, ?)',
+      );
+      chunks.forEach((chunk, i) => {
+        insert.run(chunkRef(path, chunk.startLine, chunk.endLine), path, chunk.startLine, chunk.endLine, toBlob(vectors[i]!));
+      });
+      this.db.prepare(
+        'INSERT OR REPLACE INTO embedded_files (path, content_hash, model, mtime_ms, updated_at) VALUES (?, ?, ?, ?, ?)',
+      ).run(path, contentHash, this.provider.id, mtimeMs, Date.now());
+    });
+    txn();
+  }
+
+  async updateFile(path: string, content: string, mtimeMs?: number): Promise<void> {
+    await this.indexFile(path, content, mtimeMs);
+  }
+
+  touchFile(path: string, mtimeMs: number): void {
+    this.db.prepare('UPDATE embedded_files SET mtime_ms = ? WHERE path = ?').run(mtimeMs, path);
+  }
+
+  getFileStates(): Map<string, IndexedFileState> {
+    const rows = this.db.prepare('SELECT path, content_hash, model, mtime_ms FROM embedded_files').all() as Array<{
+      path: string;
+      content_hash: string;
+      model: string;
+      mtime_ms: number;
+    }>;
+    // Files embedded by another model always count as stale
+    return new Map(
+      rows.map((r) => [
+        r.path,
+        r.model === this.provider.id
+          ? { mtimeMs: r.mtime_ms, contentHash: r.content_hash }
+          : { mtimeMs: -1, contentHash: '' },
+      ]),
+    );
+  }
+
+  removeFromIndex(path: string): void {
+    const txn = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM chunk_vectors WHERE path = ?').run(path);
+      this.db.prepare('DELETE FROM embedded_files WHERE path = ?').run(path);
+    });
+    txn();
+  }
+
+  async search(query: string, limit: number = 10): Promise<VectorSearchResult[]> {
+    if (!query.trim()) return [];
+    const [queryVector] = await this.provider.embed([query]);
+    if (!queryVector) return [];
+
+    const rows = this.db.prepare('SELECT path, start_line, end_line, vector FROM chunk_vectors').all() as Array<{
+      path: string;
+      start_line: number;
+      end_line: number;
+      vector: Buffer;
+    }>;
+
+    // Vectors are unit length, so the dot product is the cosine similarity
+    const results: VectorSearchResult[] = [];
+    for (const row of rows) {
+      const score = dot(queryVector, fromBlob(row.vector));
+      if (score > 0) {
+        results.push({ path: row.path, startLine: row.start_line, endLine: row.end_line, score });
       }
     }
-    return results;
+
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, limit);
+  }
+
+  async updateFromVault(vaultPath: string): Promise<void> {
+    await updateIndexFromVault(vaultPath, this);
+  }
+
+  async rebuildIndex(vaultPath: string): Promise<void> {
+    this.db.exec('DELETE FROM chunk_vectors');
+    this.db.exec('DELETE FROM embedded_files');
+    await this.updateFromVault(vaultPath);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+export type EmbeddingsConfig = ContextMateConfig['mcp']['embeddings'];
+
+/** Open the semantic index selected by `[mcp.embeddings]`, defaulting to TF-IDF. */
+export function createSemanticIndex(dbPath: string, config?: EmbeddingsConfig): SemanticIndex {
+  if (config?.provider === 'local') {
+    return new DenseVectorIndex(dbPath, new LocalModelProvider(config.modelPath));
   }
+  return new VectorIndex(dbPath);
 }
@@ -0,0 +1,185 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer } from './server.js';
+import { VaultIndexer } from './indexer.js';
+import type { EmbeddingsConfig } from './embeddings.js';
+import type { ApiKeyInfo } from '../types.js';
+
+export interface McpHttpServerOptions {
+  vaultPath: string;
+  searchDbPath: string;
+  host: string;
+  port: number;
+  embeddings?: EmbeddingsConfig;
+  /** Resolve a presented secret to its API key, or null if unknown or revoked. */
+  authenticate: (secret: string) => Promise<ApiKeyInfo | null>;
+  /** Close sessions that see no request for this long; 30 minutes by default. */
+  sessionIdleMs?: number;
+}
+
+export const MCP_HTTP_PATH = '/mcp';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  /** The key as it was when the session opened; its MCP server is bound to this scope and permission. */
+  key: ApiKeyInfo;
+  lastUsed: number;
+}
+
+/** Whether a key still grants what a session opened with it was bound to. */
+function sameGrant(opened: ApiKeyInfo, current: ApiKeyInfo): boolean {
+  return opened.id === current.id
+    && opened.scope === current.scope
+    && opened.scopeSyntax === current.scopeSyntax
+    && opened.permissions === current.permissions;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function presentedSecret(req: IncomingMessage): string | null {
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith('Bearer ')) return authHeader.slice(7).trim();
+  const apiKeyHeader = req.headers['x-api-key'];
+  return typeof apiKeyHeader === 'string' ? apiKeyHeader.trim() : null;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new Error('Request body too large');
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+/**
+ * Serve the MCP tools over the Streamable HTTP transport. Every request must
+ * carry an API key secret (Authorization: Bearer or X-API-Key); each session
+ * gets its own MCP server bound to that key's scope and permission, and is
+ * tied to the key that opened it. A session ends when that key's scope or
+ * permission changes, or when it sits idle, and the client starts a new one.
+ * All sessions share one set of indexes.
+ */
+export async function startMcpHttpServer(options: McpHttpServerOptions): Promise<{ close(): Promise<void> }> {
+  const indexer = new VaultIndexer(options.vaultPath, options.searchDbPath, options.embeddings);
+  indexer.start();
+
+  const sessions = new Map<string, Session>();
+  const idleMs = options.sessionIdleMs ?? SESSION_IDLE_MS;
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - idleMs;
+    for (const session of sessions.values()) {
+      if (session.lastUsed < cutoff) void session.transport.close();
+    }
+  }, Math.min(idleMs, 60_000));
+  sweep.unref();
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== MCP_HTTP_PATH) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    const secret = presentedSecret(req);
+    const key = secret ? await options.authenticate(secret) : null;
+    if (!key) {
+      sendJson(res, 401, { error: 'A valid API key is required' }, { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJson(res, 404, { error: 'Unknown session' });
+        return;
+      }
+      if (session.key.id !== key.id) {
+        sendJson(res, 403, { error: 'Session belongs to a different API key' });
+        return;
+      }
+      if (!sameGrant(session.key, key)) {
+        // 404 tells the client to start a new session, bound to what the key allows now
+        await session.transport.close();
+        sendJson(res, 404, { error: 'Session ended because its API key changed' });
+        return;
+      }
+      session.lastUsed = Date.now();
+      const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJson(res, 400, { error: 'Mcp-Session-Id header is required' });
+      return;
+    }
+    const body = await readJsonBody(req);
+    if (!isInitializeRequest(body)) {
+      sendJson(res, 400, { error: 'First request of a session must be initialize' });
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, key, lastUsed: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+
+    const server = createMcpServer({
+      vaultPath: options.vaultPath,
+      searchDbPath: options.searchDbPath,
+      scope: key.scope,
+      permission: key.permissions,
+      indexer,
+    });
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  const httpServer = createServer((req, res) => {
+    handle(req, res).catch((err) => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      sendJson(res, err instanceof SyntaxError ? 400 : 500, { error: message });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return {
+    async close() {
+      clearInterval(sweep);
+      for (const session of sessions.values()) {
+        await session.transport.close();
+      }
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      await indexer.stop();
+    },
+  };
+}
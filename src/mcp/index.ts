@@ -1,9 +1,20 @@
 export { SearchIndex } from './search.js';
 export type { SearchResult } from './search.js';
-export { VectorIndex } from './embeddings.js';
-export type { VectorSearchResult } from './embeddings.js';
+export { VectorIndex, DenseVectorIndex, createSemanticIndex } from './embeddings.js';
+export type { VectorSearchResult, SemanticIndex, EmbeddingsConfig } from './embeddings.js';
+export { LocalModelProvider } from './providers.js';
+export type { EmbeddingProvider } from './providers.js';
+export { chunkMarkdown, chunkRef, parseChunkRef, MAX_CHUNK_CHARS } from './chunks.js';
+export type { MarkdownChunk } from './chunks.js';
 export { hybridSearch } from './rerank.js';
 export type { MergedResult } from './rerank.js';
+export { VaultIndexer } from './indexer.js';
+export { updateIndexFromVault } from './vault.js';
+export type { VaultIndex, IndexedFileState } from './vault.js';
 export { createMcpServer, startMcpServer } from './server.js';
+export { startMcpHttpServer, MCP_HTTP_PATH } from './http.js';
+export type { McpHttpServerOptions } from './http.js';
+export { loadApiKeys, saveApiKeys, generateApiKeySecret, hashApiKeySecret, findKeyBySecret } from './api-keys.js';
+export { parseExpiry, isApiKeyExpired, ApiKeyUsage, SCOPE_SYNTAX_VERSION } from './api-keys.js';
 export type { McpServerOptions } from './server.js';
-export { matchesScope, hasPermission, requiredPermission, extractFilePath } from './scope.js';
+export { matchesScope, hasPermission, isValidScope, requiredPermission, extractFilePath } from './scope.js';
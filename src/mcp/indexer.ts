@@ -0,0 +1,94 @@
+import { readFile, stat } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { FileWatcher } from '../sync/watcher.js';
+import { SearchIndex } from './search.js';
+import { createSemanticIndex } from './embeddings.js';
+import type { EmbeddingsConfig, SemanticIndex } from './embeddings.js';
+
+function log(message: string): void {
+  process.stderr.write(`[contextmate] ${message}\n`);
+}
+
+/**
+ * Keeps the keyword and semantic indexes in step with the vault. On start it
+ * re-indexes only files changed since the last run, then watches the vault
+ * so files written by the sync daemon or edited by other tools show up in
+ * search without a restart. Index updates run one at a time.
+ */
+export class VaultIndexer {
+  readonly search: SearchIndex;
+  readonly semantic: SemanticIndex;
+  private readonly vaultPath: string;
+  private watcher: FileWatcher | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(vaultPath: string, searchDbPath: string, embeddings?: EmbeddingsConfig) {
+    this.vaultPath = resolve(vaultPath);
+    this.search = new SearchIndex(searchDbPath);
+
+    // Vector DB is a sibling file of the search DB
+    const vectorDbPath = searchDbPath.replace(/\.db$/, '-vectors.db');
+    this.semantic = createSemanticIndex(
+      vectorDbPath !== searchDbPath ? vectorDbPath : searchDbPath + '-vectors.db',
+      embeddings,
+    );
+  }
+
+  start(debounceMs: number = 500): void {
+    this.enqueue('update search index', async () => {
+      await this.search.updateFromVault(this.vaultPath);
+      await this.semantic.updateFromVault(this.vaultPath);
+    });
+
+    this.watcher = new FileWatcher(this.vaultPath, debounceMs);
+    const onChange = ({ path }: { path: string }) => {
+      if (path.endsWith('.md')) this.enqueue(`index ${path}`, () => this.reindex(path));
+    };
+    this.watcher.on('file-added', onChange);
+    this.watcher.on('file-changed', onChange);
+    this.watcher.on('file-removed', ({ path }: { path: string }) => {
+      if (!path.endsWith('.md')) return;
+      this.enqueue(`remove ${path}`, async () => {
+        this.search.removeFromIndex(path);
+        this.semantic.removeFromIndex(path);
+      });
+    });
+    this.watcher.start();
+  }
+
+  /** Re-index one vault file now, e.g. right after writing it. */
+  indexFile(relPath: string): Promise<void> {
+    return this.enqueue(`index ${relPath}`, () => this.reindex(relPath));
+  }
+
+  async stop(): Promise<void> {
+    await this.watcher?.stop();
+    this.watcher = null;
+    await this.queue;
+    this.search.close();
+    this.semantic.close();
+  }
+
+  private async reindex(relPath: string): Promise<void> {
+    const fullPath = join(this.vaultPath, relPath);
+    let content: string;
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await stat(fullPath)).mtimeMs;
+      content = await readFile(fullPath, 'utf-8');
+    } catch {
+      // Removed before we got to it; the watcher reports the removal
+      return;
+    }
+    this.search.indexFile(relPath, content, mtimeMs);
+    await this.semantic.updateFile(relPath, content, mtimeMs);
+  }
+
+  private enqueue(label: string, task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task).catch((err) => {
+      log(`Failed to ${label}: ${err instanceof Error ? err.message : String(err)}`);
+    });
+    this.queue = run;
+    return run;
+  }
+}
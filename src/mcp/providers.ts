@@ -0,0 +1,94 @@
+import { access } from 'node:fs/promises';
+import { basename, dirname, resolve } from 'node:path';
+
+/** Turns text into dense vectors for semantic search. */
+export interface EmbeddingProvider {
+  /** Identifies the model; stored with each vector so a model change re-embeds the vault. */
+  readonly id: string;
+  /** Returns one unit-length vector per input text. */
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+// The subset of @huggingface/transformers used here. The package is an
+// optional peer dependency, so it is typed locally instead of imported.
+interface Tensor {
+  data: Float32Array;
+  dims: number[];
+}
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: 'mean'; normalize: boolean },
+) => Promise<Tensor>;
+
+interface TransformersModule {
+  env: {
+    localModelPath: string;
+    allowLocalModels: boolean;
+    allowRemoteModels: boolean;
+  };
+  pipeline(
+    task: 'feature-extraction',
+    model: string,
+    options: { device: 'cpu' },
+  ): Promise<FeatureExtractor>;
+}
+
+const TRANSFORMERS_PACKAGE = '@huggingface/transformers';
+
+/**
+ * Sentence-embedding model run on the CPU with ONNX Runtime via
+ * transformers.js. `modelPath` is a directory in the Hugging Face layout
+ * (config.json, tokenizer.json, onnx/model.onnx), e.g. a local copy of
+ * sentence-transformers/all-MiniLM-L6-v2. Nothing is downloaded.
+ */
+export class LocalModelProvider implements EmbeddingProvider {
+  readonly id: string;
+  private readonly modelPath: string;
+  private extractor: Promise<FeatureExtractor> | null = null;
+
+  constructor(modelPath: string) {
+    this.modelPath = resolve(modelPath);
+    this.id = `local:${basename(this.modelPath)}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) return [];
+    this.extractor ??= this.load();
+    const extractor = await this.extractor;
+
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    const dimensions = output.dims[output.dims.length - 1] ?? 0;
+    const vectors: Float32Array[] = [];
+    for (let i = 0; i < texts.length; i++) {
+      vectors.push(output.data.slice(i * dimensions, (i + 1) * dimensions));
+    }
+    return vectors;
+  }
+
+  private async load(): Promise<FeatureExtractor> {
+    try {
+      await access(this.modelPath);
+    } catch {
+      throw new Error(`Embedding model not found at ${this.modelPath}`);
+    }
+
+    let transformers: TransformersModule;
+    try {
+      // Variable specifier keeps the optional package out of type-checking and bundling
+      const specifier = TRANSFORMERS_PACKAGE;
+      transformers = (await import(specifier)) as TransformersModule;
+    } catch {
+      throw new Error(
+        `Local embeddings need the ${TRANSFORMERS_PACKAGE} package. ` +
+          `Install it next to contextmate (npm install -g ${TRANSFORMERS_PACKAGE}) ` +
+          'or set [mcp.embeddings] provider = "tfidf".',
+      );
+    }
+
+    transformers.env.localModelPath = dirname(this.modelPath) + '/';
+    transformers.env.allowLocalModels = true;
+    transformers.env.allowRemoteModels = false;
+    return transformers.pipeline('feature-extraction', basename(this.modelPath), { device: 'cpu' });
+  }
+}
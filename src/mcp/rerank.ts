@@ -1,8 +1,11 @@
 import type { SearchResult } from './search.js';
 import type { VectorSearchResult } from './embeddings.js';
+import { chunkRef } from './chunks.js';
 
 export interface MergedResult {
   path: string;
+  startLine: number;
+  endLine: number;
   score: number;
   snippet?: string;
   sources: ('bm25' | 'vector')[];
@@ -17,20 +20,24 @@ export function hybridSearch(
   const vectorWeight = opts?.vectorWeight ?? 1.0;
   const k = opts?.k ?? 60;
 
+  // Keyed by chunk, since every index chunks files the same way
   const merged = new Map<string, MergedResult>();
 
   // Process BM25 results
   for (let rank = 0; rank < bm25Results.length; rank++) {
     const r = bm25Results[rank]!;
     const rrfScore = bm25Weight * (1 / (k + rank + 1));
-    const existing = merged.get(r.path);
+    const key = chunkRef(r.path, r.startLine, r.endLine);
+    const existing = merged.get(key);
     if (existing) {
       existing.score += rrfScore;
       existing.snippet = existing.snippet ?? r.snippet;
       existing.sources.push('bm25');
     } else {
-      merged.set(r.path, {
+      merged.set(key, {
         path: r.path,
+        startLine: r.startLine,
+        endLine: r.endLine,
         score: rrfScore,
         snippet: r.snippet,
         sources: ['bm25'],
@@ -42,13 +49,16 @@ export function hybridSearch(
   for (let rank = 0; rank < vectorResults.length; rank++) {
     const r = vectorResults[rank]!;
     const rrfScore = vectorWeight * (1 / (k + rank + 1));
-    const existing = merged.get(r.path);
+    const key = chunkRef(r.path, r.startLine, r.endLine);
+    const existing = merged.get(key);
     if (existing) {
       existing.score += rrfScore;
       existing.sources.push('vector');
     } else {
-      merged.set(r.path, {
+      merged.set(key, {
         path: r.path,
+        startLine: r.startLine,
+        endLine: r.endLine,
         score: rrfScore,
         sources: ['vector'],
       });
@@ -1,61 +1,7 @@
 import type { ApiPermission } from '../types.js';
 
-/**
- * Check if a file path matches a scope pattern.
- * Scopes use glob-like patterns:
- * - "*" matches everything
- * - "skills/*" matches paths starting with "skills/" or containing "/skills/"
- * - "memories/*" matches paths containing "memory/" or ending with "MEMORY.md"
- * - Multiple scopes comma-separated: "skills/*,memories/*"
- */
-export function matchesScope(filePath: string, scope: string): boolean {
-  if (!scope || scope.trim() === '') return false;
-
-  const patterns = scope.split(',').map((s) => s.trim()).filter(Boolean);
-
-  for (const pattern of patterns) {
-    if (pattern === '*') return true;
-
-    // Strip trailing "/*" or "/" to get the prefix
-    const prefix = pattern.replace(/\/\*$/, '').replace(/\/$/, '');
-
-    if (prefix === 'memories') {
-      // Special case: "memories/*" matches memory-related paths
-      if (
-        filePath.includes('memory/') ||
-        filePath.includes('memory\\') ||
-        filePath.endsWith('MEMORY.md')
-      ) {
-        return true;
-      }
-    }
-
-    // Direct prefix match: "skills/*" matches "skills/my-skill/SKILL.md"
-    if (filePath.startsWith(prefix + '/') || filePath === prefix) {
-      return true;
-    }
-
-    // Also match nested paths: "openclaw/skills/..." matches "skills/*"
-    if (filePath.includes('/' + prefix + '/')) {
-      return true;
-    }
-  }
-
-  return false;
-}
-
-/**
- * Check if a permission level satisfies a required permission.
- * "read-write" satisfies both "read" and "read-write" requirements.
- * "read" only satisfies "read" requirements.
- */
-export function hasPermission(
-  granted: ApiPermission,
-  required: ApiPermission,
-): boolean {
-  if (required === 'read') return true; // both 'read' and 'read-write' satisfy 'read'
-  return granted === 'read-write';
-}
+// Scope and permission checks are shared with the sync server
+export { matchesScope, hasPermission, isValidScope } from '../../server/src/shared/api-keys.js';
 
 /**
  * Determine the required permission for a tool name.
@@ -1,48 +1,84 @@
 import Database from 'better-sqlite3';
-import { readdir, readFile } from 'node:fs/promises';
-import { join, relative } from 'node:path';
+import { chunkMarkdown, chunkRef } from './chunks.js';
+import { hashContent, updateIndexFromVault } from './vault.js';
+import type { IndexedFileState, VaultIndex } from './vault.js';
 
 export interface SearchResult {
   path: string;
+  startLine: number;
+  endLine: number;
   snippet: string;
   score: number;
 }
 
-export class SearchIndex {
+export class SearchIndex implements VaultIndex {
   private db: Database.Database;
 
   constructor(dbPath: string) {
     this.db = new Database(dbPath);
     this.db.pragma('journal_mode = WAL');
+
+    // Whole-file index from before chunking; its rows can't be reused
+    const legacy = this.db
+      .prepare("SELECT name FROM sqlite_master WHERE name = 'memory_fts'")
+      .get();
+    if (legacy) {
+      this.db.exec('DROP TABLE memory_fts; DROP TABLE IF EXISTS memory_files;');
+    }
+
     this.db.exec(`
-      CREATE VIRTUAL TABLE IF NOT EXISTS memory_fts USING fts5(
+      CREATE VIRTUAL TABLE IF NOT EXISTS memory_chunks USING fts5(
         path,
         content,
+        chunk_id UNINDEXED,
+        start_line UNINDEXED,
+        end_line UNINDEXED,
         tokenize='porter unicode61'
       );
       CREATE TABLE IF NOT EXISTS memory_files (
         path TEXT PRIMARY KEY,
         content TEXT NOT NULL,
-        last_indexed INTEGER NOT NULL
+        last_indexed INTEGER NOT NULL,
+        mtime_ms REAL NOT NULL DEFAULT 0,
+        content_hash TEXT NOT NULL DEFAULT ''
       );
     `);
   }
 
-  indexFile(path: string, content: string): void {
+  indexFile(path: string, content: string, mtimeMs: number = 0): void {
     const now = Date.now();
+    const chunks = chunkMarkdown(content);
     const txn = this.db.transaction(() => {
-      this.db.prepare('DELETE FROM memory_fts WHERE path = ?').run(path);
-      this.db.prepare('INSERT INTO memory_fts (path, content) VALUES (?, ?)').run(path, content);
+      this.db.prepare('DELETE FROM memory_chunks WHERE path = ?').run(path);
+      const insert = this.db.prepare(
+        'INSERT INTO memory_chunks (path, content, chunk_id, start_line, end_line) VALUES (?, ?, ?, ?, ?)',
+      );
+      for (const chunk of chunks) {
+        insert.run(path, chunk.text, chunkRef(path, chunk.startLine, chunk.endLine), chunk.startLine, chunk.endLine);
+      }
       this.db.prepare(
-        'INSERT OR REPLACE INTO memory_files (path, content, last_indexed) VALUES (?, ?, ?)',
-      ).run(path, content, now);
+        'INSERT OR REPLACE INTO memory_files (path, content, last_indexed, mtime_ms, content_hash) VALUES (?, ?, ?, ?, ?)',
+      ).run(path, content, now, mtimeMs, hashContent(content));
     });
     txn();
   }
 
+  touchFile(path: string, mtimeMs: number): void {
+    this.db.prepare('UPDATE memory_files SET mtime_ms = ? WHERE path = ?').run(mtimeMs, path);
+  }
+
+  getFileStates(): Map<string, IndexedFileState> {
+    const rows = this.db.prepare('SELECT path, mtime_ms, content_hash FROM memory_files').all() as Array<{
+      path: string;
+      mtime_ms: number;
+      content_hash: string;
+    }>;
+    return new Map(rows.map((r) => [r.path, { mtimeMs: r.mtime_ms, contentHash: r.content_hash }]));
+  }
+
   removeFromIndex(path: string): void {
     const txn = this.db.transaction(() => {
-      this.db.prepare('DELETE FROM memory_fts WHERE path = ?').run(path);
+      this.db.prepare('DELETE FROM memory_chunks WHERE path = ?').run(path);
       this.db.prepare('DELETE FROM memory_files WHERE path = ?').run(path);
     });
     txn();
@@ -55,36 +91,42 @@ export class SearchIndex {
     const stmt = this.db.prepare(`
       SELECT
         path,
-        snippet(memory_fts, 1, '>>>', '<<<', '...', 64) as snippet,
-        bm25(memory_fts) as score
-      FROM memory_fts
-      WHERE memory_fts MATCH ?
-      ORDER BY bm25(memory_fts)
+        start_line,
+        end_line,
+        snippet(memory_chunks, 1, '>>>', '<<<', '...', 64) as snippet,
+        bm25(memory_chunks) as score
+      FROM memory_chunks
+      WHERE memory_chunks MATCH ?
+      ORDER BY bm25(memory_chunks)
       LIMIT ?
     `);
 
     const rows = stmt.all(sanitized, limit) as Array<{
       path: string;
+      start_line: number;
+      end_line: number;
       snippet: string;
       score: number;
     }>;
 
     return rows.map((row) => ({
       path: row.path,
+      startLine: row.start_line,
+      endLine: row.end_line,
       snippet: row.snippet,
       score: row.score,
     }));
   }
 
+  /** Bring the index up to date with the vault, re-indexing only changed files. */
+  async updateFromVault(vaultPath: string): Promise<void> {
+    await updateIndexFromVault(vaultPath, this);
+  }
+
   async rebuildIndex(vaultPath: string): Promise<void> {
-    this.db.exec('DELETE FROM memory_fts');
+    this.db.exec('DELETE FROM memory_chunks');
     this.db.exec('DELETE FROM memory_files');
-
-    const mdFiles = await this.collectMdFiles(vaultPath, vaultPath);
-    for (const filePath of mdFiles) {
-      const content = await readFile(join(vaultPath, filePath), 'utf-8');
-      this.indexFile(filePath, content);
-    }
+    await this.updateFromVault(vaultPath);
   }
 
   getIndexedFiles(): string[] {
@@ -107,26 +149,4 @@ export class SearchIndex {
     if (terms.length === 0) return '';
     return terms.map((t) => `"${t}"`).join(' ');
   }
-
-  private async collectMdFiles(dir: string, basePath: string): Promise<string[]> {
-    const results: string[] = [];
-    let entries;
-    try {
-      entries = await readdir(dir, { withFileTypes: true });
-    } catch {
-      return results;
-    }
-
-    for (const entry of entries) {
-      const fullPath = join(dir, entry.name);
-      if (entry.isDirectory()) {
-        if (entry.name.startsWith('.')) continue;
-        const sub = await this.collectMdFiles(fullPath, basePath);
-        results.push(...sub);
-      } else if (entry.isFile() && entry.name.endsWith('.md')) {
-        results.push(relative(basePath, fullPath));
-      }
-    }
-    return results;
-  }
 }
@@ -3,9 +3,10 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { z } from 'zod';
 import { readFile, writeFile, readdir, stat, mkdir } from 'node:fs/promises';
 import { join, normalize, resolve, dirname } from 'node:path';
-import { SearchIndex } from './search.js';
-import { VectorIndex } from './embeddings.js';
+import type { EmbeddingsConfig } from './embeddings.js';
+import { VaultIndexer } from './indexer.js';
 import { hybridSearch } from './rerank.js';
+import { chunkRef, parseChunkRef } from './chunks.js';
 import { matchesScope, hasPermission, requiredPermission, extractFilePath } from './scope.js';
 import type { ApiPermission } from '../types.js';
 
@@ -14,6 +15,9 @@ export interface McpServerOptions {
   searchDbPath: string;
   scope?: string;
   permission?: ApiPermission;
+  embeddings?: EmbeddingsConfig;
+  /** Indexes to search. If omitted, the server opens its own and keeps them updated. */
+  indexer?: VaultIndexer;
 }
 
 function isPathSafe(vaultPath: string, filePath: string): boolean {
@@ -30,6 +34,15 @@ function todayDateString(): string {
   return `${year}-${month}-${day}`;
 }
 
+/** Lines `start` through `end` (1-based, inclusive), or null if the range is empty. */
+function selectLines(content: string, start: number | undefined, end: number | undefined): string | null {
+  const lines = content.split('\n');
+  const first = start ?? 1;
+  const last = Math.min(end ?? lines.length, lines.length);
+  if (first > last) return null;
+  return lines.slice(first - 1, last).join('\n');
+}
+
 async function collectFiles(
   dir: string,
   basePath: string,
@@ -68,19 +81,10 @@ export function createMcpServer(
       : vaultPathOrOptions;
 
   const vault = resolve(opts.vaultPath);
-  const searchIndex = new SearchIndex(opts.searchDbPath);
-
-  // Derive vector DB path from search DB path (sibling file)
-  const vectorDbPath = opts.searchDbPath.replace(/\.db$/, '-vectors.db');
-  const vectorIndex = new VectorIndex(vectorDbPath !== opts.searchDbPath ? vectorDbPath : opts.searchDbPath + '-vectors.db');
-
-  // Build initial index (fire and forget, errors logged)
-  Promise.all([
-    searchIndex.rebuildIndex(vault),
-    vectorIndex.rebuildIndex(vault),
-  ]).catch((err) => {
-    process.stderr.write(`[contextmate] Failed to build search index: ${err}\n`);
-  });
+  const indexer = opts.indexer ?? new VaultIndexer(vault, opts.searchDbPath, opts.embeddings);
+  if (!opts.indexer) indexer.start();
+  const searchIndex = indexer.search;
+  const vectorIndex = indexer.semantic;
 
   /**
    * Check scope and permission enforcement for a tool call.
@@ -105,6 +109,11 @@ export function createMcpServer(
     return null;
   }
 
+  /** Whether a key's scope lets it see a file returned by a search or listing. */
+  function inScope(filePath: string): boolean {
+    return !opts.scope || matchesScope(filePath, opts.scope);
+  }
+
   const server = new McpServer({
     name: 'contextmate',
     version: '0.1.0',
@@ -113,7 +122,7 @@ export function createMcpServer(
   // --- search-memory ---
   server.tool(
     'search-memory',
-    'Search through memories using keyword, semantic, or hybrid search. Returns ranked results.',
+    'Search through memories using keyword, semantic, or hybrid search. Returns ranked sections as "path#Lstart-Lend"; pass one to read-memory to read just that section.',
     {
       query: z.string().describe('Search query'),
       limit: z.number().optional().default(10).describe('Maximum number of results'),
@@ -130,28 +139,28 @@ export function createMcpServer(
       }
       try {
         if (mode === 'keyword') {
-          const results = searchIndex.search(query, limit);
+          const results = searchIndex.search(query, limit).filter((r) => inScope(r.path));
           if (results.length === 0) {
             return { content: [{ type: 'text', text: 'No results found.' }] };
           }
           const formatted = results
             .map(
               (r, i) =>
-                `${i + 1}. **${r.path}** (score: ${r.score.toFixed(4)})\n   ${r.snippet}`,
+                `${i + 1}. **${chunkRef(r.path, r.startLine, r.endLine)}** (score: ${r.score.toFixed(4)})\n   ${r.snippet}`,
             )
             .join('\n\n');
           return { content: [{ type: 'text', text: formatted }] };
         }
 
         if (mode === 'semantic') {
-          const results = vectorIndex.search(query, limit);
+          const results = (await vectorIndex.search(query, limit)).filter((r) => inScope(r.path));
           if (results.length === 0) {
             return { content: [{ type: 'text', text: 'No results found.' }] };
           }
           const formatted = results
             .map(
               (r, i) =>
-                `${i + 1}. **${r.path}** (similarity: ${r.score.toFixed(4)})`,
+                `${i + 1}. **${chunkRef(r.path, r.startLine, r.endLine)}** (similarity: ${r.score.toFixed(4)})`,
             )
             .join('\n\n');
           return { content: [{ type: 'text', text: formatted }] };
@@ -159,8 +168,8 @@ export function createMcpServer(
 
         // hybrid mode
         const bm25Results = searchIndex.search(query, limit);
-        const vectorResults = vectorIndex.search(query, limit);
-        const merged = hybridSearch(bm25Results, vectorResults);
+        const vectorResults = await vectorIndex.search(query, limit);
+        const merged = hybridSearch(bm25Results, vectorResults).filter((r) => inScope(r.path));
         const topResults = merged.slice(0, limit);
 
         if (topResults.length === 0) {
@@ -170,7 +179,7 @@ export function createMcpServer(
           .map((r, i) => {
             const sources = r.sources.join('+');
             const snippetLine = r.snippet ? `\n   ${r.snippet}` : '';
-            return `${i + 1}. **${r.path}** (score: ${r.score.toFixed(4)}, via: ${sources})${snippetLine}`;
+            return `${i + 1}. **${chunkRef(r.path, r.startLine, r.endLine)}** (score: ${r.score.toFixed(4)}, via: ${sources})${snippetLine}`;
           })
           .join('\n\n');
         return { content: [{ type: 'text', text: formatted }] };
@@ -186,13 +195,19 @@ export function createMcpServer(
   // --- read-memory ---
   server.tool(
     'read-memory',
-    'Read the contents of a specific memory file.',
+    'Read the contents of a specific memory file, or a range of its lines.',
     {
       file: z
         .string()
-        .describe('Relative path within vault, e.g. "openclaw/MEMORY.md"'),
+        .describe(
+          'Relative path within vault, e.g. "openclaw/MEMORY.md". May carry a line range from search results, e.g. "openclaw/MEMORY.md#L120-L158"',
+        ),
+      startLine: z.number().int().positive().optional().describe('First line to read (1-based)'),
+      endLine: z.number().int().positive().optional().describe('Last line to read (inclusive)'),
     },
-    async ({ file }) => {
+    async ({ file: fileArg, startLine, endLine }) => {
+      const ref = parseChunkRef(fileArg);
+      const file = ref.path;
       const denied = checkAccess('read-memory', { file });
       if (denied) {
         return { content: [{ type: 'text', text: denied }], isError: true };
@@ -206,7 +221,20 @@ export function createMcpServer(
         }
         const fullPath = resolve(vault, file);
         const content = await readFile(fullPath, 'utf-8');
-        return { content: [{ type: 'text', text: content }] };
+
+        const from = startLine ?? ref.startLine;
+        const to = endLine ?? ref.endLine;
+        if (from === undefined && to === undefined) {
+          return { content: [{ type: 'text', text: content }] };
+        }
+        const selected = selectLines(content, from, to);
+        if (selected === null) {
+          return {
+            content: [{ type: 'text', text: `Error: Line range ${from ?? 1}-${to ?? 'end'} is outside the file.` }],
+            isError: true,
+          };
+        }
+        return { content: [{ type: 'text', text: selected }] };
       } catch (err) {
         return {
           content: [{ type: 'text', text: `Error reading file: ${String(err)}` }],
@@ -253,10 +281,8 @@ export function createMcpServer(
         const newContent = existing ? existing + '\n\n' + content : content;
         await writeFile(fullPath, newContent, 'utf-8');
 
-        // Re-index the file in both indexes
-        searchIndex.indexFile(relPath, newContent);
-        vectorIndex.indexFile(relPath, newContent);
-        vectorIndex.recomputeIdf();
+        // Re-index now rather than waiting for the watcher
+        await indexer.indexFile(relPath);
 
         return {
           content: [
@@ -335,7 +361,7 @@ export function createMcpServer(
         return { content: [{ type: 'text', text: denied }], isError: true };
       }
       try {
-        const skillFiles = await collectFiles(vault, vault, (name) => name === 'SKILL.md');
+        const skillFiles = (await collectFiles(vault, vault, (name) => name === 'SKILL.md')).filter(inScope);
         if (skillFiles.length === 0) {
           return { content: [{ type: 'text', text: 'No skills found.' }] };
         }
@@ -376,7 +402,7 @@ export function createMcpServer(
         const mdFiles = await collectFiles(vault, vault, (name) => name.endsWith('.md'));
         // Filter to memory-related files
         const memoryFiles = mdFiles.filter(
-          (f) => f.includes('memory/') || f.includes('memory\\') || f.endsWith('MEMORY.md'),
+          (f) => (f.includes('memory/') || f.includes('memory\\') || f.endsWith('MEMORY.md')) && inScope(f),
         );
 
         if (memoryFiles.length === 0) {
@@ -412,10 +438,15 @@ export async function startMcpServer(
   vaultPath: string,
   searchDbPath: string,
   scopeOptions?: { scope: string; permission: ApiPermission },
+  embeddings?: EmbeddingsConfig,
 ): Promise<void> {
-  const server = scopeOptions
-    ? createMcpServer({ vaultPath, searchDbPath, scope: scopeOptions.scope, permission: scopeOptions.permission })
-    : createMcpServer(vaultPath, searchDbPath);
+  const server = createMcpServer({
+    vaultPath,
+    searchDbPath,
+    scope: scopeOptions?.scope,
+    permission: scopeOptions?.permission,
+    embeddings,
+  });
   const transport = new StdioServerTransport();
   await server.connect(transport);
 }
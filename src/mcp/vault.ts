@@ -0,0 +1,81 @@
+import { createHash } from 'node:crypto';
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+
+/** What an index recorded about a file when it last indexed it. */
+export interface IndexedFileState {
+  mtimeMs: number;
+  contentHash: string;
+}
+
+/** An index that can be brought up to date with the vault file by file. */
+export interface VaultIndex {
+  getFileStates(): Map<string, IndexedFileState>;
+  indexFile(path: string, content: string, mtimeMs?: number): void | Promise<void>;
+  /** Record a new mtime for a file whose content did not change. */
+  touchFile(path: string, mtimeMs: number): void;
+  removeFromIndex(path: string): void;
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export async function collectMdFiles(dir: string, basePath: string): Promise<string[]> {
+  const results: string[] = [];
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return results;
+  }
+
+  for (const entry of entries) {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name.startsWith('.')) continue;
+      const sub = await collectMdFiles(fullPath, basePath);
+      results.push(...sub);
+    } else if (entry.isFile() && entry.name.endsWith('.md') && !entry.name.endsWith('.conflict.md')) {
+      results.push(relative(basePath, fullPath));
+    }
+  }
+  return results;
+}
+
+/**
+ * Re-index only what changed since the index was last updated. Files with an
+ * unchanged mtime are skipped without being read; files whose mtime moved but
+ * whose content hash matches are just touched. Files gone from the vault are
+ * removed.
+ */
+export async function updateIndexFromVault(vaultPath: string, index: VaultIndex): Promise<void> {
+  const indexed = index.getFileStates();
+  const mdFiles = await collectMdFiles(vaultPath, vaultPath);
+  const present = new Set(mdFiles);
+
+  for (const path of indexed.keys()) {
+    if (!present.has(path)) index.removeFromIndex(path);
+  }
+
+  for (const path of mdFiles) {
+    const fullPath = join(vaultPath, path);
+    let mtimeMs: number;
+    let content: string;
+    try {
+      mtimeMs = (await stat(fullPath)).mtimeMs;
+      const known = indexed.get(path);
+      if (known?.mtimeMs === mtimeMs) continue;
+
+      content = await readFile(fullPath, 'utf-8');
+      if (known?.contentHash === hashContent(content)) {
+        index.touchFile(path, mtimeMs);
+        continue;
+      }
+    } catch {
+      // Deleted between listing and reading; the watcher will report it
+      continue;
+    }
+    await index.indexFile(path, content, mtimeMs);
+  }
+}
@@ -0,0 +1,65 @@
+/** Most files sent to or from the server in one batch request. */
+export const BATCH_MAX_FILES = 100;
+
+/** Most bytes of file content sent in one batch request. */
+export const BATCH_MAX_BYTES = 4 * 1024 * 1024;
+
+/** Transfers a full sync keeps in flight at once. */
+export const TRANSFER_CONCURRENCY = 4;
+
+/**
+ * Group items into batches of at most maxFiles items and maxBytes in total,
+ * keeping their order. An item bigger than maxBytes gets a batch of its own.
+ */
+export function makeBatches<T>(
+  items: T[],
+  size: (item: T) => number,
+  maxFiles = BATCH_MAX_FILES,
+  maxBytes = BATCH_MAX_BYTES,
+): T[][] {
+  const batches: T[][] = [];
+  let batch: T[] = [];
+  let bytes = 0;
+  for (const item of items) {
+    const itemBytes = size(item);
+    if (batch.length > 0 && (batch.length >= maxFiles || bytes + itemBytes > maxBytes)) {
+      batches.push(batch);
+      batch = [];
+      bytes = 0;
+    }
+    batch.push(item);
+    bytes += itemBytes;
+  }
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
+
+/**
+ * Run a task for every item, with at most `limit` running at once. Results
+ * come back in item order; if a task throws, the error is thrown once the
+ * tasks already started have settled.
+ */
+export async function runConcurrently<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const failures: unknown[] = [];
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length && failures.length === 0) {
+      const i = next++;
+      try {
+        results[i] = await task(items[i]!);
+      } catch (error) {
+        failures.push(error);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  if (failures.length > 0) throw failures[0];
+  return results;
+}
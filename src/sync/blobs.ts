@@ -0,0 +1,268 @@
+import { encryptFile, decryptFile, blobCounter, hashContent, deriveChunkIdKey } from '../crypto/index.js';
+import { CHUNKED_FILE_SIZE, splitChunks, chunkId } from './chunks.js';
+import { ConflictError, type SyncClient } from './client.js';
+
+/**
+ * The server sent an older copy of a file than one this device already
+ * synced: a rollback by a faulty or malicious server.
+ */
+export class RollbackError extends Error {
+  public readonly filePath: string;
+
+  constructor(filePath: string, counter: number, known: number) {
+    super(`Rejected an older copy of ${filePath} than the one already synced (counter ${counter}, expected at least ${known})`);
+    this.name = 'RollbackError';
+    this.filePath = filePath;
+  }
+}
+
+/** A chunked file's blob: the chunks it is made of, in order. */
+interface ChunkIndex {
+  size: number;
+  chunks: Array<{ id: string; size: number }>;
+}
+
+/** A chunk of a file being uploaded, encrypted only if the server turns out not to have it. */
+export interface PendingChunk {
+  id: string;
+  seal(): Uint8Array;
+}
+
+/**
+ * Encrypt a file for upload, bound to its path and to a counter above any
+ * this device has seen for it. The counter follows the clock, so a file
+ * recreated after a deletion still counts up past its old copies.
+ */
+export function sealFile(
+  plaintext: Uint8Array,
+  key: Uint8Array,
+  path: string,
+  known: number,
+): { encrypted: Uint8Array; counter: number } {
+  const counter = Math.max(Date.now(), known + 1);
+  return { encrypted: encryptFile(plaintext, key, { path, counter }), counter };
+}
+
+/** Decrypt a downloaded file, refusing it if it is older than the last copy synced. */
+export function openFile(
+  encrypted: Uint8Array,
+  key: Uint8Array,
+  path: string,
+  known: number,
+): { plaintext: Uint8Array; counter: number } {
+  const plaintext = decryptFile(encrypted, key, path);
+  const counter = blobCounter(encrypted);
+  if (counter < known) {
+    throw new RollbackError(path, counter, known);
+  }
+  return { plaintext, counter };
+}
+
+// An index is bound to its path plus a suffix no path can contain, so a
+// server can't pass a whole file off as an index, or an index as a file
+function indexPath(path: string): string {
+  return `${path}\0chunks`;
+}
+
+/**
+ * Split a large file into chunks and seal its chunk index, which is what the
+ * server stores as the file's blob. Each chunk is encrypted on its own, with
+ * the file's key.
+ */
+export function sealChunkedFile(
+  plaintext: Uint8Array,
+  key: Uint8Array,
+  path: string,
+  known: number,
+): { encrypted: Uint8Array; counter: number; chunks: PendingChunk[] } {
+  const idKey = deriveChunkIdKey(key);
+  const pieces = splitChunks(plaintext);
+  const chunks = pieces.map((piece) => ({ id: chunkId(piece, idKey), seal: () => encryptFile(piece, key) }));
+
+  const index: ChunkIndex = {
+    size: plaintext.length,
+    chunks: pieces.map((piece, i) => ({ id: chunks[i]!.id, size: piece.length })),
+  };
+  const { encrypted, counter } = sealFile(new TextEncoder().encode(JSON.stringify(index)), key, indexPath(path), known);
+  return { encrypted, counter, chunks };
+}
+
+/**
+ * Decrypt a chunked file's index and put the file back together from its
+ * chunks, checking each one against the ID the index gives it.
+ */
+export async function openChunkedFile(
+  encrypted: Uint8Array,
+  key: Uint8Array,
+  path: string,
+  known: number,
+  fetchChunk: (id: string) => Promise<Uint8Array>,
+): Promise<{ plaintext: Uint8Array; counter: number }> {
+  const index = JSON.parse(new TextDecoder().decode(decryptFile(encrypted, key, indexPath(path)))) as ChunkIndex;
+  const counter = blobCounter(encrypted);
+  if (counter < known) {
+    throw new RollbackError(path, counter, known);
+  }
+
+  const idKey = deriveChunkIdKey(key);
+  const plaintext = new Uint8Array(index.size);
+  let offset = 0;
+  for (const { id, size } of index.chunks) {
+    const chunk = decryptFile(await fetchChunk(id), key);
+    if (chunk.length !== size || offset + size > index.size || chunkId(chunk, idKey) !== id) {
+      throw new Error(`Chunk ${id} of ${path} does not match its index`);
+    }
+    plaintext.set(chunk, offset);
+    offset += size;
+  }
+  if (offset !== index.size) {
+    throw new Error(`Chunks of ${path} do not add up to its size`);
+  }
+  return { plaintext, counter };
+}
+
+/** What the server made of an uploaded file, and the counter it was sealed with. */
+export interface UploadedVaultFile {
+  version: number;
+  encryptedHash: string;
+  counter: number;
+}
+
+/**
+ * Encrypt and upload a vault file: whole, or in chunks when it is large and
+ * the vault takes chunks. Only chunks the server doesn't have are sent, so
+ * an interrupted upload picks up where it stopped, and an edit near the end
+ * of a large file only sends the chunks after it.
+ */
+export async function uploadVaultFile(
+  client: SyncClient,
+  remotePath: string,
+  plaintext: Uint8Array,
+  key: Uint8Array,
+  path: string,
+  known: number,
+  version: number,
+): Promise<UploadedVaultFile> {
+  if (plaintext.length <= CHUNKED_FILE_SIZE || !client.supportsChunks()) {
+    const { encrypted, counter } = sealFile(plaintext, key, path, known);
+    const encryptedHash = hashContent(encrypted);
+    const result = await client.uploadFile(remotePath, encrypted, encryptedHash, version);
+    return { version: result.version, encryptedHash, counter };
+  }
+
+  const { encrypted, counter, chunks } = sealChunkedFile(plaintext, key, path, known);
+  const ids = chunks.map((chunk) => chunk.id);
+  const missing = new Set(await client.findMissingChunks([...new Set(ids)]));
+  for (const chunk of chunks) {
+    if (!missing.delete(chunk.id)) continue;
+    await client.uploadChunk(chunk.id, chunk.seal());
+  }
+
+  const encryptedHash = hashContent(encrypted);
+  const result = await client.commitChunkedFile(remotePath, encrypted, encryptedHash, version, ids);
+  return { version: result.version, encryptedHash, counter };
+}
+
+/** A file as the server has it, for opening with openVaultFile. */
+export interface VaultDownload {
+  data: Uint8Array;
+  version: number;
+  encryptedHash: string;
+  chunked: boolean;
+}
+
+/** A small file for uploadVaultFiles, with what uploadVaultFile takes for it. */
+export interface VaultUpload {
+  remotePath: string;
+  plaintext: Uint8Array;
+  key: Uint8Array;
+  path: string;
+  known: number;
+  version: number;
+}
+
+/**
+ * Upload small files in one request. Each file gets its own result, or the
+ * error it failed with: a ConflictError if the server has a newer version
+ * than the one it expected. On a server without batch uploads the files are
+ * sent one at a time.
+ */
+export async function uploadVaultFiles(
+  client: SyncClient,
+  files: VaultUpload[],
+): Promise<Array<UploadedVaultFile | Error>> {
+  const sealed = files.map((file) => {
+    const { encrypted, counter } = sealFile(file.plaintext, file.key, file.path, file.known);
+    return { remotePath: file.remotePath, encrypted, counter, encryptedHash: hashContent(encrypted), version: file.version };
+  });
+
+  const results = await client.uploadFiles(sealed.map((file) => ({
+    path: file.remotePath,
+    data: file.encrypted,
+    encryptedHash: file.encryptedHash,
+    version: file.version,
+  })));
+
+  const outcomes: Array<UploadedVaultFile | Error> = [];
+  for (const [i, file] of sealed.entries()) {
+    try {
+      let version: number;
+      if (!results) {
+        ({ version } = await client.uploadFile(file.remotePath, file.encrypted, file.encryptedHash, file.version));
+      } else {
+        const result = results[i];
+        if (!result || result.path !== file.remotePath) {
+          throw new Error(`Upload failed for ${file.remotePath}: missing from the server's response`);
+        }
+        if ('conflict' in result) throw new ConflictError(file.remotePath);
+        if ('error' in result) throw new Error(`Upload failed for ${file.remotePath}: ${result.error}`);
+        version = result.version;
+      }
+      outcomes.push({ version, encryptedHash: file.encryptedHash, counter: file.counter });
+    } catch (err) {
+      outcomes.push(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+  return outcomes;
+}
+
+/**
+ * Download files in one request, for opening with openVaultFile. A file the
+ * batch couldn't include, or every file on a server without batch downloads,
+ * is downloaded on its own; one that fails that way too gets its error.
+ */
+export async function downloadVaultFiles(
+  client: SyncClient,
+  remotePaths: string[],
+): Promise<Array<VaultDownload | Error>> {
+  const batch = await client.downloadFiles(remotePaths);
+
+  const downloads: Array<VaultDownload | Error> = [];
+  for (const [i, remotePath] of remotePaths.entries()) {
+    const file = batch?.[i];
+    if (file && file.path === remotePath && !('error' in file)) {
+      downloads.push(file);
+      continue;
+    }
+    try {
+      downloads.push(await client.downloadFile(remotePath));
+    } catch (err) {
+      downloads.push(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+  return downloads;
+}
+
+/** Decrypt a downloaded vault file, fetching its chunks if it was uploaded in chunks. */
+export async function openVaultFile(
+  client: SyncClient,
+  download: { data: Uint8Array; chunked: boolean },
+  key: Uint8Array,
+  path: string,
+  known: number,
+): Promise<{ plaintext: Uint8Array; counter: number }> {
+  if (!download.chunked) {
+    return openFile(download.data, key, path, known);
+  }
+  return openChunkedFile(download.data, key, path, known, (id) => client.downloadChunk(id));
+}
@@ -0,0 +1,48 @@
+import { blake3 } from '@noble/hashes/blake3';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+
+/** Files bigger than this are uploaded in chunks rather than as one blob. */
+export const CHUNKED_FILE_SIZE = 4 * 1024 * 1024;
+
+// Chunks average about 1 MB past the minimum, so a large file splits into
+// pieces small enough to send one request each
+const MIN_CHUNK_SIZE = 256 * 1024;
+const MAX_CHUNK_SIZE = 4 * 1024 * 1024;
+const BOUNDARY_MASK = (1 << 20) - 1;
+
+// Gear hash table, fixed so every device cuts a file at the same places
+const GEAR = (() => {
+  const bytes = blake3(utf8ToBytes('contextmate-chunk-gear'), { dkLen: 256 * 4 });
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return Uint32Array.from({ length: 256 }, (_, i) => view.getUint32(i * 4, true));
+})();
+
+/**
+ * Split data at content-defined boundaries: a cut depends only on the bytes
+ * just before it, so an edit moves the boundaries near it and leaves the
+ * chunks before and after it as they were.
+ */
+export function splitChunks(data: Uint8Array): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+  let start = 0;
+  while (start < data.length) {
+    const end = Math.min(start + MAX_CHUNK_SIZE, data.length);
+    let cut = end;
+    let hash = 0;
+    for (let i = start + MIN_CHUNK_SIZE; i < end; i++) {
+      hash = ((hash << 1) + GEAR[data[i]!]!) >>> 0;
+      if ((hash & BOUNDARY_MASK) === 0) {
+        cut = i + 1;
+        break;
+      }
+    }
+    chunks.push(data.subarray(start, cut));
+    start = cut;
+  }
+  return chunks;
+}
+
+/** A chunk's ID: a keyed hash of its plaintext, so the server can't test for known content. */
+export function chunkId(chunk: Uint8Array, idKey: Uint8Array): string {
+  return bytesToHex(blake3(chunk, { key: idKey }));
+}
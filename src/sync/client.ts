@@ -1,19 +1,48 @@
 import { readFile, writeFile } from 'node:fs/promises';
-import type { FileMetadata, DeviceInfo } from '../types.js';
+import type {
+  FileMetadata,
+  FileChange,
+  FileVersion,
+  DeviceInfo,
+  PairingRequestInfo,
+  OwnedShareInfo,
+  ReceivedShareInfo,
+  TeamInfo,
+  TeamMemberInfo,
+  TeamRole,
+  ApiPermission,
+  BatchUploadResult,
+  BatchDownloadResult,
+} from '../types.js';
 
 export interface TokenRefreshConfig {
   authJsonPath: string;
+  /** Called once the server refuses this device, after its saved login is cleared. */
+  onDeviceRevoked?: () => void;
+}
+
+interface AuthJson {
+  authHash?: string;
+  userId: string;
+  token?: string;
+  deviceId?: string;
 }
 
 export class SyncClient {
   private readonly baseUrl: string;
+  /** Where this client's vault files live: the personal vault, or a team's. */
+  private readonly filesPath: string;
+  /** Where large files' chunks go, or null if this vault takes files only whole. */
+  private readonly chunksPath: string | null;
   private authToken: string;
   private readonly maxRetries = 3;
   private refreshConfig: TokenRefreshConfig | null = null;
   private refreshing: Promise<void> | null = null;
 
-  constructor(baseUrl: string, authToken: string) {
+  constructor(baseUrl: string, authToken: string, filesPath = '/api/files', chunksPath: string | null = '/api/chunks') {
     this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.filesPath = filesPath;
+    this.chunksPath = chunksPath;
     this.authToken = authToken;
   }
 
@@ -28,7 +57,7 @@ export class SyncClient {
     version: number,
   ): Promise<{ version: number }> {
     const response = await this.fetchWithRetry(
-      `${this.baseUrl}/api/files/${encodeURIComponent(path)}`,
+      `${this.baseUrl}${this.filesPath}/${encodeURIComponent(path)}`,
       {
         method: 'PUT',
         headers: {
@@ -52,11 +81,12 @@ export class SyncClient {
     return result;
   }
 
+  /** Download a file's blob; for a file uploaded in chunks, that is its chunk index. */
   async downloadFile(
     path: string,
-  ): Promise<{ data: Uint8Array; version: number; encryptedHash: string }> {
+  ): Promise<{ data: Uint8Array; version: number; encryptedHash: string; chunked: boolean }> {
     const response = await this.fetchWithRetry(
-      `${this.baseUrl}/api/files/${encodeURIComponent(path)}`,
+      `${this.baseUrl}${this.filesPath}/${encodeURIComponent(path)}`,
       { method: 'GET' },
     );
 
@@ -67,16 +97,150 @@ export class SyncClient {
     const data = new Uint8Array(await response.arrayBuffer());
     const version = Number(response.headers.get('X-Version') ?? '0');
     const encryptedHash = response.headers.get('X-Content-Hash') ?? '';
+    const chunked = response.headers.get('X-Chunked') === '1';
 
-    return { data, version, encryptedHash };
+    return { data, version, encryptedHash, chunked };
+  }
+
+  /**
+   * Upload many small files in one request, each with its own expected
+   * version. Returns null if the server has no batch endpoint, so the caller
+   * uploads the files one at a time.
+   */
+  async uploadFiles(
+    files: Array<{ path: string; data: Uint8Array; encryptedHash: string; version: number }>,
+  ): Promise<BatchUploadResult[] | null> {
+    const response = await this.fetchWithRetry(`${this.baseUrl}${this.filesPath}/batch/upload`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        files: files.map((f) => ({
+          path: f.path,
+          data: Buffer.from(f.data).toString('base64'),
+          encryptedHash: f.encryptedHash,
+          version: f.version,
+        })),
+      }),
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Batch upload failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { results: BatchUploadResult[] };
+    return data.results;
+  }
+
+  /**
+   * Download many small files in one request. Returns null if the server has
+   * no batch endpoint, so the caller downloads the files one at a time.
+   */
+  async downloadFiles(paths: string[]): Promise<BatchDownloadResult[] | null> {
+    const response = await this.fetchWithRetry(`${this.baseUrl}${this.filesPath}/batch/download`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ paths }),
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Batch download failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as {
+      files: Array<{ path: string; error: string } | {
+        path: string; data: string; version: number; encryptedHash: string; chunked: boolean;
+      }>;
+    };
+    return data.files.map((f) => ('error' in f ? f : { ...f, data: new Uint8Array(Buffer.from(f.data, 'base64')) }));
+  }
+
+  supportsChunks(): boolean {
+    return this.chunksPath !== null;
+  }
+
+  /** Which of a file's chunks the server doesn't have yet. */
+  async findMissingChunks(ids: string[]): Promise<string[]> {
+    const response = await this.fetchWithRetry(`${this.baseUrl}${this.requireChunksPath()}/missing`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Chunk check failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { missing: string[] };
+    return data.missing;
+  }
+
+  async uploadChunk(id: string, encryptedData: Uint8Array): Promise<void> {
+    const response = await this.fetchWithRetry(`${this.baseUrl}${this.requireChunksPath()}/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: encryptedData as any,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Chunk upload failed for ${id}: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  async downloadChunk(id: string): Promise<Uint8Array> {
+    const response = await this.fetchWithRetry(`${this.baseUrl}${this.requireChunksPath()}/${id}`, { method: 'GET' });
+
+    if (!response.ok) {
+      throw new Error(`Chunk download failed for ${id}: ${response.status} ${response.statusText}`);
+    }
+
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  /** Make uploaded chunks the new version of a file, with the chunk index as its blob. */
+  async commitChunkedFile(
+    path: string,
+    index: Uint8Array,
+    encryptedHash: string,
+    version: number,
+    chunkIds: string[],
+  ): Promise<{ version: number }> {
+    const response = await this.fetchWithRetry(`${this.baseUrl}${this.requireChunksPath()}/commit`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        path,
+        index: Buffer.from(index).toString('base64'),
+        encryptedHash,
+        version,
+        chunks: chunkIds,
+      }),
+    });
+
+    if (response.status === 409) {
+      throw new ConflictError(path);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Upload failed for ${path}: ${response.status} ${response.statusText}`);
+    }
+
+    const result = (await response.json()) as { version: number };
+    return result;
   }
 
-  async deleteFile(path: string): Promise<void> {
+  /** Delete a file; with a version, only if the server's copy is still that version. */
+  async deleteFile(path: string, version?: number): Promise<void> {
     const response = await this.fetchWithRetry(
-      `${this.baseUrl}/api/files/${encodeURIComponent(path)}`,
-      { method: 'DELETE' },
+      `${this.baseUrl}${this.filesPath}/${encodeURIComponent(path)}`,
+      { method: 'DELETE', headers: version === undefined ? {} : { 'X-Version': String(version) } },
     );
 
+    if (response.status === 409) {
+      throw new ConflictError(path);
+    }
+
     // 404 is fine — file already gone
     if (!response.ok && response.status !== 404) {
       throw new Error(`Delete failed for ${path}: ${response.status} ${response.statusText}`);
@@ -84,8 +248,21 @@ export class SyncClient {
   }
 
   async listRemoteFiles(): Promise<FileMetadata[]> {
+    return (await this.listRemoteFilesWithCursor()).files;
+  }
+
+  /**
+   * List all files along with tombstones of deleted files and the change feed
+   * cursor the listing is current as of. The cursor is null if the server has
+   * no change feed, and tombstones are null if it doesn't keep them.
+   */
+  async listRemoteFilesWithCursor(): Promise<{
+    files: FileMetadata[];
+    tombstones: FileChange[] | null;
+    cursor: number | null;
+  }> {
     const response = await this.fetchWithRetry(
-      `${this.baseUrl}/api/files`,
+      `${this.baseUrl}${this.filesPath}`,
       { method: 'GET' },
     );
 
@@ -93,8 +270,83 @@ export class SyncClient {
       throw new Error(`List files failed: ${response.status} ${response.statusText}`);
     }
 
-    const data = (await response.json()) as { files: FileMetadata[] };
-    return data.files;
+    const data = (await response.json()) as { files: FileMetadata[]; tombstones?: FileChange[]; cursor?: number };
+    return { files: data.files, tombstones: data.tombstones ?? null, cursor: data.cursor ?? null };
+  }
+
+  /**
+   * Changes after a change feed cursor, including deletions. Returns null if
+   * the server no longer accepts the cursor, so the caller lists all files.
+   */
+  async getChanges(cursor: number): Promise<{ changes: FileChange[]; cursor: number } | null> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}${this.filesPath}/changes?cursor=${cursor}`,
+      { method: 'GET' },
+    );
+
+    if (response.status === 410 || response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`List changes failed: ${response.status} ${response.statusText}`);
+    }
+
+    // Servers without a change feed ignore the cursor and answer with a timestamp listing
+    const data = (await response.json()) as { changes?: FileChange[]; cursor?: number };
+    if (!data.changes || data.cursor === undefined) return null;
+    return { changes: data.changes, cursor: data.cursor };
+  }
+
+  /**
+   * Tell the server this device has applied every change up to a cursor.
+   * Returns the sequence number tombstones have been collected through, or
+   * null if the server doesn't collect them (or this isn't a device session).
+   */
+  async acknowledgeChanges(cursor: number): Promise<number | null> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}${this.filesPath}/changes/ack`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cursor }),
+      },
+    );
+
+    if (!response.ok) return null;
+    const data = (await response.json()) as { collectedThrough?: number };
+    return data.collectedThrough ?? null;
+  }
+
+  async listVersions(path: string): Promise<FileVersion[]> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}${this.filesPath}/${encodeURIComponent(path)}/versions`,
+      { method: 'GET' },
+    );
+
+    if (!response.ok) {
+      throw new Error(`List versions failed for ${path}: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { versions: FileVersion[] };
+    return data.versions;
+  }
+
+  async downloadVersion(
+    path: string,
+    version: number,
+  ): Promise<{ data: Uint8Array; version: number; encryptedHash: string; chunked: boolean }> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}${this.filesPath}/${encodeURIComponent(path)}/versions/${version}`,
+      { method: 'GET' },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Download failed for ${path} v${version}: ${response.status} ${response.statusText}`);
+    }
+
+    const data = new Uint8Array(await response.arrayBuffer());
+    const encryptedHash = response.headers.get('X-Content-Hash') ?? '';
+    const chunked = response.headers.get('X-Chunked') === '1';
+
+    return { data, version, encryptedHash, chunked };
   }
 
   async registerDevice(name: string, publicKey: string): Promise<string> {
@@ -115,6 +367,310 @@ export class SyncClient {
     return result.id;
   }
 
+  async findPairingRequest(code: string): Promise<PairingRequestInfo | null> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/auth/pairing/code/${encodeURIComponent(code)}`,
+      { method: 'GET' },
+    );
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Find pairing request failed: ${response.status} ${response.statusText}`);
+    }
+
+    return (await response.json()) as PairingRequestInfo;
+  }
+
+  /** Approve a pairing request with a payload sealed to the new device. Returns its device ID. */
+  async approvePairing(pairingId: string, sealedPayload: string): Promise<string> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/auth/pairing/${encodeURIComponent(pairingId)}/approve`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sealedPayload }),
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Approve pairing failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result = (await response.json()) as { deviceId: string };
+    return result.deviceId;
+  }
+
+  async publishSharingKey(publicKey: string): Promise<void> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/shares/key`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ publicKey }),
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Publish sharing key failed: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  /** Another account's public sharing key, or null if it hasn't published one. */
+  async getSharingKey(userId: string): Promise<string | null> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/shares/key/${encodeURIComponent(userId)}`,
+      { method: 'GET' },
+    );
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Get sharing key failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result = (await response.json()) as { publicKey: string };
+    return result.publicKey;
+  }
+
+  async listShares(): Promise<{ owned: OwnedShareInfo[]; received: ReceivedShareInfo[] }> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/shares`,
+      { method: 'GET' },
+    );
+
+    if (!response.ok) {
+      throw new Error(`List shares failed: ${response.status} ${response.statusText}`);
+    }
+
+    return (await response.json()) as { owned: OwnedShareInfo[]; received: ReceivedShareInfo[] };
+  }
+
+  async createShare(folder: string, wrappedKey: string): Promise<string> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/shares`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ folder, wrappedKey }),
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Create share failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result = (await response.json()) as { id: string };
+    return result.id;
+  }
+
+  async deleteShare(shareId: string): Promise<void> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/shares/${encodeURIComponent(shareId)}`,
+      { method: 'DELETE' },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Delete share failed: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  async grantShare(shareId: string, recipientId: string, permissions: ApiPermission, wrappedKey: string): Promise<void> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/shares/${encodeURIComponent(shareId)}/grants/${encodeURIComponent(recipientId)}`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ permissions, wrappedKey }),
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Grant share failed: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  /** Revoke a recipient (as the owner), or leave a share (with your own user ID). */
+  async revokeShareGrant(shareId: string, recipientId: string): Promise<void> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/shares/${encodeURIComponent(shareId)}/grants/${encodeURIComponent(recipientId)}`,
+      { method: 'DELETE' },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Revoke share failed: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  async listShareFiles(shareId: string): Promise<FileMetadata[]> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/shares/${encodeURIComponent(shareId)}/files`,
+      { method: 'GET' },
+    );
+
+    if (!response.ok) {
+      throw new Error(`List share files failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { files: FileMetadata[] };
+    return data.files;
+  }
+
+  async uploadShareFile(
+    shareId: string,
+    path: string,
+    encryptedData: Uint8Array,
+    encryptedHash: string,
+    version: number,
+  ): Promise<{ version: number }> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/shares/${encodeURIComponent(shareId)}/files/${encodeURIComponent(path)}`,
+      {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'X-Content-Hash': encryptedHash,
+          'X-Version': String(version),
+        },
+        body: encryptedData as any,
+      },
+    );
+
+    if (response.status === 409) {
+      throw new ConflictError(path);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Upload failed for ${path}: ${response.status} ${response.statusText}`);
+    }
+
+    return (await response.json()) as { version: number };
+  }
+
+  async downloadShareFile(
+    shareId: string,
+    path: string,
+  ): Promise<{ data: Uint8Array; version: number; encryptedHash: string }> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/shares/${encodeURIComponent(shareId)}/files/${encodeURIComponent(path)}`,
+      { method: 'GET' },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Download failed for ${path}: ${response.status} ${response.statusText}`);
+    }
+
+    const data = new Uint8Array(await response.arrayBuffer());
+    const version = Number(response.headers.get('X-Version') ?? '0');
+    const encryptedHash = response.headers.get('X-Content-Hash') ?? '';
+
+    return { data, version, encryptedHash };
+  }
+
+  async deleteShareFile(shareId: string, path: string): Promise<void> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/shares/${encodeURIComponent(shareId)}/files/${encodeURIComponent(path)}`,
+      { method: 'DELETE' },
+    );
+
+    // 404 is fine — file already gone
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Delete failed for ${path}: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  async listTeams(): Promise<TeamInfo[]> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/teams`,
+      { method: 'GET' },
+    );
+
+    if (!response.ok) {
+      throw new Error(`List teams failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { teams: TeamInfo[] };
+    return data.teams;
+  }
+
+  /** Create a team, with its key wrapped for this account's sharing key. Returns the team ID. */
+  async createTeam(name: string, wrappedKey: string): Promise<string> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/teams`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, wrappedKey }),
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Create team failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result = (await response.json()) as { id: string };
+    return result.id;
+  }
+
+  async deleteTeam(teamId: string): Promise<void> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/teams/${encodeURIComponent(teamId)}`,
+      { method: 'DELETE' },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Delete team failed: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  async listTeamMembers(teamId: string): Promise<TeamMemberInfo[]> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/teams/${encodeURIComponent(teamId)}/members`,
+      { method: 'GET' },
+    );
+
+    if (!response.ok) {
+      throw new Error(`List team members failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { members: TeamMemberInfo[] };
+    return data.members;
+  }
+
+  /** Add a member, with the team key wrapped for their sharing key, or change a member's role. */
+  async setTeamMember(teamId: string, userId: string, role: TeamRole, wrappedKey?: string): Promise<void> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/teams/${encodeURIComponent(teamId)}/members/${encodeURIComponent(userId)}`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role, wrappedKey }),
+      },
+    );
+
+    if (response.status === 403) {
+      throw new Error('Your role in this team cannot make that change.');
+    }
+
+    if (!response.ok) {
+      throw new Error(`Update team member failed: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  async removeTeamMember(teamId: string, userId: string): Promise<void> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/teams/${encodeURIComponent(teamId)}/members/${encodeURIComponent(userId)}`,
+      { method: 'DELETE' },
+    );
+
+    if (response.status === 403) {
+      const { error } = (await response.json()) as { error: string };
+      throw new Error(`${error}.`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Remove team member failed: ${response.status} ${response.statusText}`);
+    }
+  }
+
   async listDevices(): Promise<DeviceInfo[]> {
     const response = await this.fetchWithRetry(
       `${this.baseUrl}/api/auth/devices`,
@@ -128,6 +684,83 @@ export class SyncClient {
     return (await response.json()) as DeviceInfo[];
   }
 
+  async changePassphrase(request: {
+    currentAuthKeyHash: string;
+    authKeyHash: string;
+    salt: string;
+    encryptedMasterKey: string;
+    wrappedVaultKey: string;
+  }): Promise<{ token: string }> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/auth/passphrase`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      },
+    );
+
+    if (response.status === 403) {
+      throw new Error('The server did not accept the current passphrase.');
+    }
+
+    if (!response.ok) {
+      throw new Error(`Passphrase change failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result = (await response.json()) as { token: string };
+    this.authToken = result.token;
+    return result;
+  }
+
+  async setRecoveryKey(recoveryAuthHash: string, recoveryWrappedKey: string): Promise<void> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/api/auth/recovery`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recoveryAuthHash, recoveryWrappedKey }),
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Saving recovery key failed: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  getToken(): string {
+    return this.authToken;
+  }
+
+  /**
+   * Drop the saved login after this device was removed from the account, so
+   * nothing retries with it and the next setup registers a new device.
+   */
+  async forgetCredentials(): Promise<void> {
+    if (!this.refreshConfig) return;
+    const authPath = this.refreshConfig.authJsonPath;
+    try {
+      const authData = JSON.parse(await readFile(authPath, 'utf-8')) as AuthJson;
+      await writeFile(authPath, JSON.stringify({ userId: authData.userId }, null, 2), { mode: 0o600 });
+    } catch {
+      // Nothing saved
+    }
+  }
+
+  /**
+   * Log in again with the auth hash in auth.json. Returns false if that hash
+   * is no longer accepted, e.g. after the passphrase changed on another device.
+   * Throws DeviceRevokedError if this device was removed from the account.
+   */
+  async reauthenticate(): Promise<boolean> {
+    try {
+      return await this.refreshToken();
+    } catch (err) {
+      if (err instanceof DeviceRevokedError) throw err;
+      return false;
+    }
+  }
+
   private async refreshToken(): Promise<boolean> {
     if (!this.refreshConfig) return false;
 
@@ -139,19 +772,23 @@ export class SyncClient {
 
     this.refreshing = (async () => {
       try {
-        const authData = JSON.parse(await readFile(this.refreshConfig!.authJsonPath, 'utf-8')) as {
-          authHash: string;
-          userId: string;
-          token: string;
-          deviceId?: string;
-        };
+        const authData = JSON.parse(await readFile(this.refreshConfig!.authJsonPath, 'utf-8')) as AuthJson;
+        if (!authData.authHash) {
+          throw new Error('Not logged in');
+        }
 
         const response = await fetch(`${this.baseUrl}/api/auth/login`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ authKeyHash: authData.authHash }),
+          body: JSON.stringify({ authKeyHash: authData.authHash, deviceId: authData.deviceId }),
         });
 
+        if (response.status === 403 && authData.deviceId) {
+          await this.forgetCredentials();
+          this.refreshConfig!.onDeviceRevoked?.();
+          throw new DeviceRevokedError();
+        }
+
         if (!response.ok) {
           throw new Error(`Token refresh failed: ${response.status}`);
         }
@@ -171,6 +808,13 @@ export class SyncClient {
     return true;
   }
 
+  private requireChunksPath(): string {
+    if (!this.chunksPath) {
+      throw new Error('This vault does not take files in chunks');
+    }
+    return this.chunksPath;
+  }
+
   private async fetchWithRetry(
     url: string,
     init: RequestInit,
@@ -206,6 +850,8 @@ export class SyncClient {
         }
         lastError = new Error(`HTTP ${response.status}: ${response.statusText}`);
       } catch (err) {
+        // Retrying can't help once the device is revoked
+        if (err instanceof DeviceRevokedError) throw err;
         lastError = err instanceof Error ? err : new Error(String(err));
       }
       // Exponential backoff: 1s, 2s, 4s
@@ -213,7 +859,7 @@ export class SyncClient {
       await new Promise((resolve) => setTimeout(resolve, delay));
     }
 
-    throw lastError ?? new Error('Request failed after retries');
+    throw new NetworkError(lastError?.message ?? 'Request failed after retries');
   }
 }
 
@@ -226,3 +872,18 @@ export class ConflictError extends Error {
     this.filePath = filePath;
   }
 }
+
+export class DeviceRevokedError extends Error {
+  constructor() {
+    super('This device was removed from the account');
+    this.name = 'DeviceRevokedError';
+  }
+}
+
+/** The server could not be reached, or kept failing, through every retry. */
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
@@ -1,15 +1,73 @@
 import { readFile, writeFile, mkdir, readdir, stat, unlink } from 'node:fs/promises';
 import { join, dirname, relative } from 'node:path';
 import { randomUUID } from 'node:crypto';
+import { hexToBytes } from '@noble/hashes/utils';
 import { FileWatcher } from './watcher.js';
 import { SyncStateDB } from './state.js';
-import { SyncClient, ConflictError } from './client.js';
+import { SyncClient, ConflictError, DeviceRevokedError, NetworkError } from './client.js';
 import { SyncWebSocket } from './websocket.js';
 import { ExtraPathsManager } from './extra-paths.js';
-import { encryptFile, decryptFile, hashContent, deriveKeyForPath } from '../crypto/index.js';
+import { PathManifest } from './manifest.js';
+import { mergeText } from './merge.js';
+import { ShareSync } from './shares.js';
+import { conflictSidecarPath, isConflictSidecar } from './sidecars.js';
+import {
+  RollbackError,
+  uploadVaultFile,
+  uploadVaultFiles,
+  openVaultFile,
+  downloadVaultFiles,
+  type VaultUpload,
+  type VaultDownload,
+  type UploadedVaultFile,
+} from './blobs.js';
+import { CHUNKED_FILE_SIZE } from './chunks.js';
+import { makeBatches, runConcurrently, TRANSFER_CONCURRENCY } from './batches.js';
+import {
+  hashContent,
+  deriveKeyForPath,
+  deriveSharingKeyPair,
+  unwrapShareKey,
+} from '../crypto/index.js';
 import type { ContextMateConfig } from '../config.js';
-import type { SyncResult } from '../types.js';
-import { getSyncDbPath } from '../utils/paths.js';
+import type { FileChange, FileMetadata, SyncFile, SyncResult, TeamInfo } from '../types.js';
+import { getSyncDbPath, getTeamSyncDbPath, getTeamVaultPath } from '../utils/paths.js';
+
+/** What the server reports for a sync: every file, or only what changed since the cursor. */
+interface RemoteChanges {
+  files: FileMetadata[];
+  /** Deletions since the cursor, or for a full listing, the server's tombstones. */
+  deleted: FileChange[];
+  complete: boolean;
+  /**
+   * False for a full listing from a server without tombstones; a tracked file
+   * missing from such a listing can only be assumed deleted.
+   */
+  reportsDeletions: boolean;
+  cursor: number | null;
+}
+
+// Retry delays for queued changes that failed: 5s, doubling up to 10 minutes
+const OUTBOX_RETRY_BASE_MS = 5_000;
+const OUTBOX_RETRY_MAX_MS = 10 * 60 * 1000;
+
+/** A remote file that was downloaded and opened. */
+interface RemoteCopy {
+  plaintext: Uint8Array;
+  counter: number;
+  version: number;
+  encryptedHash: string;
+}
+
+/** A new or modified local file a full sync is about to upload. */
+interface PendingUpload {
+  path: string;
+  contentBytes: Uint8Array;
+  contentHash: string;
+  tracked: SyncFile | undefined;
+  /** The version the upload expects to replace; 0 for a new file. */
+  version: number;
+}
 
 export class SyncEngine {
   private watcher: FileWatcher | null = null;
@@ -21,27 +79,82 @@ export class SyncEngine {
   private pollTimer: ReturnType<typeof setInterval> | null = null;
   private extraPathsManager: ExtraPathsManager | null = null;
   private extraWatchers: FileWatcher[] = [];
+  private readonly manifest: PathManifest;
+  private encryptPaths: boolean;
+  private shares: ShareSync | null = null;
+  /** Set when this engine syncs a team vault rather than the personal one. */
+  private readonly teamId: string | null;
+  private readonly vaultPath: string;
+  /** Engines for the team vaults this account belongs to, by team ID. */
+  private readonly teams = new Map<string, SyncEngine>();
 
   private readonly authToken: string;
-
-  constructor(config: ContextMateConfig, vaultKey: Uint8Array, authToken?: string) {
+  private revoked = false;
+  /** The latest pass over the outbox of queued local changes. */
+  private outboxDrain: Promise<void> = Promise.resolve();
+  private outboxTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Files skipped as too large to sync, by path, with the content hash last reported. */
+  private readonly tooLarge = new Map<string, string>();
+  /** Where a team engine reports files it can't sync, so they show in the personal sync log. */
+  private readonly reportError: ((path: string, message: string) => void) | null;
+
+  /**
+   * Syncs the personal vault, and starts an engine for each team vault the
+   * account belongs to. Pass a team ID and the team key instead of the vault
+   * key to sync that team's vault, with its own folder and state DB.
+   */
+  constructor(
+    config: ContextMateConfig,
+    vaultKey: Uint8Array,
+    authToken?: string,
+    teamId?: string,
+    reportError?: (path: string, message: string) => void,
+  ) {
     this.config = config;
+    this.reportError = reportError ?? null;
     this.vaultKey = vaultKey;
     this.authToken = authToken || config.server.apiKey || '';
-    this.client = new SyncClient(config.server.url, this.authToken);
+    this.teamId = teamId ?? null;
+    this.vaultPath = teamId ? getTeamVaultPath(config, teamId) : config.vault.path;
+    // Team vaults have no chunk store, so they take files only whole; see tooLargeToSync
+    this.client = new SyncClient(
+      config.server.url,
+      this.authToken,
+      teamId ? `/api/teams/${encodeURIComponent(teamId)}/files` : undefined,
+      teamId ? null : undefined,
+    );
     this.client.enableTokenRefresh({
       authJsonPath: join(config.data.path, 'auth.json'),
+      onDeviceRevoked: () => void this.onDeviceRevoked(),
     });
+    this.manifest = new PathManifest(this.client, vaultKey);
+    this.encryptPaths = config.sync.encryptPaths;
   }
 
   async start(): Promise<void> {
     // Initialize state database
-    const dbPath = getSyncDbPath(this.config);
+    const dbPath = this.teamId ? getTeamSyncDbPath(this.config, this.teamId) : getSyncDbPath(this.config);
     await mkdir(dirname(dbPath), { recursive: true });
+    await mkdir(this.vaultPath, { recursive: true });
     this.stateDb = new SyncStateDB(dbPath);
 
+    if (this.encryptPaths || this.stateDb.getMeta('path_mode') === 'encrypted') {
+      this.enablePathEncryption();
+    }
+
+    // Shared folders sync on their own; know them before the first vault sync
+    if (!this.teamId) {
+      this.shares = new ShareSync(this.client, this.stateDb, this.vaultPath, deriveSharingKeyPair(this.vaultKey));
+      try {
+        await this.shares.publishKey();
+      } catch {
+        // Server without sharing support
+      }
+      await this.refreshShares();
+    }
+
     // Start file watcher
-    this.watcher = new FileWatcher(this.config.vault.path, this.config.sync.debounceMs);
+    this.watcher = new FileWatcher(this.vaultPath, this.config.sync.debounceMs);
     this.watcher.start();
 
     // Wire up local file events BEFORE syncAll so no events are lost
@@ -55,6 +168,13 @@ export class SyncEngine {
       void this.handleLocalDelete(event.path);
     });
 
+    // Team vaults hear about remote changes through the personal engine's connection
+    if (this.teamId) {
+      await this.syncAll();
+      this.startPolling();
+      return;
+    }
+
     // Connect WebSocket
     const wsUrl = this.config.server.url.replace(/^http/, 'ws');
     this.ws = new SyncWebSocket(wsUrl, this.authToken);
@@ -65,17 +185,42 @@ export class SyncEngine {
 
     // Wire up remote events
     this.ws.on('file-updated', (event: { path: string; version: number }) => {
-      void this.handleRemoteUpdate(event.path, event.version);
+      void this.onRemoteFileUpdated(event.path, event.version);
     });
     this.ws.on('file-deleted', (event: { path: string }) => {
-      void this.handleRemoteDelete(event.path);
+      void this.onRemoteFileDeleted(event.path);
+    });
+    this.ws.on('reauth-required', () => {
+      void this.onReauthRequired();
+    });
+    this.ws.on('device-revoked', () => {
+      void this.client.forgetCredentials().then(() => this.onDeviceRevoked());
+    });
+    this.ws.on('shares-changed', () => {
+      // A folder that stopped being shared goes back to vault sync
+      void this.refreshShares().then(() => this.syncAll());
+    });
+    this.ws.on('share-updated', (event: { shareId: string }) => {
+      void this.shares?.syncShare(event.shareId);
+    });
+    this.ws.on('teams-changed', () => {
+      void this.refreshTeams();
+    });
+    this.ws.on('team-file-updated', (event: { teamId: string; path: string; version: number }) => {
+      void this.teams.get(event.teamId)?.onRemoteFileUpdated(event.path, event.version);
+    });
+    this.ws.on('team-file-deleted', (event: { teamId: string; path: string }) => {
+      void this.teams.get(event.teamId)?.onRemoteFileDeleted(event.path);
+    });
+    this.ws.on('resync', () => {
+      void this.resync();
     });
 
     // Set up extra paths if configured
     if (this.config.sync.extraPaths.length > 0) {
       this.extraPathsManager = new ExtraPathsManager(
         this.config.sync.extraPaths,
-        this.config.vault.path,
+        this.vaultPath,
       );
 
       // Initial import
@@ -98,13 +243,22 @@ export class SyncEngine {
       }
     }
 
-    // Start periodic poll
+    await this.refreshTeams();
+
+    this.startPolling();
+  }
+
+  private startPolling(): void {
     this.pollTimer = setInterval(() => {
       void this.syncAll();
     }, this.config.sync.pollIntervalMs);
   }
 
   async stop(): Promise<void> {
+    for (const team of this.teams.values()) {
+      await team.stop();
+    }
+    this.teams.clear();
     if (this.pollTimer) {
       clearInterval(this.pollTimer);
       this.pollTimer = null;
@@ -121,6 +275,13 @@ export class SyncEngine {
       this.ws.disconnect();
       this.ws = null;
     }
+    this.shares = null;
+    // Let a pass over the outbox finish; whatever is still queued is sent after the next start
+    await this.outboxDrain;
+    if (this.outboxTimer) {
+      clearTimeout(this.outboxTimer);
+      this.outboxTimer = null;
+    }
     if (this.stateDb) {
       this.stateDb.close();
       this.stateDb = null;
@@ -130,71 +291,212 @@ export class SyncEngine {
   async handleLocalChange(relativePath: string): Promise<void> {
     if (!this.stateDb) return;
 
+    if (this.isShared(relativePath)) {
+      await this.shares?.handleLocalChange(relativePath);
+      return;
+    }
+
     // Skip files that were deleted remotely — adapter may have recreated them
     if (this.stateDb.isDeletion(relativePath)) {
       try {
-        await unlink(join(this.config.vault.path, relativePath));
+        await unlink(join(this.vaultPath, relativePath));
       } catch {
         // Already gone
       }
       return;
     }
 
+    // Queue first, so the change isn't lost if the server is unreachable or the daemon stops
+    this.stateDb.queueOperation('upload', relativePath);
+    await this.drainOutbox();
+  }
+
+  /** Upload a file's current content, unless the server already has it. */
+  private async pushUpload(relativePath: string): Promise<void> {
+    if (!this.stateDb) return;
+
+    const absolutePath = join(this.vaultPath, relativePath);
+    let content: Buffer;
     try {
-      const absolutePath = join(this.config.vault.path, relativePath);
-      const content = await readFile(absolutePath);
-      const contentBytes = new Uint8Array(content);
+      content = await readFile(absolutePath);
+    } catch (err) {
+      // Removed since it was queued; its deletion is queued behind it
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw err;
+    }
+    const contentBytes = new Uint8Array(content);
 
-      // Hash the content
-      const contentHash = hashContent(contentBytes);
+    // Hash the content
+    const contentHash = hashContent(contentBytes);
+    if (this.tooLargeToSync(relativePath, contentBytes, contentHash)) return;
 
-      // Check state db - skip if hash unchanged
-      const existing = this.stateDb.getFile(relativePath);
-      if (existing && existing.contentHash === contentHash) {
-        return;
-      }
+    // Check state db - skip if hash unchanged
+    const existing = this.stateDb.getFile(relativePath);
+    if (existing && existing.contentHash === contentHash) {
+      return;
+    }
 
-      // Derive file-specific encryption key
-      const fileKey = deriveKeyForPath(this.vaultKey, relativePath);
+    // Derive file-specific encryption key
+    const fileKey = deriveKeyForPath(this.vaultKey, relativePath);
 
-      // Encrypt file
-      const encrypted = encryptFile(contentBytes, fileKey);
-      const encryptedHash = hashContent(encrypted);
+    // Encrypt and upload
+    const currentVersion = existing?.version ?? 0;
+    try {
+      if (this.encryptPaths) await this.manifest.add([relativePath]);
+      const { version, encryptedHash, counter } = await uploadVaultFile(
+        this.client,
+        this.remotePath(relativePath),
+        contentBytes,
+        fileKey,
+        relativePath,
+        this.stateDb.getBlobCounter(relativePath),
+        currentVersion,
+      );
 
-      // Upload
-      const currentVersion = existing?.version ?? 0;
-      try {
-        const result = await this.client.uploadFile(
-          relativePath,
-          encrypted,
-          encryptedHash,
-          currentVersion,
-        );
+      // Update state db
+      this.stateDb.upsertFile({
+        id: existing?.id ?? randomUUID(),
+        path: relativePath,
+        contentHash,
+        encryptedHash,
+        version,
+        size: contentBytes.length,
+        syncState: 'synced',
+        lastModified: Date.now(),
+      });
+      this.stateDb.recordBlobCounter(relativePath, counter);
+      this.stateDb.addSyncLog('upload', relativePath);
+    } catch (err) {
+      if (err instanceof ConflictError) {
+        // Conflict: download remote version, save local as a sidecar
+        await this.resolveConflictWithRemote(relativePath, contentBytes);
+      } else {
+        throw err;
+      }
+    }
+  }
 
-        // Update state db
-        this.stateDb.upsertFile({
-          id: existing?.id ?? randomUUID(),
-          path: relativePath,
-          contentHash,
-          encryptedHash,
-          version: result.version,
-          size: contentBytes.length,
-          syncState: 'synced',
-          lastModified: Date.now(),
-        });
-        this.stateDb.addSyncLog('upload', relativePath);
+  /**
+   * Send queued local changes to the server. Passes run one after another,
+   * so a change is never sent twice at once. With `all`, changes waiting to
+   * be retried are tried now too.
+   */
+  private drainOutbox(all = false): Promise<void> {
+    this.outboxDrain = this.outboxDrain.then(() => this.sendQueued(all)).catch(() => {
+      // The state DB closed mid-pass; the change stays queued
+    });
+    return this.outboxDrain;
+  }
+
+  /**
+   * Send the queued changes that are due, oldest first. When the server
+   * can't be reached, the change stays queued with a later retry time,
+   * doubling with each failure, and the pass stops there, as the rest would
+   * fail too. A change the server or the disk refuses is parked instead, so
+   * it doesn't hold back the others; a full sync tries it again.
+   */
+  private async sendQueued(all: boolean): Promise<void> {
+    const due = (): number => (all ? Number.MAX_SAFE_INTEGER : Date.now());
+    let entry = this.stateDb?.nextOperation(due(), 0, all);
+    for (; entry; entry = this.stateDb?.nextOperation(due(), entry.id, all)) {
+      const stateDb: SyncStateDB = this.stateDb!;
+      try {
+        if (entry.operation === 'upload') {
+          await this.pushUpload(entry.path);
+        } else {
+          await this.pushDelete(entry.path, entry.version);
+        }
+        stateDb.completeOperation(entry.id);
       } catch (err) {
-        if (err instanceof ConflictError) {
-          // Conflict: download remote version, save local as .conflict.md
-          await this.resolveConflictWithRemote(relativePath, contentBytes);
+        const message = err instanceof Error ? err.message : String(err);
+        if (err instanceof NetworkError) {
+          const delay = Math.min(OUTBOX_RETRY_BASE_MS * 2 ** entry.attempts, OUTBOX_RETRY_MAX_MS);
+          stateDb.retryOperation(entry.id, message, Date.now() + delay);
+          stateDb.addSyncLog('error', entry.path, message);
+          break;
+        }
+        if (err instanceof RollbackError) {
+          // The server offered an older copy than this device has seen; the local edit stays on disk
+          stateDb.markConflict(entry.path);
+          stateDb.addSyncLog('security', entry.path, message);
         } else {
-          throw err;
+          stateDb.addSyncLog('error', entry.path, message);
         }
+        stateDb.parkOperation(entry.id, message);
       }
+    }
+    this.scheduleOutboxRetry();
+  }
+
+  /**
+   * Delete a file on the server, unless it changed there since this device
+   * last saw it: then the newer version is kept and comes back on the next sync.
+   */
+  private async pushDelete(relativePath: string, version: number | null): Promise<void> {
+    try {
+      await this.client.deleteFile(this.remotePath(relativePath), version ?? undefined);
     } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      this.stateDb.addSyncLog('error', relativePath, message);
+      if (!(err instanceof ConflictError)) throw err;
+      this.stateDb?.removeDeletion(relativePath);
+      this.stateDb?.addSyncLog('conflict', relativePath, 'Changed remotely after it was deleted here; keeping the remote version');
+    }
+  }
+
+  /**
+   * Local content the server hasn't seen, such as an edit still queued while
+   * offline, or null if the file on disk is what was last synced or what
+   * is about to be written.
+   */
+  private async unsentContent(
+    relativePath: string,
+    tracked: SyncFile | null,
+    incoming: Uint8Array,
+  ): Promise<Uint8Array | null> {
+    let onDisk: Uint8Array;
+    try {
+      onDisk = new Uint8Array(await readFile(join(this.vaultPath, relativePath)));
+    } catch {
+      return null;
     }
+    const diskHash = hashContent(onDisk);
+    return diskHash === tracked?.contentHash || diskHash === hashContent(incoming) ? null : onDisk;
+  }
+
+  /**
+   * Whether a file is too large for this vault. Only a vault with a chunk
+   * store takes files over CHUNKED_FILE_SIZE, and team vaults have none, so
+   * such a file stays on this device and its sync log says why, once for
+   * each version of it.
+   */
+  private tooLargeToSync(relativePath: string, contentBytes: Uint8Array, contentHash: string): boolean {
+    if (contentBytes.length <= CHUNKED_FILE_SIZE || this.client.supportsChunks()) {
+      this.tooLarge.delete(relativePath);
+      return false;
+    }
+    if (this.tooLarge.get(relativePath) !== contentHash) {
+      this.tooLarge.set(relativePath, contentHash);
+      const limitMb = CHUNKED_FILE_SIZE / (1024 * 1024);
+      const message = `Not synced: team vaults take files up to ${limitMb} MB, and this one is ${(contentBytes.length / (1024 * 1024)).toFixed(1)} MB`;
+      this.stateDb?.addSyncLog('error', relativePath, message);
+      this.reportError?.(relativePath, message);
+    }
+    return true;
+  }
+
+  /** Wake up when the next queued change is due to be tried again. */
+  private scheduleOutboxRetry(): void {
+    if (this.outboxTimer) {
+      clearTimeout(this.outboxTimer);
+      this.outboxTimer = null;
+    }
+    const next = this.stateDb?.getOutbox()
+      .filter((entry) => !entry.parked)
+      .reduce((at, entry) => Math.min(at, entry.nextAttemptAt), Infinity);
+    if (next === undefined || next === Infinity) return;
+    this.outboxTimer = setTimeout(() => {
+      this.outboxTimer = null;
+      void this.drainOutbox();
+    }, Math.max(next - Date.now(), 0));
   }
 
   private async handleExtraPathChange(basePath: string, relativePath: string): Promise<void> {
@@ -206,7 +508,7 @@ export class SyncEngine {
       if (!vaultRelative) return;
 
       const content = await readFile(absolutePath);
-      const vaultDest = join(this.config.vault.path, vaultRelative);
+      const vaultDest = join(this.vaultPath, vaultRelative);
 
       // Skip if content is identical (avoid infinite loop)
       try {
@@ -228,6 +530,10 @@ export class SyncEngine {
     if (!this.stateDb) return;
 
     try {
+      // Send a change queued for this file first: an edit is merged, a deletion refused
+      if (this.stateDb.getQueuedOperation(path)) await this.drainOutbox();
+      if (!this.stateDb) return;
+
       // Clear any deletion tombstone — file is back on remote
       this.stateDb.removeDeletion(path);
 
@@ -238,24 +544,26 @@ export class SyncEngine {
       }
 
       // Download encrypted blob
-      const { data: encryptedData, version: remoteVersion, encryptedHash } =
-        await this.client.downloadFile(path);
+      const download = await this.client.downloadFile(this.remotePath(path));
+      const { version: remoteVersion, encryptedHash } = download;
 
-      // Derive file key and decrypt
+      // Derive file key and decrypt, refusing a copy older than ours
       const fileKey = deriveKeyForPath(this.vaultKey, path);
-      const decrypted = decryptFile(encryptedData, fileKey);
-
-      const absolutePath = join(this.config.vault.path, path);
+      const { plaintext: decrypted, counter } =
+        await openVaultFile(this.client, download, fileKey, path, this.stateDb.getBlobCounter(path));
 
-      // Check for local modifications
-      if (existing && existing.syncState === 'modified') {
-        // Save local as conflict file
-        const conflictPath = absolutePath.replace(/\.md$/, '.conflict.md');
-        const localContent = await readFile(absolutePath);
-        await writeFile(conflictPath, localContent);
-        this.stateDb.addSyncLog('conflict', path, 'Local changes saved as .conflict.md');
+      // Local changes not sent yet are merged or kept as a sidecar, never overwritten
+      const unsent = await this.unsentContent(path, existing, decrypted);
+      if (unsent) {
+        await this.resolveConflictWithRemote(path, unsent, { plaintext: decrypted, counter, version: remoteVersion, encryptedHash });
+        return;
       }
 
+      const absolutePath = join(this.vaultPath, path);
+
+      // An unresolved conflict stays one
+      const conflicted = existing?.syncState === 'conflict';
+
       // Write remote version to vault
       await mkdir(dirname(absolutePath), { recursive: true });
       await writeFile(absolutePath, decrypted);
@@ -278,16 +586,309 @@ export class SyncEngine {
         encryptedHash,
         version: remoteVersion,
         size: decrypted.length,
-        syncState: 'synced',
+        syncState: conflicted ? 'conflict' : 'synced',
         lastModified: Date.now(),
       });
+      this.stateDb.recordBlobCounter(path, counter);
       this.stateDb.addSyncLog('download', path);
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
-      this.stateDb.addSyncLog('error', path, message);
+      this.stateDb.addSyncLog(err instanceof RollbackError ? 'security' : 'error', path, message);
+    }
+  }
+
+  private async onRemoteFileUpdated(remotePath: string, version: number): Promise<void> {
+    if (remotePath === this.manifest.manifestId) {
+      // Switch before awaiting so deletes of migrated plaintext paths are ignored
+      const switched = !this.encryptPaths;
+      if (switched) this.enablePathEncryption();
+      try {
+        await this.manifest.refresh(version);
+        if (switched) await this.syncAll();
+      } catch (err) {
+        this.stateDb?.addSyncLog('error', remotePath, err instanceof Error ? err.message : String(err));
+      }
+      return;
+    }
+
+    const path = await this.toVaultPath(remotePath);
+    if (path && !this.isShared(path)) await this.handleRemoteUpdate(path, version);
+  }
+
+  private async onRemoteFileDeleted(remotePath: string): Promise<void> {
+    const path = await this.toVaultPath(remotePath);
+    if (path && !this.isShared(path)) await this.handleRemoteDelete(path);
+  }
+
+  /**
+   * Switch this device to opaque path IDs. Versions tracked against the
+   * plaintext paths don't carry over to the ID-addressed files, so they're
+   * reset and every file is re-fetched once.
+   */
+  private enablePathEncryption(): void {
+    this.encryptPaths = true;
+    if (this.stateDb && this.stateDb.getMeta('path_mode') !== 'encrypted') {
+      this.stateDb.resetVersions();
+      this.stateDb.setMeta('path_mode', 'encrypted');
+      this.stateDb.addSyncLog('path-encryption', '*', 'Switched to encrypted paths');
+    }
+  }
+
+  /** Whether a vault path belongs to a shared folder rather than to vault sync. */
+  private isShared(path: string): boolean {
+    return this.shares?.isShared(path) ?? false;
+  }
+
+  /**
+   * Pick up shares created or removed elsewhere. A folder that becomes shared
+   * leaves vault sync: the owner's vault copies are deleted from the server,
+   * as the share now holds the folder. Tracked state under a mount that
+   * appeared or went away belonged to the other side, so it is dropped and
+   * the next sync reconciles the folder from disk.
+   */
+  private async refreshShares(): Promise<void> {
+    if (!this.shares || !this.stateDb) return;
+
+    let changes;
+    try {
+      changes = await this.shares.refresh();
+    } catch {
+      // Offline, or a server without sharing: keep the last known mounts
+      return;
+    }
+
+    for (const mount of changes.added) {
+      if (mount.owned) {
+        const prefix = mount.mountPath + '/';
+        for (const file of this.stateDb.getAllFiles()) {
+          if (!file.path.startsWith(prefix)) continue;
+          try {
+            await this.client.deleteFile(this.remotePath(file.path));
+          } catch {
+            // Already gone, or removed by another device
+          }
+        }
+      }
+      this.stateDb.forgetFolder(mount.mountPath);
+    }
+    for (const mountPath of changes.removed) {
+      this.stateDb.forgetFolder(mountPath);
     }
   }
 
+  /**
+   * Catch up after missing events the server could no longer replay: any
+   * share, team or file may have changed while the connection was down.
+   */
+  private async resync(): Promise<void> {
+    await this.refreshShares();
+    await this.refreshTeams();
+    await this.syncAll();
+    for (const engine of this.teams.values()) {
+      await engine.syncAll();
+    }
+  }
+
+  /** Start syncing teams this account joined, and stop syncing teams it left. */
+  private async refreshTeams(): Promise<void> {
+    let teams: TeamInfo[];
+    try {
+      teams = await this.client.listTeams();
+    } catch {
+      // Offline, or a server without teams: keep syncing the known ones
+      return;
+    }
+
+    const sharingKeys = deriveSharingKeyPair(this.vaultKey);
+    for (const team of teams) {
+      if (this.teams.has(team.id)) continue;
+      try {
+        const teamKey = unwrapShareKey(hexToBytes(team.wrappedKey), sharingKeys);
+        const engine = new SyncEngine(this.config, teamKey, this.client.getToken(), team.id, (path, message) => {
+          this.stateDb?.addSyncLog('error', path, `Team "${team.name}": ${message}`);
+        });
+        this.teams.set(team.id, engine);
+        await engine.start();
+        this.stateDb?.addSyncLog('team', '', `Syncing team vault "${team.name}"`);
+      } catch (err) {
+        this.teams.delete(team.id);
+        this.stateDb?.addSyncLog('error', '', `Team "${team.name}": ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    for (const [teamId, engine] of this.teams) {
+      if (teams.some((t) => t.id === teamId)) continue;
+      this.teams.delete(teamId);
+      await engine.stop();
+      this.stateDb?.addSyncLog('team', '', 'Stopped syncing a team vault this account left');
+    }
+  }
+
+  private remotePath(path: string): string {
+    return this.encryptPaths ? this.manifest.idFor(path) : path;
+  }
+
+  /** Map a server path back to a vault path, or null if it isn't a vault file. */
+  private async toVaultPath(remotePath: string): Promise<string | null> {
+    if (remotePath === this.manifest.manifestId) return null;
+    if (!this.encryptPaths) return remotePath;
+    // Plaintext paths are left over from before migration
+    if (!PathManifest.isPathId(remotePath)) return null;
+
+    try {
+      let path = this.manifest.resolve(remotePath);
+      if (!path) {
+        await this.manifest.refresh();
+        path = this.manifest.resolve(remotePath);
+      }
+      return path ?? null;
+    } catch (err) {
+      this.stateDb?.addSyncLog('error', remotePath, err instanceof Error ? err.message : String(err));
+      return null;
+    }
+  }
+
+  /**
+   * The passphrase changed. If it was changed on this device, auth.json
+   * already holds the new auth hash and we just pick up a fresh token;
+   * otherwise this device has to log in again before it can sync.
+   */
+  private async onReauthRequired(): Promise<void> {
+    try {
+      if (await this.client.reauthenticate()) {
+        this.ws?.setToken(this.client.getToken());
+        return;
+      }
+    } catch (err) {
+      // Device revoked: onDeviceRevoked has already stopped the engine
+      if (err instanceof DeviceRevokedError) return;
+      throw err;
+    }
+    this.stateDb?.addSyncLog(
+      'error',
+      '',
+      'Passphrase changed on another device. Run "contextmate passphrase update", then restart the daemon.',
+    );
+    await this.stop();
+  }
+
+  /**
+   * This device was removed from the account. Its saved login is already
+   * cleared; stop syncing until the user logs in again.
+   */
+  private async onDeviceRevoked(): Promise<void> {
+    if (this.revoked) return;
+    this.revoked = true;
+    this.stateDb?.addSyncLog(
+      'error',
+      '',
+      'This device was removed from the account. Run "contextmate setup" to log in again, then restart the daemon.',
+    );
+    await this.stop();
+  }
+
+  /**
+   * What changed on the server since the last sync: the change feed after the
+   * saved cursor, or a full listing when there is no cursor yet, the server
+   * no longer accepts it, or the server has no change feed.
+   */
+  private async fetchRemoteChanges(): Promise<RemoteChanges> {
+    const cursor = this.stateDb?.getChangeCursor() ?? null;
+    if (cursor !== null) {
+      const feed = await this.client.getChanges(cursor);
+      if (feed) {
+        return {
+          files: feed.changes
+            .filter((c) => !c.deleted && c.version !== null)
+            .map((c) => ({
+              path: c.path,
+              version: c.version!,
+              encryptedHash: c.encryptedHash ?? '',
+              size: c.size ?? 0,
+              updatedAt: c.updatedAt,
+            })),
+          deleted: feed.changes.filter((c) => c.deleted),
+          complete: false,
+          reportsDeletions: true,
+          cursor: feed.cursor,
+        };
+      }
+    }
+    return this.listAllRemote();
+  }
+
+  /** Let the server collect tombstones this device is past, and forget the collected ones locally. */
+  private async acknowledgeChanges(cursor: number): Promise<void> {
+    try {
+      const collectedThrough = await this.client.acknowledgeChanges(cursor);
+      if (collectedThrough !== null) {
+        this.stateDb?.collectDeletions(collectedThrough);
+      }
+    } catch {
+      // Offline; acknowledged on the next sync
+    }
+  }
+
+  private async listAllRemote(): Promise<RemoteChanges> {
+    const { files, tombstones, cursor } = await this.client.listRemoteFilesWithCursor();
+    return { files, deleted: tombstones ?? [], complete: true, reportsDeletions: tombstones !== null, cursor };
+  }
+
+  /** Map path IDs back to vault paths, fetching the manifest if it lacks some of them. */
+  private async resolveRemoteChanges(remote: RemoteChanges): Promise<RemoteChanges> {
+    // Tombstones of plaintext paths from before migration never resolve
+    const ids = [...remote.files, ...remote.deleted].map((f) => f.path)
+      .filter((id) => id !== this.manifest.manifestId && PathManifest.isPathId(id));
+    if (ids.some((id) => !this.manifest.resolve(id))) {
+      await this.manifest.refresh();
+    }
+
+    const deleted: FileChange[] = [];
+    for (const change of remote.deleted) {
+      const path = this.manifest.resolve(change.path);
+      if (path) deleted.push({ ...change, path });
+    }
+    return { ...remote, files: this.manifest.resolveListing(remote.files), deleted };
+  }
+
+  /**
+   * Move files still stored under plaintext paths to their opaque IDs.
+   * Returns true if anything was found to migrate.
+   */
+  private async migrateLegacyPaths(remoteFiles: FileMetadata[]): Promise<boolean> {
+    const legacy = remoteFiles.filter(
+      (f) => f.path !== this.manifest.manifestId && !PathManifest.isPathId(f.path),
+    );
+    if (legacy.length === 0) return false;
+
+    await this.manifest.add(legacy.map((f) => f.path));
+    const remotePaths = new Set(remoteFiles.map((f) => f.path));
+
+    for (const file of legacy) {
+      try {
+        const id = this.manifest.idFor(file.path);
+        if (!remotePaths.has(id)) {
+          // File keys derive from the vault path, so the blob moves unchanged
+          const download = await this.client.downloadFile(file.path);
+          if (download.chunked) {
+            // A chunk index is only accepted through a chunk commit; its chunks are already there
+            const fileKey = deriveKeyForPath(this.vaultKey, file.path);
+            const { plaintext, counter: known } = await openVaultFile(this.client, download, fileKey, file.path, 0);
+            const { counter } = await uploadVaultFile(this.client, id, plaintext, fileKey, file.path, known, 0);
+            this.stateDb?.recordBlobCounter(file.path, counter);
+          } else {
+            await this.client.uploadFile(id, download.data, download.encryptedHash, 0);
+          }
+        }
+        await this.client.deleteFile(file.path);
+        this.stateDb?.addSyncLog('path-encryption', file.path, 'Moved to encrypted path');
+      } catch (err) {
+        this.stateDb?.addSyncLog('error', file.path, err instanceof Error ? err.message : String(err));
+      }
+    }
+    return true;
+  }
+
   private async discoverLocalFiles(dir: string, base: string): Promise<string[]> {
     const paths: string[] = [];
     let entries;
@@ -323,27 +924,70 @@ export class SyncEngine {
 
     if (!this.stateDb) return result;
 
+    // Changes queued while the server was unreachable go first, without waiting out their backoff
+    await this.drainOutbox(true);
+    if (!this.stateDb) return result;
+
     try {
-      // Get remote file list
-      const remoteFiles = await this.client.listRemoteFiles();
-      const localFiles = this.stateDb.getAllFiles();
+      let remote = await this.fetchRemoteChanges();
+
+      // A manifest on the server means another device turned on path encryption
+      if (await this.manifest.sync(remote.files) && !this.encryptPaths) {
+        this.enablePathEncryption();
+        // Versions were reset, so every file has to be looked at again
+        remote = await this.listAllRemote();
+      }
+      if (this.encryptPaths) {
+        // Plaintext paths from a device that hasn't switched yet are moved using a full listing
+        const hasLegacy = remote.files.some((f) => f.path !== this.manifest.manifestId && !PathManifest.isPathId(f.path));
+        if (!remote.complete && hasLegacy) {
+          remote = await this.listAllRemote();
+        }
+        if (remote.complete && await this.migrateLegacyPaths(remote.files)) {
+          remote = await this.listAllRemote();
+        }
+        remote = await this.resolveRemoteChanges(remote);
+      }
+      const remoteFiles = remote.files.filter((f) => !this.isShared(f.path));
+      const remoteDeleted = new Map(remote.deleted.filter((d) => !this.isShared(d.path)).map((d) => [d.path, d]));
+
+      const localFiles = this.stateDb.getAllFiles().filter((f) => !this.isShared(f.path));
       const localFileMap = new Map(localFiles.map((f) => [f.path, f]));
       const remoteFileMap = new Map(remoteFiles.map((f) => [f.path, f]));
 
+      // Whether the server deleted the version of a file this device tracks
+      const deletedRemotely = (tracked: SyncFile): boolean => {
+        const tombstone = remoteDeleted.get(tracked.path);
+        if (tombstone) return tombstone.version === null || tombstone.version >= tracked.version;
+        return remote.complete && !remote.reportsDeletions && !remoteFileMap.has(tracked.path);
+      };
+      // Tracked, but the server has neither the file nor a deletion of this
+      // version, e.g. after it was restored from a backup: upload it again
+      const lostRemotely = (tracked: SyncFile): boolean =>
+        !remoteFileMap.has(tracked.path)
+        && !deletedRemotely(tracked)
+        && (remoteDeleted.has(tracked.path) || (remote.complete && remote.reportsDeletions));
+
       // Re-import extra paths to catch new files
       if (this.extraPathsManager) {
         await this.extraPathsManager.importToVault();
       }
 
       // Discover all local files on disk and reconcile with state DB
-      const localDiskFiles = await this.discoverLocalFiles(this.config.vault.path, this.config.vault.path);
+      const localDiskFiles = (await this.discoverLocalFiles(this.vaultPath, this.vaultPath))
+        .filter((p) => !this.isShared(p));
+      if (this.encryptPaths) {
+        await this.manifest.add(localDiskFiles.filter((p) => !isConflictSidecar(p) && !this.stateDb!.isDeletion(p)));
+      }
+      // Read every new or modified file first, so they can be uploaded in batches
+      const uploads: PendingUpload[] = [];
       for (const filePath of localDiskFiles) {
-        if (filePath.endsWith('.conflict.md')) continue;
+        if (isConflictSidecar(filePath)) continue;
 
         // Skip files that were deleted remotely — adapter may have recreated them
         if (this.stateDb.isDeletion(filePath)) {
           try {
-            await unlink(join(this.config.vault.path, filePath));
+            await unlink(join(this.vaultPath, filePath));
           } catch {
             // Already gone
           }
@@ -351,66 +995,40 @@ export class SyncEngine {
         }
 
         try {
-          const absolutePath = join(this.config.vault.path, filePath);
+          const absolutePath = join(this.vaultPath, filePath);
           const content = await readFile(absolutePath);
           const contentBytes = new Uint8Array(content);
           const contentHash = hashContent(contentBytes);
+          if (this.tooLargeToSync(filePath, contentBytes, contentHash)) continue;
 
           const tracked = localFileMap.get(filePath);
 
+          const lost = tracked !== undefined && lostRemotely(tracked);
+
           // Skip if tracked and content unchanged
-          if (tracked && tracked.contentHash === contentHash) continue;
+          if (tracked && tracked.contentHash === contentHash && !lost) continue;
 
           // Skip untracked files that exist on remote (will be handled by pull logic)
           if (!tracked && remoteFileMap.has(filePath)) continue;
 
-          // New or modified file — upload it
-          const fileKey = deriveKeyForPath(this.vaultKey, filePath);
-          const encrypted = encryptFile(contentBytes, fileKey);
-          const encryptedHash = hashContent(encrypted);
-
-          const currentVersion = tracked?.version ?? 0;
-          const uploadResult = await this.client.uploadFile(
-            filePath,
-            encrypted,
-            encryptedHash,
-            currentVersion,
-          );
-
-          this.stateDb.upsertFile({
-            id: tracked?.id ?? randomUUID(),
+          uploads.push({ path: filePath, contentBytes, contentHash, tracked, version: lost ? 0 : tracked?.version ?? 0 });
+        } catch (err) {
+          result.errors.push({
             path: filePath,
-            contentHash,
-            encryptedHash,
-            version: uploadResult.version,
-            size: contentBytes.length,
-            syncState: 'synced',
-            lastModified: Date.now(),
+            error: err instanceof Error ? err.message : String(err),
           });
-          this.stateDb.addSyncLog('upload', filePath);
-          result.uploaded.push(filePath);
-        } catch (err) {
-          if (err instanceof ConflictError) {
-            result.conflicts.push(filePath);
-            const tracked = localFileMap.get(filePath);
-            if (tracked) this.stateDb.markConflict(filePath);
-          } else {
-            result.errors.push({
-              path: filePath,
-              error: err instanceof Error ? err.message : String(err),
-            });
-          }
         }
       }
+      await this.uploadAll(uploads, result);
 
       // Remove files that were deleted remotely while we were offline
       for (const local of localFiles) {
-        if (!remoteFileMap.has(local.path)) {
+        if (deletedRemotely(local)) {
           // File is tracked locally but no longer on remote — it was deleted
           this.stateDb.removeFile(local.path);
           this.stateDb.addDeletion(local.path);
           try {
-            const absolutePath = join(this.config.vault.path, local.path);
+            const absolutePath = join(this.vaultPath, local.path);
             await unlink(absolutePath);
           } catch {
             // File may already be missing from disk
@@ -420,74 +1038,225 @@ export class SyncEngine {
       }
 
       // Pull remote changes
+      const pulls: FileMetadata[] = [];
       for (const remote of remoteFiles) {
         // Skip files with deletion tombstones — pending server DELETE
         if (this.stateDb.isDeletion(remote.path)) continue;
 
-        const local = localFileMap.get(remote.path);
+        // Re-read state: conflict resolution above may have pulled this already
+        const local = this.stateDb.getFile(remote.path);
 
         // Skip if we already have this version
         if (local && local.version >= remote.version) {
           continue;
         }
 
-        try {
-          const { data: encryptedData, version: remoteVersion, encryptedHash } =
-            await this.client.downloadFile(remote.path);
+        pulls.push(remote);
+      }
+      await this.downloadAll(pulls, result);
 
-          const fileKey = deriveKeyForPath(this.vaultKey, remote.path);
-          const decrypted = decryptFile(encryptedData, fileKey);
+      // Deletions the server has a tombstone for can be forgotten once it's collected
+      for (const tombstone of remoteDeleted.values()) {
+        this.stateDb.confirmDeletion(tombstone.path, tombstone.seq);
+      }
 
-          const absolutePath = join(this.config.vault.path, remote.path);
+      // Only move past changes that were all applied; failures are retried next time
+      if (result.errors.length === 0) {
+        this.stateDb.setChangeCursor(remote.cursor);
+        if (remote.cursor !== null) {
+          await this.acknowledgeChanges(remote.cursor);
+        }
+      }
+    } catch (err) {
+      result.errors.push({
+        path: '*',
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
 
-          // Check for local conflict
-          if (local && local.syncState === 'modified') {
-            const conflictPath = absolutePath.replace(/\.md$/, '.conflict.md');
-            const localContent = await readFile(absolutePath);
-            await writeFile(conflictPath, localContent);
-            result.conflicts.push(remote.path);
-            this.stateDb.addSyncLog('conflict', remote.path, 'Local changes saved as .conflict.md');
-          }
+    await this.shares?.syncAll(result);
 
-          await mkdir(dirname(absolutePath), { recursive: true });
-          await writeFile(absolutePath, decrypted);
+    return result;
+  }
 
-          // If this is an extra-path file, write back to original source
-          if (this.extraPathsManager && remote.path.startsWith('custom/')) {
-            try {
-              await this.extraPathsManager.writeBackToSource(remote.path, decrypted);
-            } catch {
-              // Source location may not exist on this device
-            }
-          }
+  /**
+   * Upload new and modified files found by a full sync. Small files go up in
+   * batches and large ones on their own, a few requests at a time; files the
+   * server rejects as conflicts are resolved one by one afterwards.
+   */
+  private async uploadAll(uploads: PendingUpload[], result: SyncResult): Promise<void> {
+    if (!this.stateDb) return;
+    const stateDb = this.stateDb;
+    const conflicts: PendingUpload[] = [];
+
+    const send = async (
+      files: PendingUpload[],
+      upload: () => Promise<Array<UploadedVaultFile | Error>>,
+    ): Promise<void> => {
+      let outcomes: Array<UploadedVaultFile | Error>;
+      try {
+        outcomes = await upload();
+      } catch (err) {
+        outcomes = files.map(() => (err instanceof Error ? err : new Error(String(err))));
+      }
 
-          const contentHash = hashContent(decrypted);
-          this.stateDb.upsertFile({
-            id: local?.id ?? randomUUID(),
-            path: remote.path,
-            contentHash,
-            encryptedHash,
-            version: remoteVersion,
-            size: decrypted.length,
+      for (const [i, file] of files.entries()) {
+        const outcome = outcomes[i]!;
+        if (outcome instanceof ConflictError) {
+          conflicts.push(file);
+        } else if (outcome instanceof Error) {
+          result.errors.push({ path: file.path, error: outcome.message });
+        } else {
+          stateDb.upsertFile({
+            id: file.tracked?.id ?? randomUUID(),
+            path: file.path,
+            contentHash: file.contentHash,
+            encryptedHash: outcome.encryptedHash,
+            version: outcome.version,
+            size: file.contentBytes.length,
             syncState: 'synced',
             lastModified: Date.now(),
           });
-          result.downloaded.push(remote.path);
-        } catch (err) {
-          result.errors.push({
-            path: remote.path,
-            error: err instanceof Error ? err.message : String(err),
-          });
+          stateDb.recordBlobCounter(file.path, outcome.counter);
+          stateDb.addSyncLog('upload', file.path);
+          result.uploaded.push(file.path);
         }
       }
+    };
+
+    const toVaultUpload = (file: PendingUpload): VaultUpload => ({
+      remotePath: this.remotePath(file.path),
+      plaintext: file.contentBytes,
+      key: deriveKeyForPath(this.vaultKey, file.path),
+      path: file.path,
+      known: stateDb.getBlobCounter(file.path),
+      version: file.version,
+    });
+
+    const small = uploads.filter((file) => file.contentBytes.length <= CHUNKED_FILE_SIZE);
+    const large = uploads.filter((file) => file.contentBytes.length > CHUNKED_FILE_SIZE);
+    const tasks = [
+      ...makeBatches(small, (file) => file.contentBytes.length).map((batch) => () =>
+        send(batch, () => uploadVaultFiles(this.client, batch.map(toVaultUpload)))),
+      ...large.map((file) => () => send([file], async () => {
+        const upload = toVaultUpload(file);
+        return [await uploadVaultFile(
+          this.client, upload.remotePath, upload.plaintext, upload.key, upload.path, upload.known, upload.version,
+        )];
+      })),
+    ];
+    await runConcurrently(tasks, TRANSFER_CONCURRENCY, (task) => task());
+
+    for (const file of conflicts) {
+      try {
+        const merged = await this.resolveConflictWithRemote(file.path, file.contentBytes);
+        if (!merged) result.conflicts.push(file.path);
+      } catch (err) {
+        result.errors.push({
+          path: file.path,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  }
+
+  /**
+   * Download remote files a full sync found newer than this device's copies.
+   * Small files come down in batches and large ones on their own, a few
+   * requests at a time.
+   */
+  private async downloadAll(pulls: FileMetadata[], result: SyncResult): Promise<void> {
+    const receive = async (files: FileMetadata[], download: () => Promise<Array<VaultDownload | Error>>): Promise<void> => {
+      let downloads: Array<VaultDownload | Error>;
+      try {
+        downloads = await download();
+      } catch (err) {
+        downloads = files.map(() => (err instanceof Error ? err : new Error(String(err))));
+      }
+      for (const [i, remote] of files.entries()) {
+        await this.applyDownload(remote, downloads[i]!, result);
+      }
+    };
+
+    const small = pulls.filter((remote) => remote.size <= CHUNKED_FILE_SIZE);
+    const large = pulls.filter((remote) => remote.size > CHUNKED_FILE_SIZE);
+    const tasks = [
+      ...makeBatches(small, (remote) => remote.size).map((batch) => () =>
+        receive(batch, () => downloadVaultFiles(this.client, batch.map((remote) => this.remotePath(remote.path))))),
+      ...large.map((remote) => () =>
+        receive([remote], async () => [await this.client.downloadFile(this.remotePath(remote.path))])),
+    ];
+    await runConcurrently(tasks, TRANSFER_CONCURRENCY, (task) => task());
+  }
+
+  /** Open a downloaded remote file and write it to the vault, keeping local changes as a conflict. */
+  private async applyDownload(
+    remote: FileMetadata,
+    download: VaultDownload | Error,
+    result: SyncResult,
+  ): Promise<void> {
+    if (!this.stateDb) return;
+    const local = this.stateDb.getFile(remote.path);
+
+    try {
+      if (download instanceof Error) throw download;
+      const { version: remoteVersion, encryptedHash } = download;
+
+      const fileKey = deriveKeyForPath(this.vaultKey, remote.path);
+      const { plaintext: decrypted, counter } =
+        await openVaultFile(this.client, download, fileKey, remote.path, this.stateDb.getBlobCounter(remote.path));
+
+      // Local changes not sent yet are merged or kept as a sidecar, never overwritten
+      const unsent = await this.unsentContent(remote.path, local, decrypted);
+      if (unsent) {
+        const merged = await this.resolveConflictWithRemote(
+          remote.path,
+          unsent,
+          { plaintext: decrypted, counter, version: remoteVersion, encryptedHash },
+        );
+        if (!merged) result.conflicts.push(remote.path);
+        return;
+      }
+
+      const absolutePath = join(this.vaultPath, remote.path);
+
+      // An unresolved conflict stays one
+      const conflicted = local?.syncState === 'conflict';
+
+      await mkdir(dirname(absolutePath), { recursive: true });
+      await writeFile(absolutePath, decrypted);
+
+      // If this is an extra-path file, write back to original source
+      if (this.extraPathsManager && remote.path.startsWith('custom/')) {
+        try {
+          await this.extraPathsManager.writeBackToSource(remote.path, decrypted);
+        } catch {
+          // Source location may not exist on this device
+        }
+      }
+
+      const contentHash = hashContent(decrypted);
+      this.stateDb.upsertFile({
+        id: local?.id ?? randomUUID(),
+        path: remote.path,
+        contentHash,
+        encryptedHash,
+        version: remoteVersion,
+        size: decrypted.length,
+        syncState: conflicted ? 'conflict' : 'synced',
+        lastModified: Date.now(),
+      });
+      this.stateDb.recordBlobCounter(remote.path, counter);
+      result.downloaded.push(remote.path);
     } catch (err) {
+      if (err instanceof RollbackError) {
+        this.stateDb.addSyncLog('security', remote.path, err.message);
+      }
       result.errors.push({
-        path: '*',
+        path: remote.path,
         error: err instanceof Error ? err.message : String(err),
       });
     }
-
-    return result;
   }
 
   /** Public API for adapters to propagate workspace deletions to server. */
@@ -498,18 +1267,20 @@ export class SyncEngine {
   private async handleLocalDelete(relativePath: string): Promise<void> {
     if (!this.stateDb) return;
 
+    if (this.isShared(relativePath)) {
+      await this.shares?.handleLocalDelete(relativePath);
+      return;
+    }
+
     // Record tombstone FIRST to prevent syncAll() from re-downloading
+    const tracked = this.stateDb.getFile(relativePath);
     this.stateDb.addDeletion(relativePath);
     this.stateDb.removeFile(relativePath);
-
-    // Propagate deletion to server
-    try {
-      await this.client.deleteFile(relativePath);
-    } catch {
-      // Server may be unreachable or file already gone
-    }
-
     this.stateDb.addSyncLog('delete', relativePath, 'Local file removed');
+
+    // Propagate deletion to server, retried until it gets there, of the version seen here
+    this.stateDb.queueOperation('delete', relativePath, tracked?.version ?? null);
+    await this.drainOutbox();
   }
 
   private async handleRemoteDelete(path: string): Promise<void> {
@@ -519,7 +1290,7 @@ export class SyncEngine {
 
     // Delete the local vault file so syncAll() doesn't re-upload it
     try {
-      const absolutePath = join(this.config.vault.path, path);
+      const absolutePath = join(this.vaultPath, path);
       await unlink(absolutePath);
     } catch {
       // File may already be missing
@@ -528,24 +1299,68 @@ export class SyncEngine {
     this.stateDb.addSyncLog('delete', path, 'Remote file deleted');
   }
 
+  /**
+   * Handle a rejected upload. Markdown files are three-way merged with the
+   * remote version when possible; otherwise the local copy is kept as a
+   * conflict sidecar and the remote version is written. Returns true if
+   * the changes were merged.
+   */
   private async resolveConflictWithRemote(
     relativePath: string,
     localContent: Uint8Array,
-  ): Promise<void> {
-    if (!this.stateDb) return;
+    remote?: RemoteCopy,
+  ): Promise<boolean> {
+    if (!this.stateDb) return false;
 
-    const absolutePath = join(this.config.vault.path, relativePath);
+    const absolutePath = join(this.vaultPath, relativePath);
+    const fileKey = deriveKeyForPath(this.vaultKey, relativePath);
 
-    // Save local content as conflict file
-    const conflictPath = absolutePath.replace(/\.md$/, '.conflict.md');
-    await writeFile(conflictPath, localContent);
+    // Download remote version, unless the caller just did
+    if (!remote) {
+      const download = await this.client.downloadFile(this.remotePath(relativePath));
+      const opened =
+        await openVaultFile(this.client, download, fileKey, relativePath, this.stateDb.getBlobCounter(relativePath));
+      remote = { ...opened, version: download.version, encryptedHash: download.encryptedHash };
+    }
+    const { plaintext: decrypted, counter: remoteCounter, version: remoteVersion, encryptedHash } = remote;
 
-    // Download and write remote version
-    const { data: encryptedData, version: remoteVersion, encryptedHash } =
-      await this.client.downloadFile(relativePath);
+    const merged = await this.mergeWithBase(relativePath, localContent, decrypted);
+    if (merged) {
+      try {
+        const { version, encryptedHash: mergedHash, counter } = await uploadVaultFile(
+          this.client,
+          this.remotePath(relativePath),
+          merged,
+          fileKey,
+          relativePath,
+          remoteCounter,
+          remoteVersion,
+        );
 
-    const fileKey = deriveKeyForPath(this.vaultKey, relativePath);
-    const decrypted = decryptFile(encryptedData, fileKey);
+        const existing = this.stateDb.getFile(relativePath);
+        this.stateDb.upsertFile({
+          id: existing?.id ?? randomUUID(),
+          path: relativePath,
+          contentHash: hashContent(merged),
+          encryptedHash: mergedHash,
+          version,
+          size: merged.length,
+          syncState: 'synced',
+          lastModified: Date.now(),
+        });
+        this.stateDb.recordBlobCounter(relativePath, counter);
+        await writeFile(absolutePath, merged);
+        this.stateDb.addSyncLog('merge', relativePath, `Local changes merged with remote version ${remoteVersion}`);
+        return true;
+      } catch (err) {
+        // Remote changed again while merging: fall back to a sidecar
+        if (!(err instanceof ConflictError)) throw err;
+      }
+    }
+
+    // Save local content as conflict file
+    const conflictPath = conflictSidecarPath(absolutePath);
+    await writeFile(conflictPath, localContent);
 
     await writeFile(absolutePath, decrypted);
 
@@ -561,6 +1376,42 @@ export class SyncEngine {
       syncState: 'conflict',
       lastModified: Date.now(),
     });
-    this.stateDb.addSyncLog('conflict', relativePath, 'Local changes saved as .conflict.md, remote version written');
+    this.stateDb.recordBlobCounter(relativePath, remoteCounter);
+    this.stateDb.addSyncLog(
+      'conflict',
+      relativePath,
+      `Local changes saved as ${relative(this.vaultPath, conflictPath)}, remote version written`,
+    );
+    return false;
+  }
+
+  /**
+   * Three-way merge for markdown files. The base is the last-synced version,
+   * fetched from server history and checked against the contentHash recorded
+   * in the state DB. Returns null if there is no usable base or the edits overlap.
+   */
+  private async mergeWithBase(
+    relativePath: string,
+    localContent: Uint8Array,
+    remoteContent: Uint8Array,
+  ): Promise<Uint8Array | null> {
+    if (!this.stateDb || !relativePath.endsWith('.md')) return null;
+
+    const synced = this.stateDb.getFile(relativePath);
+    if (!synced || synced.version === 0) return null;
+
+    try {
+      const download = await this.client.downloadVersion(this.remotePath(relativePath), synced.version);
+      const { plaintext: base } =
+        await openVaultFile(this.client, download, deriveKeyForPath(this.vaultKey, relativePath), relativePath, 0);
+      if (hashContent(base) !== synced.contentHash) return null;
+
+      const decoder = new TextDecoder('utf-8', { fatal: true });
+      const merged = mergeText(decoder.decode(base), decoder.decode(localContent), decoder.decode(remoteContent));
+      return merged === null ? null : new TextEncoder().encode(merged);
+    } catch {
+      // Base version no longer in history, or not valid UTF-8
+      return null;
+    }
   }
 }
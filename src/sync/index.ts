@@ -1,6 +1,8 @@
 export { SyncEngine } from './engine.js';
 export { SyncStateDB } from './state.js';
 export { FileWatcher } from './watcher.js';
-export { SyncClient, ConflictError } from './client.js';
+export { SyncClient, ConflictError, NetworkError } from './client.js';
+export { RollbackError, sealFile, openFile, uploadVaultFile, uploadVaultFiles, openVaultFile, downloadVaultFiles } from './blobs.js';
 export { SyncWebSocket } from './websocket.js';
 export { ExtraPathsManager } from './extra-paths.js';
+export { PathManifest, MANIFEST_PATH } from './manifest.js';
@@ -0,0 +1,122 @@
+import { SyncClient, ConflictError } from './client.js';
+import { encryptFile, decryptFile, hashContent, deriveKeyForPath, encryptPathId } from '../crypto/index.js';
+import type { FileMetadata } from '../types.js';
+
+/** Vault path the manifest is stored under (its key and ID derive from it). */
+export const MANIFEST_PATH = '.contextmate/path-manifest';
+
+const PATH_ID_PATTERN = /^[0-9a-f]{64}$/;
+const MAX_SAVE_ATTEMPTS = 3;
+
+interface ManifestData {
+  version: 1;
+  paths: Record<string, string>;
+}
+
+/**
+ * Encrypted mapping from opaque path IDs back to vault paths. Stored on the
+ * server as just another encrypted file, so the server only ever sees IDs.
+ * Entries are only ever added, which lets concurrent writers merge by union.
+ */
+export class PathManifest {
+  readonly manifestId: string;
+  private readonly client: SyncClient;
+  private readonly vaultKey: Uint8Array;
+  private readonly paths = new Map<string, string>();
+  private readonly ids = new Map<string, string>();
+  private remoteVersion = 0;
+
+  constructor(client: SyncClient, vaultKey: Uint8Array) {
+    this.client = client;
+    this.vaultKey = vaultKey;
+    this.manifestId = encryptPathId(vaultKey, MANIFEST_PATH);
+  }
+
+  static isPathId(remotePath: string): boolean {
+    return PATH_ID_PATTERN.test(remotePath);
+  }
+
+  idFor(path: string): string {
+    let id = this.ids.get(path);
+    if (!id) {
+      id = encryptPathId(this.vaultKey, path);
+      this.ids.set(path, id);
+    }
+    return id;
+  }
+
+  resolve(id: string): string | undefined {
+    return this.paths.get(id);
+  }
+
+  /**
+   * Pick up the manifest from a remote listing. Returns true if the server
+   * has a manifest, i.e. path encryption is in use for this vault.
+   */
+  async sync(remoteFiles: FileMetadata[]): Promise<boolean> {
+    const entry = remoteFiles.find((f) => f.path === this.manifestId);
+    if (!entry) return false;
+    await this.refresh(entry.version);
+    return true;
+  }
+
+  /** Download the manifest if the remote copy is newer than ours (or unknown). */
+  async refresh(remoteVersion?: number): Promise<void> {
+    if (remoteVersion !== undefined && remoteVersion <= this.remoteVersion) return;
+
+    const { data, version } = await this.client.downloadFile(this.manifestId);
+    const decrypted = decryptFile(data, deriveKeyForPath(this.vaultKey, MANIFEST_PATH));
+    const parsed = JSON.parse(new TextDecoder().decode(decrypted)) as ManifestData;
+
+    for (const [id, path] of Object.entries(parsed.paths)) {
+      this.paths.set(id, path);
+      this.ids.set(path, id);
+    }
+    this.remoteVersion = version;
+  }
+
+  /** Make sure every path has a manifest entry on the server before it's uploaded. */
+  async add(paths: string[]): Promise<void> {
+    let changed = false;
+    for (const path of paths) {
+      const id = this.idFor(path);
+      if (!this.paths.has(id)) {
+        this.paths.set(id, path);
+        changed = true;
+      }
+    }
+    if (changed) await this.save();
+  }
+
+  /** Resolve a remote listing into vault paths, leaving out the manifest itself. */
+  resolveListing(remoteFiles: FileMetadata[]): FileMetadata[] {
+    const resolved: FileMetadata[] = [];
+    for (const file of remoteFiles) {
+      if (file.path === this.manifestId) continue;
+      const path = this.resolve(file.path);
+      if (path) resolved.push({ ...file, path });
+    }
+    return resolved;
+  }
+
+  private async save(): Promise<void> {
+    for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+      const data: ManifestData = { version: 1, paths: Object.fromEntries(this.paths) };
+      const encrypted = encryptFile(
+        new TextEncoder().encode(JSON.stringify(data)),
+        deriveKeyForPath(this.vaultKey, MANIFEST_PATH),
+      );
+
+      try {
+        const result = await this.client.uploadFile(this.manifestId, encrypted, hashContent(encrypted), this.remoteVersion);
+        this.remoteVersion = result.version;
+        return;
+      } catch (err) {
+        if (!(err instanceof ConflictError)) throw err;
+        // Another device saved first: merge its entries into ours and retry
+        await this.refresh();
+      }
+    }
+    throw new Error('Could not save path manifest: too many concurrent updates');
+  }
+}
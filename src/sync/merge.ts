@@ -0,0 +1,183 @@
+/** Above this many base×side lines we don't attempt a diff and report a conflict. */
+const MAX_DIFF_CELLS = 4_000_000;
+
+interface Hunk {
+  /** Replaced base lines are [baseStart, baseEnd); empty for pure insertions. */
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+  side: 'local' | 'remote';
+}
+
+/**
+ * Line-based three-way merge. Changes from each side are applied to the
+ * base; where both sides inserted at the same point (e.g. two devices
+ * appending to the same daily log) both insertions are kept, local first.
+ * Returns null when both sides changed the same lines differently.
+ */
+export function mergeText(base: string, local: string, remote: string): string | null {
+  if (local === remote) return local;
+  if (local === base) return remote;
+  if (remote === base) return local;
+
+  const baseLines = base.split('\n');
+  const localHunks = diffLines(baseLines, local.split('\n'), 'local');
+  const remoteHunks = diffLines(baseLines, remote.split('\n'), 'remote');
+  if (!localHunks || !remoteHunks) return null;
+
+  const hunks = [...localHunks, ...remoteHunks].sort(
+    (a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd,
+  );
+
+  const out: string[] = [];
+  let basePos = 0;
+  let i = 0;
+
+  while (i < hunks.length) {
+    // Grow a cluster of hunks that touch the same base region
+    const cluster: Hunk[] = [hunks[i]!];
+    let start = hunks[i]!.baseStart;
+    let end = hunks[i]!.baseEnd;
+    i++;
+    while (i < hunks.length && overlaps(hunks[i]!, start, end)) {
+      start = Math.min(start, hunks[i]!.baseStart);
+      end = Math.max(end, hunks[i]!.baseEnd);
+      cluster.push(hunks[i]!);
+      i++;
+    }
+
+    out.push(...baseLines.slice(basePos, start));
+    basePos = end;
+
+    const localSide = cluster.filter((h) => h.side === 'local');
+    const remoteSide = cluster.filter((h) => h.side === 'remote');
+    if (localSide.length === 0 || remoteSide.length === 0) {
+      out.push(...applyHunks(baseLines, start, end, cluster));
+      continue;
+    }
+
+    const localRegion = applyHunks(baseLines, start, end, localSide);
+    const remoteRegion = applyHunks(baseLines, start, end, remoteSide);
+
+    if (sameLines(localRegion, remoteRegion)) {
+      out.push(...localRegion);
+    } else if (start === end) {
+      // Both sides only inserted here; keep both unless one contains the other
+      if (startsWith(remoteRegion, localRegion)) out.push(...remoteRegion);
+      else if (startsWith(localRegion, remoteRegion)) out.push(...localRegion);
+      else out.push(...localRegion, ...remoteRegion);
+    } else {
+      return null;
+    }
+  }
+
+  out.push(...baseLines.slice(basePos));
+  return out.join('\n');
+}
+
+function overlaps(hunk: Hunk, start: number, end: number): boolean {
+  const s = hunk.baseStart;
+  const e = hunk.baseEnd;
+  // Replaced ranges share at least one base line
+  if (Math.max(s, start) < Math.min(e, end)) return true;
+  // Insertions at the same point, or inside the other side's replaced range
+  if (s === e && start === end) return s === start;
+  if (s === e) return start < s && s < end;
+  if (start === end) return s < start && start < e;
+  return false;
+}
+
+function applyHunks(baseLines: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const out: string[] = [];
+  let pos = start;
+  for (const hunk of hunks) {
+    out.push(...baseLines.slice(pos, hunk.baseStart));
+    out.push(...hunk.lines);
+    pos = Math.max(pos, hunk.baseEnd);
+  }
+  out.push(...baseLines.slice(pos, end));
+  return out;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+function startsWith(lines: string[], prefix: string[]): boolean {
+  return prefix.length <= lines.length && prefix.every((line, i) => line === lines[i]);
+}
+
+/** Diff base against one side as a list of hunks, via LCS on the differing middle. */
+function diffLines(base: string[], other: string[], side: Hunk['side']): Hunk[] | null {
+  let prefix = 0;
+  while (prefix < base.length && prefix < other.length && base[prefix] === other[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    suffix < other.length - prefix &&
+    base[base.length - 1 - suffix] === other[other.length - 1 - suffix]
+  ) suffix++;
+
+  const a = base.slice(prefix, base.length - suffix);
+  const b = other.slice(prefix, other.length - suffix);
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) return null;
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1]! + 1
+        : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) {
+      current = { baseStart: prefix + i, baseEnd: prefix + i, lines: [], side };
+      hunks.push(current);
+    }
+    if (j < b.length && (i >= a.length || lcs[i * width + j + 1]! >= lcs[(i + 1) * width + j]!)) {
+      current.lines.push(b[j]!);
+      j++;
+    } else {
+      i++;
+      current.baseEnd = prefix + i;
+    }
+  }
+  return hunks;
+}
+
+export interface DiffLine {
+  type: 'same' | 'removed' | 'added';
+  line: string;
+}
+
+/** Line diff from one text to another, or null if the texts are too large to diff. */
+export function diffText(from: string, to: string): DiffLine[] | null {
+  const fromLines = from.split('\n');
+  const hunks = diffLines(fromLines, to.split('\n'), 'local');
+  if (!hunks) return null;
+
+  const out: DiffLine[] = [];
+  let pos = 0;
+  for (const hunk of hunks) {
+    for (const line of fromLines.slice(pos, hunk.baseStart)) out.push({ type: 'same', line });
+    for (const line of fromLines.slice(hunk.baseStart, hunk.baseEnd)) out.push({ type: 'removed', line });
+    for (const line of hunk.lines) out.push({ type: 'added', line });
+    pos = hunk.baseEnd;
+  }
+  for (const line of fromLines.slice(pos)) out.push({ type: 'same', line });
+  return out;
+}
@@ -0,0 +1,313 @@
+import { readFile, writeFile, mkdir, readdir, stat, unlink } from 'node:fs/promises';
+import { join, dirname, relative } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import type { SyncClient } from './client.js';
+import { ConflictError } from './client.js';
+import type { SyncStateDB } from './state.js';
+import { RollbackError, sealFile, openFile } from './blobs.js';
+import { conflictSidecarPath, isConflictSidecar } from './sidecars.js';
+import {
+  hashContent,
+  unwrapShareKey,
+  deriveKeyForSharedPath,
+  type DeviceKeyPair,
+} from '../crypto/index.js';
+import type { OwnedShareInfo, ReceivedShareInfo, SyncResult } from '../types.js';
+
+/** Received shares are mounted below this vault folder, which vault sync leaves alone. */
+export const SHARED_ROOT = 'shared';
+
+const MOUNTS_META_KEY = 'share_mounts';
+
+/** A shared folder as it appears in this vault. */
+export interface ShareMount {
+  shareId: string;
+  /** Vault path of the folder: where the owner keeps it, or shared/<owner>/<folder>. */
+  mountPath: string;
+  owned: boolean;
+  writable: boolean;
+  wrappedKey: string;
+}
+
+export function mountPathFor(share: ReceivedShareInfo): string {
+  return `${SHARED_ROOT}/${share.ownerId}/${share.folder}`;
+}
+
+export function toMounts(shares: { owned: OwnedShareInfo[]; received: ReceivedShareInfo[] }): ShareMount[] {
+  return [
+    ...shares.owned.map((s) => ({
+      shareId: s.id,
+      mountPath: s.folder,
+      owned: true,
+      writable: true,
+      wrappedKey: s.wrappedKey,
+    })),
+    ...shares.received.map((s) => ({
+      shareId: s.id,
+      mountPath: mountPathFor(s),
+      owned: false,
+      writable: s.permissions === 'read-write',
+      wrappedKey: s.wrappedKey,
+    })),
+  ];
+}
+
+export function isUnder(path: string, folder: string): boolean {
+  return path === folder || path.startsWith(folder + '/');
+}
+
+/** Mounts saved by the last refresh, so shared folders are known while offline. */
+export function savedMounts(stateDb: SyncStateDB): ShareMount[] {
+  const saved = stateDb.getMeta(MOUNTS_META_KEY);
+  return saved ? (JSON.parse(saved) as ShareMount[]) : [];
+}
+
+export function findMount(mounts: readonly ShareMount[], path: string): ShareMount | null {
+  return mounts.find((m) => isUnder(path, m.mountPath)) ?? null;
+}
+
+async function listFiles(dir: string, base: string): Promise<string[]> {
+  const paths: string[] = [];
+  let entries;
+  try {
+    entries = await readdir(dir);
+  } catch {
+    return paths;
+  }
+  for (const name of entries) {
+    if (name.startsWith('.') || name === 'node_modules') continue;
+    const full = join(dir, name);
+    try {
+      const s = await stat(full);
+      if (s.isDirectory()) {
+        paths.push(...await listFiles(full, base));
+      } else if (s.isFile()) {
+        paths.push(relative(base, full));
+      }
+    } catch {
+      // Skip inaccessible entries
+    }
+  }
+  return paths;
+}
+
+/**
+ * Syncs shared folders. Their files live in the share on the server,
+ * encrypted with the share's own key, so vault sync skips every mounted
+ * folder and everything under shared/. State is tracked in the same state DB,
+ * by vault path, with versions counted by the share.
+ */
+export class ShareSync {
+  private readonly client: SyncClient;
+  private readonly stateDb: SyncStateDB;
+  private readonly vaultPath: string;
+  private readonly sharingKeys: DeviceKeyPair;
+  private mounts: ShareMount[];
+  private readonly keys = new Map<string, Uint8Array>();
+
+  constructor(client: SyncClient, stateDb: SyncStateDB, vaultPath: string, sharingKeys: DeviceKeyPair) {
+    this.client = client;
+    this.stateDb = stateDb;
+    this.vaultPath = vaultPath;
+    this.sharingKeys = sharingKeys;
+
+    // Last known mounts, so shared folders stay out of vault sync while offline
+    this.mounts = savedMounts(stateDb);
+  }
+
+  /** Publish this account's sharing key so others can share with it. */
+  async publishKey(): Promise<void> {
+    await this.client.publishSharingKey(bytesToHex(this.sharingKeys.publicKey));
+  }
+
+  /** Fetch the current shares. Returns mounts that appeared and mount paths that went away. */
+  async refresh(): Promise<{ added: ShareMount[]; removed: string[] }> {
+    const next = toMounts(await this.client.listShares());
+    const previous = new Set(this.mounts.map((m) => `${m.shareId}:${m.mountPath}`));
+    const current = new Set(next.map((m) => `${m.shareId}:${m.mountPath}`));
+
+    const added = next.filter((m) => !previous.has(`${m.shareId}:${m.mountPath}`));
+    const removed = this.mounts
+      .filter((m) => !current.has(`${m.shareId}:${m.mountPath}`))
+      .map((m) => m.mountPath);
+
+    this.mounts = next;
+    this.stateDb.setMeta(MOUNTS_META_KEY, JSON.stringify(next));
+    for (const mount of added) this.stateDb.addSyncLog('share', mount.mountPath, 'Shared folder mounted');
+    for (const path of removed) this.stateDb.addSyncLog('share', path, 'Shared folder unmounted');
+
+    return { added, removed };
+  }
+
+  getMounts(): readonly ShareMount[] {
+    return this.mounts;
+  }
+
+  /** Whether vault sync must leave a path alone. */
+  isShared(path: string): boolean {
+    return isUnder(path, SHARED_ROOT) || this.mountFor(path) !== null;
+  }
+
+  mountFor(path: string): ShareMount | null {
+    return findMount(this.mounts, path);
+  }
+
+  async syncAll(result: SyncResult): Promise<void> {
+    for (const mount of this.mounts) {
+      await this.syncMount(mount, result);
+    }
+  }
+
+  async syncShare(shareId: string): Promise<void> {
+    const mount = this.mounts.find((m) => m.shareId === shareId);
+    if (mount) await this.syncMount(mount, { uploaded: [], downloaded: [], conflicts: [], errors: [] });
+  }
+
+  async handleLocalChange(path: string): Promise<void> {
+    const mount = this.mountFor(path);
+    if (mount) await this.syncShare(mount.shareId);
+  }
+
+  async handleLocalDelete(path: string): Promise<void> {
+    const mount = this.mountFor(path);
+    if (!mount) return;
+
+    this.stateDb.removeFile(path);
+    if (!mount.writable) {
+      // The next sync restores it from the share
+      this.stateDb.addSyncLog('share', path, 'Read-only share: deleted file will be restored');
+      return;
+    }
+
+    try {
+      await this.client.deleteShareFile(mount.shareId, path.slice(mount.mountPath.length + 1));
+      this.stateDb.addSyncLog('delete', path, 'Local file removed from share');
+    } catch (err) {
+      this.stateDb.addSyncLog('error', path, err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  private shareKey(mount: ShareMount): Uint8Array {
+    let key = this.keys.get(mount.shareId);
+    if (!key) {
+      key = unwrapShareKey(hexToBytes(mount.wrappedKey), this.sharingKeys);
+      this.keys.set(mount.shareId, key);
+    }
+    return key;
+  }
+
+  private async syncMount(mount: ShareMount, result: SyncResult): Promise<void> {
+    try {
+      const shareKey = this.shareKey(mount);
+      const remoteFiles = await this.client.listShareFiles(mount.shareId);
+      const remoteMap = new Map(remoteFiles.map((f) => [`${mount.mountPath}/${f.path}`, f]));
+      const tracked = this.stateDb.getAllFiles().filter((f) => isUnder(f.path, mount.mountPath));
+
+      // Push local changes
+      const pushed = new Set<string>();
+      const mountDir = join(this.vaultPath, mount.mountPath);
+      const localPaths = (await listFiles(mountDir, this.vaultPath)).filter((p) => !isConflictSidecar(p));
+      for (const path of localPaths) {
+        const local = this.stateDb.getFile(path);
+        const content = new Uint8Array(await readFile(join(this.vaultPath, path)));
+        const contentHash = hashContent(content);
+        if (local && local.contentHash === contentHash) continue;
+        if (!local && remoteMap.has(path)) continue;
+
+        // Local edits to a read-only share stay local
+        if (!mount.writable) continue;
+
+        const relativePath = path.slice(mount.mountPath.length + 1);
+        const { encrypted, counter } =
+          sealFile(content, deriveKeyForSharedPath(shareKey, relativePath), relativePath, this.stateDb.getBlobCounter(path));
+        const encryptedHash = hashContent(encrypted);
+        try {
+          const { version } = await this.client.uploadShareFile(
+            mount.shareId,
+            relativePath,
+            encrypted,
+            encryptedHash,
+            local?.version ?? 0,
+          );
+          this.stateDb.upsertFile({
+            id: local?.id ?? randomUUID(),
+            path,
+            contentHash,
+            encryptedHash,
+            version,
+            size: content.length,
+            syncState: 'synced',
+            lastModified: Date.now(),
+          });
+          this.stateDb.recordBlobCounter(path, counter);
+          this.stateDb.addSyncLog('upload', path, `Shared folder ${mount.mountPath}`);
+          result.uploaded.push(path);
+          pushed.add(path);
+        } catch (err) {
+          // Changed in the share meanwhile: the pull below keeps the local copy as a sidecar
+          if (!(err instanceof ConflictError)) throw err;
+        }
+      }
+
+      // Files removed from the share
+      for (const local of tracked) {
+        if (remoteMap.has(local.path) || pushed.has(local.path)) continue;
+        this.stateDb.removeFile(local.path);
+        try {
+          await unlink(join(this.vaultPath, local.path));
+        } catch {
+          // Already gone
+        }
+        this.stateDb.addSyncLog('delete', local.path, 'Removed from shared folder');
+      }
+
+      // Pull changes from the share
+      for (const [path, remote] of remoteMap) {
+        const local = this.stateDb.getFile(path);
+        if (local && local.version >= remote.version) continue;
+
+        const { data, version, encryptedHash } = await this.client.downloadShareFile(mount.shareId, remote.path);
+        const { plaintext: decrypted, counter } =
+          openFile(data, deriveKeyForSharedPath(shareKey, remote.path), remote.path, this.stateDb.getBlobCounter(path));
+        const absolutePath = join(this.vaultPath, path);
+
+        // Keep local edits that were never uploaded next to the shared version
+        let onDisk: Uint8Array | null = null;
+        try {
+          onDisk = new Uint8Array(await readFile(absolutePath));
+        } catch {
+          // Not on disk yet
+        }
+        const diskHash = onDisk ? hashContent(onDisk) : null;
+        if (onDisk && diskHash !== hashContent(decrypted) && diskHash !== local?.contentHash) {
+          const sidecar = conflictSidecarPath(absolutePath);
+          await writeFile(sidecar, onDisk);
+          this.stateDb.addSyncLog('conflict', path, `Local changes saved as ${relative(this.vaultPath, sidecar)}`);
+          result.conflicts.push(path);
+        }
+
+        await mkdir(dirname(absolutePath), { recursive: true });
+        await writeFile(absolutePath, decrypted);
+        this.stateDb.upsertFile({
+          id: local?.id ?? randomUUID(),
+          path,
+          contentHash: hashContent(decrypted),
+          encryptedHash,
+          version,
+          size: decrypted.length,
+          syncState: 'synced',
+          lastModified: Date.now(),
+        });
+        this.stateDb.recordBlobCounter(path, counter);
+        this.stateDb.addSyncLog('download', path, `Shared folder ${mount.mountPath}`);
+        result.downloaded.push(path);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const path = err instanceof RollbackError ? `${mount.mountPath}/${err.filePath}` : mount.mountPath;
+      this.stateDb.addSyncLog(err instanceof RollbackError ? 'security' : 'error', path, message);
+      result.errors.push({ path, error: message });
+    }
+  }
+}
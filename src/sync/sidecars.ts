@@ -0,0 +1,22 @@
+import { extname } from 'node:path';
+
+const SIDECAR_PATTERN = /\.conflict(\.[^./\\]+)?$/;
+
+/**
+ * Where local edits a download would overwrite are kept: `notes.md` becomes
+ * `notes.conflict.md` and `run.sh` becomes `run.conflict.sh`. Vaults and
+ * shared skill folders hold scripts too, so this can't assume markdown.
+ */
+export function conflictSidecarPath(path: string): string {
+  const ext = extname(path);
+  return `${path.slice(0, path.length - ext.length)}.conflict${ext}`;
+}
+
+export function isConflictSidecar(path: string): boolean {
+  return SIDECAR_PATTERN.test(path);
+}
+
+/** The file a sidecar keeps local edits of: `notes.conflict.md` belongs to `notes.md`. */
+export function sidecarOwner(sidecarPath: string): string {
+  return sidecarPath.replace(SIDECAR_PATTERN, '$1');
+}
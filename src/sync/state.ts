@@ -1,6 +1,9 @@
 import Database from 'better-sqlite3';
 import type { SyncFile, SyncState } from '../types.js';
 
+const CHANGE_CURSOR_KEY = 'change_cursor';
+const OUTBOX_COLUMNS = 'id, operation, path, version, attempts, next_attempt_at, last_error, parked, queued_at';
+
 export interface SyncLogEntry {
   id: number;
   action: string;
@@ -9,6 +12,24 @@ export interface SyncLogEntry {
   details: string | null;
 }
 
+export type OutboxOperation = 'upload' | 'delete';
+
+/** A local change waiting to be sent to the server. */
+export interface OutboxEntry {
+  id: number;
+  operation: OutboxOperation;
+  path: string;
+  /** For a deletion, the version deleted; the server refuses it if the file changed since. */
+  version: number | null;
+  /** Failed attempts so far. */
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  /** Failed for a reason waiting won't fix; tried again only on a full sync or a newer change. */
+  parked: boolean;
+  queuedAt: number;
+}
+
 export interface SyncLogOptions {
   action?: string;
   path?: string;
@@ -17,6 +38,32 @@ export interface SyncLogOptions {
   offset?: number;
 }
 
+interface OutboxRow {
+  id: number;
+  operation: OutboxOperation;
+  path: string;
+  version: number | null;
+  attempts: number;
+  next_attempt_at: number;
+  last_error: string | null;
+  parked: number;
+  queued_at: number;
+}
+
+function toOutboxEntry(row: OutboxRow): OutboxEntry {
+  return {
+    id: row.id,
+    operation: row.operation,
+    path: row.path,
+    version: row.version,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastError: row.last_error,
+    parked: row.parked === 1,
+    queuedAt: row.queued_at,
+  };
+}
+
 export class SyncStateDB {
   private db: Database.Database;
 
@@ -58,9 +105,50 @@ export class SyncStateDB {
 
       CREATE TABLE IF NOT EXISTS deletions (
         path TEXT PRIMARY KEY,
-        deleted_at INTEGER NOT NULL
+        deleted_at INTEGER NOT NULL,
+        server_seq INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS blob_counters (
+        path TEXT PRIMARY KEY,
+        counter INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        operation TEXT NOT NULL,
+        path TEXT UNIQUE NOT NULL,
+        version INTEGER,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at INTEGER NOT NULL,
+        last_error TEXT,
+        parked INTEGER NOT NULL DEFAULT 0,
+        queued_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
       );
     `);
+
+    try {
+      this.db.exec('ALTER TABLE deletions ADD COLUMN server_seq INTEGER');
+    } catch {
+      // Column already exists
+    }
+
+    try {
+      this.db.exec('ALTER TABLE outbox ADD COLUMN version INTEGER');
+    } catch {
+      // Column already exists
+    }
+
+    try {
+      this.db.exec('ALTER TABLE outbox ADD COLUMN parked INTEGER NOT NULL DEFAULT 0');
+    } catch {
+      // Column already exists
+    }
   }
 
   getFile(path: string): SyncFile | null {
@@ -169,6 +257,134 @@ export class SyncStateDB {
     this.db.prepare('DELETE FROM deletions WHERE path = ?').run(path);
   }
 
+  /** Highest counter authenticated for a path; downloads below it are rollbacks. Kept across deletions. */
+  getBlobCounter(path: string): number {
+    const row = this.db.prepare('SELECT counter FROM blob_counters WHERE path = ?').get(path) as
+      | { counter: number }
+      | undefined;
+    return row?.counter ?? 0;
+  }
+
+  recordBlobCounter(path: string, counter: number): void {
+    this.db.prepare(
+      'INSERT INTO blob_counters (path, counter) VALUES (?, ?) ON CONFLICT(path) DO UPDATE SET counter = MAX(counter, excluded.counter)',
+    ).run(path, counter);
+  }
+
+  /** Note the server tombstone a deletion corresponds to, once the server has recorded it. */
+  confirmDeletion(path: string, serverSeq: number): void {
+    this.db.prepare('UPDATE deletions SET server_seq = ? WHERE path = ?').run(serverSeq, path);
+  }
+
+  /**
+   * Forget deletions whose server tombstones were collected: every device has
+   * seen them, so nothing can bring the files back. Deletions the server
+   * hasn't recorded yet are kept.
+   */
+  collectDeletions(throughSeq: number): void {
+    this.db.prepare('DELETE FROM deletions WHERE server_seq IS NOT NULL AND server_seq <= ?').run(throughSeq);
+  }
+
+  /**
+   * Queue a local change for the server. A path has at most one queued
+   * change: a newer one replaces it and goes to the back of the queue, since
+   * only the latest state of the file needs sending.
+   */
+  queueOperation(operation: OutboxOperation, path: string, version: number | null = null): void {
+    const now = Date.now();
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM outbox WHERE path = ?').run(path);
+      this.db.prepare(
+        'INSERT INTO outbox (operation, path, version, next_attempt_at, queued_at) VALUES (?, ?, ?, ?, ?)',
+      ).run(operation, path, version, now, now);
+    })();
+  }
+
+  /** The change queued for a path, if any. */
+  getQueuedOperation(path: string): OutboxEntry | null {
+    const row = this.db.prepare(`SELECT ${OUTBOX_COLUMNS} FROM outbox WHERE path = ?`).get(path) as OutboxRow | undefined;
+    return row ? toOutboxEntry(row) : null;
+  }
+
+  /**
+   * The oldest queued change after `afterId` that is due to be tried, or
+   * null if there is none. Parked changes are left out unless asked for.
+   */
+  nextOperation(now: number, afterId = 0, includeParked = false): OutboxEntry | null {
+    const row = this.db.prepare(
+      `SELECT ${OUTBOX_COLUMNS} FROM outbox
+       WHERE id > ? AND next_attempt_at <= ? AND (parked = 0 OR ?)
+       ORDER BY id LIMIT 1`,
+    ).get(afterId, now, includeParked ? 1 : 0) as OutboxRow | undefined;
+    return row ? toOutboxEntry(row) : null;
+  }
+
+  /** Every queued change, oldest first. */
+  getOutbox(): OutboxEntry[] {
+    const rows = this.db.prepare(`SELECT ${OUTBOX_COLUMNS} FROM outbox ORDER BY id`).all() as OutboxRow[];
+    return rows.map(toOutboxEntry);
+  }
+
+  completeOperation(id: number): void {
+    this.db.prepare('DELETE FROM outbox WHERE id = ?').run(id);
+  }
+
+  /** Note a failed attempt at a queued change and when to try it again. */
+  retryOperation(id: number, error: string, nextAttemptAt: number): void {
+    this.db.prepare(
+      'UPDATE outbox SET attempts = attempts + 1, last_error = ?, next_attempt_at = ? WHERE id = ?',
+    ).run(error, nextAttemptAt, id);
+  }
+
+  /** Set a queued change aside after a failure retrying on a timer won't fix. */
+  parkOperation(id: number, error: string): void {
+    this.db.prepare(
+      'UPDATE outbox SET attempts = attempts + 1, last_error = ?, parked = 1 WHERE id = ?',
+    ).run(error, id);
+  }
+
+  /** Forget tracked files, deletions, counters and queued changes in a folder, e.g. when a share is mounted there. */
+  forgetFolder(folder: string): void {
+    const prefix = folder + '/';
+    for (const table of ['files', 'deletions', 'blob_counters', 'outbox']) {
+      this.db.prepare(`DELETE FROM ${table} WHERE path = ? OR substr(path, 1, ?) = ?`)
+        .run(folder, prefix.length, prefix);
+    }
+    // Files the server has there may predate the cursor
+    this.setChangeCursor(null);
+  }
+
+  /** Forget known remote versions so every file is re-fetched on the next sync. */
+  resetVersions(): void {
+    this.db.prepare('UPDATE files SET version = 0').run();
+    this.setChangeCursor(null);
+  }
+
+  /** Server change feed position the tracked files are current as of, or null to list everything. */
+  getChangeCursor(): number | null {
+    const value = this.getMeta(CHANGE_CURSOR_KEY);
+    return value === null ? null : Number(value);
+  }
+
+  setChangeCursor(cursor: number | null): void {
+    if (cursor === null) {
+      this.db.prepare('DELETE FROM meta WHERE key = ?').run(CHANGE_CURSOR_KEY);
+    } else {
+      this.setMeta(CHANGE_CURSOR_KEY, String(cursor));
+    }
+  }
+
+  getMeta(key: string): string | null {
+    const row = this.db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as { value: string } | undefined;
+    return row?.value ?? null;
+  }
+
+  setMeta(key: string, value: string): void {
+    this.db.prepare(
+      'INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)',
+    ).run(key, value);
+  }
+
   addSyncLog(action: string, path: string, details?: string): void {
     this.db.prepare(
       'INSERT INTO sync_log (action, path, timestamp, details) VALUES (?, ?, ?, ?)',
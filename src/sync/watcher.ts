@@ -1,6 +1,7 @@
 import chokidar, { type FSWatcher as ChokidarWatcher } from 'chokidar';
 import { EventEmitter } from 'node:events';
 import { relative } from 'node:path';
+import { isConflictSidecar } from './sidecars.js';
 
 interface FileEvent {
   path: string;
@@ -40,7 +41,7 @@ export class FileWatcher extends EventEmitter {
           const rel = relative(watchBase, filePath);
           return rel.split('/').some((seg) => seg.startsWith('.'));
         },
-        /\.conflict\.md$/,
+        isConflictSidecar,
         /node_modules/,
       ],
     });
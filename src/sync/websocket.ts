@@ -14,16 +14,24 @@ interface WsMessage {
   type: string;
   path?: string;
   version?: number;
+  shareId?: string;
+  teamId?: string;
+  seq?: number;
+  epoch?: string;
+  latest?: number;
 }
 
 export class SyncWebSocket extends EventEmitter {
   private ws: WebSocket | null = null;
   private readonly url: string;
-  private readonly token: string;
+  private token: string;
   private reconnectAttempts = 0;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
   private shouldReconnect = false;
+  // Position in the server's event log, sent on reconnect to get missed events
+  private lastSeq: number | null = null;
+  private epoch: string | null = null;
 
   private static readonly MAX_BACKOFF_MS = 30000;
   private static readonly HEARTBEAT_INTERVAL_MS = 30000;
@@ -55,12 +63,20 @@ export class SyncWebSocket extends EventEmitter {
     }
   }
 
+  /** Token to use from the next reconnect on, e.g. after re-authenticating. */
+  setToken(token: string): void {
+    this.token = token;
+  }
+
   isConnected(): boolean {
     return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
   }
 
   private doConnect(): void {
-    const wsUrl = `${this.url}/ws?token=${encodeURIComponent(this.token)}`;
+    let wsUrl = `${this.url}/ws?token=${encodeURIComponent(this.token)}`;
+    if (this.epoch !== null && this.lastSeq !== null) {
+      wsUrl += `&since=${this.lastSeq}&epoch=${encodeURIComponent(this.epoch)}`;
+    }
     this.ws = new WebSocket(wsUrl);
 
     this.ws.on('open', () => {
@@ -90,7 +106,24 @@ export class SyncWebSocket extends EventEmitter {
   }
 
   private handleMessage(message: WsMessage): void {
+    if (message.seq !== undefined) {
+      // Already seen, e.g. delivered live just before a replay
+      if (this.lastSeq !== null && message.seq <= this.lastSeq) return;
+      this.lastSeq = message.seq;
+    }
+
     switch (message.type) {
+      case 'hello':
+        // A different epoch means a restarted server: its log starts over
+        if (message.epoch !== undefined && message.epoch !== this.epoch) {
+          this.epoch = message.epoch;
+          this.lastSeq = message.latest ?? 0;
+        }
+        break;
+      case 'resync-required':
+        // The server can't replay what was missed while disconnected
+        this.emit('resync');
+        break;
       case 'file-updated':
         if (message.path !== undefined && message.version !== undefined) {
           const event: FileUpdatedEvent = { path: message.path, version: message.version };
@@ -103,6 +136,35 @@ export class SyncWebSocket extends EventEmitter {
           this.emit('file-deleted', event);
         }
         break;
+      case 'reauth-required':
+        this.emit('reauth-required');
+        break;
+      case 'device-revoked':
+        // Reconnecting would only be refused
+        this.shouldReconnect = false;
+        this.emit('device-revoked');
+        break;
+      case 'shares-changed':
+        this.emit('shares-changed');
+        break;
+      case 'share-updated':
+        if (message.shareId !== undefined) {
+          this.emit('share-updated', { shareId: message.shareId });
+        }
+        break;
+      case 'teams-changed':
+        this.emit('teams-changed');
+        break;
+      case 'team-file-updated':
+        if (message.teamId !== undefined && message.path !== undefined && message.version !== undefined) {
+          this.emit('team-file-updated', { teamId: message.teamId, path: message.path, version: message.version });
+        }
+        break;
+      case 'team-file-deleted':
+        if (message.teamId !== undefined && message.path !== undefined) {
+          this.emit('team-file-deleted', { teamId: message.teamId, path: message.path });
+        }
+        break;
     }
   }
 
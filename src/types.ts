@@ -1,3 +1,6 @@
+import type { ApiPermission } from '../server/src/shared/api-keys.js';
+import type { TeamRole } from '../server/src/shared/teams.js';
+
 export type SyncState = 'synced' | 'modified' | 'conflict' | 'pending' | 'deleted';
 
 export interface SyncFile {
@@ -19,6 +22,55 @@ export interface DeviceInfo {
   current: boolean;
 }
 
+/** A new device waiting to be approved, as seen by a trusted device. */
+export interface PairingRequestInfo {
+  pairingId: string;
+  name: string;
+  publicKey: string;
+  createdAt: number;
+}
+
+export interface ShareGrantInfo {
+  recipientId: string;
+  permissions: ApiPermission;
+  createdAt: number;
+}
+
+/** A folder this account shares. Its key is wrapped for the account's own sharing key. */
+export interface OwnedShareInfo {
+  id: string;
+  folder: string;
+  wrappedKey: string;
+  createdAt: number;
+  grants: ShareGrantInfo[];
+}
+
+/** A folder another account shared with this one. */
+export interface ReceivedShareInfo {
+  id: string;
+  ownerId: string;
+  folder: string;
+  permissions: ApiPermission;
+  wrappedKey: string;
+  createdAt: number;
+}
+
+/** A team this account belongs to. Its key is wrapped for the account's sharing key. */
+export interface TeamInfo {
+  id: string;
+  name: string;
+  role: TeamRole;
+  wrappedKey: string;
+  createdAt: number;
+  memberCount: number;
+}
+
+export interface TeamMemberInfo {
+  userId: string;
+  role: TeamRole;
+  createdAt: number;
+}
+
 export interface EncryptedBlob {
   version: number;
   nonce: Uint8Array;
@@ -33,6 +85,43 @@ export interface FileMetadata {
   updatedAt: number;
 }
 
+/**
+ * One entry of the server's change feed: the current state of a path that
+ * changed. Deletions double as tombstones, which the server keeps until every
+ * device has acknowledged them.
+ */
+export interface FileChange {
+  seq: number;
+  path: string;
+  /** For a deletion, the version that was deleted; null if the server didn't record it. */
+  version: number | null;
+  encryptedHash: string | null;
+  size: number | null;
+  updatedAt: number;
+  deleted: boolean;
+  /** Device that deleted the file, if known. */
+  deviceId?: string | null;
+}
+
+/** One file's outcome in a batch upload: committed, in conflict, or refused. */
+export type BatchUploadResult =
+  | { path: string; version: number }
+  | { path: string; conflict: true; currentVersion?: number }
+  | { path: string; error: string };
+
+/** One file of a batch download; a file the server couldn't send carries an error instead. */
+export type BatchDownloadResult =
+  | { path: string; data: Uint8Array; version: number; encryptedHash: string; chunked: boolean }
+  | { path: string; error: string };
+
+export interface FileVersion {
+  version: number;
+  encryptedHash: string;
+  size: number;
+  createdAt: number;
+  current: boolean;
+}
+
 export interface ApiKeyInfo {
   id: string;
   name: string;
@@ -40,9 +129,17 @@ export interface ApiKeyInfo {
   permissions: ApiPermission;
   createdAt: number;
   lastUsed: number | null;
+  /** SHA-256 of the secret HTTP clients present; absent on keys made before HTTP serving */
+  keyHash?: string;
+  /** Grammar the scope is written in; keys without it predate glob scopes */
+  scopeSyntax?: number;
+  /** Keys without an expiry never expire */
+  expiresAt?: number | null;
+  /** Authenticated HTTP requests made with this key */
+  requestCount?: number;
 }
 
-export type ApiPermission = 'read' | 'read-write';
+export type { ApiPermission, TeamRole };
 
 export interface RemoteChange {
   path: string;
@@ -6,6 +6,7 @@ const execFile = promisify(execFileCb);
 
 const SERVICE_NAME = 'contextmate';
 const ACCOUNT_NAME = 'vault-passphrase';
+const WRAPPING_KEY_ACCOUNT = 'device-wrapping-key';
 
 export class KeychainError extends Error {
   constructor(message: string) {
@@ -36,6 +37,31 @@ export async function isKeychainAvailable(): Promise<boolean> {
 }
 
 export async function storePassphrase(passphrase: string): Promise<void> {
+  await storeSecret(ACCOUNT_NAME, 'ContextMate Vault Passphrase', passphrase);
+}
+
+export async function retrievePassphrase(): Promise<string | null> {
+  return retrieveSecret(ACCOUNT_NAME);
+}
+
+export async function deletePassphrase(): Promise<void> {
+  await deleteSecret(ACCOUNT_NAME);
+}
+
+/** The key that wraps a paired device's copy of the vault key, as hex. */
+export async function storeWrappingKey(key: string): Promise<void> {
+  await storeSecret(WRAPPING_KEY_ACCOUNT, 'ContextMate Device Key', key);
+}
+
+export async function retrieveWrappingKey(): Promise<string | null> {
+  return retrieveSecret(WRAPPING_KEY_ACCOUNT);
+}
+
+export async function deleteWrappingKey(): Promise<void> {
+  await deleteSecret(WRAPPING_KEY_ACCOUNT);
+}
+
+async function storeSecret(account: string, label: string, secret: string): Promise<void> {
   if (!(await isKeychainAvailable())) {
     throw new KeychainError('OS keychain is not available on this system.');
   }
@@ -45,23 +71,23 @@ export async function storePassphrase(passphrase: string): Promise<void> {
     try {
       await execFile('/usr/bin/security', [
         'add-generic-password',
-        '-a', ACCOUNT_NAME,
+        '-a', account,
         '-s', SERVICE_NAME,
-        '-w', passphrase,
+        '-w', secret,
         '-U',
       ]);
     } catch (err) {
-      throw new KeychainError(`Failed to store passphrase in Keychain: ${err instanceof Error ? err.message : String(err)}`);
+      throw new KeychainError(`Failed to store ${label} in Keychain: ${err instanceof Error ? err.message : String(err)}`);
     }
   } else if (platform === 'linux') {
     try {
       const child = execFileCb('secret-tool', [
         'store',
-        '--label=ContextMate Vault Passphrase',
+        `--label=${label}`,
         'service', SERVICE_NAME,
-        'account', ACCOUNT_NAME,
+        'account', account,
       ]);
-      child.stdin?.write(passphrase);
+      child.stdin?.write(secret);
       child.stdin?.end();
       await new Promise<void>((resolve, reject) => {
         child.on('exit', (code) => {
@@ -72,12 +98,12 @@ export async function storePassphrase(passphrase: string): Promise<void> {
       });
     } catch (err) {
       if (err instanceof KeychainError) throw err;
-      throw new KeychainError(`Failed to store passphrase: ${err instanceof Error ? err.message : String(err)}`);
+      throw new KeychainError(`Failed to store ${label}: ${err instanceof Error ? err.message : String(err)}`);
     }
   }
 }
 
-export async function retrievePassphrase(): Promise<string | null> {
+async function retrieveSecret(account: string): Promise<string | null> {
   if (!(await isKeychainAvailable())) {
     return null;
   }
@@ -87,7 +113,7 @@ export async function retrievePassphrase(): Promise<string | null> {
     try {
       const { stdout } = await execFile('/usr/bin/security', [
         'find-generic-password',
-        '-a', ACCOUNT_NAME,
+        '-a', account,
         '-s', SERVICE_NAME,
         '-w',
       ]);
@@ -100,7 +126,7 @@ export async function retrievePassphrase(): Promise<string | null> {
       const { stdout } = await execFile('secret-tool', [
         'lookup',
         'service', SERVICE_NAME,
-        'account', ACCOUNT_NAME,
+        'account', account,
       ]);
       return stdout.trim() || null;
     } catch {
@@ -110,13 +136,13 @@ export async function retrievePassphrase(): Promise<string | null> {
   return null;
 }
 
-export async function deletePassphrase(): Promise<void> {
+async function deleteSecret(account: string): Promise<void> {
   const platform = process.platform;
   if (platform === 'darwin') {
     try {
       await execFile('/usr/bin/security', [
         'delete-generic-password',
-        '-a', ACCOUNT_NAME,
+        '-a', account,
         '-s', SERVICE_NAME,
       ]);
     } catch {
@@ -127,7 +153,7 @@ export async function deletePassphrase(): Promise<void> {
       await execFile('secret-tool', [
         'clear',
         'service', SERVICE_NAME,
-        'account', ACCOUNT_NAME,
+        'account', account,
       ]);
     } catch {
       // Already removed or not stored
@@ -1,4 +1,4 @@
-import { join, relative } from 'node:path';
+import { join, dirname, relative } from 'node:path';
 import { homedir } from 'node:os';
 import type { ContextMateConfig } from '../config.js';
 
@@ -18,6 +18,15 @@ export function getSyncDbPath(config: ContextMateConfig): string {
   return join(config.data.path, 'sync.db');
 }
 
+/** Local folder of a team vault, next to the personal vault. */
+export function getTeamVaultPath(config: ContextMateConfig, teamId: string): string {
+  return join(dirname(config.vault.path), 'teams', teamId);
+}
+
+export function getTeamSyncDbPath(config: ContextMateConfig, teamId: string): string {
+  return join(config.data.path, 'teams', `${teamId}.db`);
+}
+
 export function getSearchDbPath(config: ContextMateConfig): string {
   return join(config.data.path, 'search.db');
 }
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateDeviceKeyPair,
+  sealToDevice,
+  openSealed,
+  devicePairingCode,
+  normalizePairingCode,
+} from '../../src/crypto/devices.js';
+
+describe('generateDeviceKeyPair', () => {
+  it('returns 32-byte keys', () => {
+    const { publicKey, privateKey } = generateDeviceKeyPair();
+    expect(publicKey.length).toBe(32);
+    expect(privateKey.length).toBe(32);
+  });
+
+  it('returns unique key pairs each call', () => {
+    expect(Buffer.from(generateDeviceKeyPair().publicKey).equals(Buffer.from(generateDeviceKeyPair().publicKey))).toBe(false);
+  });
+});
+
+describe('sealToDevice', () => {
+  it('round-trips with openSealed', () => {
+    const device = generateDeviceKeyPair();
+    const plaintext = new TextEncoder().encode('vault key');
+    const sealed = sealToDevice(plaintext, device.publicKey);
+    expect(new TextDecoder().decode(openSealed(sealed, device))).toBe('vault key');
+  });
+
+  it('uses a fresh ephemeral key each time', () => {
+    const device = generateDeviceKeyPair();
+    const plaintext = new Uint8Array(32).fill(7);
+    const a = sealToDevice(plaintext, device.publicKey);
+    const b = sealToDevice(plaintext, device.publicKey);
+    expect(Buffer.from(a.slice(0, 32)).equals(Buffer.from(b.slice(0, 32)))).toBe(false);
+  });
+
+  it('cannot be opened by another device', () => {
+    const sealed = sealToDevice(new Uint8Array(32).fill(1), generateDeviceKeyPair().publicKey);
+    expect(() => openSealed(sealed, generateDeviceKeyPair())).toThrow();
+  });
+
+  it('rejects a malformed public key', () => {
+    expect(() => sealToDevice(new Uint8Array(1), new Uint8Array(16))).toThrow(/public key length/);
+  });
+});
+
+describe('devicePairingCode', () => {
+  it('is four groups of four base32 characters', () => {
+    expect(devicePairingCode(generateDeviceKeyPair().publicKey)).toMatch(/^([0-9A-HJKMNP-TV-Z]{4}-){3}[0-9A-HJKMNP-TV-Z]{4}$/);
+  });
+
+  it('is stable for a key and differs between keys', () => {
+    const { publicKey } = generateDeviceKeyPair();
+    expect(devicePairingCode(publicKey)).toBe(devicePairingCode(publicKey));
+    expect(devicePairingCode(publicKey)).not.toBe(devicePairingCode(generateDeviceKeyPair().publicKey));
+  });
+});
+
+describe('normalizePairingCode', () => {
+  it('tolerates case, spaces and look-alike characters', () => {
+    const code = devicePairingCode(generateDeviceKeyPair().publicKey);
+    const typed = code.toLowerCase().replace(/-/g, ' ').replace(/0/g, 'o').replace(/1/g, 'l');
+    expect(normalizePairingCode(typed)).toBe(code);
+  });
+
+  it('rejects codes of the wrong length', () => {
+    expect(() => normalizePairingCode('ABCD-EFGH')).toThrow(/16 characters/);
+  });
+});
@@ -1,13 +1,20 @@
 import { describe, it, expect } from 'vitest';
+import { gcm } from '@noble/ciphers/aes';
+import { randomBytes } from '@noble/ciphers/webcrypto';
 import {
   encryptFile,
   decryptFile,
   hashContent,
   encryptString,
   decryptString,
+  blobCounter,
   ENCRYPTION_VERSION,
+  LEGACY_ENCRYPTION_VERSION,
   NONCE_LENGTH,
   VERSION_LENGTH,
+  CODEC_LENGTH,
+  CODEC_NONE,
+  CODEC_DEFLATE,
 } from '../../src/crypto/encrypt.js';
 import { generateSalt } from '../../src/crypto/keys.js';
 
@@ -91,20 +98,79 @@ describe('nonce uniqueness', () => {
 });
 
 describe('encrypted format', () => {
-  it('first 4 bytes are version (1), next 12 bytes are nonce', () => {
+  it('first 4 bytes are version (2), then a codec byte, then 12 bytes of nonce', () => {
     const key = makeKey();
     const plaintext = new Uint8Array([1, 2, 3]);
     const encrypted = encryptFile(plaintext, key);
 
-    expect(encrypted.length).toBeGreaterThan(VERSION_LENGTH + NONCE_LENGTH);
+    expect(encrypted.length).toBeGreaterThan(VERSION_LENGTH + CODEC_LENGTH + NONCE_LENGTH);
 
     const view = new DataView(encrypted.buffer, encrypted.byteOffset, encrypted.byteLength);
     const version = view.getUint32(0, true);
     expect(version).toBe(ENCRYPTION_VERSION);
+    expect(view.getUint8(VERSION_LENGTH)).toBe(CODEC_NONE);
 
-    const nonce = encrypted.slice(VERSION_LENGTH, VERSION_LENGTH + NONCE_LENGTH);
+    const nonce = encrypted.slice(VERSION_LENGTH + CODEC_LENGTH, VERSION_LENGTH + CODEC_LENGTH + NONCE_LENGTH);
     expect(nonce.length).toBe(NONCE_LENGTH);
   });
+
+  it('compresses text that shrinks', () => {
+    const key = makeKey();
+    const plaintext = new TextEncoder().encode('- remembered a thing\n'.repeat(500));
+    const encrypted = encryptFile(plaintext, key);
+
+    expect(encrypted[VERSION_LENGTH]).toBe(CODEC_DEFLATE);
+    expect(encrypted.length).toBeLessThan(plaintext.length / 10);
+    expect(Buffer.from(decryptFile(encrypted, key)).equals(Buffer.from(plaintext))).toBe(true);
+  });
+
+  it('decrypts version 1 blobs', () => {
+    const key = makeKey();
+    const plaintext = new Uint8Array([1, 2, 3]);
+    const nonce = randomBytes(NONCE_LENGTH);
+    const ciphertext = gcm(key, nonce).encrypt(plaintext);
+    const legacy = new Uint8Array(VERSION_LENGTH + NONCE_LENGTH + ciphertext.length);
+    new DataView(legacy.buffer).setUint32(0, LEGACY_ENCRYPTION_VERSION, true);
+    legacy.set(nonce, VERSION_LENGTH);
+    legacy.set(ciphertext, VERSION_LENGTH + NONCE_LENGTH);
+
+    expect(Array.from(decryptFile(legacy, key))).toEqual([1, 2, 3]);
+  });
+
+  it('rejects unknown codecs', () => {
+    const key = makeKey();
+    const encrypted = encryptFile(new Uint8Array([1, 2, 3]), key);
+    encrypted[VERSION_LENGTH] = 9;
+    expect(() => decryptFile(encrypted, key)).toThrow('Unsupported compression codec: 9');
+  });
+});
+
+describe('path-bound blobs', () => {
+  it('round-trip under the path they were written for', () => {
+    const key = makeKey();
+    const data = new TextEncoder().encode('bound content');
+    const encrypted = encryptFile(data, key, { path: 'notes/a.md', counter: 42 });
+    expect(decryptFile(encrypted, key, 'notes/a.md')).toEqual(data);
+    expect(blobCounter(encrypted)).toBe(42);
+  });
+
+  it('do not decrypt under another path', () => {
+    const key = makeKey();
+    const encrypted = encryptFile(new Uint8Array([1, 2, 3]), key, { path: 'notes/a.md', counter: 1 });
+    expect(() => decryptFile(encrypted, key, 'notes/b.md')).toThrow();
+    expect(() => decryptFile(encrypted, key)).toThrow('bound to a file path');
+  });
+
+  it('authenticate the counter', () => {
+    const key = makeKey();
+    const encrypted = encryptFile(new Uint8Array([1, 2, 3]), key, { path: 'a.md', counter: 5 });
+    encrypted[VERSION_LENGTH + CODEC_LENGTH] = 9;
+    expect(() => decryptFile(encrypted, key, 'a.md')).toThrow();
+  });
+
+  it('blobCounter is 0 for unbound blobs', () => {
+    expect(blobCounter(encryptFile(new Uint8Array([1]), makeKey()))).toBe(0);
+  });
 });
 
 describe('hashContent', () => {
@@ -8,7 +8,11 @@ import {
   deriveAuthKey,
   deriveSharingKey,
   deriveKeyForPath,
+  encryptPathId,
+  deriveWrappingKey,
+  resolveVaultKey,
 } from '../../src/crypto/keys.js';
+import { wrapKey } from '../../src/crypto/encrypt.js';
 
 describe('generateSalt', () => {
   it('returns 32 bytes', () => {
@@ -158,3 +162,41 @@ describe('full key hierarchy', () => {
     expect(Buffer.from(pathKey1).equals(Buffer.from(fileKey1))).toBe(true);
   });
 });
+
+describe('encryptPathId', () => {
+  it('is a deterministic 64-char hex ID', () => {
+    const vaultKey = new Uint8Array(32).fill(1);
+    const id = encryptPathId(vaultKey, 'claude/projects/acme/memory/notes.md');
+    expect(id).toMatch(/^[0-9a-f]{64}$/);
+    expect(encryptPathId(vaultKey, 'claude/projects/acme/memory/notes.md')).toBe(id);
+  });
+
+  it('differs per path and per vault key', () => {
+    const keyA = new Uint8Array(32).fill(1);
+    const keyB = new Uint8Array(32).fill(2);
+    expect(encryptPathId(keyA, 'a.md')).not.toBe(encryptPathId(keyA, 'b.md'));
+    expect(encryptPathId(keyA, 'a.md')).not.toBe(encryptPathId(keyB, 'a.md'));
+  });
+
+  it('does not contain the plaintext path', () => {
+    const id = encryptPathId(new Uint8Array(32), 'secret-project');
+    expect(id).not.toContain('secret');
+  });
+});
+
+describe('resolveVaultKey', () => {
+  it('derives the vault key when there is no wrapped key', () => {
+    const masterKey = new Uint8Array(32).fill(3);
+    expect(Buffer.from(resolveVaultKey(masterKey)).equals(Buffer.from(deriveVaultKey(masterKey)))).toBe(true);
+  });
+
+  it('keeps the original vault key under a new master key', () => {
+    const oldMaster = new Uint8Array(32).fill(3);
+    const newMaster = new Uint8Array(32).fill(4);
+    const vaultKey = deriveVaultKey(oldMaster);
+    const wrapped = wrapKey(vaultKey, deriveWrappingKey(newMaster));
+
+    expect(Buffer.from(resolveVaultKey(newMaster, wrapped)).equals(Buffer.from(vaultKey))).toBe(true);
+    expect(() => resolveVaultKey(oldMaster, wrapped)).toThrow();
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateRecoveryKey,
+  formatRecoveryKey,
+  parseRecoveryKey,
+  deriveRecoveryWrappingKey,
+  deriveRecoveryAuthKey,
+} from '../../src/crypto/recovery.js';
+
+describe('generateRecoveryKey', () => {
+  it('is eight groups of four base32 characters', () => {
+    expect(generateRecoveryKey()).toMatch(/^([0-9A-HJKMNP-TV-Z]{4}-){7}[0-9A-HJKMNP-TV-Z]{4}$/);
+  });
+
+  it('returns unique values each call', () => {
+    expect(generateRecoveryKey()).not.toBe(generateRecoveryKey());
+  });
+});
+
+describe('parseRecoveryKey', () => {
+  it('round-trips with formatRecoveryKey', () => {
+    const bytes = new Uint8Array(20).map((_, i) => i * 13);
+    expect(Buffer.from(parseRecoveryKey(formatRecoveryKey(bytes))).equals(Buffer.from(bytes))).toBe(true);
+  });
+
+  it('tolerates case, spaces and look-alike characters', () => {
+    const key = formatRecoveryKey(new Uint8Array(20).fill(0x42));
+    const typed = key.toLowerCase().replace(/-/g, ' ').replace(/0/g, 'o').replace(/1/g, 'l');
+    expect(formatRecoveryKey(parseRecoveryKey(typed))).toBe(key);
+  });
+
+  it('rejects keys of the wrong length or with invalid characters', () => {
+    expect(() => parseRecoveryKey('ABCD-EFGH')).toThrow(/32 characters/);
+    expect(() => parseRecoveryKey('U'.repeat(32))).toThrow(/Invalid character/);
+  });
+});
+
+describe('recovery key derivation', () => {
+  it('derives distinct 32-byte wrapping and auth keys', () => {
+    const key = parseRecoveryKey(generateRecoveryKey());
+    const wrapping = deriveRecoveryWrappingKey(key);
+    const auth = deriveRecoveryAuthKey(key);
+    expect(wrapping.length).toBe(32);
+    expect(auth.length).toBe(32);
+    expect(Buffer.from(wrapping).equals(Buffer.from(auth))).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  deriveSharingKeyPair,
+  generateShareKey,
+  wrapShareKey,
+  unwrapShareKey,
+  deriveKeyForSharedPath,
+} from '../../src/crypto/sharing.js';
+import { keyPairFromPrivateKey, generateDeviceKeyPair } from '../../src/crypto/devices.js';
+
+const vaultKey = new Uint8Array(32).fill(0x11);
+
+describe('deriveSharingKeyPair', () => {
+  it('is the same for the same vault key', () => {
+    const a = deriveSharingKeyPair(vaultKey);
+    const b = deriveSharingKeyPair(new Uint8Array(vaultKey));
+    expect(Buffer.from(a.publicKey).equals(Buffer.from(b.publicKey))).toBe(true);
+  });
+
+  it('differs between vault keys', () => {
+    const other = deriveSharingKeyPair(new Uint8Array(32).fill(0x22));
+    expect(Buffer.from(other.publicKey).equals(Buffer.from(deriveSharingKeyPair(vaultKey).publicKey))).toBe(false);
+  });
+});
+
+describe('keyPairFromPrivateKey', () => {
+  it('recovers the public key of a generated key pair', () => {
+    const generated = generateDeviceKeyPair();
+    const recovered = keyPairFromPrivateKey(generated.privateKey);
+    expect(Buffer.from(recovered.publicKey).equals(Buffer.from(generated.publicKey))).toBe(true);
+  });
+});
+
+describe('wrapShareKey', () => {
+  it('round-trips with unwrapShareKey', () => {
+    const recipient = deriveSharingKeyPair(vaultKey);
+    const shareKey = generateShareKey();
+    const unwrapped = unwrapShareKey(wrapShareKey(shareKey, recipient.publicKey), recipient);
+    expect(Buffer.from(unwrapped).equals(Buffer.from(shareKey))).toBe(true);
+  });
+
+  it('cannot be unwrapped by another account', () => {
+    const wrapped = wrapShareKey(generateShareKey(), deriveSharingKeyPair(vaultKey).publicKey);
+    expect(() => unwrapShareKey(wrapped, deriveSharingKeyPair(new Uint8Array(32).fill(0x22)))).toThrow();
+  });
+});
+
+describe('deriveKeyForSharedPath', () => {
+  it('differs per path and per share key', () => {
+    const shareKey = generateShareKey();
+    const a = deriveKeyForSharedPath(shareKey, 'SKILL.md');
+    expect(Buffer.from(a).equals(Buffer.from(deriveKeyForSharedPath(shareKey, 'README.md')))).toBe(false);
+    expect(Buffer.from(a).equals(Buffer.from(deriveKeyForSharedPath(generateShareKey(), 'SKILL.md')))).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { tmpdir } from 'node:os';
+import { mkdtemp, rm, stat, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  loadApiKeys,
+  saveApiKeys,
+  getApiKeysPath,
+  generateApiKeySecret,
+  hashApiKeySecret,
+  findKeyBySecret,
+  parseExpiry,
+  isApiKeyExpired,
+  ApiKeyUsage,
+  SCOPE_SYNTAX_VERSION,
+} from '../../src/mcp/api-keys.js';
+import type { ApiKeyInfo } from '../../src/types.js';
+
+function makeKey(overrides: Partial<ApiKeyInfo> = {}): ApiKeyInfo {
+  return {
+    id: 'abc123',
+    name: 'test',
+    scope: '*',
+    permissions: 'read',
+    createdAt: 0,
+    lastUsed: null,
+    scopeSyntax: SCOPE_SYNTAX_VERSION,
+    ...overrides,
+  };
+}
+
+describe('API key secrets', () => {
+  it('generates distinct prefixed secrets', () => {
+    const a = generateApiKeySecret();
+    const b = generateApiKeySecret();
+    expect(a).toMatch(/^cs_[0-9a-f]{64}$/);
+    expect(a).not.toBe(b);
+  });
+
+  it('finds the key a secret belongs to', () => {
+    const secret = generateApiKeySecret();
+    const keys = [makeKey({ id: 'other', keyHash: hashApiKeySecret('cs_nope') }), makeKey({ keyHash: hashApiKeySecret(secret) })];
+    expect(findKeyBySecret(keys, secret)?.id).toBe('abc123');
+    expect(findKeyBySecret(keys, generateApiKeySecret())).toBeNull();
+  });
+
+  it('never matches keys without a stored hash', () => {
+    expect(findKeyBySecret([makeKey()], 'abc123')).toBeNull();
+  });
+});
+
+describe('loadApiKeys / saveApiKeys', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'contextmate-api-keys-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('returns an empty list when no file exists', async () => {
+    expect(await loadApiKeys(tmpDir)).toEqual([]);
+  });
+
+  it('round-trips keys and keeps the file private', async () => {
+    const keys = [makeKey({ keyHash: hashApiKeySecret('cs_x') })];
+    await saveApiKeys(tmpDir, keys);
+    expect(await loadApiKeys(tmpDir)).toEqual(keys);
+    expect((await stat(getApiKeysPath(tmpDir))).mode & 0o777).toBe(0o600);
+  });
+
+  it('migrates legacy permission names and persists them', async () => {
+    const legacy = [
+      makeKey({ id: 'a', permissions: 'readwrite' as never }),
+      makeKey({ id: 'b', permissions: 'write' as never }),
+      makeKey({ id: 'c', permissions: 'bogus' as never }),
+    ];
+    await writeFile(getApiKeysPath(tmpDir), JSON.stringify(legacy));
+
+    const expected = ['read-write', 'read-write', 'read'];
+    expect((await loadApiKeys(tmpDir)).map((k) => k.permissions)).toEqual(expected);
+    const stored = JSON.parse(await readFile(getApiKeysPath(tmpDir), 'utf-8')) as ApiKeyInfo[];
+    expect(stored.map((k) => k.permissions)).toEqual(expected);
+  });
+
+  it('upgrades scopes written before glob scopes, once', async () => {
+    const legacy = [makeKey({ scope: 'skills/*', scopeSyntax: undefined })];
+    await writeFile(getApiKeysPath(tmpDir), JSON.stringify(legacy));
+
+    const [upgraded] = await loadApiKeys(tmpDir);
+    expect(upgraded?.scope).toBe('**/skills/**');
+    expect(upgraded?.scopeSyntax).toBe(SCOPE_SYNTAX_VERSION);
+
+    // A new key whose glob looks like the old grammar is left as written
+    await saveApiKeys(tmpDir, [makeKey({ scope: 'skills/*' })]);
+    expect((await loadApiKeys(tmpDir))[0]?.scope).toBe('skills/*');
+  });
+});
+
+describe('key expiry', () => {
+  const now = Date.parse('2026-06-01T00:00:00Z');
+
+  it('parses durations and dates', () => {
+    expect(parseExpiry('12h', now)).toBe(now + 12 * 60 * 60 * 1000);
+    expect(parseExpiry('30d', now)).toBe(now + 30 * 24 * 60 * 60 * 1000);
+    expect(parseExpiry('2W', now)).toBe(now + 14 * 24 * 60 * 60 * 1000);
+    expect(parseExpiry('2027-01-31', now)).toBe(Date.parse('2027-01-31'));
+  });
+
+  it('rejects unknown values and past dates', () => {
+    expect(parseExpiry('soon', now)).toBeNull();
+    expect(parseExpiry('0d', now)).toBeNull();
+    expect(parseExpiry('2020-01-01', now)).toBeNull();
+  });
+
+  it('treats keys without an expiry as never expiring', () => {
+    expect(isApiKeyExpired(undefined, now)).toBe(false);
+    expect(isApiKeyExpired(null, now)).toBe(false);
+    expect(isApiKeyExpired(now + 1, now)).toBe(false);
+    expect(isApiKeyExpired(now, now)).toBe(true);
+  });
+});
+
+describe('ApiKeyUsage', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'contextmate-usage-'));
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('batches request counts and last-used times between flushes', async () => {
+    await saveApiKeys(tmpDir, [makeKey({ id: 'a', requestCount: 5 }), makeKey({ id: 'b' })]);
+    const usage = new ApiKeyUsage(tmpDir, 60_000);
+
+    await usage.record('a', 100_000); // first record flushes immediately
+    await usage.record('a', 110_000);
+    await usage.record('b', 120_000);
+    let keys = await loadApiKeys(tmpDir);
+    expect(keys.map((k) => [k.requestCount, k.lastUsed])).toEqual([[6, 100_000], [undefined, null]]);
+
+    await usage.flush(130_000);
+    keys = await loadApiKeys(tmpDir);
+    expect(keys.map((k) => [k.requestCount, k.lastUsed])).toEqual([[7, 110_000], [1, 120_000]]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { chunkMarkdown, chunkRef, parseChunkRef } from '../../src/mcp/chunks.js';
+
+describe('chunkMarkdown', () => {
+  it('starts a chunk at each heading with its line range', () => {
+    const content = ['Intro line', '', '# First', 'one', '', '## Second', 'two', ''].join('\n');
+    expect(chunkMarkdown(content)).toEqual([
+      { startLine: 1, endLine: 1, text: 'Intro line' },
+      { startLine: 3, endLine: 4, text: '# First\none' },
+      { startLine: 6, endLine: 7, text: '## Second\ntwo' },
+    ]);
+  });
+
+  it('keeps a heading with no body together with the next section', () => {
+    const content = ['# Project', '', '## Notes', 'body'].join('\n');
+    expect(chunkMarkdown(content)).toEqual([
+      { startLine: 1, endLine: 4, text: '# Project\n\n## Notes\nbody' },
+    ]);
+  });
+
+  it('ignores headings inside fenced code blocks', () => {
+    const content = ['# Script', '```bash', '# not a heading', 'echo hi', '```'].join('\n');
+    const chunks = chunkMarkdown(content);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]!.endLine).toBe(5);
+  });
+
+  it('splits long sections at blank lines', () => {
+    const a = 'a'.repeat(30);
+    const b = 'b'.repeat(30);
+    const content = ['# Long', a, '', b].join('\n');
+    expect(chunkMarkdown(content, 50)).toEqual([
+      { startLine: 1, endLine: 2, text: `# Long\n${a}` },
+      { startLine: 4, endLine: 4, text: b },
+    ]);
+  });
+
+  it('splits at line boundaries when a section has no blank lines', () => {
+    const content = Array.from({ length: 6 }, (_, i) => `line ${i} ${'x'.repeat(20)}`).join('\n');
+    const chunks = chunkMarkdown(content, 60);
+    expect(chunks.map((c) => [c.startLine, c.endLine])).toEqual([[1, 2], [3, 4], [5, 6]]);
+  });
+
+  it('returns no chunks for blank text', () => {
+    expect(chunkMarkdown('  \n\n  ')).toEqual([]);
+  });
+});
+
+describe('chunkRef / parseChunkRef', () => {
+  it('round-trips a chunk reference', () => {
+    const ref = chunkRef('openclaw/MEMORY.md', 120, 158);
+    expect(ref).toBe('openclaw/MEMORY.md#L120-L158');
+    expect(parseChunkRef(ref)).toEqual({ path: 'openclaw/MEMORY.md', startLine: 120, endLine: 158 });
+  });
+
+  it('accepts a single line', () => {
+    expect(parseChunkRef('notes.md#L7')).toEqual({ path: 'notes.md', startLine: 7, endLine: 7 });
+  });
+
+  it('leaves plain paths alone', () => {
+    expect(parseChunkRef('notes.md')).toEqual({ path: 'notes.md' });
+  });
+});
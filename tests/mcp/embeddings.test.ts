@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { VectorIndex } from '../../src/mcp/embeddings.js';
+import { VectorIndex, DenseVectorIndex, createSemanticIndex } from '../../src/mcp/embeddings.js';
+import type { EmbeddingProvider } from '../../src/mcp/providers.js';
 import { tmpdir } from 'node:os';
 import { mkdtemp, rm, mkdir, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
@@ -130,8 +131,152 @@ describe('VectorIndex', () => {
     expect(results.length).toBeLessThanOrEqual(5);
   });
 
+  it('scores sections of a long file separately', () => {
+    index.indexFile('notes.md', '# Python\n\nprogramming language notes\n\n# Garden\n\ntomato seedlings and compost');
+    index.indexFile('other.md', 'unrelated content about trains');
+    index.recomputeIdf();
+
+    const results = index.search('tomato compost');
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ path: 'notes.md', startLine: 5, endLine: 7 });
+  });
+
+  it('recomputeIdf can run repeatedly without changing scores', () => {
+    index.indexFile('a.md', 'kubernetes cluster upgrade');
+    index.indexFile('b.md', 'postgres cluster failover');
+    index.recomputeIdf();
+    const first = index.search('cluster upgrade');
+    index.recomputeIdf();
+    expect(index.search('cluster upgrade')).toEqual(first);
+  });
+
   it('close works without error', () => {
     const tmpIndex = new VectorIndex(join(tmpDir, 'close-test.db'));
     expect(() => tmpIndex.close()).not.toThrow();
   });
 });
+
+// Maps words to shared concept dimensions, so synonyms embed alike
+const CONCEPTS: Record<string, number> = {
+  deploy: 0, release: 0, ship: 0, rollout: 0,
+  cake: 1, recipe: 1, baking: 1,
+  database: 2, postgres: 2, sqlite: 2,
+};
+
+class ConceptProvider implements EmbeddingProvider {
+  readonly id: string;
+  embedded: string[] = [];
+
+  constructor(id: string = 'concepts-v1') {
+    this.id = id;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    this.embedded.push(...texts);
+    return texts.map((text) => {
+      const vector = new Float32Array(3);
+      for (const word of text.toLowerCase().split(/\W+/)) {
+        const dim = CONCEPTS[word];
+        if (dim !== undefined) vector[dim]! += 1;
+      }
+      const norm = Math.hypot(...vector);
+      return norm > 0 ? vector.map((v) => v / norm) : vector;
+    });
+  }
+}
+
+describe('DenseVectorIndex', () => {
+  let dense: DenseVectorIndex;
+  let provider: ConceptProvider;
+
+  beforeEach(() => {
+    provider = new ConceptProvider();
+    dense = new DenseVectorIndex(join(tmpDir, 'dense.db'), provider);
+  });
+
+  afterEach(() => {
+    dense.close();
+  });
+
+  it('matches related words that share no terms', async () => {
+    await dense.updateFile('ops.md', 'How we release to production every Friday');
+    await dense.updateFile('food.md', 'Grandma cake recipe');
+
+    const results = await dense.search('deploy');
+    expect(results[0]!.path).toBe('ops.md');
+    expect(results[0]!.score).toBeCloseTo(1, 5);
+    expect(results.find((r) => r.path === 'food.md')).toBeUndefined();
+  });
+
+  it('returns the matching chunk with its line range', async () => {
+    await dense.updateFile('mixed.md', '# Baking\n\ncake notes\n\n# Ops\n\nship it on Fridays');
+
+    const results = await dense.search('rollout');
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ path: 'mixed.md', startLine: 5, endLine: 7 });
+    expect(results[0]!.score).toBeCloseTo(1, 5);
+  });
+
+  it('skips re-embedding unchanged files', async () => {
+    await dense.updateFile('doc.md', 'postgres notes');
+    await dense.updateFile('doc.md', 'postgres notes');
+    expect(provider.embedded).toEqual(['postgres notes']);
+
+    await dense.updateFile('doc.md', 'sqlite notes');
+    expect(provider.embedded).toEqual(['postgres notes', 'sqlite notes']);
+  });
+
+  it('re-embeds when the model changes', async () => {
+    await dense.updateFile('doc.md', 'postgres notes');
+    dense.close();
+
+    const other = new ConceptProvider('concepts-v2');
+    dense = new DenseVectorIndex(join(tmpDir, 'dense.db'), other);
+    await dense.updateFile('doc.md', 'postgres notes');
+    expect(other.embedded).toEqual(['postgres notes']);
+  });
+
+  it('rebuildIndex drops files no longer in the vault', async () => {
+    const vaultDir = join(tmpDir, 'vault');
+    await mkdir(vaultDir, { recursive: true });
+    await writeFile(join(vaultDir, 'keep.md'), 'database tuning');
+    await dense.updateFile('gone.md', 'database backups');
+
+    await dense.rebuildIndex(vaultDir);
+
+    const results = await dense.search('sqlite');
+    expect(results.map((r) => r.path)).toEqual(['keep.md']);
+  });
+
+  it('removeFromIndex removes file from results', async () => {
+    await dense.updateFile('doc.md', 'baking');
+    dense.removeFromIndex('doc.md');
+    expect(await dense.search('cake')).toEqual([]);
+  });
+});
+
+describe('createSemanticIndex', () => {
+  it('defaults to TF-IDF', () => {
+    const semantic = createSemanticIndex(join(tmpDir, 'default.db'));
+    expect(semantic).toBeInstanceOf(VectorIndex);
+    semantic.close();
+  });
+
+  it('uses a dense index for the local provider', () => {
+    const semantic = createSemanticIndex(join(tmpDir, 'local.db'), {
+      provider: 'local',
+      modelPath: join(tmpDir, 'model'),
+    });
+    expect(semantic).toBeInstanceOf(DenseVectorIndex);
+    semantic.close();
+  });
+
+  it('reports a missing model clearly', async () => {
+    const semantic = createSemanticIndex(join(tmpDir, 'missing.db'), {
+      provider: 'local',
+      modelPath: join(tmpDir, 'no-such-model'),
+    });
+    await expect(semantic.search('anything')).rejects.toThrow(/Embedding model not found/);
+    semantic.close();
+  });
+});
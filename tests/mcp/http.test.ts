@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { startMcpHttpServer, MCP_HTTP_PATH } from '../../src/mcp/http.js';
+import type { ApiKeyInfo } from '../../src/types.js';
+import { tmpdir } from 'node:os';
+import { mkdtemp, rm, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+
+const PORT = 47913;
+const URL_ = `http://127.0.0.1:${PORT}${MCP_HTTP_PATH}`;
+
+let tmpDir: string;
+let key: ApiKeyInfo;
+let server: { close(): Promise<void> } | null;
+
+async function start(sessionIdleMs?: number): Promise<void> {
+  server = await startMcpHttpServer({
+    vaultPath: join(tmpDir, 'vault'),
+    searchDbPath: join(tmpDir, 'search.db'),
+    host: '127.0.0.1',
+    port: PORT,
+    sessionIdleMs,
+    authenticate: async (secret) => (secret === 'secret' ? { ...key } : null),
+  });
+}
+
+function post(body: object, sessionId?: string): Promise<Response> {
+  return fetch(URL_, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      Authorization: 'Bearer secret',
+      ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+async function openSession(): Promise<string> {
+  const response = await post({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+  });
+  await response.text();
+  expect(response.status).toBe(200);
+  return response.headers.get('mcp-session-id')!;
+}
+
+async function listTools(sessionId: string): Promise<number> {
+  const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, sessionId);
+  await response.text();
+  return response.status;
+}
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), 'contextmate-mcp-http-test-'));
+  await mkdir(join(tmpDir, 'vault'), { recursive: true });
+  key = { id: 'key-1', name: 'test', scope: '*', permissions: 'read-write', createdAt: 0, lastUsed: null, scopeSyntax: 2 };
+  server = null;
+});
+
+afterEach(async () => {
+  await server?.close();
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('MCP over HTTP', () => {
+  it('ends a session once its API key is narrowed', async () => {
+    await start();
+    const sessionId = await openSession();
+    expect(await listTools(sessionId)).toBe(200);
+
+    key.permissions = 'read';
+    expect(await listTools(sessionId)).toBe(404);
+
+    // Restoring the key doesn't bring the session back
+    key.permissions = 'read-write';
+    expect(await listTools(sessionId)).toBe(404);
+    expect(await listTools(await openSession())).toBe(200);
+  });
+
+  it('ends sessions that sit idle', async () => {
+    await start(50);
+    const sessionId = await openSession();
+    await new Promise((r) => setTimeout(r, 200));
+    expect(await listTools(sessionId)).toBe(404);
+  });
+});
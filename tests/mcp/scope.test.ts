@@ -4,48 +4,96 @@ import {
   hasPermission,
   requiredPermission,
   extractFilePath,
+  isValidScope,
 } from '../../src/mcp/scope.js';
+import { normalizePermission, upgradeLegacyScope } from '../../server/src/shared/api-keys.js';
 
 describe('matchesScope', () => {
   it('"*" matches everything', () => {
     expect(matchesScope('skills/my-skill/SKILL.md', '*')).toBe(true);
     expect(matchesScope('openclaw/MEMORY.md', '*')).toBe(true);
     expect(matchesScope('anything/at/all.md', '*')).toBe(true);
+    expect(matchesScope('.hidden/file.md', '*')).toBe(true);
   });
 
-  it('"skills/*" matches "skills/my-skill/SKILL.md"', () => {
-    expect(matchesScope('skills/my-skill/SKILL.md', 'skills/*')).toBe(true);
+  it('matches globs against the whole path', () => {
+    const scope = 'claude/projects/*/memory/**';
+    expect(matchesScope('claude/projects/app/memory/notes.md', scope)).toBe(true);
+    expect(matchesScope('claude/projects/app/memory/2026/01.md', scope)).toBe(true);
+    expect(matchesScope('claude/projects/app/CLAUDE.md', scope)).toBe(false);
+    expect(matchesScope('claude/projects/a/b/memory/notes.md', scope)).toBe(false);
   });
 
-  it('"skills/*" matches paths containing "/skills/"', () => {
-    expect(matchesScope('openclaw/skills/my-skill/SKILL.md', 'skills/*')).toBe(true);
+  it('"dir/*" matches direct children only', () => {
+    expect(matchesScope('skills/README.md', 'skills/*')).toBe(true);
+    expect(matchesScope('skills/my-skill/SKILL.md', 'skills/*')).toBe(false);
+    expect(matchesScope('openclaw/skills/my-skill/SKILL.md', 'skills/*')).toBe(false);
   });
 
-  it('"skills/*" does not match "openclaw/MEMORY.md"', () => {
-    expect(matchesScope('openclaw/MEMORY.md', 'skills/*')).toBe(false);
+  it('a plain path matches that file or everything under that folder', () => {
+    expect(matchesScope('skills/my-skill/SKILL.md', 'skills')).toBe(true);
+    expect(matchesScope('skills/my-skill/SKILL.md', 'skills/')).toBe(true);
+    expect(matchesScope('openclaw/MEMORY.md', 'openclaw/MEMORY.md')).toBe(true);
+    expect(matchesScope('skillset/notes.md', 'skills')).toBe(false);
   });
 
-  it('"memories/*" matches paths with "memory/" in them', () => {
-    expect(matchesScope('openclaw/memory/2026-01-01.md', 'memories/*')).toBe(true);
+  it('accepts Windows separators in the file path', () => {
+    expect(matchesScope('skills\\my-skill\\SKILL.md', 'skills/**')).toBe(true);
   });
 
-  it('"memories/*" matches paths ending with "MEMORY.md"', () => {
-    expect(matchesScope('openclaw/MEMORY.md', 'memories/*')).toBe(true);
+  it('comma-separated patterns match any of them', () => {
+    const scope = 'skills/**, **/MEMORY.md';
+    expect(matchesScope('skills/my-skill/SKILL.md', scope)).toBe(true);
+    expect(matchesScope('openclaw/MEMORY.md', scope)).toBe(true);
+    expect(matchesScope('random/other-file.md', scope)).toBe(false);
   });
 
-  it('comma-separated "skills/*,memories/*" matches both skill and memory paths', () => {
-    expect(matchesScope('skills/my-skill/SKILL.md', 'skills/*,memories/*')).toBe(true);
-    expect(matchesScope('openclaw/memory/2026-01-01.md', 'skills/*,memories/*')).toBe(true);
-    expect(matchesScope('openclaw/MEMORY.md', 'skills/*,memories/*')).toBe(true);
+  it('exclusions win over inclusions regardless of order', () => {
+    for (const scope of ['**, !**/secrets/**', '!**/secrets/**, **']) {
+      expect(matchesScope('notes/secrets/keys.md', scope)).toBe(false);
+      expect(matchesScope('secrets/keys.md', scope)).toBe(false);
+      expect(matchesScope('notes/todo.md', scope)).toBe(true);
+    }
   });
 
-  it('comma-separated scope does not match unrelated paths', () => {
-    expect(matchesScope('random/other-file.md', 'skills/*,memories/*')).toBe(false);
+  it('a scope of only exclusions includes everything else', () => {
+    expect(matchesScope('notes/todo.md', '!**/secrets/**')).toBe(true);
+    expect(matchesScope('notes/secrets/keys.md', '!**/secrets/**')).toBe(false);
   });
 
   it('empty scope matches nothing', () => {
     expect(matchesScope('skills/my-skill/SKILL.md', '')).toBe(false);
     expect(matchesScope('anything.md', '')).toBe(false);
+    expect(matchesScope('anything.md', ' , ')).toBe(false);
+  });
+});
+
+describe('isValidScope', () => {
+  it('requires at least one pattern', () => {
+    expect(isValidScope('*')).toBe(true);
+    expect(isValidScope('!secrets/**')).toBe(true);
+    expect(isValidScope('')).toBe(false);
+    expect(isValidScope(' , ! ')).toBe(false);
+    expect(isValidScope(undefined)).toBe(false);
+  });
+});
+
+describe('upgradeLegacyScope', () => {
+  it('keeps the old matches for "dir/*" and "memories/*"', () => {
+    const skills = upgradeLegacyScope('skills/*');
+    expect(matchesScope('skills/my-skill/SKILL.md', skills)).toBe(true);
+    expect(matchesScope('openclaw/skills/my-skill/SKILL.md', skills)).toBe(true);
+    expect(matchesScope('openclaw/MEMORY.md', skills)).toBe(false);
+
+    const memories = upgradeLegacyScope('memories/*');
+    expect(matchesScope('openclaw/memory/2026-01-01.md', memories)).toBe(true);
+    expect(matchesScope('openclaw/MEMORY.md', memories)).toBe(true);
+    expect(matchesScope('skills/my-skill/SKILL.md', memories)).toBe(false);
+  });
+
+  it('leaves "*" and exact paths alone', () => {
+    expect(upgradeLegacyScope('*')).toBe('*');
+    expect(upgradeLegacyScope('openclaw/MEMORY.md, skills/*')).toBe('openclaw/MEMORY.md,**/skills/**');
   });
 });
 
@@ -67,6 +115,23 @@ describe('hasPermission', () => {
   });
 });
 
+describe('normalizePermission', () => {
+  it('accepts the shared permission names', () => {
+    expect(normalizePermission('read')).toBe('read');
+    expect(normalizePermission('read-write')).toBe('read-write');
+  });
+
+  it('maps legacy server names to read-write', () => {
+    expect(normalizePermission('write')).toBe('read-write');
+    expect(normalizePermission('readwrite')).toBe('read-write');
+  });
+
+  it('rejects unknown values', () => {
+    expect(normalizePermission('admin')).toBeNull();
+    expect(normalizePermission(undefined)).toBeNull();
+  });
+});
+
 describe('requiredPermission', () => {
   it('"write-memory" requires "read-write"', () => {
     expect(requiredPermission('write-memory')).toBe('read-write');
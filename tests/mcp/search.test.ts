@@ -92,6 +92,16 @@ describe('SearchIndex', () => {
     expect(results.length).toBeGreaterThan(0);
   });
 
+  it('returns the matching section of a long file with its line range', () => {
+    const content = ['# Setup', 'install dependencies', '', '# Deploy', 'push the release tag', 'watch the rollout'].join('\n');
+    index.indexFile('notes.md', content);
+
+    const results = index.search('rollout');
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ path: 'notes.md', startLine: 4, endLine: 6 });
+    expect(results[0]!.snippet).toContain('>>>rollout<<<');
+  });
+
   it('close works without error', () => {
     const tmpIndex = new SearchIndex(join(tmpDir, 'close-test.db'));
     expect(() => tmpIndex.close()).not.toThrow();
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SearchIndex } from '../../src/mcp/search.js';
+import { VectorIndex } from '../../src/mcp/embeddings.js';
+import { updateIndexFromVault, collectMdFiles } from '../../src/mcp/vault.js';
+import { tmpdir } from 'node:os';
+import { mkdtemp, rm, mkdir, writeFile, unlink, utimes } from 'node:fs/promises';
+import { join } from 'node:path';
+
+let tmpDir: string;
+let vaultDir: string;
+let index: SearchIndex;
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), 'contextmate-vault-index-test-'));
+  vaultDir = join(tmpDir, 'vault');
+  await mkdir(join(vaultDir, 'memory'), { recursive: true });
+  index = new SearchIndex(join(tmpDir, 'search.db'));
+});
+
+afterEach(async () => {
+  index.close();
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+/** Wraps an index to record which files were re-indexed. */
+function recording(target: SearchIndex): { indexed: string[]; touched: string[]; index: SearchIndex } {
+  const indexed: string[] = [];
+  const touched: string[] = [];
+  const proxy = Object.create(target) as SearchIndex;
+  proxy.indexFile = (path, content, mtimeMs) => {
+    indexed.push(path);
+    target.indexFile(path, content, mtimeMs);
+  };
+  proxy.touchFile = (path, mtimeMs) => {
+    touched.push(path);
+    target.touchFile(path, mtimeMs);
+  };
+  return { indexed, touched, index: proxy };
+}
+
+describe('updateIndexFromVault', () => {
+  it('indexes new files', async () => {
+    await writeFile(join(vaultDir, 'memory', 'a.md'), 'alpha notes');
+    await updateIndexFromVault(vaultDir, index);
+    expect(index.search('alpha').map((r) => r.path)).toEqual(['memory/a.md']);
+  });
+
+  it('skips files whose mtime has not changed', async () => {
+    await writeFile(join(vaultDir, 'a.md'), 'alpha');
+    await writeFile(join(vaultDir, 'b.md'), 'beta');
+    await updateIndexFromVault(vaultDir, index);
+
+    await writeFile(join(vaultDir, 'b.md'), 'beta revised');
+    await utimes(join(vaultDir, 'b.md'), new Date(), new Date(Date.now() + 5000));
+
+    const rec = recording(index);
+    await updateIndexFromVault(vaultDir, rec.index);
+    expect(rec.indexed).toEqual(['b.md']);
+    expect(index.search('revised').map((r) => r.path)).toEqual(['b.md']);
+  });
+
+  it('only touches files whose mtime moved but content is the same', async () => {
+    await writeFile(join(vaultDir, 'a.md'), 'alpha');
+    await updateIndexFromVault(vaultDir, index);
+    await utimes(join(vaultDir, 'a.md'), new Date(), new Date(Date.now() + 5000));
+
+    const rec = recording(index);
+    await updateIndexFromVault(vaultDir, rec.index);
+    expect(rec.indexed).toEqual([]);
+    expect(rec.touched).toEqual(['a.md']);
+
+    const again = recording(index);
+    await updateIndexFromVault(vaultDir, again.index);
+    expect(again.touched).toEqual([]);
+  });
+
+  it('removes files that left the vault', async () => {
+    await writeFile(join(vaultDir, 'gone.md'), 'ephemeral');
+    await updateIndexFromVault(vaultDir, index);
+    await unlink(join(vaultDir, 'gone.md'));
+
+    await updateIndexFromVault(vaultDir, index);
+    expect(index.search('ephemeral')).toEqual([]);
+    expect(index.getIndexedFiles()).toEqual([]);
+  });
+
+  it('keeps the TF-IDF index searchable after an incremental update', async () => {
+    const vectors = new VectorIndex(join(tmpDir, 'vectors.db'));
+    try {
+      await writeFile(join(vaultDir, 'a.md'), 'kubernetes upgrade checklist');
+      await vectors.updateFromVault(vaultDir);
+      await writeFile(join(vaultDir, 'b.md'), 'postgres failover runbook');
+      await vectors.updateFromVault(vaultDir);
+
+      expect(vectors.search('failover').map((r) => r.path)).toEqual(['b.md']);
+      expect(vectors.search('kubernetes').map((r) => r.path)).toEqual(['a.md']);
+    } finally {
+      vectors.close();
+    }
+  });
+});
+
+describe('collectMdFiles', () => {
+  it('skips dot directories and conflict sidecars', async () => {
+    await mkdir(join(vaultDir, '.trash'), { recursive: true });
+    await writeFile(join(vaultDir, '.trash', 'old.md'), 'x');
+    await writeFile(join(vaultDir, 'notes.md'), 'x');
+    await writeFile(join(vaultDir, 'notes.conflict.md'), 'x');
+    await writeFile(join(vaultDir, 'image.png'), 'x');
+
+    expect(await collectMdFiles(vaultDir, vaultDir)).toEqual(['notes.md']);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { makeBatches, runConcurrently } from '../../src/sync/batches.js';
+
+describe('makeBatches', () => {
+  it('starts a new batch at the file or byte limit, keeping order', () => {
+    const sizes = [1, 2, 3, 4, 5, 6];
+    expect(makeBatches(sizes, (n) => n, 3, 6)).toEqual([[1, 2, 3], [4], [5], [6]]);
+    expect(makeBatches(sizes, (n) => n, 2, 100)).toEqual([[1, 2], [3, 4], [5, 6]]);
+  });
+
+  it('gives an item over the byte limit a batch of its own', () => {
+    expect(makeBatches([1, 10, 1], (n) => n, 100, 5)).toEqual([[1], [10], [1]]);
+  });
+
+  it('makes no batches from no items', () => {
+    expect(makeBatches([], () => 1)).toEqual([]);
+  });
+});
+
+describe('runConcurrently', () => {
+  it('never runs more than the limit at once and returns results in order', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await runConcurrently([5, 1, 4, 2, 3], 2, async (n) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((r) => setTimeout(r, n));
+      running--;
+      return n * 10;
+    });
+    expect(results).toEqual([50, 10, 40, 20, 30]);
+    expect(peak).toBe(2);
+  });
+
+  it('stops starting tasks after one fails and throws its error', async () => {
+    const started: number[] = [];
+    const run = runConcurrently([1, 2, 3, 4], 1, async (n) => {
+      started.push(n);
+      if (n === 2) throw new Error('boom');
+      return n;
+    });
+    await expect(run).rejects.toThrow('boom');
+    expect(started).toEqual([1, 2]);
+  });
+});
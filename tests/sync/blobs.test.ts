@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { randomBytes as nodeRandomBytes } from 'node:crypto';
+import { hashContent } from '../../src/crypto/index.js';
+import { sealFile, openFile, sealChunkedFile, openChunkedFile, RollbackError } from '../../src/sync/blobs.js';
+
+const key = randomBytes(32);
+const data = new TextEncoder().encode('# Notes');
+
+describe('sealFile / openFile', () => {
+  it('seals above the last known counter', () => {
+    const future = Date.now() + 60_000;
+    const { encrypted, counter } = sealFile(data, key, 'a.md', future);
+    expect(counter).toBe(future + 1);
+    expect(openFile(encrypted, key, 'a.md', future)).toEqual({ plaintext: data, counter });
+  });
+
+  it('rejects a copy older than the last one synced', () => {
+    const old = sealFile(data, key, 'a.md', 0);
+    const current = sealFile(data, key, 'a.md', old.counter);
+    expect(() => openFile(old.encrypted, key, 'a.md', current.counter)).toThrow(RollbackError);
+  });
+});
+
+describe('sealChunkedFile / openChunkedFile', () => {
+  const large = new Uint8Array(nodeRandomBytes(6 * 1024 * 1024));
+
+  function store(chunks: Array<{ id: string; seal(): Uint8Array }>): Map<string, Uint8Array> {
+    return new Map(chunks.map((chunk) => [chunk.id, chunk.seal()]));
+  }
+
+  it('puts a file back together from its chunks', async () => {
+    const { encrypted, counter, chunks } = sealChunkedFile(large, key, 'logs/big.log', 0);
+    const stored = store(chunks);
+    const opened = await openChunkedFile(encrypted, key, 'logs/big.log', 0, async (id) => stored.get(id)!);
+    expect(opened.counter).toBe(counter);
+    expect(hashContent(opened.plaintext)).toBe(hashContent(large));
+  });
+
+  it('rejects a chunk swapped for another', async () => {
+    const { encrypted, chunks } = sealChunkedFile(large, key, 'logs/big.log', 0);
+    const stored = store(chunks);
+    const other = stored.get(chunks[1]!.id)!;
+    stored.set(chunks[0]!.id, other);
+    await expect(
+      openChunkedFile(encrypted, key, 'logs/big.log', 0, async (id) => stored.get(id)!),
+    ).rejects.toThrow('does not match its index');
+  });
+
+  it('does not take a chunk index for a whole file', () => {
+    const { encrypted } = sealChunkedFile(large, key, 'logs/big.log', 0);
+    expect(() => openFile(encrypted, key, 'logs/big.log', 0)).toThrow();
+  });
+});
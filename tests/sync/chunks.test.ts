@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { randomBytes as nodeRandomBytes } from 'node:crypto';
+import { splitChunks, chunkId } from '../../src/sync/chunks.js';
+import { hashContent } from '../../src/crypto/index.js';
+
+const MB = 1024 * 1024;
+
+function randomBytes(length: number): Uint8Array {
+  return new Uint8Array(nodeRandomBytes(length));
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.length;
+  }
+  return out;
+}
+
+describe('splitChunks', () => {
+  it('splits data into chunks that join back up', () => {
+    const data = randomBytes(12 * MB);
+    const chunks = splitChunks(data);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(hashContent(concat(chunks))).toBe(hashContent(data));
+  });
+
+  it('keeps chunks between the minimum and maximum size', () => {
+    const chunks = splitChunks(randomBytes(12 * MB));
+    for (const chunk of chunks.slice(0, -1)) {
+      expect(chunk.length).toBeGreaterThanOrEqual(256 * 1024);
+      expect(chunk.length).toBeLessThanOrEqual(4 * MB);
+    }
+    // Data with no boundaries is cut at the maximum
+    expect(splitChunks(new Uint8Array(9 * MB)).map((c) => c.length)).toEqual([4 * MB, 4 * MB, MB]);
+  });
+
+  it('leaves chunks before an edit unchanged', () => {
+    const data = randomBytes(12 * MB);
+    const edited = new Uint8Array(data.length + 100);
+    edited.set(data);
+    edited.set(randomBytes(100), data.length);
+    edited[data.length - 10] ^= 0xff;
+
+    const key = randomBytes(32);
+    const before = splitChunks(data).map((c) => chunkId(c, key));
+    const after = splitChunks(edited).map((c) => chunkId(c, key));
+    expect(after.slice(0, -1)).toEqual(before.slice(0, -1));
+    expect(after.at(-1)).not.toBe(before.at(-1));
+  });
+
+  it('returns no chunks for empty data', () => {
+    expect(splitChunks(new Uint8Array(0))).toEqual([]);
+  });
+});
+
+describe('chunkId', () => {
+  it('depends on the key', () => {
+    const chunk = randomBytes(64);
+    expect(chunkId(chunk, randomBytes(32))).not.toBe(chunkId(chunk, randomBytes(32)));
+    expect(chunkId(chunk, new Uint8Array(32))).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
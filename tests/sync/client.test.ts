@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { tmpdir } from 'node:os';
+import { mkdtemp, rm, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { SyncClient, DeviceRevokedError } from '../../src/sync/client.js';
+
+describe('SyncClient token refresh', () => {
+  let tmpDir: string;
+  let authPath: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'contextmate-client-'));
+    authPath = join(tmpDir, 'auth.json');
+    await writeFile(authPath, JSON.stringify({ authHash: 'hash', userId: 'user-1', token: 'old', deviceId: 'dev-1' }));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('logs in again as the same device and retries with the new token', async () => {
+    const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+      if (url.endsWith('/api/auth/login')) {
+        expect(JSON.parse(String(init?.body))).toEqual({ authKeyHash: 'hash', deviceId: 'dev-1' });
+        return Response.json({ userId: 'user-1', token: 'new' });
+      }
+      const auth = new Headers(init?.headers).get('Authorization');
+      return auth === 'Bearer new' ? Response.json({ files: [] }) : new Response(null, { status: 401 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new SyncClient('http://server', 'old');
+    client.enableTokenRefresh({ authJsonPath: authPath });
+
+    await expect(client.listRemoteFiles()).resolves.toEqual([]);
+    expect(client.getToken()).toBe('new');
+    expect(JSON.parse(await readFile(authPath, 'utf-8')).token).toBe('new');
+  });
+
+  it('clears the saved login and stops retrying once the device is revoked', async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith('/api/auth/login')) {
+        return Response.json({ error: 'Device revoked', code: 'device-revoked' }, { status: 403 });
+      }
+      return new Response(null, { status: 401 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const onDeviceRevoked = vi.fn();
+    const client = new SyncClient('http://server', 'old');
+    client.enableTokenRefresh({ authJsonPath: authPath, onDeviceRevoked });
+
+    await expect(client.listRemoteFiles()).rejects.toBeInstanceOf(DeviceRevokedError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onDeviceRevoked).toHaveBeenCalledOnce();
+    expect(JSON.parse(await readFile(authPath, 'utf-8'))).toEqual({ userId: 'user-1' });
+  });
+});
+
+describe('SyncClient files path', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends vault file requests to a team vault when given its files path', async () => {
+    const fetchMock = vi.fn(async (_url: string) => Response.json({ version: 1 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new SyncClient('http://server', 'token', '/api/teams/team-1/files');
+    await client.uploadFile('notes/a.md', new Uint8Array([1]), 'hash', 0);
+    await client.downloadFile('notes/a.md');
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'http://server/api/teams/team-1/files/notes%2Fa.md',
+      'http://server/api/teams/team-1/files/notes%2Fa.md',
+    ]);
+  });
+});
+
+describe('SyncClient change feed', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the changes and new cursor after a cursor', async () => {
+    const changes = [{ seq: 8, path: 'a.md', version: null, encryptedHash: null, size: null, updatedAt: 1, deleted: true }];
+    const fetchMock = vi.fn(async (_url: string) => Response.json({ changes, cursor: 9 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new SyncClient('http://server', 'token');
+    expect(await client.getChanges(7)).toEqual({ changes, cursor: 9 });
+    expect(fetchMock.mock.calls[0][0]).toBe('http://server/api/files/changes?cursor=7');
+  });
+
+  it('returns null when the server no longer accepts the cursor', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: 'gone' }, { status: 410 })));
+
+    const client = new SyncClient('http://server', 'token');
+    expect(await client.getChanges(7)).toBeNull();
+  });
+});
+
+describe('SyncClient batches', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('decodes the files of a batch download and passes on per-file errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({
+      files: [
+        { path: 'a.md', data: Buffer.from([1, 2]).toString('base64'), version: 3, encryptedHash: 'h', chunked: false },
+        { path: 'b.md', error: 'File not found' },
+      ],
+    })));
+
+    const client = new SyncClient('http://server', 'token');
+    expect(await client.downloadFiles(['a.md', 'b.md'])).toEqual([
+      { path: 'a.md', data: new Uint8Array([1, 2]), version: 3, encryptedHash: 'h', chunked: false },
+      { path: 'b.md', error: 'File not found' },
+    ]);
+  });
+
+  it('returns null when the server has no batch endpoint', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 404 })));
+
+    const client = new SyncClient('http://server', 'token');
+    expect(await client.uploadFiles([{ path: 'a.md', data: new Uint8Array([1]), encryptedHash: 'h', version: 0 }])).toBeNull();
+    expect(await client.downloadFiles(['a.md'])).toBeNull();
+  });
+});
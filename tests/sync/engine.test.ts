@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { tmpdir } from 'node:os';
+import { mkdir, mkdtemp, readFile, rm, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { SyncEngine } from '../../src/sync/engine.js';
+import { SyncStateDB } from '../../src/sync/state.js';
+import { sealFile, openFile } from '../../src/sync/blobs.js';
+import { deriveKeyForPath, hashContent } from '../../src/crypto/index.js';
+import { getDefaultConfig } from '../../src/config.js';
+import { CHUNKED_FILE_SIZE } from '../../src/sync/chunks.js';
+
+const vaultKey = new Uint8Array(32).fill(7);
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * The server's files API as seen through fetch, with version history and
+ * version checks on upload and delete, under /api/files or a team's
+ * /api/teams/<id>/files. Every other route answers 404, as from a server
+ * without that feature. Requests listed in `refuse`, such
+ * as `PUT notes.md`, are answered 403.
+ */
+class FakeServer {
+  files = new Map<string, Uint8Array[]>();
+  refuse = new Set<string>();
+
+  fetch = async (input: string, init?: RequestInit): Promise<Response> => {
+    const url = new URL(input);
+    const method = init?.method ?? 'GET';
+    const match = /^\/api(?:\/teams\/[^/]+)?\/files\/([^/]+)(?:\/versions\/(\d+))?$/.exec(url.pathname);
+    if (/^\/api(?:\/teams\/[^/]+)?\/files$/.test(url.pathname) && method === 'GET') {
+      return Response.json({
+        files: [...this.files.entries()].map(([path, versions]) => ({
+          path, version: versions.length, encryptedHash: '', size: versions.at(-1)!.length, updatedAt: 0,
+        })),
+      });
+    }
+    if (!match) return new Response(null, { status: 404 });
+
+    const path = decodeURIComponent(match[1]!);
+    const versions = this.files.get(path);
+    if (this.refuse.has(`${method} ${path}`)) return new Response(null, { status: 403 });
+
+    if (method === 'GET') {
+      const version = match[2] ? Number(match[2]) : versions?.length ?? 0;
+      const data = versions?.[version - 1];
+      if (!data) return new Response(null, { status: 404 });
+      return new Response(data, { headers: { 'X-Version': String(version), 'X-Content-Hash': hashContent(data) } });
+    }
+
+    const expected = new Headers(init?.headers).get('X-Version');
+    if (expected !== null && Number(expected) !== (versions?.length ?? 0)) {
+      return Response.json({ error: 'Version conflict' }, { status: 409 });
+    }
+    if (method === 'PUT') {
+      const data = new Uint8Array(init!.body as Uint8Array);
+      this.files.set(path, [...(versions ?? []), data]);
+      return Response.json({ path, version: this.files.get(path)!.length });
+    }
+    if (method === 'DELETE') {
+      if (!versions) return new Response(null, { status: 404 });
+      this.files.delete(path);
+      return Response.json({ ok: true });
+    }
+    return new Response(null, { status: 404 });
+  };
+
+  /** Save a new version the way another device would. */
+  write(path: string, text: string): number {
+    const versions = this.files.get(path) ?? [];
+    const { encrypted } = sealFile(encoder.encode(text), deriveKeyForPath(vaultKey, path), path, Date.now());
+    this.files.set(path, [...versions, encrypted]);
+    return versions.length + 1;
+  }
+
+  read(path: string): string | null {
+    const data = this.files.get(path)?.at(-1);
+    return data ? decoder.decode(openFile(data, deriveKeyForPath(vaultKey, path), path, 0).plaintext) : null;
+  }
+}
+
+describe('SyncEngine queued changes', () => {
+  let tmpDir: string;
+  let server: FakeServer;
+  let engine: SyncEngine;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'contextmate-engine-'));
+    server = new FakeServer();
+    vi.stubGlobal('fetch', server.fetch);
+
+    const config = getDefaultConfig();
+    config.server.url = 'http://127.0.0.1:9';
+    config.vault.path = join(tmpDir, 'vault');
+    config.data.path = join(tmpDir, 'data');
+    // Changes are handed to the engine by the test, not the watcher
+    config.sync.debounceMs = 60_000;
+    config.sync.pollIntervalMs = 60_000;
+
+    server.write('notes.md', 'one\ntwo\nthree\n');
+    engine = new SyncEngine(config, vaultKey, 'token');
+    await engine.start();
+  });
+
+  afterEach(async () => {
+    await engine.stop();
+    vi.unstubAllGlobals();
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('merges an edit still waiting to be sent with a remote update instead of overwriting it', async () => {
+    const file = join(tmpDir, 'vault', 'notes.md');
+    expect(await readFile(file, 'utf-8')).toBe('one\ntwo\nthree\n');
+
+    server.refuse.add('PUT notes.md');
+    await writeFile(file, 'ONE\ntwo\nthree\n');
+    await engine.handleLocalChange('notes.md');
+    expect(server.files.get('notes.md')).toHaveLength(1);
+    server.refuse.clear();
+
+    const version = server.write('notes.md', 'one\ntwo\nTHREE\n');
+    await engine.handleRemoteUpdate('notes.md', version);
+
+    expect(await readFile(file, 'utf-8')).toBe('ONE\ntwo\nTHREE\n');
+    expect(server.read('notes.md')).toBe('ONE\ntwo\nTHREE\n');
+  });
+
+  it('keeps a file changed remotely after it was deleted here', async () => {
+    const file = join(tmpDir, 'vault', 'notes.md');
+    server.refuse.add('DELETE notes.md');
+    await unlink(file);
+    await engine.deleteFile('notes.md');
+    expect(server.files.has('notes.md')).toBe(true);
+    server.refuse.clear();
+
+    const version = server.write('notes.md', 'one\ntwo\nthree\nfour\n');
+    await engine.handleRemoteUpdate('notes.md', version);
+
+    // Sending the queued deletion now must not remove the newer version
+    await engine.syncAll();
+    expect(server.read('notes.md')).toBe('one\ntwo\nthree\nfour\n');
+    expect(await readFile(file, 'utf-8')).toBe('one\ntwo\nthree\nfour\n');
+  });
+
+  it('sends other changes past one the server refuses, and tries that one again on a full sync', async () => {
+    server.refuse.add('PUT notes.md');
+    await writeFile(join(tmpDir, 'vault', 'notes.md'), 'refused\n');
+    await engine.handleLocalChange('notes.md');
+    await writeFile(join(tmpDir, 'vault', 'todo.md'), 'sent\n');
+    await engine.handleLocalChange('todo.md');
+
+    expect(server.read('todo.md')).toBe('sent\n');
+    expect(server.read('notes.md')).toBe('one\ntwo\nthree\n');
+
+    server.refuse.clear();
+    await engine.syncAll();
+    expect(server.read('notes.md')).toBe('refused\n');
+  });
+
+  it('keeps an edit as a conflict when the server offers an older copy back', async () => {
+    const file = join(tmpDir, 'vault', 'notes.md');
+    await writeFile(file, 'ONE\ntwo\nthree\n');
+    await engine.handleLocalChange('notes.md');
+
+    // The server replays the first version as a newer one
+    server.files.get('notes.md')!.push(server.files.get('notes.md')![0]!);
+    await writeFile(file, 'ONE\nTWO\nthree\n');
+    await engine.handleLocalChange('notes.md');
+    await engine.stop();
+
+    expect(await readFile(file, 'utf-8')).toBe('ONE\nTWO\nthree\n');
+    const db = new SyncStateDB(join(tmpDir, 'data', 'sync.db'));
+    try {
+      expect(db.getConflicts().map((f) => f.path)).toEqual(['notes.md']);
+      expect(db.getQueuedOperation('notes.md')).toMatchObject({ operation: 'upload', parked: true });
+    } finally {
+      db.close();
+    }
+  });
+});
+
+describe('SyncEngine team vaults', () => {
+  let tmpDir: string;
+  let server: FakeServer;
+  let engine: SyncEngine;
+  const reported: string[] = [];
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'contextmate-engine-'));
+    server = new FakeServer();
+    vi.stubGlobal('fetch', server.fetch);
+    reported.length = 0;
+
+    const config = getDefaultConfig();
+    config.server.url = 'http://127.0.0.1:9';
+    config.vault.path = join(tmpDir, 'vault');
+    config.data.path = join(tmpDir, 'data');
+    config.sync.debounceMs = 60_000;
+    config.sync.pollIntervalMs = 60_000;
+
+    engine = new SyncEngine(config, vaultKey, 'token', 'team-1', (path, message) => reported.push(`${path}: ${message}`));
+    await engine.start();
+  });
+
+  afterEach(async () => {
+    await engine.stop();
+    vi.unstubAllGlobals();
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('keeps files too large for a team vault on this device and reports them once', async () => {
+    const folder = join(tmpDir, 'teams', 'team-1');
+    await mkdir(folder, { recursive: true });
+    await writeFile(join(folder, 'big.bin'), new Uint8Array(CHUNKED_FILE_SIZE + 1));
+    await writeFile(join(folder, 'small.md'), 'small\n');
+
+    await engine.handleLocalChange('big.bin');
+    await engine.syncAll();
+
+    expect(server.read('small.md')).toBe('small\n');
+    expect(server.files.has('big.bin')).toBe(false);
+    expect(reported).toEqual([expect.stringMatching(/^big\.bin: Not synced: team vaults take files up to 4 MB/)]);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PathManifest, MANIFEST_PATH } from '../../src/sync/manifest.js';
+import { ConflictError } from '../../src/sync/client.js';
+import type { SyncClient } from '../../src/sync/client.js';
+import { encryptPathId } from '../../src/crypto/keys.js';
+
+/** In-memory stand-in for the server's files API. */
+class FakeClient {
+  files = new Map<string, { data: Uint8Array; version: number }>();
+
+  async uploadFile(path: string, data: Uint8Array, _hash: string, version: number): Promise<{ version: number }> {
+    const current = this.files.get(path);
+    if ((current?.version ?? 0) !== version) throw new ConflictError(path);
+    const next = version + 1;
+    this.files.set(path, { data, version: next });
+    return { version: next };
+  }
+
+  async downloadFile(path: string): Promise<{ data: Uint8Array; version: number; encryptedHash: string }> {
+    const file = this.files.get(path);
+    if (!file) throw new Error(`Download failed for ${path}: 404 Not Found`);
+    return { data: file.data, version: file.version, encryptedHash: '' };
+  }
+
+  listing() {
+    return [...this.files.entries()].map(([path, f]) => ({ path, version: f.version, encryptedHash: '', size: 0, updatedAt: 0 }));
+  }
+}
+
+const vaultKey = new Uint8Array(32).fill(9);
+let client: FakeClient;
+
+beforeEach(() => {
+  client = new FakeClient();
+});
+
+describe('PathManifest', () => {
+  it('stores the manifest under an opaque ID', async () => {
+    const manifest = new PathManifest(client as unknown as SyncClient, vaultKey);
+    await manifest.add(['claude/projects/acme/notes.md']);
+    expect(manifest.manifestId).toBe(encryptPathId(vaultKey, MANIFEST_PATH));
+    expect([...client.files.keys()]).toEqual([manifest.manifestId]);
+  });
+
+  it('resolves IDs on another device after sync', async () => {
+    const a = new PathManifest(client as unknown as SyncClient, vaultKey);
+    await a.add(['skills/x/SKILL.md']);
+    const id = a.idFor('skills/x/SKILL.md');
+
+    const b = new PathManifest(client as unknown as SyncClient, vaultKey);
+    expect(b.resolve(id)).toBeUndefined();
+    expect(await b.sync(client.listing())).toBe(true);
+    expect(b.resolve(id)).toBe('skills/x/SKILL.md');
+  });
+
+  it('merges concurrent additions instead of overwriting', async () => {
+    const a = new PathManifest(client as unknown as SyncClient, vaultKey);
+    const b = new PathManifest(client as unknown as SyncClient, vaultKey);
+    await a.add(['a.md']);
+    await b.add(['b.md']); // conflicts with a's save, then merges
+
+    const c = new PathManifest(client as unknown as SyncClient, vaultKey);
+    await c.refresh();
+    expect(c.resolve(c.idFor('a.md'))).toBe('a.md');
+    expect(c.resolve(c.idFor('b.md'))).toBe('b.md');
+  });
+
+  it('resolveListing maps IDs and hides the manifest', async () => {
+    const manifest = new PathManifest(client as unknown as SyncClient, vaultKey);
+    await manifest.add(['a.md']);
+    const listing = [
+      ...client.listing(),
+      { path: manifest.idFor('a.md'), version: 1, encryptedHash: '', size: 1, updatedAt: 0 },
+    ];
+    const resolved = manifest.resolveListing(listing);
+    expect(resolved.map((f) => f.path)).toEqual(['a.md']);
+  });
+
+  it('reports no manifest for a plaintext vault', async () => {
+    const manifest = new PathManifest(client as unknown as SyncClient, vaultKey);
+    expect(await manifest.sync([{ path: 'a.md', version: 1, encryptedHash: '', size: 1, updatedAt: 0 }])).toBe(false);
+    expect(PathManifest.isPathId('a.md')).toBe(false);
+    expect(PathManifest.isPathId(manifest.idFor('a.md'))).toBe(true);
+  });
+});
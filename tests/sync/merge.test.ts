@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { mergeText, diffText } from '../../src/sync/merge.js';
+
+describe('mergeText', () => {
+  it('returns the changed side when only one side changed', () => {
+    expect(mergeText('a\n', 'a\nb\n', 'a\n')).toBe('a\nb\n');
+    expect(mergeText('a\n', 'a\n', 'a\nc\n')).toBe('a\nc\n');
+  });
+
+  it('keeps both appends to the same file, local first', () => {
+    const base = '# Log\n\n- one\n';
+    const local = '# Log\n\n- one\n- local entry\n';
+    const remote = '# Log\n\n- one\n- remote entry\n';
+    expect(mergeText(base, local, remote)).toBe('# Log\n\n- one\n- local entry\n- remote entry\n');
+  });
+
+  it('does not duplicate an append both sides made', () => {
+    const base = 'a\n';
+    expect(mergeText(base, 'a\nb\n', 'a\nb\n')).toBe('a\nb\n');
+    expect(mergeText(base, 'a\nb\n', 'a\nb\nc\n')).toBe('a\nb\nc\n');
+  });
+
+  it('merges edits to different sections', () => {
+    const base = '## One\nfirst\n\n## Two\nsecond\n\n## Three\nthird\n';
+    const local = '## One\nfirst, edited locally\n\n## Two\nsecond\n\n## Three\nthird\n';
+    const remote = '## One\nfirst\n\n## Two\nsecond\n\n## Three\nthird, edited remotely\n';
+    expect(mergeText(base, local, remote)).toBe(
+      '## One\nfirst, edited locally\n\n## Two\nsecond\n\n## Three\nthird, edited remotely\n',
+    );
+  });
+
+  it('applies a deletion on one side and an append on the other', () => {
+    const base = 'keep\ndrop\nkeep too\n';
+    const local = 'keep\nkeep too\n';
+    const remote = 'keep\ndrop\nkeep too\nnew\n';
+    expect(mergeText(base, local, remote)).toBe('keep\nkeep too\nnew\n');
+  });
+
+  it('returns null when both sides change the same line differently', () => {
+    expect(mergeText('status: draft\n', 'status: done\n', 'status: blocked\n')).toBeNull();
+  });
+
+  it('accepts identical edits on both sides', () => {
+    expect(mergeText('x\ny\n', 'x\nz\n', 'x\nz\n')).toBe('x\nz\n');
+  });
+
+  it('handles files without a trailing newline', () => {
+    expect(mergeText('a', 'a\nb', 'a\nc')).toBe('a\nb\nc');
+  });
+});
+
+describe('diffText', () => {
+  it('marks removed and added lines against unchanged context', () => {
+    expect(diffText('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'same', line: 'a' },
+      { type: 'removed', line: 'b' },
+      { type: 'added', line: 'B' },
+      { type: 'same', line: 'c' },
+      { type: 'added', line: 'd' },
+    ]);
+  });
+
+  it('reports identical texts as unchanged', () => {
+    expect(diffText('a\nb', 'a\nb')!.every((l) => l.type === 'same')).toBe(true);
+  });
+});
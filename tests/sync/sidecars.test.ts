@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { conflictSidecarPath, isConflictSidecar, sidecarOwner } from '../../src/sync/sidecars.js';
+
+describe('conflict sidecars', () => {
+  it('keeps the extension so scripts stay scripts', () => {
+    expect(conflictSidecarPath('notes/todo.md')).toBe('notes/todo.conflict.md');
+    expect(conflictSidecarPath('skills/deploy/run.sh')).toBe('skills/deploy/run.conflict.sh');
+    expect(conflictSidecarPath('Makefile')).toBe('Makefile.conflict');
+  });
+
+  it('maps every sidecar back to its file', () => {
+    for (const path of ['notes/todo.md', 'skills/deploy/run.sh', 'Makefile', 'v1.2/setup.py']) {
+      const sidecar = conflictSidecarPath(path);
+      expect(isConflictSidecar(sidecar)).toBe(true);
+      expect(sidecarOwner(sidecar)).toBe(path);
+    }
+  });
+
+  it('does not take ordinary files for sidecars', () => {
+    expect(isConflictSidecar('notes/todo.md')).toBe(false);
+    expect(isConflictSidecar('conflicts/notes.md')).toBe(false);
+  });
+});
@@ -157,6 +157,106 @@ describe('SyncStateDB', () => {
     expect(recent[0].path).toBe('new.md');
   });
 
+  it('getMeta and setMeta round-trip', () => {
+    expect(db.getMeta('path_mode')).toBeNull();
+    db.setMeta('path_mode', 'encrypted');
+    expect(db.getMeta('path_mode')).toBe('encrypted');
+    db.setMeta('path_mode', 'plain');
+    expect(db.getMeta('path_mode')).toBe('plain');
+  });
+
+  it('resetVersions zeroes every tracked version', () => {
+    db.upsertFile(makeSyncFile({ id: 'f1', path: 'a.md', version: 3 }));
+    db.upsertFile(makeSyncFile({ id: 'f2', path: 'b.md', version: 7 }));
+    db.resetVersions();
+    expect(db.getAllFiles().every((f) => f.version === 0)).toBe(true);
+  });
+
+  it('getChangeCursor and setChangeCursor round-trip', () => {
+    expect(db.getChangeCursor()).toBeNull();
+    db.setChangeCursor(42);
+    expect(db.getChangeCursor()).toBe(42);
+    db.setChangeCursor(null);
+    expect(db.getChangeCursor()).toBeNull();
+  });
+
+  it('resetVersions drops the change cursor', () => {
+    db.setChangeCursor(42);
+    db.resetVersions();
+    expect(db.getChangeCursor()).toBeNull();
+  });
+
+  it('collectDeletions forgets only deletions the server collected', () => {
+    db.addDeletion('old.md');
+    db.addDeletion('new.md');
+    db.addDeletion('pending.md');
+    db.confirmDeletion('old.md', 5);
+    db.confirmDeletion('new.md', 9);
+    db.collectDeletions(5);
+    expect(db.isDeletion('old.md')).toBe(false);
+    expect(db.isDeletion('new.md')).toBe(true);
+    expect(db.isDeletion('pending.md')).toBe(true);
+  });
+
+  it('recordBlobCounter never moves a counter backwards', () => {
+    expect(db.getBlobCounter('a.md')).toBe(0);
+    db.recordBlobCounter('a.md', 10);
+    db.recordBlobCounter('a.md', 7);
+    expect(db.getBlobCounter('a.md')).toBe(10);
+  });
+
+  it('queueOperation keeps one change per path, moving a newer one to the back', () => {
+    db.queueOperation('upload', 'a.md');
+    db.queueOperation('upload', 'b.md');
+    db.queueOperation('delete', 'a.md');
+    expect(db.getOutbox().map((e) => [e.operation, e.path])).toEqual([['upload', 'b.md'], ['delete', 'a.md']]);
+  });
+
+  it('getQueuedOperation returns the change queued for a path with the version it deletes', () => {
+    db.queueOperation('delete', 'a.md', 3);
+    expect(db.getQueuedOperation('a.md')).toMatchObject({ operation: 'delete', version: 3 });
+    expect(db.getQueuedOperation('b.md')).toBeNull();
+  });
+
+  it('nextOperation skips changes waiting to be retried', () => {
+    db.queueOperation('upload', 'a.md');
+    db.queueOperation('upload', 'b.md');
+    const first = db.nextOperation(Date.now())!;
+    db.retryOperation(first.id, 'offline', Date.now() + 60_000);
+    expect(db.nextOperation(Date.now())!.path).toBe('b.md');
+
+    const retried = db.getOutbox()[0]!;
+    expect(retried.attempts).toBe(1);
+    expect(retried.lastError).toBe('offline');
+
+    db.completeOperation(db.nextOperation(Date.now())!.id);
+    expect(db.nextOperation(Date.now())).toBeNull();
+    expect(db.nextOperation(Date.now() + 60_000)!.path).toBe('a.md');
+  });
+
+  it('nextOperation goes past a given change and leaves parked ones out unless asked', () => {
+    db.queueOperation('upload', 'a.md');
+    db.queueOperation('upload', 'b.md');
+    const first = db.nextOperation(Date.now())!;
+    db.parkOperation(first.id, 'Upload failed for a.md: 403 Forbidden');
+    expect(db.nextOperation(Date.now())!.path).toBe('b.md');
+    expect(db.nextOperation(Date.now(), 0, true)!.path).toBe('a.md');
+    expect(db.nextOperation(Date.now(), first.id, true)!.path).toBe('b.md');
+    expect(db.getOutbox()[0]).toMatchObject({ parked: true, attempts: 1 });
+
+    // A newer change to the file is tried again
+    db.queueOperation('upload', 'a.md');
+    expect(db.getQueuedOperation('a.md')!.parked).toBe(false);
+  });
+
+  it('forgetFolder drops a folder without touching look-alike siblings', () => {
+    db.upsertFile(makeSyncFile({ id: 'f1', path: 'skills/a/SKILL.md' }));
+    db.upsertFile(makeSyncFile({ id: 'f2', path: 'skills/a/notes/x.md' }));
+    db.upsertFile(makeSyncFile({ id: 'f3', path: 'skills/ab/SKILL.md' }));
+    db.forgetFolder('skills/a');
+    expect(db.getAllFiles().map((f) => f.path)).toEqual(['skills/ab/SKILL.md']);
+  });
+
   it('close closes database without error', () => {
     const tmpDb = new SyncStateDB(join(tmpDir, 'close-test.db'));
     expect(() => tmpDb.close()).not.toThrow();
@@ -4,6 +4,8 @@ export interface FileMetadata {
   encryptedHash: string;
   size: number;
   updatedAt: number;
+  // Path the server knows the file by, when paths are encrypted
+  remotePath?: string;
 }
 
 export interface AuditEntry {
@@ -38,6 +40,9 @@ export interface ApiKey {
   permissions: string;
   createdAt: number;
   revokedAt: number | null;
+  expiresAt: number | null;
+  lastUsedAt: number | null;
+  requestCount: number;
 }
 
 export interface CreateApiKeyResponse {
@@ -45,6 +50,7 @@ export interface CreateApiKeyResponse {
   key: string;
   scope: string;
   permissions: string;
+  expiresAt: number | null;
 }
 
 export class ApiError extends Error {
@@ -91,7 +97,7 @@ export class ApiClient {
     return data.salt;
   }
 
-  async login(authKeyHash: string): Promise<{ userId: string; token: string }> {
+  async login(authKeyHash: string): Promise<{ userId: string; token: string; wrappedVaultKey?: string | null }> {
     let res: Response;
     try {
       res = await fetch(`${this.baseUrl}/api/auth/login`, {
@@ -163,7 +169,7 @@ export class ApiClient {
     return data.entries;
   }
 
-  async downloadFile(path: string): Promise<{ data: ArrayBuffer; version: number }> {
+  async downloadFile(path: string): Promise<{ data: ArrayBuffer; version: number; chunked: boolean }> {
     const encoded = encodeURIComponent(path);
     const res = await fetch(`${this.baseUrl}/api/files/${encoded}`, {
       headers: this.headers(),
@@ -174,8 +180,10 @@ export class ApiClient {
       throw new ApiError(`Failed to download file (${res.status})`, res.status);
     }
     const version = parseInt(res.headers.get('X-Version') || '1', 10);
+    // Large files are stored in chunks, and this blob is only their index
+    const chunked = res.headers.get('X-Chunked') === '1';
     const data = await res.arrayBuffer();
-    return { data, version };
+    return { data, version, chunked };
   }
 
   async uploadFile(
@@ -219,6 +227,13 @@ export class ApiClient {
     }
   }
 
+  async logout(): Promise<void> {
+    await fetch(`${this.baseUrl}/api/auth/logout`, {
+      method: 'POST',
+      headers: this.headers(),
+    });
+  }
+
   async listDevices(): Promise<Device[]> {
     const res = await fetch(`${this.baseUrl}/api/auth/devices`, {
       headers: this.headers(),
@@ -284,14 +299,19 @@ export class ApiClient {
     return data.keys;
   }
 
-  async createApiKey(name: string, scope: string, permissions: string): Promise<CreateApiKeyResponse> {
+  async createApiKey(
+    name: string,
+    scope: string,
+    permissions: string,
+    expiresAt: number | null = null,
+  ): Promise<CreateApiKeyResponse> {
     const res = await fetch(`${this.baseUrl}/api/keys`, {
       method: 'POST',
       headers: {
         ...this.headers(),
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ name, scope, permissions }),
+      body: JSON.stringify({ name, scope, permissions, expiresAt }),
     });
     if (!res.ok) {
       this.checkUnauthorized(res.status);
@@ -0,0 +1,29 @@
+// Resolves opaque path IDs (CLI sync.encryptPaths) back to vault paths
+// using the encrypted manifest kept alongside the files (src/sync/manifest.ts)
+
+import type { ApiClient, FileMetadata } from './client.ts';
+import { decryptData, deriveKeyForPath, encryptPathId } from '../crypto/browser-crypto.ts';
+
+const MANIFEST_PATH = '.contextmate/path-manifest';
+
+export async function resolveFilePaths(
+  apiClient: ApiClient,
+  vaultKeyRaw: Uint8Array,
+  files: FileMetadata[]
+): Promise<FileMetadata[]> {
+  const manifestId = await encryptPathId(vaultKeyRaw, MANIFEST_PATH);
+  if (!files.some((f) => f.path === manifestId)) return files;
+
+  const { data } = await apiClient.downloadFile(manifestId);
+  const manifestKey = await deriveKeyForPath(vaultKeyRaw, MANIFEST_PATH);
+  const decrypted = await decryptData(new Uint8Array(data), manifestKey);
+  const manifest = JSON.parse(new TextDecoder().decode(decrypted)) as { paths: Record<string, string> };
+
+  // Files not in the manifest are plaintext leftovers the CLI is still migrating
+  const resolved: FileMetadata[] = [];
+  for (const file of files) {
+    const path = manifest.paths[file.path];
+    if (path) resolved.push({ ...file, path, remotePath: file.path });
+  }
+  return resolved;
+}
@@ -14,6 +14,28 @@ function formatRelativeTime(ts: number): string {
   return `${days}d ago`;
 }
 
+function formatExpiry(ts: number): string {
+  const diff = Math.floor((ts - Date.now()) / 1000);
+  if (diff <= 0) return `expired ${formatRelativeTime(ts)}`;
+  const hours = Math.floor(diff / 3600);
+  if (hours < 24) return `in ${Math.max(hours, 1)}h`;
+  return `in ${Math.floor(hours / 24)}d`;
+}
+
+function isExpired(key: ApiKey): boolean {
+  return key.expiresAt !== null && key.expiresAt <= Date.now();
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'No expiry', days: null },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+];
+
 export function ApiKeysPanel() {
   const { apiClient } = useAuth();
   const [keys, setKeys] = useState<ApiKey[]>([]);
@@ -24,6 +46,7 @@ export function ApiKeysPanel() {
   const [name, setName] = useState('');
   const [scope, setScope] = useState('');
   const [permissions, setPermissions] = useState('read');
+  const [expiryDays, setExpiryDays] = useState('');
   const [creating, setCreating] = useState(false);
 
   // One-time key reveal
@@ -56,13 +79,15 @@ export function ApiKeysPanel() {
       const result = await apiClient.createApiKey(
         name.trim(),
         scope.trim() || '*',
-        permissions
+        permissions,
+        expiryDays ? Date.now() + Number(expiryDays) * DAY_MS : null
       );
       setRevealedKey(result.key);
       setCopied(false);
       setName('');
       setScope('');
       setPermissions('read');
+      setExpiryDays('');
       // Refresh the list to include the new key
       await fetchKeys();
     } catch (err) {
@@ -70,7 +95,7 @@ export function ApiKeysPanel() {
     } finally {
       setCreating(false);
     }
-  }, [apiClient, name, scope, permissions, fetchKeys]);
+  }, [apiClient, name, scope, permissions, expiryDays, fetchKeys]);
 
   const handleRevoke = useCallback(async (id: string) => {
     if (!apiClient) return;
@@ -117,7 +142,7 @@ export function ApiKeysPanel() {
           <input
             className="form-input"
             type="text"
-            placeholder="skills/* or *"
+            placeholder="skills/**, !**/secrets/** or *"
             value={scope}
             onChange={(e) => setScope(e.target.value)}
             disabled={creating}
@@ -129,8 +154,17 @@ export function ApiKeysPanel() {
             disabled={creating}
           >
             <option value="read">read</option>
-            <option value="write">write</option>
-            <option value="readwrite">readwrite</option>
+            <option value="read-write">read-write</option>
+          </select>
+          <select
+            className="form-select"
+            value={expiryDays}
+            onChange={(e) => setExpiryDays(e.target.value)}
+            disabled={creating}
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+            ))}
           </select>
           <button
             className="btn btn-primary"
@@ -187,18 +221,28 @@ export function ApiKeysPanel() {
                 <th>Scope</th>
                 <th>Permissions</th>
                 <th>Created</th>
+                <th>Last used</th>
+                <th>Requests</th>
+                <th>Expires</th>
                 <th>Status</th>
                 <th></th>
               </tr>
             </thead>
             <tbody>
               {activeKeys.map((key) => (
-                <tr key={key.id}>
+                <tr key={key.id} style={isExpired(key) ? { opacity: 0.5 } : undefined}>
                   <td>{key.name}</td>
                   <td><code>{key.scope}</code></td>
                   <td>{key.permissions}</td>
                   <td>{formatRelativeTime(key.createdAt)}</td>
-                  <td><span className="badge badge-active">Active</span></td>
+                  <td>{key.lastUsedAt !== null ? formatRelativeTime(key.lastUsedAt) : 'Never'}</td>
+                  <td>{key.requestCount}</td>
+                  <td>{key.expiresAt !== null ? formatExpiry(key.expiresAt) : 'Never'}</td>
+                  <td>
+                    {isExpired(key)
+                      ? <span className="badge badge-expired">Expired</span>
+                      : <span className="badge badge-active">Active</span>}
+                  </td>
                   <td>
                     <button
                       className="btn btn-secondary"
@@ -215,13 +259,16 @@ export function ApiKeysPanel() {
                   <td><code>{key.scope}</code></td>
                   <td>{key.permissions}</td>
                   <td>{formatRelativeTime(key.createdAt)}</td>
+                  <td>{key.lastUsedAt !== null ? formatRelativeTime(key.lastUsedAt) : 'Never'}</td>
+                  <td>{key.requestCount}</td>
+                  <td>{key.expiresAt !== null ? formatExpiry(key.expiresAt) : 'Never'}</td>
                   <td><span className="badge badge-revoked">Revoked</span></td>
                   <td></td>
                 </tr>
               ))}
               {keys.length === 0 && (
                 <tr>
-                  <td colSpan={6} style={{ textAlign: 'center', color: '#666' }}>
+                  <td colSpan={9} style={{ textAlign: 'center', color: '#666' }}>
                     No API keys yet. Create one above.
                   </td>
                 </tr>
@@ -213,7 +213,9 @@ export function DevicesPanel() {
   const handleRemoveDevice = useCallback(
     async (deviceId: string, deviceName: string) => {
       if (!apiClient) return;
-      if (!window.confirm(`Remove device "${deviceName}"? This cannot be undone.`)) return;
+      if (!window.confirm(
+        `Remove device "${deviceName}"? It is disconnected immediately and has to log in again to sync.`
+      )) return;
 
       try {
         setError(null);
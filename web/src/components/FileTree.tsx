@@ -1,6 +1,7 @@
 import { useEffect, useState, useMemo, useCallback } from 'react';
 import { useAuth } from '../context/AuthContext.tsx';
 import type { FileMetadata } from '../api/client.ts';
+import { resolveFilePaths } from '../api/path-manifest.ts';
 
 const COLLAPSED_KEY = 'contextmate-collapsed-folders';
 
@@ -218,7 +219,7 @@ interface FileTreeProps {
 }
 
 export function FileTree({ onSelect, selectedFile, onFileCountChange, onFilesLoaded }: FileTreeProps) {
-  const { apiClient } = useAuth();
+  const { apiClient, vaultKeyRaw } = useAuth();
   const [files, setFiles] = useState<FileMetadata[]>([]);
   const [filter, setFilter] = useState('');
   const [agentFilter, setAgentFilter] = useState('');
@@ -226,13 +227,13 @@ export function FileTree({ onSelect, selectedFile, onFileCountChange, onFilesLoa
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    if (!apiClient) return;
+    if (!apiClient || !vaultKeyRaw) return;
     let cancelled = false;
 
     async function load() {
       try {
         setLoading(true);
-        const list = await apiClient!.listFiles();
+        const list = await resolveFilePaths(apiClient!, vaultKeyRaw!, await apiClient!.listFiles());
         if (!cancelled) {
           setFiles(list);
           onFileCountChange(list.length);
@@ -250,7 +251,7 @@ export function FileTree({ onSelect, selectedFile, onFileCountChange, onFilesLoa
 
     load();
     return () => { cancelled = true; };
-  }, [apiClient, onFileCountChange, onFilesLoaded]);
+  }, [apiClient, vaultKeyRaw, onFileCountChange, onFilesLoaded]);
 
   const agents = useMemo(() => {
     const agentSet = new Set<string>();
@@ -280,8 +281,9 @@ export function FileTree({ onSelect, selectedFile, onFileCountChange, onFilesLoa
     if (!window.confirm(`Delete ${label}? This cannot be undone.`)) return;
 
     try {
+      const remotePaths = new Map(files.map((f) => [f.path, f.remotePath ?? f.path]));
       for (const p of paths) {
-        await apiClient.deleteFile(p);
+        await apiClient.deleteFile(remotePaths.get(p) ?? p);
       }
       setFiles((prev) => {
         const deleted = new Set(paths);
@@ -292,7 +294,7 @@ export function FileTree({ onSelect, selectedFile, onFileCountChange, onFilesLoa
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete');
     }
-  }, [apiClient, onFileCountChange]);
+  }, [apiClient, files, onFileCountChange]);
 
   const [collapsed, setCollapsed] = useState<Set<string>>(loadCollapsed);
   const handleToggle = useCallback((path: string) => {
@@ -1,6 +1,6 @@
 import { useEffect, useState, useCallback, useRef, type MouseEvent } from 'react';
 import { useAuth } from '../context/AuthContext.tsx';
-import { decryptData, encryptData, bytesToHex, deriveKeyForPath } from '../crypto/browser-crypto.ts';
+import { blobCounter, decryptData, encryptData, bytesToHex, deriveKeyForPath } from '../crypto/browser-crypto.ts';
 
 const IMAGE_EXTS = new Set(['.jpg', '.jpeg', '.png', '.gif', '.webp', '.svg', '.ico', '.bmp']);
 const CODE_EXTS: Record<string, string> = {
@@ -67,11 +67,14 @@ function simpleMarkdownToHtml(md: string): string {
 
 interface FileViewerProps {
   filePath: string;
+  // Server-side path ID when paths are encrypted; filePath is still used for the key
+  remotePath?: string;
   onDirtyChange?: (dirty: boolean) => void;
 }
 
-export function FileViewer({ filePath, onDirtyChange }: FileViewerProps) {
+export function FileViewer({ filePath, remotePath, onDirtyChange }: FileViewerProps) {
   const { apiClient, vaultKeyRaw } = useAuth();
+  const serverPath = remotePath ?? filePath;
   const [content, setContent] = useState('');
   const [imageBlobUrl, setImageBlobUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
@@ -80,6 +83,8 @@ export function FileViewer({ filePath, onDirtyChange }: FileViewerProps) {
   const [editContent, setEditContent] = useState('');
   const [saving, setSaving] = useState(false);
   const [version, setVersion] = useState(1);
+  // Counter of the blob we loaded; a save must be bound to a higher one
+  const [counter, setCounter] = useState(0);
   const dirtyRef = useRef(false);
   const fileType = getFileType(filePath);
 
@@ -109,13 +114,17 @@ export function FileViewer({ filePath, onDirtyChange }: FileViewerProps) {
         setEditing(false);
         setImageBlobUrl(null);
 
-        const { data, version: fileVersion } = await apiClient!.downloadFile(filePath);
+        const { data, version: fileVersion, chunked } = await apiClient!.downloadFile(serverPath);
+        if (chunked) {
+          throw new Error('This file is too large to open in the browser. Open it on a synced device.');
+        }
         const encrypted = new Uint8Array(data);
         const fileKey = await deriveKeyForPath(vaultKeyRaw!, filePath);
-        const decrypted = await decryptData(encrypted, fileKey);
+        const decrypted = await decryptData(encrypted, fileKey, filePath);
 
         if (!cancelled) {
           setVersion(fileVersion);
+          setCounter(blobCounter(encrypted));
 
           if (getFileType(filePath) === 'image') {
             const ext = getFileExt(filePath);
@@ -151,7 +160,7 @@ export function FileViewer({ filePath, onDirtyChange }: FileViewerProps) {
       // Clean up blob URL on unmount or path change
       setImageBlobUrl((prev) => { if (prev) URL.revokeObjectURL(prev); return null; });
     };
-  }, [filePath, apiClient, vaultKeyRaw]);
+  }, [filePath, serverPath, apiClient, vaultKeyRaw]);
 
   const handleSave = useCallback(async () => {
     if (!apiClient || !vaultKeyRaw) return;
@@ -162,29 +171,33 @@ export function FileViewer({ filePath, onDirtyChange }: FileViewerProps) {
 
       const fileKey = await deriveKeyForPath(vaultKeyRaw, filePath);
       const plaintext = new TextEncoder().encode(editContent);
-      const encrypted = await encryptData(plaintext, fileKey);
+      const nextCounter = Math.max(Date.now(), counter + 1);
+      const encrypted = await encryptData(plaintext, fileKey, { path: filePath, counter: nextCounter });
 
       // Compute hash of encrypted data for integrity
       const hashBuffer = await crypto.subtle.digest('SHA-256', encrypted as BufferSource);
       const hash = bytesToHex(new Uint8Array(hashBuffer));
 
       try {
-        await apiClient.uploadFile(filePath, encrypted.buffer as ArrayBuffer, version, hash);
+        await apiClient.uploadFile(serverPath, encrypted.buffer as ArrayBuffer, version, hash);
         setContent(editContent);
         setVersion(version + 1);
+        setCounter(nextCounter);
         setEditing(false);
       } catch (err) {
         // On version conflict, reload latest version and retry once
         if (err instanceof Error && err.message.includes('modified elsewhere')) {
-          const { version: latestVersion } = await apiClient.downloadFile(filePath);
-          // Retry save with latest version
-          const retryEncrypted = await encryptData(plaintext, fileKey);
+          const { data: latestData, version: latestVersion } = await apiClient.downloadFile(serverPath);
+          // Retry save with latest version, bound above the latest counter
+          const retryCounter = Math.max(Date.now(), blobCounter(new Uint8Array(latestData)) + 1, nextCounter);
+          const retryEncrypted = await encryptData(plaintext, fileKey, { path: filePath, counter: retryCounter });
           const retryHashBuffer = await crypto.subtle.digest('SHA-256', retryEncrypted as BufferSource);
           const retryHash = bytesToHex(new Uint8Array(retryHashBuffer));
-          await apiClient.uploadFile(filePath, retryEncrypted.buffer as ArrayBuffer, latestVersion, retryHash);
+          await apiClient.uploadFile(serverPath, retryEncrypted.buffer as ArrayBuffer, latestVersion, retryHash);
 
           setContent(editContent);
           setVersion(latestVersion + 1);
+          setCounter(retryCounter);
           setEditing(false);
         } else {
           throw err;
@@ -195,7 +208,7 @@ export function FileViewer({ filePath, onDirtyChange }: FileViewerProps) {
     } finally {
       setSaving(false);
     }
-  }, [apiClient, vaultKeyRaw, filePath, editContent, version]);
+  }, [apiClient, vaultKeyRaw, filePath, serverPath, editContent, version, counter]);
 
   if (loading) {
     return (
@@ -54,6 +54,7 @@ export function Layout() {
   }, []);
 
   const showSidebar = mainView === 'vault';
+  const selectedRemotePath = files.find((f) => f.path === selectedFile)?.remotePath;
 
   return (
     <div className="layout">
@@ -120,7 +121,7 @@ export function Layout() {
             </aside>
             <main className="main-content">
               {selectedFile ? (
-                <FileViewer filePath={selectedFile} onDirtyChange={(d) => { viewerDirtyRef.current = d; }} />
+                <FileViewer filePath={selectedFile} remotePath={selectedRemotePath} onDirtyChange={(d) => { viewerDirtyRef.current = d; }} />
               ) : (
                 <div className="empty-state">
                   <p>Select a file from the sidebar to view its contents.</p>
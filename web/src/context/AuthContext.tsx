@@ -2,6 +2,7 @@ import { createContext, useContext, useState, useCallback, useEffect, type React
 import {
   deriveKeyFromPassphrase,
   deriveSubKey,
+  decryptData,
   hashForAuth,
   hexToBytes,
   bytesToHex,
@@ -129,6 +130,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const logout = useCallback(() => {
+    // Revoke the token server-side too; the local session is cleared either way
+    state.apiClient?.logout().catch(() => {});
     clearSession();
     setState({
       isAuthenticated: false,
@@ -141,7 +144,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       serverUrl: '',
       sessionExpired: false,
     });
-  }, []);
+  }, [state.apiClient]);
 
   const login = useCallback(async (passphrase: string, serverUrl: string, userId: string) => {
     const client = new ApiClient(serverUrl);
@@ -168,23 +171,34 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // Derive master key from passphrase using Argon2id + per-user salt
     const { rawKey } = await deriveKeyFromPassphrase(passphrase, salt);
 
-    // Derive vault sub-key for encryption (info must match CLI: 'contextmate-vault-enc')
-    const { key: vaultKey, rawKey: vaultKeyRaw } = await deriveSubKey(rawKey, 'contextmate-vault-enc');
-
     // Derive auth sub-key for authentication
     const { rawKey: authRawKey } = await deriveSubKey(rawKey, 'contextmate-auth');
 
-    // Zero out intermediate key material (best-effort in JS)
-    rawKey.fill(0);
-
     // Hash auth key for server (BLAKE3)
     const authKeyHash = await hashForAuth(authRawKey);
     authRawKey.fill(0);
 
     // Authenticate with server
-    const { userId: confirmedUserId, token } = await client.login(authKeyHash);
+    const { userId: confirmedUserId, token, wrappedVaultKey } = await client.login(authKeyHash);
     client.setToken(token);
 
+    // After a passphrase change the original vault key is wrapped under the
+    // new master key; otherwise derive it (info must match CLI: 'contextmate-vault-enc')
+    let vaultKey: CryptoKey;
+    let vaultKeyRaw: Uint8Array;
+    try {
+      if (wrappedVaultKey) {
+        const { key: wrappingKey } = await deriveSubKey(rawKey, 'contextmate-vault-wrap');
+        vaultKeyRaw = await decryptData(hexToBytes(wrappedVaultKey), wrappingKey);
+        vaultKey = await importVaultKey(vaultKeyRaw);
+      } else {
+        ({ key: vaultKey, rawKey: vaultKeyRaw } = await deriveSubKey(rawKey, 'contextmate-vault-enc'));
+      }
+    } finally {
+      // Zero out intermediate key material (best-effort in JS)
+      rawKey.fill(0);
+    }
+
     // Persist session to localStorage
     saveSession({
       token,
@@ -3,9 +3,17 @@
 
 import { argon2id, blake3 } from 'hash-wasm';
 
-const VERSION = 1;
+// Format v2 adds a codec byte after the version; v3 adds a counter and binds
+// vault files to their path (src/crypto/encrypt.ts)
+const VERSION = 2;
+const LEGACY_VERSION = 1;
+const BOUND_VERSION = 3;
 const IV_LENGTH = 12;
 const VERSION_LENGTH = 4;
+const CODEC_LENGTH = 1;
+const COUNTER_LENGTH = 8;
+const CODEC_NONE = 0;
+const CODEC_DEFLATE = 1;
 
 // Argon2id parameters matching CLI (src/crypto/keys.ts)
 const ARGON2_TIME_COST = 3;
@@ -78,41 +86,103 @@ export async function deriveSubKey(
   return { key, rawKey };
 }
 
+export interface BlobBinding {
+  path: string;
+  counter: number;
+}
+
 export async function encryptData(
   plaintext: Uint8Array,
-  key: CryptoKey
+  key: CryptoKey,
+  binding?: BlobBinding
 ): Promise<Uint8Array> {
+  // Compress only when it helps, as the CLI does
+  const compressed = await pipeBytes(plaintext, new CompressionStream('deflate'));
+  const codec = compressed.byteLength < plaintext.byteLength ? CODEC_DEFLATE : CODEC_NONE;
+
+  const headerLength = VERSION_LENGTH + CODEC_LENGTH + (binding ? COUNTER_LENGTH : 0);
+  const header = new Uint8Array(headerLength);
+  const view = new DataView(header.buffer);
+  // Little-endian to match CLI (src/crypto/encrypt.ts)
+  view.setUint32(0, binding ? BOUND_VERSION : VERSION, true);
+  view.setUint8(VERSION_LENGTH, codec);
+  if (binding) view.setBigUint64(VERSION_LENGTH + CODEC_LENGTH, BigInt(binding.counter), true);
+
   const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const params: AesGcmParams = { name: 'AES-GCM', iv: toBuffer(iv) };
+  if (binding) params.additionalData = toBuffer(associatedData(header, binding.path));
   const ciphertext = new Uint8Array(
-    await crypto.subtle.encrypt({ name: 'AES-GCM', iv: toBuffer(iv) }, key, toBuffer(plaintext))
+    await crypto.subtle.encrypt(params, key, toBuffer(codec === CODEC_DEFLATE ? compressed : plaintext))
   );
 
-  const result = new Uint8Array(VERSION_LENGTH + IV_LENGTH + ciphertext.byteLength);
-  const view = new DataView(result.buffer as ArrayBuffer);
-  // Little-endian to match CLI (src/crypto/encrypt.ts)
-  view.setUint32(0, VERSION, true);
-  result.set(iv, VERSION_LENGTH);
-  result.set(ciphertext, VERSION_LENGTH + IV_LENGTH);
+  const result = new Uint8Array(headerLength + IV_LENGTH + ciphertext.byteLength);
+  result.set(header);
+  result.set(iv, headerLength);
+  result.set(ciphertext, headerLength + IV_LENGTH);
   return result;
 }
 
 export async function decryptData(
   encrypted: Uint8Array,
-  key: CryptoKey
+  key: CryptoKey,
+  path?: string
 ): Promise<Uint8Array> {
   const view = new DataView(encrypted.buffer as ArrayBuffer, encrypted.byteOffset, encrypted.byteLength);
   // Little-endian to match CLI (src/crypto/encrypt.ts)
   const version = view.getUint32(0, true);
-  if (version !== VERSION) {
+  let headerLength: number;
+  let codec: number;
+  if (version === LEGACY_VERSION) {
+    headerLength = VERSION_LENGTH;
+    codec = CODEC_NONE;
+  } else if (version === VERSION) {
+    headerLength = VERSION_LENGTH + CODEC_LENGTH;
+    codec = view.getUint8(VERSION_LENGTH);
+  } else if (version === BOUND_VERSION) {
+    if (path === undefined) {
+      throw new Error('This blob is bound to a file path, which is needed to decrypt it');
+    }
+    headerLength = VERSION_LENGTH + CODEC_LENGTH + COUNTER_LENGTH;
+    codec = view.getUint8(VERSION_LENGTH);
+  } else {
     throw new Error(`Unsupported encryption version: ${version}`);
   }
+  if (codec !== CODEC_NONE && codec !== CODEC_DEFLATE) {
+    throw new Error(`Unsupported compression codec: ${codec}`);
+  }
 
-  const iv = encrypted.slice(VERSION_LENGTH, VERSION_LENGTH + IV_LENGTH);
-  const ciphertext = encrypted.slice(VERSION_LENGTH + IV_LENGTH);
+  const iv = encrypted.slice(headerLength, headerLength + IV_LENGTH);
+  const ciphertext = encrypted.slice(headerLength + IV_LENGTH);
 
-  return new Uint8Array(
-    await crypto.subtle.decrypt({ name: 'AES-GCM', iv: toBuffer(iv) }, key, toBuffer(ciphertext))
-  );
+  const params: AesGcmParams = { name: 'AES-GCM', iv: toBuffer(iv) };
+  if (version === BOUND_VERSION) {
+    params.additionalData = toBuffer(associatedData(encrypted.slice(0, headerLength), path!));
+  }
+  const plaintext = new Uint8Array(await crypto.subtle.decrypt(params, key, toBuffer(ciphertext)));
+  return codec === CODEC_DEFLATE ? pipeBytes(plaintext, new DecompressionStream('deflate')) : plaintext;
+}
+
+/** The counter a blob was bound to, or 0 for blobs written without one. */
+export function blobCounter(encrypted: Uint8Array): number {
+  const view = new DataView(encrypted.buffer as ArrayBuffer, encrypted.byteOffset, encrypted.byteLength);
+  if (view.getUint32(0, true) !== BOUND_VERSION) return 0;
+  return Number(view.getBigUint64(VERSION_LENGTH + CODEC_LENGTH, true));
+}
+
+function associatedData(header: Uint8Array, path: string): Uint8Array {
+  const pathBytes = new TextEncoder().encode(path);
+  const aad = new Uint8Array(header.byteLength + pathBytes.byteLength);
+  aad.set(header);
+  aad.set(pathBytes, header.byteLength);
+  return aad;
+}
+
+async function pipeBytes(
+  data: Uint8Array,
+  transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const output = new Blob([toBuffer(data)]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(output).arrayBuffer());
 }
 
 export async function deriveKeyForPath(
@@ -161,6 +231,15 @@ async function hkdfDerive(ikm: Uint8Array, info: string): Promise<Uint8Array> {
   );
 }
 
+// Opaque path ID: keyed BLAKE3 of the vault path (matches CLI encryptPathId)
+export async function encryptPathId(
+  vaultKeyRaw: Uint8Array,
+  filePath: string
+): Promise<string> {
+  const pathIdKey = await hkdfDerive(vaultKeyRaw, 'contextmate-path-ids');
+  return await blake3(new TextEncoder().encode(filePath), 256, pathIdKey);
+}
+
 export async function hashForAuth(authKeyBytes: Uint8Array): Promise<string> {
   // BLAKE3 hash for server auth (matches CLI)
   return await blake3(authKeyBytes);